@@ -1,10 +1,17 @@
+import { router, useLocalSearchParams } from "expo-router";
 import { useEffect, useState } from "react";
-import { View } from "react-native";
+import { Alert, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import {
+  fetchSavedSearch,
+  savedSearchToFilters,
+} from "../../lib/api/savedSearches.api";
 import BottomNav from "../../lib/components/BottomNav";
 import ServicesHeader from "../../lib/components/ServicesHeader";
+import { useMessageOutbox } from "../../lib/hooks/useMessageOutbox";
+import { usePresenceTracking } from "../../lib/hooks/usePresence";
 import { useUnreadCounts } from "../../lib/hooks/useUnreadCounts";
-import { PageName } from "../../lib/types/custom.types";
+import { PageName, ServicesViewMode } from "../../lib/types/custom.types";
 import { FilterOptions } from "../../lib/types/filter.types";
 import ConversationsScreen from "../screens/ConversationsScreen";
 import CreateServiceScreen from "../screens/CreateServiceScreen";
@@ -17,6 +24,8 @@ const DEFAULT_FILTERS: FilterOptions = {
   priceRange: { min: null, max: null },
   minRating: null,
   location: "",
+  maxDistanceKm: null,
+  origin: null,
   sortBy: "newest",
 };
 
@@ -25,10 +34,14 @@ const DEFAULT_FILTERS: FilterOptions = {
  *  - Tab navigation state
  *  - Services header / filter visibility (Services tab only)
  *  - Forwarding badge counts to BottomNav
+ *  - Opening a saved search passed as the savedSearchId param
+ *  - Keeping the user's online presence while the app is open
+ *  - Sending messages queued in the outbox
  *
  * All business logic is delegated to hooks and child screens.
  */
 export default function MainScreen() {
+  const { savedSearchId } = useLocalSearchParams<{ savedSearchId?: string }>();
   const [activeTab, setActiveTab] = useState<PageName>("Services");
   // const insets = useSafeAreaInsets();
 
@@ -36,18 +49,40 @@ export default function MainScreen() {
   const [searchQuery, setSearchQuery] = useState("");
   const [filterModalVisible, setFilterModalVisible] = useState(false);
   const [filters, setFilters] = useState<FilterOptions>(DEFAULT_FILTERS);
+  const [viewMode, setViewMode] = useState<ServicesViewMode>("grid");
 
   // Badge counts via extracted hook
   const { counts, resetNotifications, refreshMessages } = useUnreadCounts();
 
+  usePresenceTracking();
+  useMessageOutbox();
+
   const hasActiveFilters =
     filters.categoryId !== null ||
     filters.priceRange.min !== null ||
     filters.priceRange.max !== null ||
     filters.minRating !== null ||
     (filters.location && filters.location.trim() !== "") ||
+    filters.maxDistanceKm !== null ||
     filters.sortBy !== "newest";
 
+  // Saved searches (from Settings or a new-match alert) open in Services
+  useEffect(() => {
+    if (!savedSearchId) return;
+    router.setParams({ savedSearchId: undefined });
+    fetchSavedSearch(savedSearchId)
+      .then((search) => {
+        const saved = savedSearchToFilters(search);
+        setSearchQuery(saved.searchQuery);
+        setFilters(saved.filters);
+        setViewMode("grid");
+        setActiveTab("Services");
+      })
+      .catch(() => {
+        Alert.alert("Error", "This saved search no longer exists.");
+      });
+  }, [savedSearchId]);
+
   // When the user navigates to Messages, refresh unread count
   useEffect(() => {
     if (activeTab === "Message") refreshMessages();
@@ -61,6 +96,8 @@ export default function MainScreen() {
           onSearchChange={setSearchQuery}
           onFilterPress={() => setFilterModalVisible(true)}
           hasActiveFilters={!!hasActiveFilters}
+          viewMode={viewMode}
+          onViewModeChange={setViewMode}
         />
       )}
 
@@ -78,6 +115,7 @@ export default function MainScreen() {
             onFilterModalClose={() => setFilterModalVisible(false)}
             filters={filters}
             onFiltersChange={setFilters}
+            viewMode={viewMode}
           />
         </View>
 
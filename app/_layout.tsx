@@ -17,6 +17,8 @@ export default function RootLayout() {
           <Stack.Screen name="service/[id]" />
           {/* Chat is a full-screen push route */}
           <Stack.Screen name="chat/[conversationId]" />
+          {/* Booking inbox is a full-screen push route */}
+          <Stack.Screen name="bookings/index" />
         </Stack>
       </KeyboardProvider>
     </SafeAreaProvider>
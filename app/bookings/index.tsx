@@ -0,0 +1,156 @@
+// app/bookings/index.tsx  ←  Booking inbox (full-screen push route)
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { fetchBookings } from "../../lib/api/bookings.api";
+import BookingList from "../../lib/components/BookingList";
+import { TabBar } from "../../lib/components/ui/TabBar";
+import { COLORS } from "../../lib/constants/theme";
+import { useCurrentUserId } from "../../lib/hooks/useCurrentUserId";
+import {
+  BookingRole,
+  BookingWithDetails,
+} from "../../lib/types/database.types";
+import { OPEN_BOOKING_STATUSES } from "../../lib/utils/bookings";
+
+const BOOKING_TABS = [
+  { key: "provider" as const, label: "Incoming" },
+  { key: "buyer" as const, label: "My Bookings" },
+];
+
+export default function BookingsScreen() {
+  const params = useLocalSearchParams<{
+    role?: string;
+    bookingId?: string;
+  }>();
+  const currentUserId = useCurrentUserId();
+  const [role, setRole] = useState<BookingRole>(
+    params.role === "buyer" ? "buyer" : "provider",
+  );
+  const [bookings, setBookings] = useState<BookingWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadBookings = useCallback(async () => {
+    try {
+      setBookings(await fetchBookings(role));
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setLoading(false);
+    }
+  }, [role]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadBookings();
+  }, [loadBookings]);
+
+  useEffect(() => {
+    if (params.role === "buyer" || params.role === "provider") {
+      setRole(params.role);
+    }
+  }, [params.role]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadBookings();
+    setRefreshing(false);
+  }, [loadBookings]);
+
+  const handleBookingUpdated = (updated: BookingWithDetails) => {
+    setBookings((prev) => prev.map((b) => (b.id === updated.id ? updated : b)));
+  };
+
+  const open = bookings.filter((b) => OPEN_BOOKING_STATUSES.includes(b.status));
+  const past = bookings.filter(
+    (b) => !OPEN_BOOKING_STATUSES.includes(b.status),
+  );
+
+  return (
+    <SafeAreaView className="flex-1 bg-white">
+      <View className="flex-row items-center px-4 py-3 border-b border-slate-100">
+        <TouchableOpacity onPress={() => router.back()} className="p-1 mr-3">
+          <Ionicons name="arrow-back" size={22} color={COLORS.slate900} />
+        </TouchableOpacity>
+        <Text className="text-xl font-bold text-slate-900">Bookings</Text>
+      </View>
+
+      <TabBar tabs={BOOKING_TABS} activeTab={role} onTabPress={setRole} />
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={COLORS.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1 bg-slate-50"
+          contentContainerStyle={{ padding: 16, paddingBottom: 40 }}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={COLORS.primary}
+            />
+          }
+        >
+          {bookings.length === 0 ? (
+            <View className="items-center py-16">
+              <Ionicons
+                name="calendar-outline"
+                size={48}
+                color={COLORS.slate300}
+              />
+              <Text className="mt-3 text-slate-700 font-semibold">
+                No bookings yet
+              </Text>
+              <Text className="mt-1 text-xs text-slate-400 text-center">
+                {role === "provider"
+                  ? "Booking requests for your services will show up here."
+                  : "Services you book will show up here."}
+              </Text>
+            </View>
+          ) : (
+            <>
+              {open.length > 0 && (
+                <>
+                  <Text className="text-xs font-semibold text-slate-400 uppercase tracking-widest mb-2">
+                    Open
+                  </Text>
+                  <BookingList
+                    bookings={open}
+                    currentUserId={currentUserId}
+                    highlightBookingId={params.bookingId}
+                    onBookingUpdated={handleBookingUpdated}
+                  />
+                </>
+              )}
+              {past.length > 0 && (
+                <>
+                  <Text className="text-xs font-semibold text-slate-400 uppercase tracking-widest mb-2 mt-2">
+                    Past
+                  </Text>
+                  <BookingList
+                    bookings={past}
+                    currentUserId={currentUserId}
+                    highlightBookingId={params.bookingId}
+                    onBookingUpdated={handleBookingUpdated}
+                  />
+                </>
+              )}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
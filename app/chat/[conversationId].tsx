@@ -6,191 +6,867 @@ import { router, useLocalSearchParams } from "expo-router";
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   Image,
+  Linking,
+  Modal,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   StyleSheet,
   Text,
+  Pressable,
   TextInput,
   TouchableOpacity,
   View,
+  ViewToken,
 } from "react-native";
 import { KeyboardAvoidingView } from "react-native-keyboard-controller";
 import { SafeAreaView } from "react-native-safe-area-context";
 import {
+  canEditMessage,
+  editMessage,
+  fetchConversation,
   fetchMessages,
-  getImageUrl,
-  IMAGE_MESSAGE_PREFIX,
-  isImageMessage,
+  fetchMessagesAround,
+  fetchNewerMessages,
+  getOrCreateConversation,
+  markConversationJobDone,
   markMessagesAsRead,
-  sendMessage,
+  markMessagesDelivered,
+  setConversationService,
   subscribeToMessages,
+  unsendMessage,
 } from "../../lib/api/messaging.api";
+import { subscribeToInbox } from "../../lib/api/inbox.api";
+import { isUserBlocked, unblockUser } from "../../lib/api/moderation.api";
+import {
+  discardOutboxEntry,
+  enqueueMessage,
+  retryOutboxEntry,
+  subscribeToOutbox,
+} from "../../lib/api/outbox.api";
 import { COLORS } from "../../lib/constants/theme";
+import { fetchLastSeen } from "../../lib/api/presence.api";
+import { respondToQuote } from "../../lib/api/quotes.api";
+import QuoteCard from "../../lib/components/QuoteCard";
+import QuickReplySheet from "../../lib/components/QuickReplySheet";
+import QuoteFormModal from "../../lib/components/QuoteFormModal";
+import ReportSheet from "../../lib/components/ReportSheet";
+import ServiceContextSheet from "../../lib/components/ServiceContextSheet";
 import { useCurrentUserId } from "../../lib/hooks/useCurrentUserId";
-import { MessageWithSender } from "../../lib/types/database.types";
-import { formatTime } from "../../lib/utils/date";
-import { uploadImage } from "../../lib/utils/imageUtils";
+import { useModeration } from "../../lib/hooks/useModeration";
+import { useOnlineUsers } from "../../lib/hooks/usePresence";
+import {
+  ConversationWithDetails,
+  Message,
+  MessageAttachment,
+  MessagesCursor,
+  MessageWithSender,
+  OutboxEntry,
+  Quote,
+} from "../../lib/types/database.types";
+import {
+  formatLastSeen,
+  formatRelativeTime,
+  formatTime,
+} from "../../lib/utils/date";
+import { formatDisplayName, formatPrice } from "../../lib/utils/format";
+
+// Most attachments one message can carry (enforced by the database)
+const MAX_ATTACHMENTS = 10;
+
+// How far (px) the user may scroll up from the latest message and still
+// count as reading it
+const AT_LATEST_THRESHOLD = 80;
+
+// Send a typing event at most this often while the user types…
+const TYPING_THROTTLE_MS = 2000;
+// …and show "typing…" until this long after the last one arrives
+const TYPING_TIMEOUT_MS = 4000;
+
+// A message counts as seen once this much of it is on screen
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 60 };
+
+// How long a message opened from search stays highlighted
+const HIGHLIGHT_MS = 2500;
 
 type LocalMessage = MessageWithSender & {
   _status?: "sending" | "sent" | "failed";
-  _localId?: string;
 };
 
+// Shows a message still in the outbox as it will look once sent
+function outboxEntryToMessage(entry: OutboxEntry): LocalMessage {
+  return {
+    id: entry.client_id,
+    client_id: entry.client_id,
+    conversation_id: entry.conversation_id,
+    sender_id: entry.sender_id,
+    content: entry.content,
+    attachments: entry.attachments,
+    is_read: false,
+    delivered_at: null,
+    read_at: null,
+    edited_at: null,
+    deleted_at: null,
+    quote_id: null,
+    auto_reply: false,
+    created_at: entry.created_at,
+    _status: entry.status === "failed" ? "failed" : "sending",
+  };
+}
+
+// Quotes carried by a page of messages, by ID
+function quotesById(messages: MessageWithSender[]): Record<string, Quote> {
+  const quotes: Record<string, Quote> = {};
+  messages.forEach((m) => {
+    if (m.quote) quotes[m.quote.id] = m.quote;
+  });
+  return quotes;
+}
+
+// Add a page of older messages below (before, in time) the loaded ones,
+// skipping any realtime already delivered
+function appendOlderMessages(
+  loaded: LocalMessage[],
+  older: MessageWithSender[],
+): LocalMessage[] {
+  const ids = new Set(loaded.map((m) => m.id));
+  return [
+    ...loaded,
+    ...older
+      .filter((m) => !ids.has(m.id))
+      .map((m) => ({ ...m, _status: "sent" as const })),
+  ];
+}
+
+// Add a page of newer messages above (after, in time) the loaded ones
+function prependNewerMessages(
+  loaded: LocalMessage[],
+  newer: MessageWithSender[],
+): LocalMessage[] {
+  const ids = new Set(loaded.map((m) => m.id));
+  return [
+    ...newer
+      .filter((m) => !ids.has(m.id))
+      .map((m) => ({ ...m, _status: "sent" as const })),
+    ...loaded,
+  ];
+}
+
 export default function ChatScreen() {
-  const { conversationId } = useLocalSearchParams<{ conversationId: string }>();
+  // messageId: open the chat at this message (from message search)
+  const { conversationId, messageId } = useLocalSearchParams<{
+    conversationId: string;
+    messageId?: string;
+  }>();
   const currentUserId = useCurrentUserId();
+  // Stored messages, newest first; the list is inverted so the latest sits
+  // at the bottom
   const [messages, setMessages] = useState<LocalMessage[]>([]);
+  // This conversation's messages still waiting in the outbox, oldest first
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // Messages from the other side that arrived while scrolled up
+  const [newCount, setNewCount] = useState(0);
   const [messageText, setMessageText] = useState("");
-  const [uploadingImage, setUploadingImage] = useState(false);
+  // Picked images waiting to be sent; the typed text becomes their caption
+  const [pendingAttachments, setPendingAttachments] = useState<
+    MessageAttachment[]
+  >([]);
+  const [viewerUrl, setViewerUrl] = useState<string | null>(null);
+  // Own message whose text is in the input for editing
+  const [editingMessage, setEditingMessage] = useState<LocalMessage | null>(
+    null,
+  );
+  const [conversation, setConversation] =
+    useState<ConversationWithDetails | null>(null);
+  const [markingDone, setMarkingDone] = useState(false);
+  // Latest state of the quotes sent in this conversation, by ID; kept
+  // current from the inbox
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const [quoteFormOpen, setQuoteFormOpen] = useState(false);
+  // Quote being countered in the quote form
+  const [counterTo, setCounterTo] = useState<Quote | null>(null);
+  const [respondingQuoteId, setRespondingQuoteId] = useState<string | null>(
+    null,
+  );
+  const [quickRepliesOpen, setQuickRepliesOpen] = useState(false);
+  const [contextSheetOpen, setContextSheetOpen] = useState(false);
   const flatListRef = useRef<FlatList>(null);
+  // Cursor for the next older page (null once the first message is loaded)
+  const nextCursorRef = useRef<MessagesCursor | null>(null);
+  const loadingOlderRef = useRef(false);
+  // Cursor for the next newer page. Set while the loaded messages stop
+  // short of the latest one (opened at a search result): realtime messages
+  // are then counted, not shown, until the user catches up or jumps there.
+  const newerCursorRef = useRef<MessagesCursor | null>(null);
+  const loadingNewerRef = useRef(false);
+  const [detached, setDetached] = useState(!!messageId);
+  const detachedRef = useRef(detached);
+  detachedRef.current = detached;
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Message to bring into view once it is rendered
+  const pendingScrollIdRef = useRef<string | null>(null);
+  const listDataRef = useRef<LocalMessage[]>([]);
+  const atLatestRef = useRef(true);
+  const sendTypingRef = useRef<((userId: string) => void) | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const [otherLastSeen, setOtherLastSeen] = useState<string | null>(null);
 
-  const scrollToBottom = (animated = true) => {
-    setTimeout(() => flatListRef.current?.scrollToEnd({ animated }), 80);
-  };
+  const otherProfile =
+    conversation &&
+    (conversation.buyer_id === currentUserId
+      ? conversation.seller_profile
+      : conversation.buyer_profile);
+  const otherUserId = otherProfile?.id ?? null;
+  const onlineUserIds = useOnlineUsers(otherUserId ? [otherUserId] : []);
+  const otherOnline = !!otherUserId && onlineUserIds.has(otherUserId);
+  const otherName = formatDisplayName(otherProfile ?? null, "this user");
+  // The current user blocked the other participant
+  const [blockedByMe, setBlockedByMe] = useState(false);
+  const { reportTarget, report, closeReport, confirmBlock } = useModeration(
+    () => setBlockedByMe(true),
+  );
+
+  // replace = drop the loaded messages (they don't reach the latest)
+  const showLatestPage = useCallback(
+    async (replace: boolean) => {
+      if (replace) {
+        setMessages([]);
+        newerCursorRef.current = null;
+        detachedRef.current = false;
+        setDetached(false);
+      }
+      const page = await fetchMessages(conversationId);
+      nextCursorRef.current = page.nextCursor;
+      // Keeps anything realtime delivered while the page loaded
+      setMessages((prev) => appendOlderMessages(prev, page.messages));
+      setQuotes((prev) => ({ ...quotesById(page.messages), ...prev }));
+    },
+    [conversationId],
+  );
 
   const loadMessages = useCallback(async () => {
     try {
-      const data = await fetchMessages(conversationId);
-      setMessages(data.map((m) => ({ ...m, _status: "sent" })));
-      scrollToBottom(false);
+      if (messageId) {
+        try {
+          const page = await fetchMessagesAround(conversationId, messageId);
+          nextCursorRef.current = page.nextCursor;
+          newerCursorRef.current = page.newerCursor;
+          setMessages(
+            page.messages.map((m) => ({ ...m, _status: "sent" as const })),
+          );
+          setQuotes((prev) => ({ ...quotesById(page.messages), ...prev }));
+          setDetached(!!page.newerCursor);
+          setHighlightedId(messageId);
+          pendingScrollIdRef.current = messageId;
+          return;
+        } catch {
+          // Unsent or hidden since the search; show the latest instead
+        }
+      }
+      await showLatestPage(!!messageId);
     } catch (err) {
       console.error("Error loading messages:", err);
     } finally {
       setLoading(false);
     }
-  }, [conversationId]);
+  }, [conversationId, messageId, showLatestPage]);
+
+  const scrollToLatest = (animated = true) => {
+    if (detachedRef.current) {
+      setHighlightedId(null);
+      showLatestPage(true).catch(() =>
+        Alert.alert("Error", "Failed to load the latest messages"),
+      );
+    }
+    flatListRef.current?.scrollToOffset({ offset: 0, animated });
+    setNewCount(0);
+  };
 
-  const markAsRead = useCallback(async () => {
+  const handleLoadOlder = async () => {
+    const cursor = nextCursorRef.current;
+    if (!cursor || loadingOlderRef.current) return;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
     try {
-      await markMessagesAsRead(conversationId);
-    } catch (err) {
-      console.error("Error marking messages as read:", err);
+      const page = await fetchMessages(conversationId, cursor);
+      nextCursorRef.current = page.nextCursor;
+      setMessages((prev) => appendOlderMessages(prev, page.messages));
+      setQuotes((prev) => ({ ...quotesById(page.messages), ...prev }));
+    } catch {
+      Alert.alert("Error", "Failed to load older messages");
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
     }
+  };
+
+  const handleLoadNewer = async () => {
+    const cursor = newerCursorRef.current;
+    if (!cursor || loadingNewerRef.current) return;
+    loadingNewerRef.current = true;
+    try {
+      const page = await fetchNewerMessages(conversationId, cursor);
+      newerCursorRef.current = page.newerCursor;
+      setMessages((prev) => prependNewerMessages(prev, page.messages));
+      setQuotes((prev) => ({ ...quotesById(page.messages), ...prev }));
+      if (!page.newerCursor) setDetached(false);
+    } catch {
+      Alert.alert("Error", "Failed to load newer messages");
+    } finally {
+      loadingNewerRef.current = false;
+    }
+  };
+
+  const handleScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const atLatest = e.nativeEvent.contentOffset.y <= AT_LATEST_THRESHOLD;
+    atLatestRef.current = atLatest;
+    if (atLatest && !detachedRef.current) setNewCount(0);
+  };
+
+  // Brings the message opened from search into view once rendered
+  useEffect(() => {
+    const id = pendingScrollIdRef.current;
+    if (!id || loading) return;
+    const index = listDataRef.current.findIndex((m) => m.id === id);
+    if (index < 0) return;
+    pendingScrollIdRef.current = null;
+    requestAnimationFrame(() =>
+      flatListRef.current?.scrollToIndex({
+        index,
+        viewPosition: 0.5,
+        animated: false,
+      }),
+    );
+  }, [messages, loading]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // Messages above the target aren't measured yet; jump close, then retry
+  const handleScrollToIndexFailed = (info: {
+    index: number;
+    averageItemLength: number;
+  }) => {
+    flatListRef.current?.scrollToOffset({
+      offset: info.index * info.averageItemLength,
+      animated: false,
+    });
+    setTimeout(
+      () =>
+        flatListRef.current?.scrollToIndex({
+          index: info.index,
+          viewPosition: 0.5,
+          animated: false,
+        }),
+      100,
+    );
+  };
+
+  // Read receipts cover only messages that were actually on screen.
+  // Requested IDs are remembered so scrolling back doesn't resend them.
+  const viewableRef = useRef<LocalMessage[]>([]);
+  const readRequestedRef = useRef(new Set<string>());
+  const currentUserIdRef = useRef(currentUserId);
+  currentUserIdRef.current = currentUserId;
+
+  const markViewedAsRead = useCallback(() => {
+    const userId = currentUserIdRef.current;
+    if (!userId) return;
+    const ids = viewableRef.current
+      .filter(
+        (m) =>
+          m.sender_id !== userId &&
+          !m.read_at &&
+          !readRequestedRef.current.has(m.id),
+      )
+      .map((m) => m.id);
+    if (ids.length === 0) return;
+    ids.forEach((id) => readRequestedRef.current.add(id));
+    markMessagesAsRead(ids).catch(() => {
+      ids.forEach((id) => readRequestedRef.current.delete(id));
+    });
+  }, []);
+
+  const onViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken[] }) => {
+      viewableRef.current = viewableItems.map((v) => v.item as LocalMessage);
+      markViewedAsRead();
+    },
+  ).current;
+
+  // Messages may render before the user ID has loaded
+  useEffect(() => {
+    if (currentUserId) markViewedAsRead();
+  }, [currentUserId, markViewedAsRead]);
+
+  useEffect(() => {
+    fetchConversation(conversationId)
+      .then(setConversation)
+      .catch(() => setConversation(null));
   }, [conversationId]);
 
   useEffect(() => {
     loadMessages();
-    markAsRead();
-
-    const unsubscribe = subscribeToMessages(conversationId, (newMessage) => {
-      setMessages((prev) => {
-        const localIdx = prev.findIndex(
-          (m) =>
-            m._status === "sending" &&
-            m.content === newMessage.content &&
-            m.sender_id === newMessage.sender_id,
-        );
-        if (localIdx !== -1) {
-          const updated = [...prev];
-          updated[localIdx] = { ...newMessage, _status: "sent" };
-          return updated;
+
+    // The sender's own messages may come here or from the outbox first
+    const addMessage = (newMessage: Message) => {
+      setMessages((prev) =>
+        prev.some((m) => m.id === newMessage.id)
+          ? prev
+          : [{ ...newMessage, _status: "sent" }, ...prev],
+      );
+    };
+
+    const unsubscribeOutbox = subscribeToOutbox({
+      onChange: (entries) =>
+        setOutboxEntries(
+          entries.filter((e) => e.conversation_id === conversationId),
+        ),
+      onSent: (_entry, message) => {
+        if (message.conversation_id === conversationId && !detachedRef.current)
+          addMessage(message);
+      },
+    });
+
+    const onMessage = (newMessage: Message) => {
+      // Would leave a gap after the loaded messages; the pill catches up
+      if (!detachedRef.current) addMessage(newMessage);
+      if (newMessage.sender_id !== currentUserId) {
+        markMessagesDelivered([newMessage.id]).catch(() => {});
+        setOtherTyping(false);
+        if (!atLatestRef.current || detachedRef.current) {
+          setNewCount((n) => n + 1);
+        }
+      }
+    };
+
+    // Receipts (and other changes) to messages already shown
+    const onUpdate = (updated: Message) => {
+      setMessages((prev) =>
+        prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m)),
+      );
+    };
+
+    const onTyping = (userId: string) => {
+      if (userId === currentUserId) return;
+      setOtherTyping(true);
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = setTimeout(
+        () => setOtherTyping(false),
+        TYPING_TIMEOUT_MS,
+      );
+    };
+
+    const { sendTyping, unsubscribe } = subscribeToMessages(conversationId, {
+      onMessage,
+      onUpdate,
+      onTyping,
+    });
+    sendTypingRef.current = sendTyping;
+
+    return () => {
+      unsubscribe();
+      unsubscribeOutbox();
+      sendTypingRef.current = null;
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    };
+  }, [conversationId, currentUserId, loadMessages]);
+
+  // Quotes sent and answered on either side, and the service the
+  // conversation concerns; realtime message events don't carry them
+  useEffect(() => {
+    if (!currentUserId) return;
+    return subscribeToInbox(currentUserId, {
+      onConversationUpdated: (id) => {
+        if (id !== conversationId) return;
+        fetchConversation(conversationId)
+          .then(setConversation)
+          .catch(() => {});
+      },
+      onQuoteUpdated: (quote) => {
+        if (quote.conversation_id !== conversationId) return;
+        setQuotes((prev) => ({ ...prev, [quote.id]: quote }));
+        if (quote.status === "accepted") {
+          setConversation((prev) =>
+            prev ? { ...prev, accepted_quote_id: quote.id } : prev,
+          );
         }
-        return [...prev, { ...newMessage, _status: "sent" }];
-      });
-      markAsRead();
-      scrollToBottom();
+      },
+    });
+  }, [conversationId, currentUserId]);
+
+  // Last seen is only needed while the other participant is offline; refetch
+  // when they leave so it reflects that visit
+  useEffect(() => {
+    if (!otherUserId || otherOnline) return;
+    fetchLastSeen([otherUserId])
+      .then((lastSeen) => setOtherLastSeen(lastSeen[otherUserId] ?? null))
+      .catch(() => setOtherLastSeen(null));
+  }, [otherUserId, otherOnline]);
+
+  useEffect(() => {
+    if (!otherUserId) return;
+    isUserBlocked(otherUserId)
+      .then(setBlockedByMe)
+      .catch(() => {});
+  }, [otherUserId]);
+
+  const handleUnblock = async () => {
+    if (!otherUserId) return;
+    try {
+      await unblockUser(otherUserId);
+      setBlockedByMe(false);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to unblock user");
+    }
+  };
+
+  const handleHeaderMenu = () => {
+    if (!otherUserId) return;
+    Alert.alert(otherName, undefined, [
+      ...(conversation?.buyer_id === currentUserId && !blockedByMe
+        ? [{ text: "New conversation", onPress: handleNewConversation }]
+        : []),
+      {
+        text: "Report",
+        onPress: () =>
+          report({ entity_type: "profile", entity_id: otherUserId }),
+      },
+      blockedByMe
+        ? { text: "Unblock", onPress: handleUnblock }
+        : {
+            text: "Block",
+            style: "destructive" as const,
+            onPress: () => confirmBlock(otherUserId, otherName),
+          },
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  // A separate thread with the same provider, e.g. for another job
+  const handleNewConversation = () => {
+    if (!conversation) return;
+    Alert.alert(
+      "Start a new conversation?",
+      "This one stays in your messages.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Start",
+          onPress: async () => {
+            try {
+              const created = await getOrCreateConversation({
+                seller_id: conversation.seller_id,
+                service_id: conversation.service_id,
+                new_thread: true,
+              });
+              router.replace(`/chat/${created.id}`);
+            } catch (error: any) {
+              Alert.alert(
+                "Error",
+                error?.code === "42501"
+                  ? error.message
+                  : "Failed to start conversation",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleChangeService = async (serviceId: string | null) => {
+    setContextSheetOpen(false);
+    if (!conversation || serviceId === conversation.service_id) return;
+    try {
+      await setConversationService(conversation.id, serviceId);
+      setConversation(await fetchConversation(conversation.id));
+    } catch (error: any) {
+      Alert.alert(
+        "Error",
+        error?.code === "22023"
+          ? error.message
+          : "Could not change what this conversation is about.",
+      );
+    }
+  };
+
+  const handleChangeText = (text: string) => {
+    setMessageText(text);
+    const now = Date.now();
+    if (
+      currentUserId &&
+      text.trim() &&
+      now - lastTypingSentRef.current > TYPING_THROTTLE_MS
+    ) {
+      lastTypingSentRef.current = now;
+      sendTypingRef.current?.(currentUserId);
+    }
+  };
+
+  const updateMessage = (id: string, changes: Partial<LocalMessage>) => {
+    setMessages((prev) =>
+      prev.map((m) => (m.id === id ? { ...m, ...changes } : m)),
+    );
+  };
+
+  const handleMessageLongPress = (msg: LocalMessage) => {
+    if (msg.deleted_at) return;
+    if (msg.sender_id !== currentUserId) {
+      Alert.alert("Message", undefined, [
+        {
+          text: "Report",
+          onPress: () => report({ entity_type: "message", entity_id: msg.id }),
+        },
+        { text: "Cancel", style: "cancel" },
+      ]);
+      return;
+    }
+    if (msg._status === "failed") {
+      Alert.alert("Message not sent", undefined, [
+        { text: "Retry", onPress: () => retryOutboxEntry(msg.id) },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => discardOutboxEntry(msg.id),
+        },
+        { text: "Cancel", style: "cancel" },
+      ]);
+      return;
+    }
+    // Quotes stay as sent; they are answered, not edited
+    if (msg._status !== "sent" || msg.quote_id) return;
+    Alert.alert("Message", undefined, [
+      ...(canEditMessage(msg)
+        ? [{ text: "Edit", onPress: () => startEditing(msg) }]
+        : []),
+      {
+        text: "Unsend",
+        style: "destructive" as const,
+        onPress: () => confirmUnsend(msg),
+      },
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  const startEditing = (msg: LocalMessage) => {
+    setEditingMessage(msg);
+    setMessageText(msg.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setMessageText("");
+  };
+
+  const handleSaveEdit = async (msg: LocalMessage) => {
+    const text = messageText.trim();
+    cancelEditing();
+    if (text === msg.content) return;
+
+    updateMessage(msg.id, {
+      content: text,
+      edited_at: new Date().toISOString(),
     });
+    try {
+      const saved = await editMessage(msg.id, text);
+      updateMessage(msg.id, saved);
+    } catch (error: any) {
+      updateMessage(msg.id, { content: msg.content, edited_at: msg.edited_at });
+      Alert.alert("Error", error.message || "Could not edit the message.");
+    }
+  };
 
-    return unsubscribe;
-  }, [conversationId, loadMessages, markAsRead]);
+  const confirmUnsend = (msg: LocalMessage) => {
+    Alert.alert("Unsend message?", "It will be removed for everyone.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Unsend",
+        style: "destructive",
+        onPress: async () => {
+          if (editingMessage?.id === msg.id) cancelEditing();
+          updateMessage(msg.id, {
+            content: "",
+            attachments: [],
+            deleted_at: new Date().toISOString(),
+          });
+          try {
+            const saved = await unsendMessage(msg.id);
+            updateMessage(msg.id, saved);
+          } catch (error: any) {
+            updateMessage(msg.id, {
+              content: msg.content,
+              attachments: msg.attachments,
+              deleted_at: null,
+            });
+            Alert.alert(
+              "Error",
+              error.message || "Could not unsend the message.",
+            );
+          }
+        },
+      },
+    ]);
+  };
 
   const handleSend = async () => {
+    if (editingMessage) {
+      await handleSaveEdit(editingMessage);
+      return;
+    }
     const text = messageText.trim();
-    if (!text || !currentUserId) return;
+    const attachments = pendingAttachments;
+    if ((!text && attachments.length === 0) || !currentUserId) return;
     setMessageText("");
+    setPendingAttachments([]);
+    lastTypingSentRef.current = 0;
 
-    const localId = `local_${Date.now()}`;
-    const optimistic: LocalMessage = {
-      id: localId,
-      _localId: localId,
+    scrollToLatest();
+    // Sent from the outbox, which keeps retrying while offline
+    await enqueueMessage({
       conversation_id: conversationId,
       sender_id: currentUserId,
       content: text,
-      is_read: false,
-      created_at: new Date().toISOString(),
-      _status: "sending",
-    };
-
-    setMessages((prev) => [...prev, optimistic]);
-    scrollToBottom();
-
-    try {
-      await sendMessage({ conversation_id: conversationId, content: text });
-    } catch {
-      setMessages((prev) =>
-        prev.map((m) =>
-          m._localId === localId ? { ...m, _status: "failed" } : m,
-        ),
-      );
-    }
+      attachments,
+    });
   };
 
   const handlePickImage = async () => {
+    const remaining = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (remaining <= 0) return;
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ["images"],
       quality: 0.8,
       allowsEditing: false,
+      allowsMultipleSelection: true,
+      selectionLimit: remaining,
     });
-    if (result.canceled || !result.assets?.[0]) return;
-    const uri = result.assets[0].uri;
+    if (result.canceled || !result.assets?.length) return;
 
-    const localId = `local_img_${Date.now()}`;
-    const optimistic: LocalMessage = {
-      id: localId,
-      _localId: localId,
-      conversation_id: conversationId,
-      sender_id: currentUserId!,
-      content: `${IMAGE_MESSAGE_PREFIX}${uri}`,
-      is_read: false,
-      created_at: new Date().toISOString(),
-      _status: "sending",
-    };
+    const picked: MessageAttachment[] = result.assets.map((asset) => ({
+      kind: "image",
+      url: asset.uri,
+      mime: asset.mimeType ?? null,
+      size: asset.fileSize ?? null,
+      width: asset.width || null,
+      height: asset.height || null,
+      thumbnail_url: null,
+      name: asset.fileName ?? null,
+    }));
+    setPendingAttachments((prev) =>
+      [...prev, ...picked].slice(0, MAX_ATTACHMENTS),
+    );
+  };
 
-    setMessages((prev) => [...prev, optimistic]);
-    scrollToBottom();
-    setUploadingImage(true);
+  const removePendingAttachment = (url: string) => {
+    setPendingAttachments((prev) => prev.filter((a) => a.url !== url));
+  };
 
-    try {
-      const publicUrl = await uploadImage(uri, "chat-images");
-      const content = `${IMAGE_MESSAGE_PREFIX}${publicUrl}`;
-      await sendMessage({ conversation_id: conversationId, content });
-      setMessages((prev) =>
-        prev.map((m) =>
-          m._localId === localId ? { ...m, content, _status: "sent" } : m,
-        ),
-      );
-    } catch {
-      setMessages((prev) =>
-        prev.map((m) =>
-          m._localId === localId ? { ...m, _status: "failed" } : m,
-        ),
-      );
-    } finally {
-      setUploadingImage(false);
-    }
+  const handleMarkJobDone = () => {
+    if (!conversation) return;
+    Alert.alert(
+      "Mark job as done?",
+      "The buyer will be able to leave a verified review.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Mark done",
+          onPress: async () => {
+            try {
+              setMarkingDone(true);
+              const updated = await markConversationJobDone(conversation);
+              setConversation((prev) =>
+                prev ? { ...prev, ...updated } : prev,
+              );
+            } catch {
+              Alert.alert("Error", "Could not mark the job as done.");
+            } finally {
+              setMarkingDone(false);
+            }
+          },
+        },
+      ],
+    );
   };
 
-  const handleRetry = async (msg: LocalMessage) => {
-    setMessages((prev) =>
-      prev.map((m) =>
-        m._localId === msg._localId ? { ...m, _status: "sending" } : m,
-      ),
+  const handleQuoteSent = (quote: Quote) => {
+    setQuotes((prev) => ({ ...prev, [quote.id]: quote }));
+    setQuoteFormOpen(false);
+    setCounterTo(null);
+    scrollToLatest();
+  };
+
+  // Added after anything already typed, to review before sending
+  const handleQuickReply = (text: string) => {
+    setQuickRepliesOpen(false);
+    handleChangeText(messageText.trim() ? `${messageText} ${text}` : text);
+  };
+
+  const handleCounterQuote = (quote: Quote) => {
+    setCounterTo(quote);
+    setQuoteFormOpen(true);
+  };
+
+  const handleRespondToQuote = (
+    quote: Quote,
+    status: "accepted" | "declined",
+  ) => {
+    const accepting = status === "accepted";
+    Alert.alert(
+      accepting ? "Accept this quote?" : "Decline this quote?",
+      accepting
+        ? `You agree to ${formatPrice(quote.total)} for the items listed.`
+        : "You can still discuss the price in the chat.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: accepting ? "Accept" : "Decline",
+          style: accepting ? "default" : "destructive",
+          onPress: async () => {
+            try {
+              setRespondingQuoteId(quote.id);
+              const updated = await respondToQuote(quote, status);
+              setQuotes((prev) => ({ ...prev, [updated.id]: updated }));
+            } catch (error: any) {
+              Alert.alert(
+                "Error",
+                error.message || "Could not answer the quote.",
+              );
+            } finally {
+              setRespondingQuoteId(null);
+            }
+          },
+        },
+      ],
     );
-    try {
-      await sendMessage({
-        conversation_id: conversationId,
-        content: msg.content,
-      });
-    } catch {
-      setMessages((prev) =>
-        prev.map((m) =>
-          m._localId === msg._localId ? { ...m, _status: "failed" } : m,
-        ),
-      );
-    }
   };
 
+  // Queued messages sit below (after) the stored ones, newest first, once
+  // the latest messages are loaded
+  const sentClientIds = new Set(messages.map((m) => m.client_id));
+  const listData: LocalMessage[] = [
+    ...(detached ? [] : outboxEntries)
+      .filter((e) => !sentClientIds.has(e.client_id))
+      .map(outboxEntryToMessage)
+      .reverse(),
+    ...messages,
+  ];
+  listDataRef.current = listData;
+
+  // "Seen" goes under the newest of the user's messages that has been read
+  const lastReadOwnId = listData.find(
+    (m) => m.sender_id === currentUserId && m.read_at,
+  )?.id;
+
   const renderMessage = ({
     item,
     index,
@@ -199,9 +875,8 @@ export default function ChatScreen() {
     index: number;
   }) => {
     const isOwn = item.sender_id === currentUserId;
-    const isImage = isImageMessage(item.content);
-    const imgUrl = isImage ? getImageUrl(item.content) : null;
-    const prevItem = index > 0 ? messages[index - 1] : null;
+    const hasAttachments = item.attachments.length > 0;
+    const prevItem = listData[index + 1] ?? null;
     const isFirstInGroup = !prevItem || prevItem.sender_id !== item.sender_id;
 
     return (
@@ -210,34 +885,52 @@ export default function ChatScreen() {
           styles.msgRow,
           isOwn ? styles.msgRowOwn : styles.msgRowOther,
           isFirstInGroup && styles.msgFirstInGroup,
+          item.id === highlightedId && styles.msgRowHighlighted,
         ]}
       >
-        <View style={[styles.bubbleWrap, isOwn && styles.bubbleWrapOwn]}>
-          {isImage && imgUrl ? (
-            <View
-              style={[
-                styles.imageBubble,
-                isOwn ? styles.imageBubbleOwn : styles.imageBubbleOther,
-                item._status === "failed" && styles.bubbleFailed,
-              ]}
-            >
-              <Image
-                source={{ uri: imgUrl }}
-                style={styles.chatImage}
-                resizeMode="cover"
-              />
-              {item._status === "sending" && (
-                <View style={styles.imageLoadingOverlay}>
-                  <ActivityIndicator size="small" color="#fff" />
-                </View>
-              )}
+        <Pressable
+          onLongPress={() => handleMessageLongPress(item)}
+          style={[styles.bubbleWrap, isOwn && styles.bubbleWrapOwn]}
+        >
+          {item.deleted_at && (
+            <View style={[styles.bubble, styles.tombstone]}>
+              <Text style={styles.tombstoneText}>
+                {isOwn ? "You unsent a message" : "Message removed"}
+              </Text>
             </View>
-          ) : (
+          )}
+          {item.quote_id &&
+            !item.deleted_at &&
+            (quotes[item.quote_id] ? (
+              <QuoteCard
+                quote={quotes[item.quote_id]}
+                currentUserId={currentUserId}
+                busy={respondingQuoteId === item.quote_id}
+                onAccept={(quote) => handleRespondToQuote(quote, "accepted")}
+                onDecline={(quote) => handleRespondToQuote(quote, "declined")}
+                onCounter={handleCounterQuote}
+              />
+            ) : (
+              <View style={[styles.bubble, styles.tombstone]}>
+                <ActivityIndicator size="small" color={COLORS.slate400} />
+              </View>
+            ))}
+          {hasAttachments && (
+            <MessageAttachments
+              attachments={item.attachments}
+              isOwn={isOwn}
+              sending={item._status === "sending"}
+              failed={item._status === "failed"}
+              onOpenImage={setViewerUrl}
+            />
+          )}
+          {!!item.content && (
             <View
               style={[
                 styles.bubble,
                 isOwn ? styles.bubbleOwn : styles.bubbleOther,
                 item._status === "failed" && styles.bubbleFailed,
+                hasAttachments && styles.captionBubble,
               ]}
             >
               <Text style={[styles.bubbleText, isOwn && styles.bubbleTextOwn]}>
@@ -247,6 +940,12 @@ export default function ChatScreen() {
           )}
 
           <View style={[styles.statusRow, isOwn && styles.statusRowOwn]}>
+            {item.auto_reply && (
+              <Text style={styles.timeText}>Auto-reply ·</Text>
+            )}
+            {item.edited_at && !item.deleted_at && (
+              <Text style={styles.timeText}>edited ·</Text>
+            )}
             <Text style={styles.timeText}>{formatTime(item.created_at)}</Text>
             {isOwn && (
               <>
@@ -259,15 +958,15 @@ export default function ChatScreen() {
                 )}
                 {item._status === "sent" && (
                   <Ionicons
-                    name="checkmark-done"
+                    name={item.delivered_at ? "checkmark-done" : "checkmark"}
                     size={13}
-                    color="#3b82f6"
+                    color={item.read_at ? "#3b82f6" : COLORS.slate400}
                     style={styles.statusIcon}
                   />
                 )}
                 {item._status === "failed" && (
                   <TouchableOpacity
-                    onPress={() => handleRetry(item)}
+                    onPress={() => retryOutboxEntry(item.id)}
                     style={styles.retryBtn}
                   >
                     <AntDesign
@@ -281,11 +980,34 @@ export default function ChatScreen() {
               </>
             )}
           </View>
-        </View>
+          {item.id === lastReadOwnId && item.read_at && (
+            <Text style={styles.seenText}>Seen {formatTime(item.read_at)}</Text>
+          )}
+        </Pressable>
       </View>
     );
   };
 
+  const canSend =
+    !!messageText.trim() ||
+    (editingMessage
+      ? editingMessage.attachments.length > 0
+      : pendingAttachments.length > 0);
+  const canAttach =
+    !editingMessage && pendingAttachments.length < MAX_ATTACHMENTS;
+  // Buyers answer quotes; only the provider starts one
+  const canQuote =
+    !!conversation &&
+    conversation.seller_id === currentUserId &&
+    !editingMessage;
+  const headerStatus = otherTyping
+    ? "typing…"
+    : otherOnline
+      ? "Online"
+      : otherLastSeen
+        ? formatLastSeen(otherLastSeen)
+        : null;
+
   if (loading) {
     return (
       <View style={styles.loaderWrap}>
@@ -311,79 +1033,491 @@ export default function ChatScreen() {
           <View style={styles.headerCenter}>
             <View style={styles.headerAvatar}>
               <Ionicons name="chatbubbles" size={18} color="#3b82f6" />
+              {otherOnline && <View style={styles.headerOnlineDot} />}
+            </View>
+            <View style={styles.headerText}>
+              <Text style={styles.headerTitle} numberOfLines={1}>
+                {otherProfile
+                  ? formatDisplayName(otherProfile, "Chat")
+                  : "Chat"}
+              </Text>
+              {headerStatus && (
+                <Text
+                  style={[
+                    styles.headerStatus,
+                    (otherTyping || otherOnline) && styles.headerStatusActive,
+                  ]}
+                  numberOfLines={1}
+                >
+                  {headerStatus}
+                </Text>
+              )}
             </View>
-            <Text style={styles.headerTitle}>Chat</Text>
           </View>
+          {otherUserId && (
+            <TouchableOpacity onPress={handleHeaderMenu} style={styles.backBtn}>
+              <Ionicons
+                name="ellipsis-vertical"
+                size={20}
+                color={COLORS.slate900}
+              />
+            </TouchableOpacity>
+          )}
         </View>
 
-        <FlatList
-          ref={flatListRef}
-          data={messages}
-          keyExtractor={(item) => item._localId ?? item.id}
-          renderItem={renderMessage}
-          contentContainerStyle={styles.listContent}
-          showsVerticalScrollIndicator={false}
-          ListEmptyComponent={
-            <View style={styles.emptyWrap}>
-              <Ionicons
-                name="chatbubbles-outline"
-                size={52}
-                color={COLORS.slate300}
+        {conversation && (
+          <ServiceContextCard
+            conversation={conversation}
+            onChange={() => setContextSheetOpen(true)}
+          />
+        )}
+
+        {conversation && (
+          <JobStatusBar
+            conversation={conversation}
+            isSeller={conversation.seller_id === currentUserId}
+            marking={markingDone}
+            onMarkDone={handleMarkJobDone}
+          />
+        )}
+
+        <View style={styles.listWrap}>
+          <FlatList
+            ref={flatListRef}
+            data={listData}
+            inverted
+            keyExtractor={(item) => item.client_id ?? item.id}
+            renderItem={renderMessage}
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+            onScroll={handleScroll}
+            scrollEventThrottle={100}
+            onEndReached={handleLoadOlder}
+            onEndReachedThreshold={0.5}
+            onStartReached={handleLoadNewer}
+            onStartReachedThreshold={0.5}
+            onScrollToIndexFailed={handleScrollToIndexFailed}
+            onViewableItemsChanged={onViewableItemsChanged}
+            viewabilityConfig={VIEWABILITY_CONFIG}
+            // Keeps the visible messages in place as new ones arrive below
+            // while scrolled up; follows them when at the latest
+            maintainVisibleContentPosition={{
+              minIndexForVisible: 0,
+              autoscrollToTopThreshold: AT_LATEST_THRESHOLD,
+            }}
+            ListFooterComponent={
+              loadingOlder ? (
+                <ActivityIndicator
+                  size="small"
+                  color={COLORS.primary}
+                  style={styles.olderLoader}
+                />
+              ) : null
+            }
+            ListEmptyComponent={
+              // Inverted lists flip their empty component too
+              <View style={[styles.emptyWrap, styles.emptyWrapInverted]}>
+                <Ionicons
+                  name="chatbubbles-outline"
+                  size={52}
+                  color={COLORS.slate300}
+                />
+                <Text style={styles.emptyTitle}>No messages yet</Text>
+                <Text style={styles.emptySubtitle}>Say hello!</Text>
+              </View>
+            }
+          />
+
+          {(newCount > 0 || detached) && (
+            <TouchableOpacity
+              onPress={() => scrollToLatest()}
+              style={styles.newPill}
+            >
+              <Ionicons name="arrow-down" size={14} color="#fff" />
+              <Text style={styles.newPillText}>
+                {newCount === 0
+                  ? "Latest messages"
+                  : newCount === 1
+                    ? "1 new message"
+                    : `${newCount} new messages`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {blockedByMe ? (
+          <View style={styles.blockedBar}>
+            <Text style={styles.blockedText} numberOfLines={2}>
+              You blocked {otherName}. Unblock them to send messages.
+            </Text>
+            <TouchableOpacity onPress={handleUnblock} style={styles.jobBarBtn}>
+              <Text style={styles.jobBarBtnText}>Unblock</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            {pendingAttachments.length > 0 && (
+              <FlatList
+                horizontal
+                data={pendingAttachments}
+                keyExtractor={(item) => item.url}
+                style={styles.pendingTray}
+                contentContainerStyle={styles.pendingTrayContent}
+                showsHorizontalScrollIndicator={false}
+                renderItem={({ item }) => (
+                  <View>
+                    <Image
+                      source={{ uri: item.url }}
+                      style={styles.pendingThumb}
+                    />
+                    <TouchableOpacity
+                      onPress={() => removePendingAttachment(item.url)}
+                      style={styles.pendingRemove}
+                    >
+                      <Ionicons name="close" size={12} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                )}
               />
-              <Text style={styles.emptyTitle}>No messages yet</Text>
-              <Text style={styles.emptySubtitle}>Say hello!</Text>
+            )}
+
+            {editingMessage && (
+              <View style={styles.editBar}>
+                <Ionicons name="pencil" size={14} color="#2563eb" />
+                <Text style={styles.editBarText} numberOfLines={1}>
+                  Editing message
+                </Text>
+                <TouchableOpacity
+                  onPress={cancelEditing}
+                  style={styles.editBarBtn}
+                >
+                  <Ionicons name="close" size={16} color={COLORS.slate500} />
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <View style={[styles.inputBar]}>
+              <TouchableOpacity
+                onPress={handlePickImage}
+                disabled={!canAttach}
+                style={styles.imageBtn}
+              >
+                <Ionicons
+                  name="image-outline"
+                  size={22}
+                  color={canAttach ? COLORS.slate500 : COLORS.slate300}
+                />
+              </TouchableOpacity>
+              {canQuote && (
+                <TouchableOpacity
+                  onPress={() => setQuoteFormOpen(true)}
+                  style={styles.imageBtn}
+                >
+                  <Ionicons
+                    name="pricetag-outline"
+                    size={21}
+                    color={COLORS.slate500}
+                  />
+                </TouchableOpacity>
+              )}
+              {canQuote && (
+                <TouchableOpacity
+                  onPress={() => setQuickRepliesOpen(true)}
+                  style={styles.imageBtn}
+                >
+                  <Ionicons
+                    name="flash-outline"
+                    size={21}
+                    color={COLORS.slate500}
+                  />
+                </TouchableOpacity>
+              )}
+
+              <TextInput
+                value={messageText}
+                onChangeText={handleChangeText}
+                placeholder={
+                  pendingAttachments.length > 0
+                    ? "Add a caption…"
+                    : "Type a message…"
+                }
+                placeholderTextColor={COLORS.slate400}
+                multiline
+                maxLength={1000}
+                style={styles.textInput}
+                onSubmitEditing={handleSend}
+              />
+
+              <TouchableOpacity
+                onPress={handleSend}
+                disabled={!canSend}
+                style={[styles.sendBtn, !canSend && styles.sendBtnDisabled]}
+              >
+                <Ionicons
+                  name="send"
+                  size={18}
+                  color={canSend ? "#fff" : COLORS.slate400}
+                />
+              </TouchableOpacity>
             </View>
-          }
-          onContentSizeChange={() => scrollToBottom(false)}
+          </>
+        )}
+      </KeyboardAvoidingView>
+
+      <ReportSheet target={reportTarget} onClose={closeReport} />
+
+      <QuoteFormModal
+        visible={quoteFormOpen}
+        conversationId={conversationId}
+        counterTo={counterTo}
+        onClose={() => {
+          setQuoteFormOpen(false);
+          setCounterTo(null);
+        }}
+        onSent={handleQuoteSent}
+      />
+
+      {conversation && (
+        <ServiceContextSheet
+          visible={contextSheetOpen}
+          providerId={conversation.seller_id}
+          selectedServiceId={conversation.service_id}
+          onClose={() => setContextSheetOpen(false)}
+          onSelect={handleChangeService}
         />
+      )}
 
-        <View style={[styles.inputBar]}>
+      <QuickReplySheet
+        visible={quickRepliesOpen}
+        values={{
+          buyerFirstName: conversation?.buyer_profile?.first_name,
+          serviceTitle: conversation?.service?.title,
+        }}
+        onClose={() => setQuickRepliesOpen(false)}
+        onSelect={handleQuickReply}
+      />
+
+      <Modal
+        visible={!!viewerUrl}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setViewerUrl(null)}
+      >
+        <View style={styles.viewer}>
+          {viewerUrl && (
+            <Image
+              source={{ uri: viewerUrl }}
+              style={styles.viewerImage}
+              resizeMode="contain"
+            />
+          )}
           <TouchableOpacity
-            onPress={handlePickImage}
-            disabled={uploadingImage}
-            style={styles.imageBtn}
+            onPress={() => setViewerUrl(null)}
+            style={styles.viewerClose}
           >
-            {uploadingImage ? (
-              <ActivityIndicator size="small" color="#3b82f6" />
-            ) : (
-              <Ionicons
-                name="image-outline"
-                size={22}
-                color={COLORS.slate500}
+            <Ionicons name="close" size={22} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+// ── Attachments ───────────────────────────────────────────────────────────────
+
+// Images as one large picture or a two-column grid; videos and files as
+// cards that open the file
+const MessageAttachments = ({
+  attachments,
+  isOwn,
+  sending,
+  failed,
+  onOpenImage,
+}: {
+  attachments: MessageAttachment[];
+  isOwn: boolean;
+  sending: boolean;
+  failed: boolean;
+  onOpenImage: (url: string) => void;
+}) => {
+  const images = attachments.filter((a) => a.kind === "image");
+  const others = attachments.filter((a) => a.kind !== "image");
+
+  return (
+    <View style={[styles.attachments, failed && styles.bubbleFailed]}>
+      {images.length > 0 && (
+        <View
+          style={[
+            styles.imageBubble,
+            isOwn ? styles.imageBubbleOwn : styles.imageBubbleOther,
+            images.length > 1 && styles.imageGrid,
+          ]}
+        >
+          {images.map((image) => (
+            <TouchableOpacity
+              key={image.url}
+              activeOpacity={0.9}
+              disabled={sending}
+              onPress={() => onOpenImage(image.url)}
+            >
+              <Image
+                source={{ uri: image.url }}
+                style={images.length > 1 ? styles.gridImage : styles.chatImage}
+                resizeMode="cover"
               />
+            </TouchableOpacity>
+          ))}
+          {sending && (
+            <View style={styles.imageLoadingOverlay}>
+              <ActivityIndicator size="small" color="#fff" />
+            </View>
+          )}
+        </View>
+      )}
+      {others.map((file) => (
+        <TouchableOpacity
+          key={file.url}
+          disabled={sending}
+          onPress={() => Linking.openURL(file.url)}
+          style={styles.fileCard}
+        >
+          <Ionicons
+            name={file.kind === "video" ? "videocam" : "document-attach"}
+            size={20}
+            color="#2563eb"
+          />
+          <View style={styles.fileInfo}>
+            <Text style={styles.fileName} numberOfLines={1}>
+              {file.name ?? (file.kind === "video" ? "Video" : "File")}
+            </Text>
+            {file.size !== null && (
+              <Text style={styles.fileSize}>{formatFileSize(file.size)}</Text>
             )}
-          </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
-          <TextInput
-            value={messageText}
-            onChangeText={setMessageText}
-            placeholder="Type a message…"
-            placeholderTextColor={COLORS.slate400}
-            multiline
-            maxLength={1000}
-            style={styles.textInput}
-            onSubmitEditing={handleSend}
+// ── Service context ───────────────────────────────────────────────────────────
+
+// Which service the conversation is about, if any. Either side can change
+// it until the job is marked done.
+const ServiceContextCard = ({
+  conversation,
+  onChange,
+}: {
+  conversation: ConversationWithDetails;
+  onChange: () => void;
+}) => {
+  const { service } = conversation;
+  return (
+    <View style={styles.contextCard}>
+      <Pressable
+        disabled={!service}
+        onPress={() => service && router.push(`/service/${service.id}`)}
+        style={styles.contextMain}
+      >
+        {service?.image_url ? (
+          <Image
+            source={{ uri: service.image_url }}
+            style={styles.contextThumb}
           />
+        ) : (
+          <View style={[styles.contextThumb, styles.contextThumbEmpty]}>
+            <Ionicons
+              name={service ? "briefcase-outline" : "chatbubbles-outline"}
+              size={16}
+              color={COLORS.slate500}
+            />
+          </View>
+        )}
+        <View style={styles.contextText}>
+          <Text style={styles.contextTitle} numberOfLines={1}>
+            {service?.title ?? "General enquiry"}
+          </Text>
+          <Text style={styles.contextSubtitle} numberOfLines={1}>
+            {service
+              ? formatPrice(service.price)
+              : "Not about a specific service"}
+          </Text>
+        </View>
+      </Pressable>
+      {!conversation.job_completed_at && (
+        <TouchableOpacity onPress={onChange} style={styles.contextBtn}>
+          <Text style={styles.contextBtnText}>Change</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
 
+// ── Job status ────────────────────────────────────────────────────────────────
+
+// Sellers mark the job done here; that unlocks a verified review for the
+// buyer, who gets a shortcut to the reviews tab.
+const JobStatusBar = ({
+  conversation,
+  isSeller,
+  marking,
+  onMarkDone,
+}: {
+  conversation: ConversationWithDetails;
+  isSeller: boolean;
+  marking: boolean;
+  onMarkDone: () => void;
+}) => {
+  if (conversation.job_completed_at) {
+    return (
+      <View style={[styles.jobBar, styles.jobBarDone]}>
+        <Ionicons name="checkmark-circle" size={16} color={COLORS.success} />
+        <Text style={styles.jobBarText}>
+          Job marked done {formatRelativeTime(conversation.job_completed_at)}
+        </Text>
+        {!isSeller && !!conversation.service_id && (
           <TouchableOpacity
-            onPress={handleSend}
-            disabled={!messageText.trim()}
-            style={[
-              styles.sendBtn,
-              !messageText.trim() && styles.sendBtnDisabled,
-            ]}
+            onPress={() =>
+              router.push({
+                pathname: `/service/${conversation.service_id}`,
+                params: { tab: "reviews" },
+              } as any)
+            }
+            style={styles.jobBarBtn}
           >
-            <Ionicons
-              name="send"
-              size={18}
-              color={messageText.trim() ? "#fff" : COLORS.slate400}
-            />
+            <Text style={styles.jobBarBtnText}>Leave a review</Text>
           </TouchableOpacity>
-        </View>
-      </KeyboardAvoidingView>
-    </SafeAreaView>
+        )}
+      </View>
+    );
+  }
+
+  // Reviews are per service, so there is nothing to unlock without one
+  if (!isSeller || !conversation.service_id) return null;
+
+  return (
+    <View style={styles.jobBar}>
+      <Text style={styles.jobBarText}>Finished the job?</Text>
+      <TouchableOpacity
+        onPress={onMarkDone}
+        disabled={marking}
+        style={styles.jobBarBtn}
+      >
+        {marking ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Text style={styles.jobBarBtnText}>Mark job done</Text>
+        )}
+      </TouchableOpacity>
+    </View>
   );
-}
+};
 
 const styles = StyleSheet.create({
   root: { flex: 1, backgroundColor: COLORS.slate50 },
@@ -420,7 +1554,70 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  headerOnlineDot: {
+    position: "absolute",
+    bottom: 0,
+    right: 0,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "#22c55e",
+    borderWidth: 2,
+    borderColor: COLORS.white,
+  },
+  headerText: { flex: 1 },
   headerTitle: { fontSize: 16, fontWeight: "700", color: COLORS.slate900 },
+  headerStatus: { fontSize: 12, color: COLORS.slate400, marginTop: 1 },
+  headerStatusActive: { color: COLORS.success },
+  contextCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.slate100,
+  },
+  contextMain: { flex: 1, flexDirection: "row", alignItems: "center", gap: 10 },
+  contextThumb: { width: 36, height: 36, borderRadius: 8 },
+  contextThumbEmpty: {
+    backgroundColor: COLORS.slate100,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  contextText: { flex: 1 },
+  contextTitle: { fontSize: 13, fontWeight: "600", color: COLORS.slate900 },
+  contextSubtitle: { fontSize: 11, color: COLORS.slate500, marginTop: 1 },
+  contextBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: COLORS.slate100,
+  },
+  contextBtnText: { fontSize: 12, fontWeight: "600", color: COLORS.slate700 },
+  jobBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.slate100,
+  },
+  jobBarDone: { backgroundColor: "#f0fdf4" },
+  jobBarText: { flex: 1, fontSize: 12, color: COLORS.slate600 },
+  jobBarBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "#2563eb",
+    minWidth: 90,
+    alignItems: "center",
+  },
+  jobBarBtnText: { fontSize: 12, fontWeight: "700", color: COLORS.white },
+  listWrap: { flex: 1 },
   listContent: { paddingVertical: 12, paddingHorizontal: 12, flexGrow: 1 },
   emptyWrap: {
     flex: 1,
@@ -429,12 +1626,39 @@ const styles = StyleSheet.create({
     paddingTop: 80,
     gap: 6,
   },
+  emptyWrapInverted: { transform: [{ scaleY: -1 }] },
+  olderLoader: { paddingVertical: 12 },
+  newPill: {
+    position: "absolute",
+    bottom: 12,
+    alignSelf: "center",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    backgroundColor: "#2563eb",
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 4,
+  },
+  newPillText: { fontSize: 13, fontWeight: "700", color: COLORS.white },
   emptyTitle: { fontSize: 16, fontWeight: "600", color: COLORS.slate400 },
   emptySubtitle: { fontSize: 13, color: COLORS.slate300 },
   msgRow: { flexDirection: "row", alignItems: "flex-end", marginBottom: 2 },
   msgRowOwn: { justifyContent: "flex-end" },
   msgRowOther: { justifyContent: "flex-start" },
   msgFirstInGroup: { marginTop: 10 },
+  msgRowHighlighted: {
+    backgroundColor: "#fef9c3",
+    borderRadius: 12,
+    marginHorizontal: -6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
   avatar: {
     width: 30,
     height: 30,
@@ -465,12 +1689,59 @@ const styles = StyleSheet.create({
     borderColor: COLORS.slate200,
   },
   bubbleFailed: { opacity: 0.6 },
+  tombstone: {
+    backgroundColor: "transparent",
+    borderWidth: 1,
+    borderColor: COLORS.slate200,
+  },
+  tombstoneText: { fontSize: 14, fontStyle: "italic", color: COLORS.slate400 },
   bubbleText: { fontSize: 15, color: COLORS.slate900, lineHeight: 21 },
   bubbleTextOwn: { color: COLORS.white },
   imageBubble: { borderRadius: 16, overflow: "hidden", position: "relative" },
   imageBubbleOwn: { borderBottomRightRadius: 4 },
   imageBubbleOther: { borderBottomLeftRadius: 4 },
   chatImage: { width: 200, height: 160 },
+  imageGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    width: 202,
+    gap: 2,
+  },
+  gridImage: { width: 100, height: 100 },
+  attachments: { gap: 4 },
+  captionBubble: { marginTop: 4 },
+  fileCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    width: 200,
+    padding: 10,
+    borderRadius: 14,
+    backgroundColor: COLORS.white,
+    borderWidth: 1,
+    borderColor: COLORS.slate200,
+  },
+  fileInfo: { flex: 1 },
+  fileName: { fontSize: 13, fontWeight: "600", color: COLORS.slate900 },
+  fileSize: { fontSize: 11, color: COLORS.slate400, marginTop: 1 },
+  viewer: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.95)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  viewerImage: { width: "100%", height: "80%" },
+  viewerClose: {
+    position: "absolute",
+    top: 48,
+    right: 20,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.15)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
   imageLoadingOverlay: {
     position: "absolute",
     inset: 0,
@@ -487,9 +1758,57 @@ const styles = StyleSheet.create({
   },
   statusRowOwn: { justifyContent: "flex-end" },
   timeText: { fontSize: 10, color: COLORS.slate400 },
+  seenText: {
+    fontSize: 10,
+    color: COLORS.slate400,
+    paddingHorizontal: 4,
+    marginTop: 1,
+  },
   statusIcon: { marginLeft: 2 },
   retryBtn: { flexDirection: "row", alignItems: "center", gap: 3 },
   retryText: { fontSize: 10, color: COLORS.danger, fontWeight: "600" },
+  pendingTray: {
+    flexGrow: 0,
+    backgroundColor: COLORS.white,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.slate100,
+  },
+  pendingTrayContent: { paddingHorizontal: 12, paddingTop: 10, gap: 8 },
+  pendingThumb: { width: 64, height: 64, borderRadius: 10 },
+  pendingRemove: {
+    position: "absolute",
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  editBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#eff6ff",
+    borderTopWidth: 1,
+    borderTopColor: COLORS.slate100,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  editBarText: { flex: 1, fontSize: 12, fontWeight: "600", color: "#2563eb" },
+  editBarBtn: { padding: 4 },
+  blockedBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: COLORS.white,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.slate100,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  blockedText: { flex: 1, fontSize: 13, color: COLORS.slate500 },
   inputBar: {
     flexDirection: "row",
     alignItems: "flex-end",
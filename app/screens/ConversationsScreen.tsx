@@ -13,17 +13,39 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import { subscribeToInbox } from "../../lib/api/inbox.api";
 import {
   fetchConversations,
-  isImageMessage,
-  subscribeToConversations,
+  getMessagePreview,
 } from "../../lib/api/messaging.api";
 import { supabase } from "../../lib/api/supabase";
 import { COLORS } from "../../lib/constants/theme";
-import { ConversationWithDetails } from "../../lib/types/database.types";
+import ConversationActionsSheet from "../../lib/components/ConversationActionsSheet";
+import MessageSearchResults from "../../lib/components/MessageSearchResults";
+import SearchBar from "../../lib/components/SearchBar";
+import { useDebounce } from "../../lib/hooks/useDebounce";
+import { useOnlineUsers } from "../../lib/hooks/usePresence";
+import {
+  ConversationUserState,
+  ConversationWithDetails,
+} from "../../lib/types/database.types";
 import { formatRelativeTime } from "../../lib/utils/date";
 import { formatDisplayName } from "../../lib/utils/format";
 
+// Pinned conversations first (most recently pinned on top), then by the
+// latest message
+function sortConversations(
+  list: ConversationWithDetails[],
+): ConversationWithDetails[] {
+  return [...list].sort((a, b) => {
+    if (!!a.pinned_at !== !!b.pinned_at) return a.pinned_at ? -1 : 1;
+    if (a.pinned_at && b.pinned_at && a.pinned_at !== b.pinned_at) {
+      return a.pinned_at > b.pinned_at ? -1 : 1;
+    }
+    return b.last_message_at.localeCompare(a.last_message_at);
+  });
+}
+
 export default function ConversationsScreen() {
   const [conversations, setConversations] = useState<ConversationWithDetails[]>(
     [],
@@ -31,7 +53,24 @@ export default function ConversationsScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [actionsFor, setActionsFor] = useState<ConversationWithDetails | null>(
+    null,
+  );
+  // Searches message text across all conversations, archived included
+  const [searchQuery, setSearchQuery] = useState("");
+  const debouncedSearch = useDebounce(searchQuery.trim(), 300);
   const hasLoadedRef = useRef(false);
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  // Online dots are only available for the user's conversation partners
+  const onlineUserIds = useOnlineUsers(
+    currentUserId
+      ? conversations.map((c) =>
+          c.buyer_id === currentUserId ? c.seller_id : c.buyer_id,
+        )
+      : [],
+  );
 
   const loadConversations = useCallback(async (silent = false) => {
     try {
@@ -59,8 +98,53 @@ export default function ConversationsScreen() {
       } = await supabase.auth.getUser();
       if (!user) return;
       setCurrentUserId(user.id);
-      unsubscribe = subscribeToConversations(user.id, () => {
-        loadConversations(true);
+      unsubscribe = subscribeToInbox(user.id, {
+        onMessage: (message) => {
+          if (
+            !conversationsRef.current.some(
+              (c) => c.id === message.conversation_id,
+            )
+          ) {
+            // A conversation this list hasn't loaded yet
+            loadConversations(true);
+            return;
+          }
+          setConversations((prev) => {
+            const current = prev.find((c) => c.id === message.conversation_id);
+            if (!current) return prev;
+            const updated = {
+              ...current,
+              last_message: message,
+              last_message_at: message.created_at,
+              unread_count:
+                (current.unread_count || 0) +
+                (message.sender_id !== user.id ? 1 : 0),
+            };
+            return sortConversations([
+              updated,
+              ...prev.filter((c) => c.id !== current.id),
+            ]);
+          });
+        },
+        onMessagesUpdated: ({ conversation_id, read_count, last_message }) => {
+          setConversations((prev) =>
+            prev.map((c) =>
+              c.id === conversation_id
+                ? {
+                    ...c,
+                    last_message: last_message ?? undefined,
+                    unread_count: Math.max(
+                      0,
+                      (c.unread_count || 0) - read_count,
+                    ),
+                  }
+                : c,
+            ),
+          );
+        },
+        onConversationUpdated: () => {
+          loadConversations(true);
+        },
       });
     };
 
@@ -78,6 +162,27 @@ export default function ConversationsScreen() {
     }, [loadConversations]),
   );
 
+  const handleStateChange = (state: ConversationUserState) => {
+    setConversations((prev) =>
+      sortConversations(
+        prev.map((c) =>
+          c.id === state.conversation_id
+            ? {
+                ...c,
+                pinned_at: state.pinned_at,
+                muted_at: state.muted_at,
+                archived_at: state.archived_at,
+              }
+            : c,
+        ),
+      ),
+    );
+  };
+
+  const handleDelete = (conversationId: string) => {
+    setConversations((prev) => prev.filter((c) => c.id !== conversationId));
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
     loadConversations();
@@ -85,8 +190,7 @@ export default function ConversationsScreen() {
 
   const getPreview = (msg: ConversationWithDetails["last_message"]) => {
     if (!msg) return "No messages yet";
-    if (isImageMessage(msg.content)) return "📷 Photo";
-    return msg.content;
+    return getMessagePreview(msg);
   };
 
   const renderItem = ({ item }: { item: ConversationWithDetails }) => {
@@ -100,6 +204,7 @@ export default function ConversationsScreen() {
     return (
       <TouchableOpacity
         onPress={() => router.push(`/chat/${item.id}`)}
+        onLongPress={() => setActionsFor(item)}
         style={[styles.row, hasUnread && styles.rowUnread]}
         activeOpacity={0.7}
       >
@@ -114,7 +219,9 @@ export default function ConversationsScreen() {
               <Text style={styles.avatarText}>{initials}</Text>
             </View>
           )}
-          {hasUnread && <View style={styles.onlineDot} />}
+          {otherUser && onlineUserIds.has(otherUser.id) && (
+            <View style={styles.onlineDot} />
+          )}
         </View>
 
         <View style={styles.rowContent}>
@@ -125,12 +232,28 @@ export default function ConversationsScreen() {
             >
               {otherName}
             </Text>
+            {!!item.muted_at && (
+              <Ionicons
+                name="notifications-off"
+                size={13}
+                color={COLORS.slate400}
+                style={styles.stateIcon}
+              />
+            )}
+            {!!item.pinned_at && (
+              <Ionicons
+                name="pin"
+                size={13}
+                color={COLORS.slate400}
+                style={styles.stateIcon}
+              />
+            )}
             <Text style={styles.timeText}>
               {formatRelativeTime(item.last_message_at)}
             </Text>
           </View>
           <Text style={styles.serviceTitle} numberOfLines={1}>
-            {item.service?.title ?? "Service"}
+            {item.service?.title ?? "General enquiry"}
           </Text>
           <View style={styles.rowBottom}>
             <Text
@@ -140,7 +263,9 @@ export default function ConversationsScreen() {
               {preview}
             </Text>
             {hasUnread && (
-              <View style={styles.badge}>
+              <View
+                style={[styles.badge, !!item.muted_at && styles.badgeMuted]}
+              >
                 <Text style={styles.badgeText}>
                   {item.unread_count! > 99 ? "99+" : item.unread_count}
                 </Text>
@@ -152,6 +277,18 @@ export default function ConversationsScreen() {
     );
   };
 
+  const visibleConversations = conversations.filter(
+    (c) => !!c.archived_at === showArchived,
+  );
+  const archivedCount = showArchived
+    ? 0
+    : conversations.length - visibleConversations.length;
+  const actionsUser =
+    actionsFor &&
+    (currentUserId === actionsFor.buyer_id
+      ? actionsFor.seller_profile
+      : actionsFor.buyer_profile);
+
   if (loading) {
     return (
       <View style={styles.loader}>
@@ -165,30 +302,87 @@ export default function ConversationsScreen() {
     <View className="flex-1 bg-white">
       <View style={styles.root}>
         <View className="flex-row items-center justify-between bg-white px-5 pb-2 border-b border-slate-100">
-          <Text className="text-3xl font-bold text-slate-900">Messages</Text>
+          {showArchived ? (
+            <TouchableOpacity
+              onPress={() => setShowArchived(false)}
+              className="flex-row items-center"
+            >
+              <Ionicons name="chevron-back" size={26} color={COLORS.slate900} />
+              <Text className="text-3xl font-bold text-slate-900">
+                Archived
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <Text className="text-3xl font-bold text-slate-900">Messages</Text>
+          )}
           <TouchableOpacity onPress={onRefresh} style={styles.refreshBtn}>
             <Ionicons name="refresh" size={20} color={COLORS.slate500} />
           </TouchableOpacity>
         </View>
 
-        {conversations.length === 0 ? (
-          <View style={styles.emptyWrap}>
-            <Ionicons
-              name="chatbubbles-outline"
-              size={64}
-              color={COLORS.slate300}
-            />
-            <Text style={styles.emptyTitle}>No conversations yet</Text>
-            <Text style={styles.emptySubtitle}>
-              Start messaging a service provider by tapping Message on any
-              service.
-            </Text>
-          </View>
+        <View className="bg-white pt-3">
+          <SearchBar
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Search messages..."
+          />
+        </View>
+
+        {debouncedSearch ? (
+          <MessageSearchResults
+            query={debouncedSearch}
+            conversations={conversations}
+            currentUserId={currentUserId}
+          />
+        ) : visibleConversations.length === 0 && archivedCount === 0 ? (
+          showArchived ? (
+            <View style={styles.emptyWrap}>
+              <Ionicons
+                name="archive-outline"
+                size={64}
+                color={COLORS.slate300}
+              />
+              <Text style={styles.emptyTitle}>No archived conversations</Text>
+              <Text style={styles.emptySubtitle}>
+                Long-press a conversation to archive it.
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.emptyWrap}>
+              <Ionicons
+                name="chatbubbles-outline"
+                size={64}
+                color={COLORS.slate300}
+              />
+              <Text style={styles.emptyTitle}>No conversations yet</Text>
+              <Text style={styles.emptySubtitle}>
+                Start messaging a service provider by tapping Message on any
+                service.
+              </Text>
+            </View>
+          )
         ) : (
           <FlatList
-            data={conversations}
+            data={visibleConversations}
             keyExtractor={(item) => item.id}
             renderItem={renderItem}
+            ListHeaderComponent={
+              archivedCount > 0 ? (
+                <TouchableOpacity
+                  onPress={() => setShowArchived(true)}
+                  style={styles.archivedRow}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons
+                    name="archive-outline"
+                    size={20}
+                    color={COLORS.slate500}
+                  />
+                  <Text style={styles.archivedText}>Archived</Text>
+                  <Text style={styles.archivedCount}>{archivedCount}</Text>
+                </TouchableOpacity>
+              ) : null
+            }
             refreshControl={
               <RefreshControl
                 refreshing={refreshing}
@@ -200,6 +394,15 @@ export default function ConversationsScreen() {
             ItemSeparatorComponent={() => <View style={styles.separator} />}
           />
         )}
+
+        <ConversationActionsSheet
+          visible={!!actionsFor}
+          conversation={actionsFor}
+          title={formatDisplayName(actionsUser ?? null, "Conversation")}
+          onClose={() => setActionsFor(null)}
+          onChange={handleStateChange}
+          onDelete={handleDelete}
+        />
       </View>
     </View>
   );
@@ -263,6 +466,7 @@ const styles = StyleSheet.create({
   },
   nameTextBold: { fontWeight: "700" },
   timeText: { fontSize: 11, color: COLORS.slate400, marginLeft: 8 },
+  stateIcon: { marginLeft: 6 },
   serviceTitle: { fontSize: 12, color: COLORS.slate500, marginBottom: 3 },
   rowBottom: {
     flexDirection: "row",
@@ -271,6 +475,24 @@ const styles = StyleSheet.create({
   },
   previewText: { fontSize: 13, color: COLORS.slate400, flex: 1 },
   previewTextBold: { color: COLORS.slate900, fontWeight: "600" },
+  badgeMuted: { backgroundColor: COLORS.slate400 },
+  archivedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: COLORS.white,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.slate100,
+  },
+  archivedText: {
+    flex: 1,
+    marginLeft: 14,
+    fontSize: 15,
+    fontWeight: "600",
+    color: COLORS.slate900,
+  },
+  archivedCount: { fontSize: 13, color: COLORS.slate400 },
   badge: {
     backgroundColor: "#2563eb",
     borderRadius: 10,
@@ -4,7 +4,6 @@ import React, { useState } from "react";
 import {
   ActivityIndicator,
   Alert,
-  Image,
   KeyboardAvoidingView,
   Platform,
   ScrollView,
@@ -13,16 +12,25 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import {
+  saveServiceImages,
+  saveServicePackages,
+} from "../../lib/api/services.api";
 import { supabase } from "../../lib/api/supabase";
+import { DurationChips } from "../../lib/components/ui/DurationChips";
 import { FormField } from "../../lib/components/ui/FormField";
+import { ImageGalleryInput } from "../../lib/components/ui/ImageGalleryInput";
+import { LocationInput } from "../../lib/components/ui/LocationInput";
+import { PackagesInput } from "../../lib/components/ui/PackagesInput";
 import { TagInput } from "../../lib/components/ui/TagInput";
 import { COLORS } from "../../lib/constants/theme";
 import {
+  MAX_SERVICE_IMAGES,
+  MAX_SERVICE_PACKAGES,
   useServiceForm,
   validateServiceForm,
 } from "../../lib/hooks/useServiceForm";
 import { CreateServiceProps } from "../../lib/types/custom.types";
-import { uploadImage } from "../../lib/utils/imageUtils";
 
 export default function CreateServiceScreen({
   onServiceCreated,
@@ -49,6 +57,8 @@ export default function CreateServiceScreen({
         location: form.location,
         selectedCategory: form.selectedCategory,
         price: form.price,
+        serviceRadius: form.serviceRadius,
+        packages: form.packages,
       })
     )
       return;
@@ -63,25 +73,40 @@ export default function CreateServiceScreen({
         return;
       }
 
-      let imageUrl: string | null = null;
-      if (form.selectedImage) {
-        imageUrl = await uploadImage(form.selectedImage, "service-images");
-      }
+      const imageUrls = await form.uploadGallery();
 
-      const { error } = await supabase.from("services").insert({
-        user_id: user.id,
-        title: form.title.trim(),
-        description: form.description.trim(),
-        price: form.price.trim() ? parseFloat(form.price) : null,
-        image_url: imageUrl,
-        category_id: form.selectedCategory,
-        tags: form.tags.length > 0 ? form.tags : null,
-        location: form.location.trim(),
-        phone_number: form.phoneNumber.trim() || null,
-        status: "active" as const,
-      });
+      const coords = await form.resolveCoordinates();
+
+      const { data: created, error } = await supabase
+        .from("services")
+        .insert({
+          user_id: user.id,
+          title: form.title.trim(),
+          description: form.description.trim(),
+          price: form.resolvePrice(),
+          image_url: imageUrls[0] ?? null,
+          category_id: form.selectedCategory,
+          tags: form.tags.length > 0 ? form.tags : null,
+          location: form.location.trim(),
+          latitude: coords?.latitude ?? null,
+          longitude: coords?.longitude ?? null,
+          service_radius_km: form.serviceRadius.trim()
+            ? parseFloat(form.serviceRadius)
+            : null,
+          phone_number: form.phoneNumber.trim() || null,
+          slot_duration_minutes: form.slotDuration,
+          status: "active" as const,
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
+      if (imageUrls.length > 0) {
+        await saveServiceImages(created.id, imageUrls);
+      }
+      if (form.packages.length > 0) {
+        await saveServicePackages(created.id, form.packageInputs());
+      }
 
       Alert.alert("Success!", "Your service has been posted.", [
         { text: "OK", onPress: onServiceCreated },
@@ -113,29 +138,17 @@ export default function CreateServiceScreen({
         </View>
 
         <View className="px-6 pb-6 pt-3">
-          {/* Image Upload */}
-          <FormField label="Service Image">
-            <TouchableOpacity
-              onPress={form.handlePickImage}
-              className="border-2 border-dashed border-slate-300 rounded-2xl overflow-hidden"
-              style={{ height: 200 }}
-            >
-              {form.selectedImage ? (
-                <Image
-                  source={{ uri: form.selectedImage }}
-                  className="w-full h-full"
-                  resizeMode="cover"
-                />
-              ) : (
-                <View className="flex-1 items-center justify-center">
-                  <AntDesign name="camera" size={48} color={COLORS.slate400} />
-                  <Text className="mt-2 text-slate-500">
-                    Tap to upload image
-                  </Text>
-                  <Text className="text-xs text-slate-400 mt-1">Optional</Text>
-                </View>
-              )}
-            </TouchableOpacity>
+          {/* Image Gallery */}
+          <FormField label="Service Photos">
+            <ImageGalleryInput
+              images={form.images}
+              uploadProgress={form.uploadProgress}
+              maxImages={MAX_SERVICE_IMAGES}
+              onAdd={form.handlePickImages}
+              onRemove={form.handleRemoveImage}
+              onMove={form.handleMoveImage}
+              onSetCover={form.handleSetCoverImage}
+            />
           </FormField>
 
           <FormField label="Title" required>
@@ -192,17 +205,43 @@ export default function CreateServiceScreen({
             </ScrollView>
           </FormField>
 
-          <FormField label="Price (₱)">
-            <TextInput
-              value={form.price}
-              onChangeText={form.setPrice}
-              placeholder="e.g., 5000"
-              keyboardType="numeric"
-              className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
-              placeholderTextColor={COLORS.slate400}
+          {form.packages.length === 0 && (
+            <FormField label="Price (₱)">
+              <TextInput
+                value={form.price}
+                onChangeText={form.setPrice}
+                placeholder="e.g., 5000"
+                keyboardType="numeric"
+                className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
+                placeholderTextColor={COLORS.slate400}
+              />
+              <Text className="text-xs text-slate-500 mt-1">
+                Optional — leave blank for &apos;Contact for price&apos;
+              </Text>
+            </FormField>
+          )}
+
+          <FormField label="Packages">
+            <PackagesInput
+              packages={form.packages}
+              maxPackages={MAX_SERVICE_PACKAGES}
+              onAdd={form.handleAddPackage}
+              onUpdate={form.handleUpdatePackage}
+              onRemove={form.handleRemovePackage}
             />
             <Text className="text-xs text-slate-500 mt-1">
-              Optional — leave blank for &apos;Contact for price&apos;
+              Optional — offer tiers like Basic, Standard and Premium
+            </Text>
+          </FormField>
+
+          <FormField label="Booking Slot Length">
+            <DurationChips
+              value={form.slotDuration}
+              onChange={form.setSlotDuration}
+            />
+            <Text className="text-xs text-slate-500">
+              How long one booking takes; buyers pick from free slots of this
+              length within your working hours
             </Text>
           </FormField>
 
@@ -220,13 +259,28 @@ export default function CreateServiceScreen({
           </FormField>
 
           <FormField label="Location" required>
-            <TextInput
-              value={form.location}
-              onChangeText={form.setLocation}
+            <LocationInput
+              location={form.location}
+              coordinates={form.coordinates}
+              locating={form.locating}
+              onChangeLocation={form.setLocation}
+              onUseCurrentLocation={form.handleUseCurrentLocation}
               placeholder="e.g., Manila, Philippines"
+            />
+          </FormField>
+
+          <FormField label="Service Radius (km)">
+            <TextInput
+              value={form.serviceRadius}
+              onChangeText={form.setServiceRadius}
+              placeholder="e.g., 15"
+              keyboardType="numeric"
               className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
               placeholderTextColor={COLORS.slate400}
             />
+            <Text className="text-xs text-slate-500 mt-1">
+              Optional — how far you&apos;re willing to travel to clients
+            </Text>
           </FormField>
 
           <FormField label="Phone Number">
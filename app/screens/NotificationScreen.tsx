@@ -3,11 +3,19 @@
 import { useRouter } from "expo-router";
 import {
   Bell,
+  CalendarCheck,
+  CalendarClock,
+  CalendarPlus,
+  CalendarX,
   CheckCheck,
+  CircleCheckBig,
   ChevronRight,
+  HandCoins,
   Heart,
   Megaphone,
   MessageCircle,
+  Receipt,
+  Search,
   ShieldCheck,
   Sparkles,
   Star,
@@ -60,10 +68,32 @@ function getNotifIcon(type: NotificationType): React.ReactElement {
       return <Sparkles {...props} color={COLORS.primary} />;
     case "price_drop":
       return <TrendingDown {...props} color={COLORS.success} />;
+    case "saved_search_match":
+      return <Search {...props} color={COLORS.primary} />;
     case "broadcast":
       return <Megaphone {...props} color="#f97316" />;
     case "account_verified":
       return <ShieldCheck {...props} color={COLORS.success} />;
+    case "booking_requested":
+      return <CalendarPlus {...props} color={COLORS.primary} />;
+    case "booking_accepted":
+    case "booking_completed":
+      return <CalendarCheck {...props} color={COLORS.success} />;
+    case "booking_scheduled":
+      return <CalendarClock {...props} color={COLORS.info} />;
+    case "booking_declined":
+    case "booking_cancelled":
+      return <CalendarX {...props} color={COLORS.danger} />;
+    case "job_completed":
+      return <CircleCheckBig {...props} color={COLORS.success} />;
+    case "quote_received":
+      return <Receipt {...props} color={COLORS.primary} />;
+    case "quote_countered":
+      return <HandCoins {...props} color={COLORS.info} />;
+    case "quote_accepted":
+      return <Receipt {...props} color={COLORS.success} />;
+    case "quote_declined":
+      return <Receipt {...props} color={COLORS.danger} />;
     default:
       return <Bell {...props} color={COLORS.slate500} />;
   }
@@ -89,10 +119,32 @@ function getNotifAccent(type: NotificationType): string {
       return "#eff6ff";
     case "price_drop":
       return "#f0fdf4";
+    case "saved_search_match":
+      return "#eff6ff";
     case "broadcast":
       return "#fff7ed";
     case "account_verified":
       return "#f0fdf4";
+    case "booking_requested":
+      return "#eff6ff";
+    case "booking_accepted":
+    case "booking_completed":
+      return "#f0fdf4";
+    case "booking_scheduled":
+      return "#f5f3ff";
+    case "booking_declined":
+    case "booking_cancelled":
+      return "#fff1f2";
+    case "job_completed":
+      return "#f0fdf4";
+    case "quote_received":
+      return "#eff6ff";
+    case "quote_countered":
+      return "#f5f3ff";
+    case "quote_accepted":
+      return "#f0fdf4";
+    case "quote_declined":
+      return "#fff1f2";
     default:
       return COLORS.slate50;
   }
@@ -323,6 +375,53 @@ export default function NotificationScreen({
           }
           break;
 
+        case "saved_search_match":
+          // Instant alerts are about one service; digests open the search
+          if (notification.data.service_id) {
+            router.push(`/service/${notification.data.service_id}`);
+          } else if (notification.data.saved_search_id) {
+            router.setParams({
+              savedSearchId: notification.data.saved_search_id,
+            });
+          }
+          break;
+
+        case "booking_requested":
+        case "booking_accepted":
+        case "booking_declined":
+        case "booking_scheduled":
+        case "booking_completed":
+        case "booking_cancelled":
+          // Open the booking inbox on the recipient's side, highlighting it
+          router.push({
+            pathname: "/bookings",
+            params: {
+              role: notification.data.role ?? "buyer",
+              bookingId: notification.data.booking_id,
+            },
+          } as any);
+          break;
+
+        case "job_completed":
+          // Job done unlocks reviewing — open the service reviews tab
+          if (notification.data.service_id) {
+            router.push({
+              pathname: `/service/${notification.data.service_id}`,
+              params: { tab: "reviews" },
+            } as any);
+          }
+          break;
+
+        case "quote_received":
+        case "quote_accepted":
+        case "quote_declined":
+        case "quote_countered":
+          // Quotes live in the chat they were sent in
+          if (notification.data.conversation_id) {
+            router.push(`/chat/${notification.data.conversation_id}`);
+          }
+          break;
+
         case "new_subscriber":
           // Could navigate to subscribers list or profile in the future
           // For now, just mark as read
@@ -8,18 +8,25 @@ import {
   BadgeCheck,
   BarChart3,
   Bell,
+  CalendarDays,
   ChevronRight,
+  Clock,
   Edit3,
   FileText,
+  Heart,
   HelpCircle,
   List,
+  Lock,
   LogOut,
   MapPin,
+  MessageSquare,
   MoreVertical,
+  Search,
   Settings,
   Shield,
   Star,
   Trash2,
+  TrendingDown,
   UserMinus,
   Users,
   X,
@@ -40,40 +47,80 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import {
   fetchUserServices,
+  saveServiceImages,
+  saveServicePackages,
   updateServiceStatus,
 } from "../../lib/api/services.api";
+import {
+  fetchBookings,
+  getPendingBookingCount,
+} from "../../lib/api/bookings.api";
+import {
+  deleteCollection,
+  fetchCollections,
+  fetchSavedServices,
+  renameCollection,
+  unsaveService,
+} from "../../lib/api/saved.api";
 import {
   getSubscriberCount,
   getSubscriptions,
   unsubscribeFromProvider,
 } from "../../lib/api/subscriptions.api";
+import { updateShowLastSeen } from "../../lib/api/presence.api";
 import { supabase } from "../../lib/api/supabase";
+import AvailabilityEditor from "../../lib/components/AvailabilityEditor";
+import BookingList from "../../lib/components/BookingList";
 import { ProfileImageModal } from "../../lib/components/ProfileImageModal";
+import SaveToCollectionSheet from "../../lib/components/SaveToCollectionSheet";
+import BlockedUserList from "../../lib/components/BlockedUserList";
+import QuickReplyManager from "../../lib/components/QuickReplyManager";
+import SavedSearchList from "../../lib/components/SavedSearchList";
+import { DurationChips } from "../../lib/components/ui/DurationChips";
 import { FormField } from "../../lib/components/ui/FormField";
+import { ImageGalleryInput } from "../../lib/components/ui/ImageGalleryInput";
+import { LocationInput } from "../../lib/components/ui/LocationInput";
+import { PackagesInput } from "../../lib/components/ui/PackagesInput";
 import { ProfileAvatar } from "../../lib/components/ui/ProfileAvatar";
 import { TabBar } from "../../lib/components/ui/TabBar";
 import { TagInput } from "../../lib/components/ui/TagInput";
 import { COLORS } from "../../lib/constants/theme";
 import {
+  MAX_SERVICE_IMAGES,
+  MAX_SERVICE_PACKAGES,
   useServiceForm,
   validateServiceForm,
 } from "../../lib/hooks/useServiceForm";
 import {
+  BookingRole,
+  BookingWithDetails,
   Profile,
+  SavedCollection,
+  SavedService,
   Service,
   ServiceSubscriptionWithProfile,
 } from "../../lib/types/database.types";
-import { formatDisplayName, formatPrice } from "../../lib/utils/format";
-import { uploadImage } from "../../lib/utils/imageUtils";
+import {
+  formatBadge,
+  formatDisplayName,
+  formatPrice,
+} from "../../lib/utils/format";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
-type ProfileTab = "posts" | "subscriptions" | "reviews";
+type ProfileTab = "posts" | "subscriptions" | "reviews" | "bookings" | "saved";
 
 const PROFILE_TABS = [
   { key: "posts" as const, label: "Services" },
   { key: "subscriptions" as const, label: "Following" },
   { key: "reviews" as const, label: "My Reviews" },
+  { key: "bookings" as const, label: "Bookings" },
+  { key: "saved" as const, label: "Saved" },
+];
+
+const BOOKING_ROLE_OPTIONS: { key: BookingRole; label: string }[] = [
+  { key: "buyer", label: "Booked by me" },
+  { key: "provider", label: "For my services" },
 ];
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
@@ -98,6 +145,18 @@ export default function ProfileScreen() {
   const [loadingSubscriptions, setLoadingSubscriptions] = useState(false);
   const [reviews, setReviews] = useState<any[]>([]);
   const [loadingReviews, setLoadingReviews] = useState(false);
+  const [bookingRole, setBookingRole] = useState<BookingRole>("buyer");
+  const [bookings, setBookings] = useState<BookingWithDetails[]>([]);
+  const [loadingBookings, setLoadingBookings] = useState(false);
+  const [pendingBookingCount, setPendingBookingCount] = useState(0);
+  const [savedServices, setSavedServices] = useState<SavedService[]>([]);
+  const [collections, setCollections] = useState<SavedCollection[]>([]);
+  const [loadingSaved, setLoadingSaved] = useState(false);
+  // Collection whose services are shown; null = all saved services
+  const [savedFilter, setSavedFilter] = useState<string | null>(null);
+  const [savedToMove, setSavedToMove] = useState<SavedService | null>(null);
+  const [collectionToRename, setCollectionToRename] =
+    useState<SavedCollection | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [isSettingsVisible, setIsSettingsVisible] = useState(false);
   const [isActionSheetVisible, setIsActionSheetVisible] = useState(false);
@@ -108,6 +167,9 @@ export default function ProfileScreen() {
 
   const subscriptionsLoadedRef = useRef(false);
   const reviewsLoadedRef = useRef(false);
+  // Role whose bookings are loaded; switching roles reloads the list
+  const bookingsLoadedRef = useRef<BookingRole | null>(null);
+  const savedLoadedRef = useRef(false);
 
   // ── Data loaders ───────────────────────────────────────────────────────────
 
@@ -124,6 +186,7 @@ export default function ProfileScreen() {
       .single();
     if (data) setProfile(data);
     setSubscriberCount(await getSubscriberCount(user.id));
+    setPendingBookingCount(await getPendingBookingCount());
   }, []);
 
   const loadServices = useCallback(async () => {
@@ -168,6 +231,36 @@ export default function ProfileScreen() {
     }
   }, [currentUserId]);
 
+  const loadBookings = useCallback(async () => {
+    setLoadingBookings(true);
+    try {
+      setBookings(await fetchBookings(bookingRole));
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setLoadingBookings(false);
+    }
+  }, [bookingRole]);
+
+  const loadSaved = useCallback(async () => {
+    setLoadingSaved(true);
+    try {
+      const [saved, list] = await Promise.all([
+        fetchSavedServices(),
+        fetchCollections(),
+      ]);
+      setSavedServices(saved);
+      setCollections(list);
+      setSavedFilter((current) =>
+        current && list.some((c) => c.id === current) ? current : null,
+      );
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setLoadingSaved(false);
+    }
+  }, []);
+
   useEffect(() => {
     loadProfile();
   }, [loadProfile]);
@@ -183,7 +276,22 @@ export default function ProfileScreen() {
       reviewsLoadedRef.current = true;
       loadReviews();
     }
-  }, [activeTab, loadReviews, loadSubscriptions]);
+    if (activeTab === "bookings" && bookingsLoadedRef.current !== bookingRole) {
+      bookingsLoadedRef.current = bookingRole;
+      loadBookings();
+    }
+    if (activeTab === "saved" && !savedLoadedRef.current) {
+      savedLoadedRef.current = true;
+      loadSaved();
+    }
+  }, [
+    activeTab,
+    bookingRole,
+    loadReviews,
+    loadSubscriptions,
+    loadBookings,
+    loadSaved,
+  ]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -195,9 +303,24 @@ export default function ProfileScreen() {
     } else if (activeTab === "reviews") {
       reviewsLoadedRef.current = true;
       await loadReviews();
+    } else if (activeTab === "bookings") {
+      bookingsLoadedRef.current = bookingRole;
+      await loadBookings();
+    } else if (activeTab === "saved") {
+      savedLoadedRef.current = true;
+      await loadSaved();
     }
     setRefreshing(false);
-  }, [activeTab, loadProfile, loadServices, loadSubscriptions, loadReviews]);
+  }, [
+    activeTab,
+    bookingRole,
+    loadProfile,
+    loadServices,
+    loadSubscriptions,
+    loadReviews,
+    loadBookings,
+    loadSaved,
+  ]);
 
   // ── Profile image update ───────────────────────────────────────────────────
 
@@ -306,9 +429,74 @@ export default function ProfileScreen() {
     ]);
   }, []);
 
+  // ── Saved services ─────────────────────────────────────────────────────────
+
+  const handleUnsave = useCallback(async (saved: SavedService) => {
+    setSavedServices((prev) => prev.filter((s) => s.id !== saved.id));
+    try {
+      await unsaveService(saved.service_id);
+    } catch {
+      setSavedServices((prev) =>
+        [...prev, saved].sort((a, b) =>
+          b.created_at.localeCompare(a.created_at),
+        ),
+      );
+      Alert.alert("Error", "Could not remove this service. Please try again.");
+    }
+  }, []);
+
+  const handleCollectionOptions = useCallback((collection: SavedCollection) => {
+    Alert.alert(collection.name, undefined, [
+      { text: "Rename", onPress: () => setCollectionToRename(collection) },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () =>
+          Alert.alert(
+            "Delete Collection",
+            `Delete "${collection.name}"? Its services stay saved.`,
+            [
+              { text: "Cancel", style: "cancel" },
+              {
+                text: "Delete",
+                style: "destructive",
+                onPress: async () => {
+                  try {
+                    await deleteCollection(collection.id);
+                    setCollections((prev) =>
+                      prev.filter((c) => c.id !== collection.id),
+                    );
+                    setSavedServices((prev) =>
+                      prev.map((s) =>
+                        s.collection_id === collection.id
+                          ? { ...s, collection_id: null }
+                          : s,
+                      ),
+                    );
+                    setSavedFilter((current) =>
+                      current === collection.id ? null : current,
+                    );
+                  } catch {
+                    Alert.alert(
+                      "Error",
+                      "Could not delete this collection. Please try again.",
+                    );
+                  }
+                },
+              },
+            ],
+          ),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  }, []);
+
   // ── Derived values ─────────────────────────────────────────────────────────
 
   const displayName = formatDisplayName(profile, "My Profile");
+  const visibleSaved = savedFilter
+    ? savedServices.filter((s) => s.collection_id === savedFilter)
+    : savedServices;
   const activeServiceCount = services.filter(
     (s) => s.status === "active",
   ).length;
@@ -324,12 +512,27 @@ export default function ProfileScreen() {
     <View className="flex-1 bg-white">
       <View className="flex-row justify-between items-center px-5 pb-2 border-b border-slate-100">
         <Text className="text-3xl font-bold text-slate-900">Profile</Text>
-        <TouchableOpacity
-          onPress={() => setIsSettingsVisible(true)}
-          className="p-2 bg-slate-50 rounded-full"
-        >
-          <Settings size={20} color={COLORS.slate500} />
-        </TouchableOpacity>
+        <View className="flex-row">
+          <TouchableOpacity
+            onPress={() => router.push("/bookings")}
+            className="p-2 bg-slate-50 rounded-full mr-2"
+          >
+            <CalendarDays size={20} color={COLORS.slate500} />
+            {pendingBookingCount > 0 && (
+              <View className="absolute -top-1 -right-1 bg-red-500 rounded-full min-w-[18px] h-[18px] px-1 items-center justify-center">
+                <Text className="text-white text-[10px] font-bold">
+                  {formatBadge(pendingBookingCount)}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setIsSettingsVisible(true)}
+            className="p-2 bg-slate-50 rounded-full"
+          >
+            <Settings size={20} color={COLORS.slate500} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView
@@ -456,6 +659,120 @@ export default function ProfileScreen() {
               )}
             </>
           )}
+
+          {activeTab === "bookings" && (
+            <>
+              <View className="flex-row bg-slate-100 rounded-full p-1 mb-4">
+                {BOOKING_ROLE_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.key}
+                    onPress={() => setBookingRole(option.key)}
+                    className={`flex-1 py-2 rounded-full items-center ${
+                      bookingRole === option.key ? "bg-white" : ""
+                    }`}
+                  >
+                    <Text
+                      className={`text-xs font-semibold ${
+                        bookingRole === option.key
+                          ? "text-slate-900"
+                          : "text-slate-500"
+                      }`}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {loadingBookings ? (
+                <LoadingSpinner />
+              ) : bookings.length === 0 ? (
+                <ProfileEmptyState
+                  icon={<CalendarDays size={32} color={COLORS.slate400} />}
+                  title="No bookings yet"
+                  subtitle={
+                    bookingRole === "buyer"
+                      ? "Services you book will appear here."
+                      : "Bookings of your services will appear here."
+                  }
+                />
+              ) : (
+                <BookingList
+                  bookings={bookings}
+                  currentUserId={currentUserId}
+                  onBookingUpdated={(updated) =>
+                    setBookings((prev) =>
+                      prev.map((b) => (b.id === updated.id ? updated : b)),
+                    )
+                  }
+                />
+              )}
+            </>
+          )}
+
+          {activeTab === "saved" && (
+            <>
+              {collections.length > 0 && (
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  className="mb-4 -mx-1"
+                >
+                  {[{ id: null, name: "All" }, ...collections].map((c) => {
+                    const active = savedFilter === c.id;
+                    return (
+                      <TouchableOpacity
+                        key={c.id ?? "all"}
+                        onPress={() => setSavedFilter(c.id)}
+                        onLongPress={
+                          c.id
+                            ? () =>
+                                handleCollectionOptions(c as SavedCollection)
+                            : undefined
+                        }
+                        className={`mx-1 px-4 py-2 rounded-full ${
+                          active ? "bg-[#1877F2]" : "bg-slate-100"
+                        }`}
+                      >
+                        <Text
+                          className={`text-xs font-semibold ${
+                            active ? "text-white" : "text-slate-600"
+                          }`}
+                        >
+                          {c.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+              {loadingSaved ? (
+                <LoadingSpinner />
+              ) : visibleSaved.length === 0 ? (
+                <ProfileEmptyState
+                  icon={<Heart size={32} color={COLORS.slate400} />}
+                  title={savedFilter ? "Collection is empty" : "Nothing saved"}
+                  subtitle={
+                    savedFilter
+                      ? "Long-press the heart on a service to add it here."
+                      : "Tap the heart on a service to save it for later."
+                  }
+                />
+              ) : (
+                visibleSaved.map((saved) => (
+                  <SavedServiceRow
+                    key={saved.id}
+                    saved={saved}
+                    collectionName={
+                      collections.find((c) => c.id === saved.collection_id)
+                        ?.name
+                    }
+                    onUnsave={() => handleUnsave(saved)}
+                    onMove={() => setSavedToMove(saved)}
+                  />
+                ))
+              )}
+            </>
+          )}
         </View>
       </ScrollView>
 
@@ -539,6 +856,27 @@ export default function ProfileScreen() {
         />
       )}
 
+      <SaveToCollectionSheet
+        visible={savedToMove !== null}
+        serviceId={savedToMove?.service_id ?? null}
+        serviceTitle={savedToMove?.title}
+        onClose={() => setSavedToMove(null)}
+        onChange={() => loadSaved()}
+      />
+
+      <RenameCollectionModal
+        collection={collectionToRename}
+        onClose={() => setCollectionToRename(null)}
+        onRenamed={(updated) => {
+          setCollections((prev) =>
+            prev
+              .map((c) => (c.id === updated.id ? updated : c))
+              .sort((a, b) => a.name.localeCompare(b.name)),
+          );
+          setCollectionToRename(null);
+        }}
+      />
+
       <SettingsModal
         visible={isSettingsVisible}
         profile={profile}
@@ -762,6 +1100,166 @@ const ReviewCard = ({ review }: { review: any }) => (
   </View>
 );
 
+// ── SavedServiceRow ───────────────────────────────────────────────────────────
+
+const SavedServiceRow = ({
+  saved,
+  collectionName,
+  onUnsave,
+  onMove,
+}: {
+  saved: SavedService;
+  collectionName?: string;
+  onUnsave: () => void;
+  onMove: () => void;
+}) => {
+  const available = saved.status === "active";
+  const priceDropped =
+    available &&
+    saved.price !== null &&
+    saved.saved_price !== null &&
+    saved.price < saved.saved_price;
+  return (
+    <TouchableOpacity
+      onPress={() =>
+        available
+          ? router.push(`/service/${saved.service_id}`)
+          : Alert.alert(
+              "Unavailable",
+              "The provider is no longer offering this service.",
+            )
+      }
+      activeOpacity={0.8}
+      className="flex-row items-center bg-white border border-slate-100 rounded-2xl p-3 mb-3"
+    >
+      <View style={{ opacity: available ? 1 : 0.4 }}>
+        {saved.image_url ? (
+          <Image
+            source={{ uri: saved.image_url }}
+            className="w-16 h-16 rounded-xl bg-slate-100"
+          />
+        ) : (
+          <View className="w-16 h-16 rounded-xl bg-slate-100 items-center justify-center">
+            <AntDesign name="picture" size={20} color={COLORS.slate300} />
+          </View>
+        )}
+      </View>
+      <View className="flex-1 ml-3">
+        <Text
+          className={`text-sm font-semibold ${available ? "text-slate-900" : "text-slate-400"}`}
+          numberOfLines={1}
+        >
+          {saved.title}
+        </Text>
+        {available ? (
+          <View className="flex-row items-center mt-1">
+            <Text className="text-xs font-semibold text-[#1877F2]">
+              {formatPrice(saved.price)}
+            </Text>
+            {priceDropped && (
+              <View className="flex-row items-center ml-2">
+                <TrendingDown size={12} color={COLORS.success} />
+                <Text className="text-[11px] text-green-600 ml-1">
+                  was {formatPrice(saved.saved_price)}
+                </Text>
+              </View>
+            )}
+          </View>
+        ) : (
+          <View className="self-start bg-slate-100 px-2 py-0.5 rounded-full mt-1">
+            <Text className="text-[10px] font-bold uppercase text-slate-500">
+              Unavailable
+            </Text>
+          </View>
+        )}
+        <TouchableOpacity onPress={onMove} className="mt-1 self-start">
+          <Text className="text-[11px] text-slate-400">
+            {collectionName ?? "No collection"} · Move
+          </Text>
+        </TouchableOpacity>
+      </View>
+      <TouchableOpacity onPress={onUnsave} hitSlop={8} className="p-2">
+        <AntDesign name="heart" size={18} color={COLORS.danger} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+};
+
+// ── RenameCollectionModal ─────────────────────────────────────────────────────
+
+const RenameCollectionModal = ({
+  collection,
+  onClose,
+  onRenamed,
+}: {
+  collection: SavedCollection | null;
+  onClose: () => void;
+  onRenamed: (collection: SavedCollection) => void;
+}) => {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (collection) setName(collection.name);
+  }, [collection]);
+
+  const handleSave = async () => {
+    if (!collection || !name.trim()) return;
+    try {
+      setSaving(true);
+      onRenamed(await renameCollection(collection.id, name));
+    } catch (err: any) {
+      Alert.alert("Error", err?.message || "Could not rename collection");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={collection !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-center px-8">
+        <View className="bg-white rounded-3xl p-6">
+          <Text className="text-lg font-bold text-slate-900 mb-4">
+            Rename Collection
+          </Text>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            maxLength={60}
+            autoFocus
+            className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
+            placeholderTextColor={COLORS.slate400}
+          />
+          <View className="flex-row mt-5">
+            <TouchableOpacity
+              onPress={onClose}
+              className="flex-1 bg-slate-100 py-3 rounded-2xl items-center mr-2"
+            >
+              <Text className="font-bold text-slate-700">Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={saving || !name.trim()}
+              className="flex-1 bg-[#1877F2] py-3 rounded-2xl items-center ml-2"
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text className="font-bold text-white">Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
 // ── EditServiceModal ──────────────────────────────────────────────────────────
 
 const EditServiceModal = ({
@@ -786,30 +1284,39 @@ const EditServiceModal = ({
         location: form.location,
         selectedCategory: form.selectedCategory,
         price: form.price,
+        serviceRadius: form.serviceRadius,
+        packages: form.packages,
       })
     )
       return;
     setSaving(true);
     try {
-      let imageUrl = service.image_url;
-      if (form.selectedImage)
-        imageUrl = await uploadImage(form.selectedImage, "service-images");
+      const imageUrls = await form.uploadGallery();
+      const coords = await form.resolveCoordinates();
       const { data, error } = await supabase
         .from("services")
         .update({
           title: form.title.trim(),
           description: form.description.trim(),
-          price: form.price.trim() ? parseFloat(form.price) : null,
+          price: form.resolvePrice(),
           location: form.location.trim(),
+          latitude: coords?.latitude ?? null,
+          longitude: coords?.longitude ?? null,
+          service_radius_km: form.serviceRadius.trim()
+            ? parseFloat(form.serviceRadius)
+            : null,
           phone_number: form.phoneNumber.trim() || null,
+          slot_duration_minutes: form.slotDuration,
           tags: form.tags.length > 0 ? form.tags : null,
           category_id: form.selectedCategory,
-          image_url: imageUrl,
+          image_url: imageUrls[0] ?? null,
         })
         .eq("id", service.id)
         .select()
         .single();
       if (error) throw error;
+      await saveServiceImages(service.id, imageUrls);
+      await saveServicePackages(service.id, form.packageInputs());
       onSaved(data);
       Alert.alert("Saved!", "Your service has been updated.");
     } catch {
@@ -840,28 +1347,17 @@ const EditServiceModal = ({
           </TouchableOpacity>
         </View>
         <ScrollView className="flex-1 p-5" showsVerticalScrollIndicator={false}>
-          <TouchableOpacity
-            onPress={form.handlePickImage}
-            className="border-2 border-dashed border-slate-300 rounded-2xl overflow-hidden mb-4"
-            style={{ height: 160 }}
-          >
-            {form.selectedImage || service.image_url ? (
-              <Image
-                source={{
-                  uri: form.selectedImage ?? service.image_url ?? undefined,
-                }}
-                className="w-full h-full"
-                resizeMode="cover"
-              />
-            ) : (
-              <View className="flex-1 items-center justify-center">
-                <AntDesign name="camera" size={32} color={COLORS.slate400} />
-                <Text className="text-slate-400 text-sm mt-2">
-                  Change image
-                </Text>
-              </View>
-            )}
-          </TouchableOpacity>
+          <FormField label="Photos">
+            <ImageGalleryInput
+              images={form.images}
+              uploadProgress={form.uploadProgress}
+              maxImages={MAX_SERVICE_IMAGES}
+              onAdd={form.handlePickImages}
+              onRemove={form.handleRemoveImage}
+              onMove={form.handleMoveImage}
+              onSetCover={form.handleSetCoverImage}
+            />
+          </FormField>
           <FormField label="Title" required>
             <TextInput
               value={form.title}
@@ -903,14 +1399,31 @@ const EditServiceModal = ({
               ))}
             </ScrollView>
           </FormField>
-          <FormField label="Price (₱)">
-            <TextInput
-              value={form.price}
-              onChangeText={form.setPrice}
-              keyboardType="numeric"
-              placeholder="Leave blank for 'Contact for price'"
-              className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
-              placeholderTextColor={COLORS.slate400}
+          {form.packages.length === 0 && (
+            <FormField label="Price (₱)">
+              <TextInput
+                value={form.price}
+                onChangeText={form.setPrice}
+                keyboardType="numeric"
+                placeholder="Leave blank for 'Contact for price'"
+                className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
+                placeholderTextColor={COLORS.slate400}
+              />
+            </FormField>
+          )}
+          <FormField label="Packages">
+            <PackagesInput
+              packages={form.packages}
+              maxPackages={MAX_SERVICE_PACKAGES}
+              onAdd={form.handleAddPackage}
+              onUpdate={form.handleUpdatePackage}
+              onRemove={form.handleRemovePackage}
+            />
+          </FormField>
+          <FormField label="Booking Slot Length">
+            <DurationChips
+              value={form.slotDuration}
+              onChange={form.setSlotDuration}
             />
           </FormField>
           <FormField label="Tags">
@@ -923,9 +1436,20 @@ const EditServiceModal = ({
             />
           </FormField>
           <FormField label="Location" required>
+            <LocationInput
+              location={form.location}
+              coordinates={form.coordinates}
+              locating={form.locating}
+              onChangeLocation={form.setLocation}
+              onUseCurrentLocation={form.handleUseCurrentLocation}
+            />
+          </FormField>
+          <FormField label="Service Radius (km)">
             <TextInput
-              value={form.location}
-              onChangeText={form.setLocation}
+              value={form.serviceRadius}
+              onChangeText={form.setServiceRadius}
+              keyboardType="numeric"
+              placeholder="How far you travel to clients"
               className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
               placeholderTextColor={COLORS.slate400}
             />
@@ -954,7 +1478,11 @@ type SettingsSection =
   | "verify"
   | "terms"
   | "help"
-  | "notifPrefs";
+  | "notifPrefs"
+  | "availability"
+  | "savedSearches"
+  | "quickReplies"
+  | "privacy";
 const SECTION_TITLES: Record<SettingsSection, string> = {
   main: "Settings",
   account: "Account Details",
@@ -962,6 +1490,10 @@ const SECTION_TITLES: Record<SettingsSection, string> = {
   terms: "Terms & Services",
   help: "Help",
   notifPrefs: "Notifications",
+  availability: "Availability",
+  savedSearches: "Saved Searches",
+  quickReplies: "Quick Replies",
+  privacy: "Privacy",
 };
 
 const SettingsModal = ({
@@ -1071,6 +1603,17 @@ const SettingsModal = ({
     }
   };
 
+  const handleShowLastSeen = async (show: boolean) => {
+    if (!profile) return;
+    onProfileUpdated({ ...profile, show_last_seen: show });
+    try {
+      await updateShowLastSeen(show);
+    } catch {
+      onProfileUpdated(profile);
+      Alert.alert("Error", "Could not update privacy. Please try again.");
+    }
+  };
+
   return (
     <Modal
       visible={visible}
@@ -1144,6 +1687,30 @@ const SettingsModal = ({
                   subtitle="Control what alerts you receive"
                   onPress={() => setSection("notifPrefs")}
                 />
+                <SettingsRow
+                  icon={<Clock size={20} color={COLORS.success} />}
+                  label="Availability"
+                  subtitle="Working hours, days off and timezone"
+                  onPress={() => setSection("availability")}
+                />
+                <SettingsRow
+                  icon={<Search size={20} color={COLORS.primary} />}
+                  label="Saved Searches"
+                  subtitle="Run searches and manage new-match alerts"
+                  onPress={() => setSection("savedSearches")}
+                />
+                <SettingsRow
+                  icon={<MessageSquare size={20} color={COLORS.warning} />}
+                  label="Quick Replies"
+                  subtitle="Saved answers and away message"
+                  onPress={() => setSection("quickReplies")}
+                />
+                <SettingsRow
+                  icon={<Lock size={20} color={COLORS.slate500} />}
+                  label="Privacy"
+                  subtitle="Online status and last seen"
+                  onPress={() => setSection("privacy")}
+                />
               </SectionGroup>
               <SectionGroup label="Legal & Support">
                 <SettingsRow
@@ -1201,6 +1768,52 @@ const SettingsModal = ({
               </FormField>
             </View>
           )}
+          {section === "availability" && (
+            <View className="p-5">
+              <AvailabilityEditor
+                profile={profile}
+                onSaved={(timezone) =>
+                  profile && onProfileUpdated({ ...profile, timezone })
+                }
+              />
+            </View>
+          )}
+          {section === "savedSearches" && (
+            <View className="p-5">
+              <SavedSearchList
+                onRun={(search) => {
+                  onClose();
+                  router.setParams({ savedSearchId: search.id });
+                }}
+              />
+            </View>
+          )}
+          {section === "quickReplies" && (
+            <View className="p-5">
+              <QuickReplyManager
+                profile={profile}
+                onAwaySaved={(away_enabled, away_message) =>
+                  profile &&
+                  onProfileUpdated({ ...profile, away_enabled, away_message })
+                }
+              />
+            </View>
+          )}
+          {section === "privacy" && (
+            <View className="p-5">
+              <NotificationToggle
+                icon={<Clock size={20} color={COLORS.primary} />}
+                label="Show Online Status & Last Seen"
+                description="When off, people you chat with won't see when you're online or were last active"
+                value={profile?.show_last_seen ?? true}
+                onToggle={handleShowLastSeen}
+              />
+              <Text className="text-sm font-bold text-slate-900 mt-6 mb-3">
+                Blocked Users
+              </Text>
+              <BlockedUserList />
+            </View>
+          )}
           {section === "notifPrefs" && (
             <View className="p-5">
               <Text className="text-sm text-slate-600 mb-4">
@@ -1,9 +1,10 @@
 // app/screens/ServicesScreen.tsx
-import { AntDesign } from "@expo/vector-icons";
+import { AntDesign, Ionicons } from "@expo/vector-icons";
 import { router } from "expo-router";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Dimensions,
   FlatList,
   Image,
@@ -14,12 +15,16 @@ import {
 } from "react-native";
 import { searchAndFilterServices } from "../../lib/api/services.api";
 import FilterBottomSheet from "../../lib/components/FilterBottomSheet";
+import SaveSearchModal from "../../lib/components/SaveSearchModal";
+import SaveToCollectionSheet from "../../lib/components/SaveToCollectionSheet";
+import ServicesMapView from "../../lib/components/ServicesMapView";
 import { useDebounce } from "../../lib/hooks/useDebounce";
+import { useSavedServices } from "../../lib/hooks/useSavedServices";
 import { COLORS } from "../../lib/constants/theme";
-import { formatPrice } from "../../lib/utils/format";
-import { ItemProps } from "../../lib/types/custom.types";
+import { formatDistance, formatStartingPrice } from "../../lib/utils/format";
+import { ItemProps, ServicesViewMode } from "../../lib/types/custom.types";
 import { ServiceWithDetails } from "../../lib/types/database.types";
-import { FilterOptions } from "../../lib/types/filter.types";
+import { FilterOptions, ServicesCursor } from "../../lib/types/filter.types";
 
 const { width } = Dimensions.get("window");
 const COLUMN_WIDTH = (width - 48) / 2;
@@ -35,7 +40,17 @@ const ServiceCard = ({
   author,
   image,
   reviewCount,
-}: ItemProps & { id: string }) => (
+  distanceKm,
+  packages,
+  saved,
+  onToggleSave,
+  onChooseCollection,
+}: ItemProps & {
+  id: string;
+  saved: boolean;
+  onToggleSave: () => void;
+  onChooseCollection: () => void; // Long press on the heart
+}) => (
   <TouchableOpacity
     onPress={() => router.push(`/service/${id}`)}
     style={{ width: COLUMN_WIDTH }}
@@ -57,6 +72,18 @@ const ServiceCard = ({
           <AntDesign name="picture" size={36} color={COLORS.slate300} />
         </View>
       )}
+      <TouchableOpacity
+        onPress={onToggleSave}
+        onLongPress={onChooseCollection}
+        hitSlop={8}
+        className="absolute top-2 right-2 bg-white/90 w-8 h-8 rounded-full items-center justify-center"
+      >
+        <Ionicons
+          name={saved ? "heart" : "heart-outline"}
+          size={15}
+          color={saved ? COLORS.danger : COLORS.slate500}
+        />
+      </TouchableOpacity>
       <View className="absolute bottom-2 left-2 bg-black/50 px-2 py-0.5 rounded-full flex-row items-center">
         <AntDesign name="star" size={10} color="#FCC419" />
         <Text className="text-white text-[10px] font-bold ml-1">
@@ -64,6 +91,14 @@ const ServiceCard = ({
           {reviewCount > 0 ? ` (${reviewCount})` : ""}
         </Text>
       </View>
+      {distanceKm != null && (
+        <View className="absolute bottom-2 right-2 bg-black/50 px-2 py-0.5 rounded-full flex-row items-center">
+          <AntDesign name="environment" size={10} color="white" />
+          <Text className="text-white text-[10px] font-bold ml-1">
+            {formatDistance(distanceKm)}
+          </Text>
+        </View>
+      )}
     </View>
 
     <View className="p-3 pt-2.5">
@@ -79,7 +114,7 @@ const ServiceCard = ({
       <View>
         {price !== null ? (
           <Text className="text-[16px] font-black text-[#212529] leading-tight">
-            {formatPrice(price)}
+            {formatStartingPrice(price, packages)}
           </Text>
         ) : (
           <Text className="text-[12px] font-semibold text-[#1877F2]">
@@ -102,6 +137,7 @@ type ServicesScreenProps = {
   onFilterModalClose: () => void;
   filters: FilterOptions;
   onFiltersChange: (filters: FilterOptions) => void;
+  viewMode: ServicesViewMode;
 };
 
 export default function ServicesScreen({
@@ -110,52 +146,113 @@ export default function ServicesScreen({
   onFilterModalClose,
   filters,
   onFiltersChange,
+  viewMode,
 }: ServicesScreenProps) {
   const [services, setServices] = useState<ServiceWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [collectionTarget, setCollectionTarget] =
+    useState<ServiceWithDetails | null>(null);
+  const { isSaved, toggleSaved, markSaved } = useSavedServices();
+  const [saveSearchVisible, setSaveSearchVisible] = useState(false);
+
+  // Cursor for the next page (null once the last page is loaded)
+  const nextCursorRef = useRef<ServicesCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  // Bumped on every reset so stale page responses are discarded
+  const requestIdRef = useRef(0);
 
   const debouncedSearch = useDebounce(searchQuery, 400);
 
-  const loadServices = useCallback(async () => {
-    try {
-      setError(null);
-      const data = await searchAndFilterServices({
-        searchQuery: debouncedSearch,
-        categoryId: filters.categoryId,
-        minPrice: filters.priceRange.min,
-        maxPrice: filters.priceRange.max,
-        minRating: filters.minRating,
-        location: filters.location,
-        sortBy: filters.sortBy,
-      });
-      setServices(data);
-    } catch {
-      setError("Failed to load services. Please try again.");
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  }, [
-    debouncedSearch,
-    filters.categoryId,
-    filters.priceRange.min,
-    filters.priceRange.max,
-    filters.minRating,
-    filters.location,
-    filters.sortBy,
-  ]);
+  const loadServices = useCallback(
+    async (cursor: ServicesCursor | null = null) => {
+      const requestId = cursor ? requestIdRef.current : ++requestIdRef.current;
+
+      try {
+        setError(null);
+        const page = await searchAndFilterServices({
+          searchQuery: debouncedSearch,
+          categoryId: filters.categoryId,
+          minPrice: filters.priceRange.min,
+          maxPrice: filters.priceRange.max,
+          minRating: filters.minRating,
+          location: filters.location,
+          origin: filters.origin,
+          maxDistanceKm: filters.maxDistanceKm,
+          sortBy: filters.sortBy,
+          cursor,
+        });
+
+        if (requestId !== requestIdRef.current) return;
 
+        nextCursorRef.current = page.nextCursor;
+        if (cursor) {
+          setServices((prev) => [...prev, ...page.services]);
+        } else {
+          setServices(page.services);
+        }
+      } catch {
+        if (requestId !== requestIdRef.current) return;
+        if (cursor) {
+          Alert.alert("Error", "Failed to load more services");
+        } else {
+          setError("Failed to load services. Please try again.");
+        }
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+          setRefreshing(false);
+          setLoadingMore(false);
+          loadingMoreRef.current = false;
+        }
+      }
+    },
+    [
+      debouncedSearch,
+      filters.categoryId,
+      filters.priceRange.min,
+      filters.priceRange.max,
+      filters.minRating,
+      filters.location,
+      filters.origin,
+      filters.maxDistanceKm,
+      filters.sortBy,
+    ],
+  );
+
+  // Any search/filter change starts over from the first page
   useEffect(() => {
+    nextCursorRef.current = null;
     loadServices();
   }, [loadServices]);
 
   const onRefresh = () => {
     setRefreshing(true);
+    nextCursorRef.current = null;
+    loadingMoreRef.current = false;
+    setLoadingMore(false);
     loadServices();
   };
 
+  const handleLoadMore = () => {
+    const cursor = nextCursorRef.current;
+    if (!cursor || loadingMoreRef.current || refreshing) return;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    loadServices(cursor);
+  };
+
+  const renderFooter = () => {
+    if (!loadingMore) return null;
+    return (
+      <View className="py-4">
+        <ActivityIndicator size="small" color={COLORS.primary} />
+      </View>
+    );
+  };
+
   const hasActiveFilter =
     searchQuery ||
     filters.categoryId ||
@@ -163,8 +260,28 @@ export default function ServicesScreen({
     filters.priceRange.max !== null ||
     filters.minRating ||
     filters.location ||
+    filters.maxDistanceKm !== null ||
     filters.sortBy !== "newest";
 
+  const filterSheet = (
+    <FilterBottomSheet
+      visible={filterModalVisible}
+      onClose={onFilterModalClose}
+      onApply={onFiltersChange}
+      currentFilters={filters}
+    />
+  );
+
+  // Map mode queries per visible region, independent of the grid's pages
+  if (viewMode === "map") {
+    return (
+      <View className="flex-1">
+        <ServicesMapView searchQuery={debouncedSearch} filters={filters} />
+        {filterSheet}
+      </View>
+    );
+  }
+
   if (loading && !refreshing) {
     return (
       <View className="flex-1 items-center justify-center bg-slate-50">
@@ -190,6 +307,27 @@ export default function ServicesScreen({
 
   return (
     <View className="flex-1">
+      {hasActiveFilter && (
+        <View className="flex-row items-center justify-between px-4 pt-3">
+          <Text className="text-xs text-slate-500">
+            Get alerts when new services match
+          </Text>
+          <TouchableOpacity
+            onPress={() => setSaveSearchVisible(true)}
+            className="flex-row items-center bg-blue-50 px-3 py-1.5 rounded-full"
+          >
+            <Ionicons
+              name="bookmark-outline"
+              size={13}
+              color={COLORS.primary}
+            />
+            <Text className="text-xs font-semibold text-[#1877F2] ml-1">
+              Save search
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {services.length === 0 ? (
         <View className="flex-1 items-center justify-center bg-slate-50 px-8">
           <AntDesign name="inbox" size={64} color={COLORS.slate400} />
@@ -209,6 +347,9 @@ export default function ServicesScreen({
           columnWrapperStyle={{ justifyContent: "space-between" }}
           contentContainerStyle={{ padding: 16 }}
           keyExtractor={(item) => item.id}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={renderFooter}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -231,16 +372,33 @@ export default function ServicesScreen({
               }
               image={item.image_url}
               reviewCount={item.review_count}
+              distanceKm={item.distance_km}
+              packages={item.packages}
+              saved={isSaved(item.id)}
+              onToggleSave={() => toggleSaved(item.id)}
+              onChooseCollection={() => setCollectionTarget(item)}
             />
           )}
         />
       )}
 
-      <FilterBottomSheet
-        visible={filterModalVisible}
-        onClose={onFilterModalClose}
-        onApply={onFiltersChange}
-        currentFilters={filters}
+      {filterSheet}
+
+      <SaveSearchModal
+        visible={saveSearchVisible}
+        searchQuery={debouncedSearch}
+        filters={filters}
+        onClose={() => setSaveSearchVisible(false)}
+      />
+
+      <SaveToCollectionSheet
+        visible={collectionTarget !== null}
+        serviceId={collectionTarget?.id ?? null}
+        serviceTitle={collectionTarget?.title}
+        onClose={() => setCollectionTarget(null)}
+        onChange={(saved) => {
+          if (collectionTarget) markSaved(collectionTarget.id, saved);
+        }}
       />
     </View>
   );
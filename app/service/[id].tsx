@@ -6,22 +6,36 @@ import React, { useCallback, useEffect, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
-  Image,
   Linking,
+  Modal,
+  ScrollView,
   Text,
   TouchableOpacity,
   View,
 } from "react-native";
+import { fetchWorkingHours } from "../../lib/api/availability.api";
 import { getOrCreateConversation } from "../../lib/api/messaging.api";
+import { sortServiceEmbeds } from "../../lib/api/services.api";
 import { supabase } from "../../lib/api/supabase";
+import AvailabilityEditor from "../../lib/components/AvailabilityEditor";
+import BookingFormModal from "../../lib/components/BookingFormModal";
+import SaveToCollectionSheet from "../../lib/components/SaveToCollectionSheet";
+import ServiceImageGallery from "../../lib/components/ServiceImageGallery";
 import CommentsTab from "../../lib/components/service-tabs/CommentsTab";
 import OverviewTab from "../../lib/components/service-tabs/OverviewTab";
 import ReviewsTab from "../../lib/components/service-tabs/ReviewsTab";
 import ServiceDetailSkeleton from "../../lib/components/ui/ServiceDetailSkeleton";
 import { TabBar } from "../../lib/components/ui/TabBar";
+import ReportSheet from "../../lib/components/ReportSheet";
 import { COLORS } from "../../lib/constants/theme";
 import { useCurrentUserId } from "../../lib/hooks/useCurrentUserId";
-import { ServiceWithDetails } from "../../lib/types/database.types";
+import { useModeration } from "../../lib/hooks/useModeration";
+import { useSavedServices } from "../../lib/hooks/useSavedServices";
+import {
+  ServiceWithDetails,
+  WorkingHours,
+} from "../../lib/types/database.types";
+import { formatDisplayName } from "../../lib/utils/format";
 
 type ServiceTab = "overview" | "reviews" | "comments";
 
@@ -45,6 +59,14 @@ export default function ServiceDetailScreen() {
   const [service, setService] = useState<ServiceWithDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [startingChat, setStartingChat] = useState(false);
+  const [bookingVisible, setBookingVisible] = useState(false);
+  const [workingHours, setWorkingHours] = useState<WorkingHours[]>([]);
+  const [availabilityVisible, setAvailabilityVisible] = useState(false);
+  const [collectionsVisible, setCollectionsVisible] = useState(false);
+  const { isSaved, toggleSaved, markSaved } = useSavedServices();
+  const { reportTarget, closeReport, showOptions } = useModeration(() =>
+    router.back(),
+  );
   const [activeTab, setActiveTab] = useState<ServiceTab>(
     (tab as ServiceTab) || "overview",
   );
@@ -55,11 +77,13 @@ export default function ServiceDetailScreen() {
         if (!silent) setLoading(true);
         const { data, error } = await supabase
           .from("services")
-          .select("*, category:categories(*), profile:profiles(*)")
+          .select(
+            "*, category:categories(*), profile:profiles(*), images:service_images(*), packages:service_packages(*)",
+          )
           .eq("id", id)
           .single();
         if (error) throw error;
-        setService(data);
+        setService(sortServiceEmbeds(data));
       } catch {
         if (!silent) Alert.alert("Error", "Failed to load service details");
       } finally {
@@ -73,6 +97,20 @@ export default function ServiceDetailScreen() {
     loadService();
   }, [loadService]);
 
+  const providerId = service?.user_id;
+  const loadWorkingHours = useCallback(async () => {
+    if (!providerId) return;
+    try {
+      setWorkingHours(await fetchWorkingHours(providerId));
+    } catch {
+      setWorkingHours([]);
+    }
+  }, [providerId]);
+
+  useEffect(() => {
+    loadWorkingHours();
+  }, [loadWorkingHours]);
+
   // Set active tab from URL parameter
   useEffect(() => {
     if (
@@ -83,7 +121,8 @@ export default function ServiceDetailScreen() {
     }
   }, [tab]);
 
-  const handleStartChat = async () => {
+  // serviceId null = a conversation with the provider in general
+  const handleStartChat = async (serviceId: string | null) => {
     if (!service || !currentUserId) {
       Alert.alert("Error", "Please log in to message the seller");
       return;
@@ -95,17 +134,31 @@ export default function ServiceDetailScreen() {
     try {
       setStartingChat(true);
       const conversation = await getOrCreateConversation({
-        service_id: service.id,
+        service_id: serviceId,
         seller_id: service.user_id,
       });
       router.push(`/chat/${conversation.id}`);
-    } catch {
-      Alert.alert("Error", "Failed to start conversation");
+    } catch (error: any) {
+      Alert.alert(
+        "Error",
+        // Refused by a block
+        error?.code === "42501"
+          ? error.message
+          : "Failed to start conversation",
+      );
     } finally {
       setStartingChat(false);
     }
   };
 
+  const handleBook = () => {
+    if (!currentUserId) {
+      Alert.alert("Error", "Please log in to book this service");
+      return;
+    }
+    setBookingVisible(true);
+  };
+
   const handleServiceUpdate = useCallback(
     () => loadService(true),
     [loadService],
@@ -128,6 +181,11 @@ export default function ServiceDetailScreen() {
   }
 
   const isOwnService = currentUserId === service.user_id;
+  const galleryUrls = service.images?.length
+    ? service.images.map((img) => img.url)
+    : service.image_url
+      ? [service.image_url]
+      : [];
 
   return (
     <View className="flex-1 bg-slate-50">
@@ -139,21 +197,49 @@ export default function ServiceDetailScreen() {
         <Text className="text-2xl font-bold text-slate-900 pr-8">
           Service Details
         </Text>
-        <View />
+        {isOwnService || !currentUserId ? (
+          <View />
+        ) : (
+          <View className="flex-row items-center">
+            <TouchableOpacity
+              onPress={() => toggleSaved(service.id)}
+              onLongPress={() => setCollectionsVisible(true)}
+              hitSlop={8}
+            >
+              <Ionicons
+                name={isSaved(service.id) ? "heart" : "heart-outline"}
+                size={22}
+                color={isSaved(service.id) ? COLORS.danger : COLORS.slate900}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() =>
+                showOptions(
+                  { entity_type: "service", entity_id: service.id },
+                  {
+                    id: service.user_id,
+                    name: formatDisplayName(
+                      service.profile ?? null,
+                      "this provider",
+                    ),
+                  },
+                )
+              }
+              hitSlop={8}
+              className="ml-4"
+            >
+              <Ionicons
+                name="ellipsis-horizontal"
+                size={22}
+                color={COLORS.slate900}
+              />
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
 
-      {/* Service Image */}
-      {service.image_url ? (
-        <Image
-          source={{ uri: service.image_url }}
-          className="w-full h-64"
-          resizeMode="cover"
-        />
-      ) : (
-        <View className="w-full h-64 bg-slate-200 items-center justify-center">
-          <AntDesign name="picture" size={64} color={COLORS.slate400} />
-        </View>
-      )}
+      {/* Service Images */}
+      <ServiceImageGallery urls={galleryUrls} />
 
       {/* Tab Bar — shared component */}
       <TabBar
@@ -170,7 +256,16 @@ export default function ServiceDetailScreen() {
             display: activeTab === "overview" ? "flex" : "none",
           }}
         >
-          <OverviewTab service={service} />
+          <OverviewTab
+            service={service}
+            workingHours={workingHours}
+            onManageAvailability={
+              isOwnService ? () => setAvailabilityVisible(true) : undefined
+            }
+            onMessageProvider={
+              isOwnService ? undefined : () => handleStartChat(null)
+            }
+          />
         </View>
         <View
           style={{
@@ -222,7 +317,7 @@ export default function ServiceDetailScreen() {
               </TouchableOpacity>
             )}
             <TouchableOpacity
-              onPress={handleStartChat}
+              onPress={() => handleStartChat(service.id)}
               disabled={startingChat}
               className="flex-1 bg-blue-600 py-4 rounded-2xl flex-row items-center justify-center"
             >
@@ -237,9 +332,74 @@ export default function ServiceDetailScreen() {
                 </>
               )}
             </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleBook}
+              className="flex-1 bg-emerald-600 py-4 rounded-2xl flex-row items-center justify-center"
+            >
+              <Ionicons name="calendar-outline" size={20} color="#fff" />
+              <Text className="ml-2 text-base font-semibold text-white">
+                Book
+              </Text>
+            </TouchableOpacity>
           </View>
         </View>
       )}
+
+      {!isOwnService && (
+        <BookingFormModal
+          visible={bookingVisible}
+          service={service}
+          workingHours={workingHours}
+          onClose={() => setBookingVisible(false)}
+          onBooked={() => setBookingVisible(false)}
+        />
+      )}
+
+      {!isOwnService && (
+        <ReportSheet target={reportTarget} onClose={closeReport} />
+      )}
+
+      {!isOwnService && (
+        <SaveToCollectionSheet
+          visible={collectionsVisible}
+          serviceId={service.id}
+          serviceTitle={service.title}
+          onClose={() => setCollectionsVisible(false)}
+          onChange={(saved) => markSaved(service.id, saved)}
+        />
+      )}
+
+      {isOwnService && (
+        <Modal
+          visible={availabilityVisible}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setAvailabilityVisible(false)}
+        >
+          <View className="flex-1 bg-slate-50">
+            <View className="flex-row items-center px-5 py-4 bg-white border-b border-slate-100">
+              <Text className="text-xl font-bold text-slate-900 flex-1">
+                Availability
+              </Text>
+              <TouchableOpacity
+                onPress={() => setAvailabilityVisible(false)}
+                className="p-1"
+              >
+                <AntDesign name="close" size={22} color={COLORS.slate900} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView contentContainerStyle={{ padding: 20 }}>
+              <AvailabilityEditor
+                profile={service.profile ?? null}
+                onSaved={() => {
+                  loadWorkingHours();
+                  loadService(true);
+                }}
+              />
+            </ScrollView>
+          </View>
+        </Modal>
+      )}
     </View>
   );
 }
@@ -0,0 +1,155 @@
+// lib/api/availability.api.ts
+import {
+  AvailableSlot,
+  BlackoutDate,
+  CreateBlackoutDateInput,
+  WorkingHours,
+  WorkingHoursInput,
+} from "../types/database.types";
+import { supabase } from "./supabase";
+
+/**
+ * Fetch a provider's weekly working hours, Sunday first.
+ * An empty list means the provider hasn't set fixed hours.
+ */
+export async function fetchWorkingHours(
+  providerId: string,
+): Promise<WorkingHours[]> {
+  try {
+    const { data, error } = await supabase
+      .from("provider_working_hours")
+      .select("*")
+      .eq("provider_id", providerId)
+      .order("weekday", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching working hours:", error);
+    throw error;
+  }
+}
+
+/**
+ * Set the current user's timezone and replace their weekly working hours
+ * — via the set_provider_availability RPC
+ */
+export async function saveAvailability(
+  timezone: string,
+  hours: WorkingHoursInput[],
+): Promise<WorkingHours[]> {
+  try {
+    const { data, error } = await supabase.rpc("set_provider_availability", {
+      p_timezone: timezone,
+      p_hours: hours,
+    });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error saving availability:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the current user's blackout dates that haven't ended yet.
+ *
+ * @param today - Local "YYYY-MM-DD" date in the provider's timezone
+ */
+export async function fetchBlackoutDates(
+  today: string,
+): Promise<BlackoutDate[]> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("provider_blackout_dates")
+      .select("*")
+      .eq("provider_id", user.id)
+      .gte("ends_on", today)
+      .order("starts_on", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching blackout dates:", error);
+    throw error;
+  }
+}
+
+/**
+ * Block out a range of days for the current user
+ */
+export async function addBlackoutDate(
+  input: CreateBlackoutDateInput,
+): Promise<BlackoutDate> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("provider_blackout_dates")
+      .insert({
+        provider_id: user.id,
+        starts_on: input.starts_on,
+        ends_on: input.ends_on,
+        reason: input.reason?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error adding blackout date:", error);
+    throw error;
+  }
+}
+
+/**
+ * Remove one of the current user's blackout ranges
+ */
+export async function deleteBlackoutDate(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from("provider_blackout_dates")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error deleting blackout date:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the free booking slots of a service, earliest first.
+ * Dates are "YYYY-MM-DD" days in the provider's timezone (inclusive, at
+ * most 62 days apart).
+ */
+export async function fetchAvailableSlots(
+  serviceId: string,
+  from: string,
+  to: string,
+): Promise<AvailableSlot[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_available_slots", {
+      p_service_id: serviceId,
+      p_from: from,
+      p_to: to,
+    });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching available slots:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,226 @@
+// lib/api/bookings.api.ts
+import {
+  Booking,
+  BookingRole,
+  BookingStatus,
+  BookingWithDetails,
+  CreateBookingInput,
+  NotificationType,
+} from "../types/database.types";
+import { sendNotification } from "./notifications.api";
+import { supabase } from "./supabase";
+
+const BOOKING_SELECT = `
+  *,
+  service:services(id, title, image_url),
+  buyer:profiles!bookings_buyer_id_fkey(*),
+  provider:profiles!bookings_provider_id_fkey(*)
+`;
+
+// Notification sent to the other party for each status change
+const STATUS_NOTIFICATIONS: Record<
+  Exclude<BookingStatus, "requested">,
+  { type: NotificationType; title: string; body: (service: string) => string }
+> = {
+  accepted: {
+    type: "booking_accepted",
+    title: "Booking Accepted",
+    body: (service) => `Your booking for ${service} was accepted`,
+  },
+  declined: {
+    type: "booking_declined",
+    title: "Booking Declined",
+    body: (service) => `Your booking for ${service} was declined`,
+  },
+  scheduled: {
+    type: "booking_scheduled",
+    title: "Booking Scheduled",
+    body: (service) => `Your booking for ${service} has been scheduled`,
+  },
+  completed: {
+    type: "booking_completed",
+    title: "Booking Completed",
+    body: (service) => `Your booking for ${service} was marked as done`,
+  },
+  cancelled: {
+    type: "booking_cancelled",
+    title: "Booking Cancelled",
+    body: (service) => `A booking for ${service} was cancelled`,
+  },
+};
+
+// Raised by the bookings_no_overlap exclusion constraint
+const SLOT_TAKEN_CODE = "23P01";
+
+// Turns a slot clash into a message the booking forms can show as is
+function toBookingError(error: { code?: string }) {
+  return error.code === SLOT_TAKEN_CODE
+    ? new Error("That time slot was just taken. Please pick another one.")
+    : error;
+}
+
+/**
+ * Request a booking for a service as the current user.
+ * The requested start must be a free slot within the provider's hours;
+ * the database rejects overlaps. Notifies the provider.
+ */
+export async function createBooking(
+  input: CreateBookingInput,
+): Promise<Booking> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("bookings")
+      .insert({
+        service_id: input.service_id,
+        buyer_id: user.id,
+        provider_id: input.provider_id,
+        package_id: input.package_id ?? null,
+        requested_start: input.requested_start ?? null,
+        notes: input.notes?.trim() || null,
+      })
+      .select("*, service:services(title)")
+      .single();
+
+    if (error) throw toBookingError(error);
+
+    await sendNotification({
+      user_id: input.provider_id,
+      type: "booking_requested",
+      title: "New Booking Request",
+      body: `Someone wants to book ${data.service?.title ?? "your service"}`,
+      data: {
+        booking_id: data.id,
+        service_id: input.service_id,
+        role: "provider",
+      },
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error creating booking:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the current user's bookings, newest first.
+ *
+ * @param role     - "buyer" for bookings they made, "provider" for bookings
+ *                   of their services
+ * @param statuses - Only return bookings in these states (default: all)
+ */
+export async function fetchBookings(
+  role: BookingRole,
+  statuses?: BookingStatus[],
+): Promise<BookingWithDetails[]> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    let query = supabase
+      .from("bookings")
+      .select(BOOKING_SELECT)
+      .eq(role === "buyer" ? "buyer_id" : "provider_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (statuses && statuses.length > 0) query = query.in("status", statuses);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching bookings:", error);
+    throw error;
+  }
+}
+
+/**
+ * Count booking requests still waiting for the current provider's answer.
+ */
+export async function getPendingBookingCount(): Promise<number> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return 0;
+
+    const { count, error } = await supabase
+      .from("bookings")
+      .select("*", { count: "exact", head: true })
+      .eq("provider_id", user.id)
+      .eq("status", "requested");
+
+    if (error) throw error;
+    return count || 0;
+  } catch (error) {
+    console.error("Error fetching pending booking count:", error);
+    return 0;
+  }
+}
+
+/**
+ * Move a booking to a new status and notify the other party.
+ * Allowed transitions are enforced by the database; see getBookingActions
+ * for what the UI offers each party.
+ *
+ * @param booking - The booking being changed (its service title is used
+ *                  in the notification)
+ * @param status  - The new status
+ * @param options - scheduledAt is required when scheduling; reason is an
+ *                  optional note for declines and cancellations
+ */
+export async function updateBookingStatus(
+  booking: BookingWithDetails,
+  status: Exclude<BookingStatus, "requested">,
+  options: { scheduledAt?: string; reason?: string } = {},
+): Promise<Booking> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("bookings")
+      .update({
+        status,
+        ...(options.scheduledAt ? { scheduled_at: options.scheduledAt } : {}),
+        ...(options.reason !== undefined
+          ? { status_reason: options.reason.trim() || null }
+          : {}),
+      })
+      .eq("id", booking.id)
+      .select()
+      .single();
+
+    if (error) throw toBookingError(error);
+
+    const isProvider = user.id === booking.provider_id;
+    const recipientId = isProvider ? booking.buyer_id : booking.provider_id;
+    const notification = STATUS_NOTIFICATIONS[status];
+    await sendNotification({
+      user_id: recipientId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body(booking.service?.title ?? "a service"),
+      data: {
+        booking_id: booking.id,
+        service_id: booking.service_id,
+        // Which side of the booking the recipient is on
+        role: isProvider ? "buyer" : "provider",
+      },
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error updating booking status:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,76 @@
+// lib/api/inbox.api.ts
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { Message, Quote } from "../types/database.types";
+import { supabase } from "./supabase";
+
+// Database triggers broadcast the current user's message and conversation
+// changes on a private per-user channel that only they can join. All
+// listeners share one channel.
+// muted = the user muted the conversation
+type InboxListener = {
+  onMessage?: (message: Message, muted: boolean) => void;
+  // read_count = how many messages the user received became read
+  onMessagesUpdated?: (update: {
+    conversation_id: string;
+    read_count: number;
+    muted: boolean;
+    last_message: Message | null;
+  }) => void;
+  onConversationUpdated?: (conversationId: string) => void;
+  // A quote was sent or answered in one of the user's conversations
+  onQuoteUpdated?: (quote: Quote) => void;
+};
+
+let inboxChannel: RealtimeChannel | null = null;
+let inboxUserId: string | null = null;
+const listeners = new Set<InboxListener>();
+
+function openInbox(userId: string) {
+  if (inboxChannel) supabase.removeChannel(inboxChannel);
+  inboxUserId = userId;
+
+  inboxChannel = supabase
+    .channel(`user:${userId}`, { config: { private: true } })
+    .on("broadcast", { event: "message_created" }, ({ payload }) => {
+      listeners.forEach((listener) =>
+        listener.onMessage?.(payload.message, payload.muted),
+      );
+    })
+    .on("broadcast", { event: "messages_updated" }, ({ payload }) => {
+      listeners.forEach((listener) => listener.onMessagesUpdated?.(payload));
+    })
+    .on("broadcast", { event: "conversation_updated" }, ({ payload }) => {
+      listeners.forEach((listener) =>
+        listener.onConversationUpdated?.(payload.conversation_id),
+      );
+    })
+    .on("broadcast", { event: "quote_updated" }, ({ payload }) => {
+      listeners.forEach((listener) => listener.onQuoteUpdated?.(payload));
+    })
+    .subscribe();
+}
+
+function closeInbox() {
+  if (inboxChannel) supabase.removeChannel(inboxChannel);
+  inboxChannel = null;
+  inboxUserId = null;
+}
+
+/**
+ * Listen to the current user's inbox (realtime): messages sent or received
+ * in their conversations, receipts and edits, conversation changes and
+ * quotes.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToInbox(
+  userId: string,
+  listener: InboxListener,
+): () => void {
+  listeners.add(listener);
+  if (inboxUserId !== userId) openInbox(userId);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) closeInbox();
+  };
+}
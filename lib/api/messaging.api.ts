@@ -1,28 +1,97 @@
 // lib/api/messaging.api.ts
 import {
   Conversation,
+  ConversationUserState,
   ConversationWithDetails,
   CreateConversationInput,
   Message,
+  MessageAttachment,
+  MessagesCursor,
+  MessagesPage,
+  MessagesWindow,
   MessageWithSender,
   SendMessageInput,
 } from "../types/database.types";
+import { uploadImage } from "../utils/imageUtils";
+import { sendNotification } from "./notifications.api";
 import { supabase } from "./supabase";
 
-// Image messages are stored in the messages.content field with this prefix.
-// e.g. "[image]:https://..."
-export const IMAGE_MESSAGE_PREFIX = "[image]:";
+const MESSAGES_PER_PAGE = 30;
 
-export function isImageMessage(content: string): boolean {
-  return content.startsWith(IMAGE_MESSAGE_PREFIX);
+const MESSAGE_SELECT = `
+  *,
+  sender_profile:profiles!sender_id(*),
+  quote:quotes!quote_id(*)
+`;
+
+// How long after sending a message its text can still be edited
+// (enforced by the database)
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Whether the sender can still edit a message
+ */
+export function canEditMessage(
+  message: Pick<Message, "created_at" | "deleted_at">,
+): boolean {
+  return (
+    !message.deleted_at &&
+    Date.now() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MS
+  );
 }
 
-export function getImageUrl(content: string): string {
-  return content.slice(IMAGE_MESSAGE_PREFIX.length);
+/**
+ * One-line preview of a message for conversation lists.
+ * e.g. "📷 Photo", "📷 3 Photos · Here's the leak", "📎 quote.pdf"
+ */
+export function getMessagePreview(
+  message: Pick<Message, "content" | "attachments" | "deleted_at" | "quote_id">,
+): string {
+  if (message.deleted_at) return "Message removed";
+  if (message.quote_id) return "💵 Quote";
+  const attachments = message.attachments ?? [];
+  const caption = message.content.trim();
+  if (attachments.length === 0) return caption;
+
+  let label: string;
+  if (attachments.every((a) => a.kind === "image")) {
+    label =
+      attachments.length === 1 ? "📷 Photo" : `📷 ${attachments.length} Photos`;
+  } else if (attachments.every((a) => a.kind === "video")) {
+    label =
+      attachments.length === 1 ? "🎬 Video" : `🎬 ${attachments.length} Videos`;
+  } else if (attachments.length === 1) {
+    label = `📎 ${attachments[0].name ?? "File"}`;
+  } else {
+    label = `📎 ${attachments.length} Attachments`;
+  }
+  return caption ? `${label} · ${caption}` : label;
 }
 
 /**
- * Get or create a conversation between buyer and seller for a specific service
+ * Upload attachments that still point at files on this device to chat
+ * storage. Attachments that are already uploaded are returned unchanged,
+ * so a failed send can be retried without uploading twice.
+ */
+export async function uploadMessageAttachments(
+  attachments: MessageAttachment[],
+): Promise<MessageAttachment[]> {
+  return Promise.all(
+    attachments.map(async (attachment) =>
+      /^https?:\/\//.test(attachment.url)
+        ? attachment
+        : {
+            ...attachment,
+            url: await uploadImage(attachment.url, "chat-images"),
+          },
+    ),
+  );
+}
+
+/**
+ * Get or create a conversation between the current user (buyer) and a
+ * provider, about one of their services or none. Reuses the latest thread
+ * for the same service whose job isn't done yet, unless new_thread is set.
  */
 export async function getOrCreateConversation(
   input: CreateConversationInput,
@@ -34,19 +103,32 @@ export async function getOrCreateConversation(
 
     if (!user) throw new Error("User not authenticated");
 
-    const { data: existing } = await supabase
-      .from("conversations")
-      .select("*")
-      .eq("service_id", input.service_id)
-      .eq("buyer_id", user.id)
-      .single();
+    const serviceId = input.service_id ?? null;
 
-    if (existing) return existing;
+    if (!input.new_thread) {
+      let query = supabase
+        .from("conversations")
+        .select("*")
+        .eq("buyer_id", user.id)
+        .eq("seller_id", input.seller_id)
+        .is("job_completed_at", null);
+      query = serviceId
+        ? query.eq("service_id", serviceId)
+        : query.is("service_id", null);
+
+      const { data: existing, error: existingError } = await query
+        .order("last_message_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing) return existing;
+    }
 
     const { data, error } = await supabase
       .from("conversations")
       .insert({
-        service_id: input.service_id,
+        service_id: serviceId,
         buyer_id: user.id,
         seller_id: input.seller_id,
       })
@@ -74,6 +156,40 @@ export async function fetchConversations(): Promise<ConversationWithDetails[]> {
 
     if (!user) throw new Error("User not authenticated");
 
+    // One row per conversation, with its last message and unread count
+    const { data, error } = await supabase.rpc("get_conversations");
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching conversations:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get how many received messages the current user has not read yet,
+ * across all conversations
+ */
+export async function getUnreadMessageCount(): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc("get_unread_message_count");
+
+    if (error) throw error;
+    return data || 0;
+  } catch (error) {
+    console.error("Error fetching unread message count:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single conversation with its service and both profiles
+ */
+export async function fetchConversation(
+  conversationId: string,
+): Promise<ConversationWithDetails> {
+  try {
     const { data, error } = await supabase
       .from("conversations")
       .select(
@@ -84,79 +200,294 @@ export async function fetchConversations(): Promise<ConversationWithDetails[]> {
         seller_profile:profiles!seller_id(*)
       `,
       )
-      .or(`buyer_id.eq.${user.id},seller_id.eq.${user.id}`)
-      .order("last_message_at", { ascending: false });
+      .eq("id", conversationId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error fetching conversation:", error);
+    throw error;
+  }
+}
+
+/**
+ * Switch the service a conversation concerns, or clear it with null.
+ * Either participant, until the job is marked done.
+ */
+export async function setConversationService(
+  conversationId: string,
+  serviceId: string | null,
+): Promise<Conversation> {
+  try {
+    const { data, error } = await supabase.rpc("set_conversation_service", {
+      p_conversation_id: conversationId,
+      p_service_id: serviceId,
+    });
 
     if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error setting conversation service:", error);
+    throw error;
+  }
+}
+
+/**
+ * Mark the job discussed in a conversation as done (seller only).
+ * This lets the buyer leave a verified review; notifies the buyer.
+ */
+export async function markConversationJobDone(
+  conversation: ConversationWithDetails,
+): Promise<Conversation> {
+  try {
+    const { data, error } = await supabase.rpc("mark_conversation_job_done", {
+      p_conversation_id: conversation.id,
+    });
+
+    if (error) throw error;
+
+    await sendNotification({
+      user_id: conversation.buyer_id,
+      type: "job_completed",
+      title: "Job Done",
+      body: `${conversation.service?.title ?? "Your job"} was marked as done. Leave a review!`,
+      data: {
+        conversation_id: conversation.id,
+        ...(conversation.service_id
+          ? { service_id: conversation.service_id }
+          : {}),
+      },
+    });
 
-    const conversationsWithDetails = await Promise.all(
-      (data || []).map(async (conversation) => {
-        const { data: lastMessage } = await supabase
-          .from("messages")
-          .select("*")
-          .eq("conversation_id", conversation.id)
-          .order("created_at", { ascending: false })
-          .limit(1)
-          .single();
-
-        const { count: unreadCount } = await supabase
-          .from("messages")
-          .select("*", { count: "exact", head: true })
-          .eq("conversation_id", conversation.id)
-          .eq("is_read", false)
-          .neq("sender_id", user.id);
-
-        return {
-          ...conversation,
-          last_message: lastMessage || undefined,
-          unread_count: unreadCount || 0,
-        };
-      }),
-    );
-
-    return conversationsWithDetails;
+    return data;
   } catch (error) {
-    console.error("Error fetching conversations:", error);
+    console.error("Error marking job done:", error);
+    throw error;
+  }
+}
+
+/**
+ * Pin, mute or archive a conversation for the current user only.
+ * Settings left out are unchanged.
+ */
+export async function updateConversationState(
+  conversationId: string,
+  changes: { pinned?: boolean; muted?: boolean; archived?: boolean },
+): Promise<ConversationUserState> {
+  try {
+    const { data, error } = await supabase.rpc("update_conversation_state", {
+      p_conversation_id: conversationId,
+      p_pinned: changes.pinned ?? null,
+      p_muted: changes.muted ?? null,
+      p_archived: changes.archived ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error updating conversation state:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a conversation for the current user only. Its messages so far are
+ * hidden from them; it comes back if a new message arrives.
+ */
+export async function deleteConversationForMe(
+  conversationId: string,
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc("delete_conversation_for_me", {
+      p_conversation_id: conversationId,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error deleting conversation:", error);
     throw error;
   }
 }
 
 /**
- * Get messages for a specific conversation
+ * Get a page of messages in a conversation, newest first, with the quotes
+ * they carry. Pass the previous page's nextCursor to fetch older messages.
  */
 export async function fetchMessages(
   conversationId: string,
-): Promise<MessageWithSender[]> {
+  cursor: MessagesCursor | null = null,
+  limit = MESSAGES_PER_PAGE,
+): Promise<MessagesPage> {
+  try {
+    let query = supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
+      .eq("conversation_id", conversationId);
+
+    if (cursor) {
+      query = query.or(
+        `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`,
+      );
+    }
+
+    // Fetch one extra row to know whether older messages exist
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    const rows: MessageWithSender[] = data || [];
+    const page = rows.slice(0, limit);
+    const oldest = page[page.length - 1];
+
+    return {
+      messages: page,
+      nextCursor:
+        rows.length > limit && oldest
+          ? { created_at: oldest.created_at, id: oldest.id }
+          : null,
+    };
+  } catch (error) {
+    console.error("Error fetching messages:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get a page of messages sent after the cursor, newest first.
+ * newerCursor is null once the latest message is included.
+ */
+export async function fetchNewerMessages(
+  conversationId: string,
+  cursor: MessagesCursor,
+  limit = MESSAGES_PER_PAGE,
+): Promise<Pick<MessagesWindow, "messages" | "newerCursor">> {
   try {
+    // Oldest first, one extra row to know whether newer messages exist
     const { data, error } = await supabase
       .from("messages")
-      .select(
-        `
-        *,
-        sender_profile:profiles!sender_id(*)
-      `,
+      .select(MESSAGE_SELECT)
+      .eq("conversation_id", conversationId)
+      .or(
+        `created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`,
       )
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    const rows: MessageWithSender[] = data || [];
+    const page = rows.slice(0, limit);
+    const newest = page[page.length - 1];
+
+    return {
+      messages: page.reverse(),
+      newerCursor:
+        rows.length > limit && newest
+          ? { created_at: newest.created_at, id: newest.id }
+          : null,
+    };
+  } catch (error) {
+    console.error("Error fetching newer messages:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the messages around one message of a conversation, e.g. a search
+ * result: the message itself with about half a page on either side.
+ */
+export async function fetchMessagesAround(
+  conversationId: string,
+  messageId: string,
+  limit = MESSAGES_PER_PAGE,
+): Promise<MessagesWindow> {
+  try {
+    const { data: target, error } = await supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
       .eq("conversation_id", conversationId)
-      .order("created_at", { ascending: true });
+      .eq("id", messageId)
+      .single();
 
     if (error) throw error;
-    return data || [];
+
+    const cursor = { created_at: target.created_at, id: target.id };
+    const half = Math.ceil(limit / 2);
+    const [older, newer] = await Promise.all([
+      fetchMessages(conversationId, cursor, half),
+      fetchNewerMessages(conversationId, cursor, half),
+    ]);
+
+    return {
+      messages: [...newer.messages, target, ...older.messages],
+      nextCursor: older.nextCursor,
+      newerCursor: newer.newerCursor,
+    };
   } catch (error) {
-    console.error("Error fetching messages:", error);
+    console.error("Error fetching messages around:", error);
     throw error;
   }
 }
 
 /**
- * Send a message in a conversation
+ * Search the text of the current user's messages, newest first.
+ * Only conversations they can see are searched; unsent messages and
+ * conversations with blocked users are left out. Pass the previous page's
+ * nextCursor for more results.
+ */
+export async function searchMessages(
+  query: string,
+  cursor: MessagesCursor | null = null,
+  limit = MESSAGES_PER_PAGE,
+): Promise<MessagesPage> {
+  try {
+    const { data, error } = await supabase.rpc("search_messages", {
+      p_query: query,
+      // One extra row to know whether there are more results
+      p_limit: limit + 1,
+      p_cursor_created_at: cursor?.created_at ?? null,
+      p_cursor_id: cursor?.id ?? null,
+    });
+
+    if (error) throw error;
+
+    const rows: Message[] = data || [];
+    const page = rows.slice(0, limit);
+    const oldest = page[page.length - 1];
+
+    return {
+      messages: page,
+      nextCursor:
+        rows.length > limit && oldest
+          ? { created_at: oldest.created_at, id: oldest.id }
+          : null,
+    };
+  } catch (error) {
+    console.error("Error searching messages:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send a message in a conversation: text, attachments with an optional
+ * caption, or both.
+ * With a client_id, sending the same message again returns the stored row
+ * instead of creating a duplicate.
  */
 export async function sendMessage(input: SendMessageInput): Promise<Message> {
   try {
     const {
       data: { user },
+      error: authError,
     } = await supabase.auth.getUser();
 
-    if (!user) throw new Error("User not authenticated");
+    // Offline, getUser fails too; pass that on so the outbox retries
+    if (!user) throw authError ?? new Error("User not authenticated");
 
     const { data, error } = await supabase
       .from("messages")
@@ -164,10 +495,24 @@ export async function sendMessage(input: SendMessageInput): Promise<Message> {
         conversation_id: input.conversation_id,
         sender_id: user.id,
         content: input.content.trim(),
+        attachments: input.attachments ?? [],
+        client_id: input.client_id ?? null,
       })
       .select()
       .single();
 
+    // Already sent (unique violation on sender_id, client_id)
+    if (error?.code === "23505" && input.client_id) {
+      const { data: existing, error: fetchError } = await supabase
+        .from("messages")
+        .select("*")
+        .eq("sender_id", user.id)
+        .eq("client_id", input.client_id)
+        .single();
+
+      if (fetchError) throw fetchError;
+      return existing;
+    }
     if (error) throw error;
     if (!data) throw new Error("Failed to send message");
 
@@ -179,24 +524,83 @@ export async function sendMessage(input: SendMessageInput): Promise<Message> {
 }
 
 /**
- * Mark messages as read
+ * Change the text of one of the current user's messages.
+ * Only allowed within MESSAGE_EDIT_WINDOW_MS of sending; marks it edited.
  */
-export async function markMessagesAsRead(
-  conversationId: string,
-): Promise<void> {
+export async function editMessage(
+  messageId: string,
+  content: string,
+): Promise<Message> {
   try {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from("messages")
+      .update({ content: content.trim() })
+      .eq("id", messageId)
+      .select()
+      .single();
 
-    if (!user) throw new Error("User not authenticated");
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error editing message:", error);
+    throw error;
+  }
+}
 
-    const { error } = await supabase
+/**
+ * Unsend one of the current user's messages. Its text and attachments are
+ * cleared for both participants, leaving a "message removed" placeholder.
+ */
+export async function unsendMessage(messageId: string): Promise<Message> {
+  try {
+    const { data, error } = await supabase
       .from("messages")
-      .update({ is_read: true })
-      .eq("conversation_id", conversationId)
-      .eq("is_read", false)
-      .neq("sender_id", user.id);
+      .update({
+        content: "",
+        attachments: [],
+        deleted_at: new Date().toISOString(),
+      })
+      .eq("id", messageId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error unsending message:", error);
+    throw error;
+  }
+}
+
+/**
+ * Mark messages received by the current user as delivered to this device.
+ * Without IDs, marks everything received so far.
+ */
+export async function markMessagesDelivered(
+  messageIds: string[] | null = null,
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc("mark_messages_delivered", {
+      p_message_ids: messageIds,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error marking messages as delivered:", error);
+    throw error;
+  }
+}
+
+/**
+ * Mark messages the current user has seen on screen as read.
+ * Messages they sent themselves are ignored.
+ */
+export async function markMessagesAsRead(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) return;
+  try {
+    const { error } = await supabase.rpc("mark_messages_read", {
+      p_message_ids: messageIds,
+    });
 
     if (error) throw error;
   } catch (error) {
@@ -206,12 +610,19 @@ export async function markMessagesAsRead(
 }
 
 /**
- * Subscribe to new messages in a conversation (realtime)
+ * Subscribe to a conversation (realtime): new messages, changes to
+ * messages (read receipts, edits and unsends), plus "typing" broadcasts from the other
+ * participant on the conversation's private typing channel. sendTyping
+ * broadcasts that the current user is typing; callers throttle it.
  */
 export function subscribeToMessages(
   conversationId: string,
-  callback: (message: Message) => void,
-) {
+  handlers: {
+    onMessage: (message: Message) => void;
+    onUpdate?: (message: Message) => void;
+    onTyping?: (userId: string) => void;
+  },
+): { sendTyping: (userId: string) => void; unsubscribe: () => void } {
   const channel = supabase
     .channel(`messages:${conversationId}`)
     .on(
@@ -223,52 +634,42 @@ export function subscribeToMessages(
         filter: `conversation_id=eq.${conversationId}`,
       },
       (payload) => {
-        callback(payload.new as Message);
-      },
-    )
-    .subscribe();
-
-  return () => {
-    supabase.removeChannel(channel);
-  };
-}
-
-/**
- * Subscribe to conversation updates (realtime)
- */
-export function subscribeToConversations(
-  userId: string,
-  callback: (conversation: Conversation) => void,
-) {
-  const channel = supabase
-    .channel(`conversations:${userId}`)
-    .on(
-      "postgres_changes",
-      {
-        event: "*",
-        schema: "public",
-        table: "conversations",
-        filter: `buyer_id=eq.${userId}`,
-      },
-      (payload) => {
-        callback(payload.new as Conversation);
+        handlers.onMessage(payload.new as Message);
       },
     )
     .on(
       "postgres_changes",
       {
-        event: "*",
+        event: "UPDATE",
         schema: "public",
-        table: "conversations",
-        filter: `seller_id=eq.${userId}`,
+        table: "messages",
+        filter: `conversation_id=eq.${conversationId}`,
       },
       (payload) => {
-        callback(payload.new as Conversation);
+        handlers.onUpdate?.(payload.new as Message);
       },
     )
     .subscribe();
 
-  return () => {
-    supabase.removeChannel(channel);
+  // Only the two participants can join (see the realtime.messages policies)
+  const typingChannel = supabase
+    .channel(`typing:${conversationId}`, { config: { private: true } })
+    .on("broadcast", { event: "typing" }, ({ payload }) => {
+      handlers.onTyping?.(payload.user_id);
+    })
+    .subscribe();
+
+  return {
+    sendTyping: (userId) => {
+      typingChannel.send({
+        type: "broadcast",
+        event: "typing",
+        payload: { user_id: userId },
+      });
+    },
+    unsubscribe: () => {
+      supabase.removeChannel(channel);
+      supabase.removeChannel(typingChannel);
+    },
   };
 }
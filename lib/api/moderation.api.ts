@@ -0,0 +1,152 @@
+// lib/api/moderation.api.ts
+import {
+  CreateReportInput,
+  Report,
+  ReportReason,
+  UserBlockWithProfile,
+} from "../types/database.types";
+import { supabase } from "./supabase";
+
+// Labels of report reasons, in the order they are offered
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "Spam" },
+  { value: "scam", label: "Scam or fraud" },
+  { value: "harassment", label: "Harassment or hate" },
+  { value: "inappropriate", label: "Inappropriate content" },
+  { value: "impersonation", label: "Pretending to be someone else" },
+  { value: "other", label: "Something else" },
+];
+
+/**
+ * Block a user. They can no longer message the current user, comment on
+ * their services or react to their reviews, and their content is hidden
+ * from the current user.
+ */
+export async function blockUser(userId: string): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await supabase
+      .from("user_blocks")
+      .insert({ blocker_id: user.id, blocked_id: userId });
+
+    // Already blocked
+    if (error?.code === "23505") return;
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error blocking user:", error);
+    throw error;
+  }
+}
+
+/**
+ * Unblock a user the current user blocked
+ */
+export async function unblockUser(userId: string): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await supabase
+      .from("user_blocks")
+      .delete()
+      .eq("blocker_id", user.id)
+      .eq("blocked_id", userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error unblocking user:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the users the current user blocked, most recent first
+ */
+export async function fetchBlockedUsers(): Promise<UserBlockWithProfile[]> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("user_blocks")
+      .select(
+        `
+        *,
+        blocked_profile:profiles!blocked_id(*)
+      `,
+      )
+      .eq("blocker_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching blocked users:", error);
+    throw error;
+  }
+}
+
+/**
+ * Whether the current user blocked a user. False when signed out.
+ */
+export async function isUserBlocked(userId: string): Promise<boolean> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    const { count, error } = await supabase
+      .from("user_blocks")
+      .select("*", { count: "exact", head: true })
+      .eq("blocker_id", user.id)
+      .eq("blocked_id", userId);
+
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  } catch (error) {
+    console.error("Error checking block:", error);
+    throw error;
+  }
+}
+
+/**
+ * Report a service, message, review, comment or profile to the moderators
+ */
+export async function submitReport(input: CreateReportInput): Promise<Report> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("reports")
+      .insert({
+        reporter_id: user.id,
+        entity_type: input.entity_type,
+        entity_id: input.entity_id,
+        reason: input.reason,
+        details: input.details?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error?.code === "23505") {
+      throw new Error("You have already reported this");
+    }
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error submitting report:", error);
+    throw error;
+  }
+}
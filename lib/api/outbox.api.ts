@@ -0,0 +1,219 @@
+// lib/api/outbox.api.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  Message,
+  MessageAttachment,
+  OutboxEntry,
+} from "../types/database.types";
+import { sendMessage, uploadMessageAttachments } from "./messaging.api";
+import { supabase } from "./supabase";
+
+// Outgoing messages are queued here, in send order, until the server has
+// stored them. The queue survives restarts; each entry's client_id lets the
+// server drop a resend of a message it already has.
+const OUTBOX_KEY = "message_outbox";
+
+// Waits between automatic resends while offline; the last one repeats until
+// a send gets through or MAX_ATTEMPTS is reached. Reconnecting
+// (useMessageOutbox) resends right away.
+const RETRY_DELAYS_MS = [2000, 5000, 15000, 30000, 60000];
+
+// After this many failed sends (about eight minutes of retries) a message is
+// marked failed and left for the user to retry or discard
+const MAX_ATTEMPTS = 12;
+
+type OutboxListener = {
+  onChange?: (entries: OutboxEntry[]) => void;
+  onSent?: (entry: OutboxEntry, message: Message) => void;
+};
+
+let entries: OutboxEntry[] = [];
+let loaded: Promise<void> | null = null;
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<OutboxListener>();
+
+function generateClientId(): string {
+  // RFC 4122 version 4 UUID
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+function loadOutbox(): Promise<void> {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(OUTBOX_KEY)
+      .then((stored) => {
+        // Entries queued since the app started come after the stored ones
+        if (stored) entries = [...JSON.parse(stored), ...entries];
+      })
+      .catch((error) => {
+        console.error("Error loading message outbox:", error);
+      });
+  }
+  return loaded;
+}
+
+async function setEntries(next: OutboxEntry[]) {
+  entries = next;
+  listeners.forEach((listener) => listener.onChange?.(entries));
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error("Error saving message outbox:", error);
+  }
+}
+
+function updateEntry(clientId: string, changes: Partial<OutboxEntry>) {
+  return setEntries(
+    entries.map((e) => (e.client_id === clientId ? { ...e, ...changes } : e)),
+  );
+}
+
+// Requests that never got an answer — no connection, DNS, timeouts — are
+// worth retrying. fetch() rejects with a TypeError, which the Supabase
+// clients pass on or wrap (auth as AuthRetryableFetchError, the others
+// with the original message). Anything the server answered is final.
+function isNetworkError(error: any): boolean {
+  if (error instanceof TypeError) return true;
+  if (error?.name === "AuthRetryableFetchError") return true;
+  return /network request failed|failed to fetch|network ?error|fetch ?error|abort|timed? ?out/i.test(
+    `${error?.name ?? ""}: ${error?.message ?? ""}`,
+  );
+}
+
+function scheduleRetry(attempts: number) {
+  if (retryTimer) clearTimeout(retryTimer);
+  const delay =
+    RETRY_DELAYS_MS[Math.min(attempts - 1, RETRY_DELAYS_MS.length - 1)];
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, delay);
+}
+
+/**
+ * Queue a message for sending and start sending the queue.
+ * Attachments may point at local files; they are uploaded when sent.
+ */
+export async function enqueueMessage(input: {
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  attachments: MessageAttachment[];
+}): Promise<OutboxEntry> {
+  await loadOutbox();
+  const entry: OutboxEntry = {
+    client_id: generateClientId(),
+    conversation_id: input.conversation_id,
+    sender_id: input.sender_id,
+    content: input.content.trim(),
+    attachments: input.attachments,
+    created_at: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+    error: null,
+  };
+  await setEntries([...entries, entry]);
+  flushOutbox();
+  return entry;
+}
+
+/**
+ * Send the current user's pending messages one at a time, oldest first.
+ * Stops at the first failure that looks like a lost connection and tries
+ * again later, so messages arrive in the order they were written. Other
+ * failures mark the message failed and move on to the next one.
+ */
+export async function flushOutbox(): Promise<void> {
+  await loadOutbox();
+  if (flushing) return;
+  flushing = true;
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  try {
+    // Read from storage, so it works offline
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    const userId = session?.user.id;
+    if (!userId) return;
+
+    let entry: OutboxEntry | undefined;
+    while (
+      (entry = entries.find(
+        (e) => e.status === "pending" && e.sender_id === userId,
+      ))
+    ) {
+      const queued = entry.attachments;
+      try {
+        // Keep uploaded URLs so a resend doesn't upload the files again
+        const attachments = await uploadMessageAttachments(queued);
+        if (attachments.some((a, i) => a.url !== queued[i].url)) {
+          await updateEntry(entry.client_id, { attachments });
+        }
+
+        const message = await sendMessage({
+          conversation_id: entry.conversation_id,
+          content: entry.content,
+          attachments,
+          client_id: entry.client_id,
+        });
+
+        const sent = entry;
+        listeners.forEach((listener) => listener.onSent?.(sent, message));
+        await setEntries(entries.filter((e) => e.client_id !== sent.client_id));
+      } catch (error: any) {
+        const attempts = entry.attempts + 1;
+        if (!isNetworkError(error) || attempts >= MAX_ATTEMPTS) {
+          await updateEntry(entry.client_id, {
+            status: "failed",
+            attempts,
+            error: error?.message ?? null,
+          });
+          continue;
+        }
+        await updateEntry(entry.client_id, { attempts });
+        scheduleRetry(attempts);
+        return;
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+/**
+ * Put a failed message back in the queue and send it
+ */
+export async function retryOutboxEntry(clientId: string): Promise<void> {
+  await loadOutbox();
+  await updateEntry(clientId, { status: "pending", attempts: 0, error: null });
+  flushOutbox();
+}
+
+/**
+ * Drop a failed message from the queue without sending it
+ */
+export async function discardOutboxEntry(clientId: string): Promise<void> {
+  await loadOutbox();
+  await setEntries(entries.filter((e) => e.client_id !== clientId));
+}
+
+/**
+ * Listen to the queue: onChange gets every entry whenever the queue
+ * changes (immediately too), onSent gets each message once it is stored.
+ */
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  loadOutbox().then(() => {
+    if (listeners.has(listener)) listener.onChange?.(entries);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
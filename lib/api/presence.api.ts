@@ -0,0 +1,180 @@
+// lib/api/presence.api.ts
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+
+// Each user tracks themselves on their own private channel while the app
+// is open; only their conversation partners may join it (realtime.messages
+// policies). Users who hide their last seen don't track, so they appear
+// offline.
+const presenceTopic = (userId: string) => `presence:${userId}`;
+
+let ownChannel: RealtimeChannel | null = null;
+// Mirrors profiles.show_last_seen of the current user
+let presenceVisible = true;
+
+// Partners' channels being watched, with how many subscribers want each
+const watchedChannels = new Map<
+  string,
+  { channel: RealtimeChannel; refs: number }
+>();
+let onlineUserIds = new Set<string>();
+const onlineListeners = new Set<(userIds: Set<string>) => void>();
+
+function setOnline(userId: string, online: boolean) {
+  if (onlineUserIds.has(userId) === online) return;
+  const next = new Set(onlineUserIds);
+  if (online) next.add(userId);
+  else next.delete(userId);
+  onlineUserIds = next;
+  onlineListeners.forEach((listener) => listener(next));
+}
+
+function watchUser(userId: string) {
+  const watched = watchedChannels.get(userId);
+  if (watched) {
+    watched.refs += 1;
+    return;
+  }
+
+  const channel = supabase.channel(presenceTopic(userId), {
+    config: { private: true },
+  });
+  watchedChannels.set(userId, { channel, refs: 1 });
+
+  channel
+    .on("presence", { event: "sync" }, () => {
+      setOnline(userId, userId in channel.presenceState());
+    })
+    .subscribe();
+}
+
+function unwatchUser(userId: string) {
+  const watched = watchedChannels.get(userId);
+  if (!watched) return;
+  watched.refs -= 1;
+  if (watched.refs > 0) return;
+
+  supabase.removeChannel(watched.channel);
+  watchedChannels.delete(userId);
+  setOnline(userId, false);
+}
+
+/**
+ * Join the current user's own presence channel. Unless they hide their
+ * last seen, they are shown as online to their conversation partners.
+ * Returns a function that leaves it.
+ */
+export function joinOnlinePresence(userId: string): () => void {
+  if (ownChannel) supabase.removeChannel(ownChannel);
+
+  const channel = supabase.channel(presenceTopic(userId), {
+    config: { private: true, presence: { key: userId } },
+  });
+  ownChannel = channel;
+
+  channel.subscribe((status) => {
+    if (status === "SUBSCRIBED" && presenceVisible) {
+      channel.track({ online_at: new Date().toISOString() });
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+    if (ownChannel === channel) ownChannel = null;
+  };
+}
+
+/**
+ * Show or hide the current user in their presence channel, now and
+ * whenever they join it again
+ */
+export async function setPresenceVisible(visible: boolean): Promise<void> {
+  presenceVisible = visible;
+  if (!ownChannel) return;
+  if (visible) {
+    await ownChannel.track({ online_at: new Date().toISOString() });
+  } else {
+    await ownChannel.untrack();
+  }
+}
+
+/**
+ * Listen to which of the given users (conversation partners of the
+ * current user) are online. The callback runs immediately with the
+ * current set of online user IDs, then on every change.
+ */
+export function subscribeToOnlineUsers(
+  userIds: string[],
+  callback: (userIds: Set<string>) => void,
+): () => void {
+  userIds.forEach(watchUser);
+  onlineListeners.add(callback);
+  callback(onlineUserIds);
+  return () => {
+    onlineListeners.delete(callback);
+    userIds.forEach(unwatchUser);
+  };
+}
+
+/**
+ * Record that the current user is active now
+ */
+export async function touchLastSeen(): Promise<void> {
+  try {
+    const { error } = await supabase.rpc("touch_last_seen");
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error updating last seen:", error);
+  }
+}
+
+/**
+ * Get when the given users were last active, keyed by user ID.
+ * Only people the current user has a conversation with are returned; the
+ * time is null for users who hide their last seen.
+ */
+export async function fetchLastSeen(
+  userIds: string[],
+): Promise<Record<string, string | null>> {
+  try {
+    const { data, error } = await supabase.rpc("get_last_seen", {
+      p_user_ids: userIds,
+    });
+
+    if (error) throw error;
+
+    const lastSeen: Record<string, string | null> = {};
+    (data || []).forEach(
+      (row: { user_id: string; last_seen_at: string | null }) => {
+        lastSeen[row.user_id] = row.last_seen_at;
+      },
+    );
+    return lastSeen;
+  } catch (error) {
+    console.error("Error fetching last seen:", error);
+    throw error;
+  }
+}
+
+/**
+ * Show or hide the current user's online status and last seen
+ */
+export async function updateShowLastSeen(show: boolean): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ show_last_seen: show })
+      .eq("id", user.id);
+
+    if (error) throw error;
+    await setPresenceVisible(show);
+  } catch (error) {
+    console.error("Error updating last seen privacy:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,128 @@
+// lib/api/quickReplies.api.ts
+import { QuickReply, QuickReplyInput } from "../types/database.types";
+import { supabase } from "./supabase";
+
+/**
+ * Get the current user's quick replies, oldest first
+ */
+export async function fetchQuickReplies(): Promise<QuickReply[]> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("quick_replies")
+      .select("*")
+      .eq("provider_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching quick replies:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save a new quick reply for the current user
+ */
+export async function createQuickReply(
+  input: QuickReplyInput,
+): Promise<QuickReply> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("quick_replies")
+      .insert({
+        provider_id: user.id,
+        title: input.title.trim(),
+        body: input.body.trim(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error creating quick reply:", error);
+    throw error;
+  }
+}
+
+/**
+ * Change the title and text of one of the current user's quick replies
+ */
+export async function updateQuickReply(
+  id: string,
+  input: QuickReplyInput,
+): Promise<QuickReply> {
+  try {
+    const { data, error } = await supabase
+      .from("quick_replies")
+      .update({
+        title: input.title.trim(),
+        body: input.body.trim(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error updating quick reply:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete one of the current user's quick replies
+ */
+export async function deleteQuickReply(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from("quick_replies")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error deleting quick reply:", error);
+    throw error;
+  }
+}
+
+/**
+ * Turn the current user's away message on or off and set its text.
+ * While on, the first message of a new conversation that arrives outside
+ * their working hours gets it as an automatic reply.
+ */
+export async function saveAwayMessage(
+  enabled: boolean,
+  message: string,
+): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ away_enabled: enabled, away_message: message.trim() || null })
+      .eq("id", user.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error saving away message:", error);
+    throw error;
+  }
+}
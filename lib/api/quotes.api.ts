@@ -0,0 +1,125 @@
+// lib/api/quotes.api.ts
+import {
+  CreateQuoteInput,
+  NotificationType,
+  Quote,
+} from "../types/database.types";
+import { formatPrice } from "../utils/format";
+import { sendNotification } from "./notifications.api";
+import { supabase } from "./supabase";
+
+// Notification sent to the quote's sender when it is answered
+const RESPONSE_NOTIFICATIONS: Record<
+  "accepted" | "declined",
+  { type: NotificationType; title: string; body: (total: string) => string }
+> = {
+  accepted: {
+    type: "quote_accepted",
+    title: "Quote Accepted",
+    body: (total) => `Your quote for ${total} was accepted`,
+  },
+  declined: {
+    type: "quote_declined",
+    title: "Quote Declined",
+    body: (total) => `Your quote for ${total} was declined`,
+  },
+};
+
+/**
+ * Send a quote in a conversation, or counter a quote the current user
+ * received (parent_quote_id). Only the provider can send a first quote.
+ * The quote is posted as a message; notifies the other participant.
+ */
+export async function createQuote(input: CreateQuoteInput): Promise<Quote> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("quotes")
+      .insert({
+        conversation_id: input.conversation_id,
+        created_by: user.id,
+        parent_quote_id: input.parent_quote_id ?? null,
+        line_items: input.line_items.map((item) => ({
+          description: item.description.trim(),
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+        })),
+        valid_until: input.valid_until,
+        notes: input.notes?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const quote: Quote = data;
+    const isProvider = user.id === quote.provider_id;
+    const countered = !!quote.parent_quote_id;
+    await sendNotification({
+      user_id: isProvider ? quote.buyer_id : quote.provider_id,
+      type: countered ? "quote_countered" : "quote_received",
+      title: countered ? "Counter Offer" : "New Quote",
+      body: countered
+        ? `You received a counter offer of ${formatPrice(quote.total)}`
+        : `You received a quote for ${formatPrice(quote.total)}`,
+      data: {
+        quote_id: quote.id,
+        conversation_id: quote.conversation_id,
+        ...(quote.service_id ? { service_id: quote.service_id } : {}),
+      },
+    });
+
+    return quote;
+  } catch (error) {
+    console.error("Error creating quote:", error);
+    throw error;
+  }
+}
+
+/**
+ * Accept or decline a quote the current user received and notify its
+ * sender. Accepting records it on the conversation. To counter, send a
+ * quote with parent_quote_id instead.
+ */
+export async function respondToQuote(
+  quote: Quote,
+  status: "accepted" | "declined",
+): Promise<Quote> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("quotes")
+      .update({ status })
+      .eq("id", quote.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const notification = RESPONSE_NOTIFICATIONS[status];
+    await sendNotification({
+      user_id: quote.created_by,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body(formatPrice(quote.total)),
+      data: {
+        quote_id: quote.id,
+        conversation_id: quote.conversation_id,
+        ...(quote.service_id ? { service_id: quote.service_id } : {}),
+      },
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error responding to quote:", error);
+    throw error;
+  }
+}
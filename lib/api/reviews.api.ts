@@ -14,7 +14,8 @@ const REVIEWS_PER_PAGE = 10;
 
 /**
  * Check if the current user can review a service
- * User must have a conversation with the service to review
+ * User must have a completed engagement with it: a completed booking, or a
+ * conversation the provider marked as job done
  */
 export async function canUserReviewService(
   serviceId: string,
@@ -118,6 +119,11 @@ export async function fetchServiceReviews(
       }
     }
 
+    // Apply verified hire filter
+    if (options.verifiedOnly) {
+      query = query.eq("verified_hire", true);
+    }
+
     // Apply sorting
     switch (options.sortBy) {
       case "newest":
@@ -191,7 +197,7 @@ export async function createReview(
     const canReview = await canUserReviewService(input.service_id);
     if (!canReview) {
       throw new Error(
-        "You must message the service provider before leaving a review",
+        "You can review this service once the provider marks your job as done",
       );
     }
 
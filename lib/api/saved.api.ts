@@ -0,0 +1,248 @@
+// lib/api/saved.api.ts
+import { SavedCollection, SavedService } from "../types/database.types";
+import { supabase } from "./supabase";
+
+/**
+ * Get the current user's saved services, newest first — via the
+ * get_saved_services RPC, which also returns services that are no longer
+ * active so they can be shown as unavailable.
+ */
+export async function fetchSavedServices(): Promise<SavedService[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_saved_services");
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching saved services:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the IDs of every service the current user has saved.
+ * Returns an empty set when signed out.
+ */
+export async function fetchSavedServiceIds(): Promise<Set<string>> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return new Set();
+
+    const { data, error } = await supabase
+      .from("saved_services")
+      .select("service_id")
+      .eq("user_id", user.id);
+
+    if (error) throw error;
+    return new Set((data || []).map((row) => row.service_id));
+  } catch (error) {
+    console.error("Error fetching saved service IDs:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the collection a service is saved in for the current user.
+ * Returns undefined when the service isn't saved, null when it's saved
+ * outside any collection.
+ */
+export async function fetchSavedCollectionId(
+  serviceId: string,
+): Promise<string | null | undefined> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return undefined;
+
+    const { data, error } = await supabase
+      .from("saved_services")
+      .select("collection_id")
+      .eq("user_id", user.id)
+      .eq("service_id", serviceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? data.collection_id : undefined;
+  } catch (error) {
+    console.error("Error fetching saved service:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save a service for the current user, optionally into a collection.
+ * Saving an already-saved service moves it to the given collection.
+ */
+export async function saveService(
+  serviceId: string,
+  collectionId: string | null = null,
+): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await supabase.from("saved_services").insert({
+      user_id: user.id,
+      service_id: serviceId,
+      collection_id: collectionId,
+    });
+
+    // Already saved (unique violation)
+    if (error?.code === "23505") {
+      await moveSavedService(serviceId, collectionId);
+      return;
+    }
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error saving service:", error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a service from the current user's saved list
+ */
+export async function unsaveService(serviceId: string): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await supabase
+      .from("saved_services")
+      .delete()
+      .eq("user_id", user.id)
+      .eq("service_id", serviceId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error removing saved service:", error);
+    throw error;
+  }
+}
+
+/**
+ * Move a saved service into a collection, or out of all collections (null)
+ */
+export async function moveSavedService(
+  serviceId: string,
+  collectionId: string | null,
+): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { error } = await supabase
+      .from("saved_services")
+      .update({ collection_id: collectionId })
+      .eq("user_id", user.id)
+      .eq("service_id", serviceId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error moving saved service:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the current user's collections, alphabetically
+ */
+export async function fetchCollections(): Promise<SavedCollection[]> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("saved_collections")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching collections:", error);
+    throw error;
+  }
+}
+
+/**
+ * Create a named collection for the current user
+ */
+export async function createCollection(name: string): Promise<SavedCollection> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("saved_collections")
+      .insert({ user_id: user.id, name: name.trim() })
+      .select()
+      .single();
+
+    if (error?.code === "23505") {
+      throw new Error("You already have a collection with that name");
+    }
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error creating collection:", error);
+    throw error;
+  }
+}
+
+/**
+ * Rename one of the current user's collections
+ */
+export async function renameCollection(
+  id: string,
+  name: string,
+): Promise<SavedCollection> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_collections")
+      .update({ name: name.trim() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error?.code === "23505") {
+      throw new Error("You already have a collection with that name");
+    }
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error renaming collection:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a collection. Its services stay saved, outside any collection.
+ */
+export async function deleteCollection(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from("saved_collections")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error deleting collection:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,160 @@
+// lib/api/savedSearches.api.ts
+import {
+  AlertFrequency,
+  FilterOptions,
+  SavedSearch,
+} from "../types/filter.types";
+import { supabase } from "./supabase";
+
+/**
+ * Converts a saved search back into the search screen's query and filters
+ */
+export function savedSearchToFilters(search: SavedSearch): {
+  searchQuery: string;
+  filters: FilterOptions;
+} {
+  return {
+    searchQuery: search.query ?? "",
+    filters: {
+      categoryId: search.category_id,
+      priceRange: { min: search.min_price, max: search.max_price },
+      minRating: search.min_rating,
+      location: search.location ?? "",
+      maxDistanceKm: search.max_distance_km,
+      origin:
+        search.origin_lat !== null && search.origin_lng !== null
+          ? { latitude: search.origin_lat, longitude: search.origin_lng }
+          : null,
+      sortBy: search.sort_by,
+    },
+  };
+}
+
+/**
+ * Get the current user's saved searches, newest first
+ */
+export async function fetchSavedSearches(): Promise<SavedSearch[]> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get one of the current user's saved searches
+ */
+export async function fetchSavedSearch(id: string): Promise<SavedSearch> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error fetching saved search:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save the current search query and filters under a name.
+ * The same parameters are passed to search_services when matching new
+ * services, so alerts follow searchAndFilterServices exactly.
+ */
+export async function createSavedSearch(input: {
+  name: string;
+  searchQuery: string;
+  filters: FilterOptions;
+  alertFrequency: AlertFrequency;
+}): Promise<SavedSearch> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("User not authenticated");
+
+    const { filters } = input;
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .insert({
+        user_id: user.id,
+        name: input.name.trim(),
+        query: input.searchQuery.trim() || null,
+        category_id: filters.categoryId,
+        min_price: filters.priceRange.min,
+        max_price: filters.priceRange.max,
+        min_rating: filters.minRating,
+        location: filters.location.trim() || null,
+        origin_lat: filters.origin?.latitude ?? null,
+        origin_lng: filters.origin?.longitude ?? null,
+        max_distance_km: filters.maxDistanceKm,
+        sort_by: filters.sortBy,
+        alert_frequency: input.alertFrequency,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error creating saved search:", error);
+    throw error;
+  }
+}
+
+/**
+ * Change how new matches of a saved search are announced
+ */
+export async function updateSavedSearchAlerts(
+  id: string,
+  alertFrequency: AlertFrequency,
+): Promise<SavedSearch> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .update({ alert_frequency: alertFrequency })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error updating saved search alerts:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete one of the current user's saved searches
+ */
+export async function deleteSavedSearch(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from("saved_searches")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    throw error;
+  }
+}
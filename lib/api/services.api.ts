@@ -1,8 +1,22 @@
 // API functions for interacting with Supabase services table
 
-import { ServiceWithDetails } from "../types/database.types";
+import {
+  ServiceImage,
+  ServicePackage,
+  ServicePackageInput,
+  ServiceWithDetails,
+} from "../types/database.types";
+import {
+  Coordinates,
+  MapBounds,
+  ServicesCursor,
+  ServicesPage,
+  SortOption,
+} from "../types/filter.types";
 import { supabase } from "./supabase";
 
+const SERVICES_PER_PAGE = 20;
+
 /**
  * Fetch all active services from Supabase
  * Includes related category and profile data
@@ -78,7 +92,9 @@ export async function fetchServiceById(
         `
         *,
         category:categories(*),
-        profile:profiles(*)
+        profile:profiles(*),
+        images:service_images(*),
+        packages:service_packages(*)
       `,
       )
       .eq("id", serviceId)
@@ -89,13 +105,132 @@ export async function fetchServiceById(
       throw error;
     }
 
-    return data;
+    return data ? sortServiceEmbeds(data) : null;
   } catch (error) {
     console.error("Failed to fetch service:", error);
     throw error;
   }
 }
 
+/**
+ * Orders the embedded image gallery (cover first) and packages by position.
+ * PostgREST does not guarantee the order of embedded rows.
+ */
+export function sortServiceEmbeds(
+  service: ServiceWithDetails,
+): ServiceWithDetails {
+  const byPosition = (a: { position: number }, b: { position: number }) =>
+    a.position - b.position;
+  return {
+    ...service,
+    images: service.images && [...service.images].sort(byPosition),
+    packages: service.packages && [...service.packages].sort(byPosition),
+  };
+}
+
+/**
+ * Fetch the gallery images of a service, cover first
+ */
+export async function fetchServiceImages(
+  serviceId: string,
+): Promise<ServiceImage[]> {
+  try {
+    const { data, error } = await supabase
+      .from("service_images")
+      .select("*")
+      .eq("service_id", serviceId)
+      .order("position", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching service images:", error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Failed to fetch service images:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace a service's gallery with the given image URLs (first = cover)
+ * Also syncs services.image_url to the cover — via the set_service_images RPC
+ */
+export async function saveServiceImages(
+  serviceId: string,
+  urls: string[],
+): Promise<ServiceImage[]> {
+  try {
+    const { data, error } = await supabase.rpc("set_service_images", {
+      p_service_id: serviceId,
+      p_urls: urls,
+    });
+
+    if (error) {
+      console.error("Error saving service images:", error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Failed to save service images:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the pricing packages of a service, in display order
+ */
+export async function fetchServicePackages(
+  serviceId: string,
+): Promise<ServicePackage[]> {
+  try {
+    const { data, error } = await supabase
+      .from("service_packages")
+      .select("*")
+      .eq("service_id", serviceId)
+      .order("position", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching service packages:", error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Failed to fetch service packages:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace a service's pricing packages with the given list (in order)
+ * When non-empty, services.price becomes the cheapest package price
+ * — via the set_service_packages RPC
+ */
+export async function saveServicePackages(
+  serviceId: string,
+  packages: ServicePackageInput[],
+): Promise<ServicePackage[]> {
+  try {
+    const { data, error } = await supabase.rpc("set_service_packages", {
+      p_service_id: serviceId,
+      p_packages: packages,
+    });
+
+    if (error) {
+      console.error("Error saving service packages:", error);
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Failed to save service packages:", error);
+    throw error;
+  }
+}
+
 /**
  * Fetch services by user ID (for viewing own services)
  */
@@ -128,31 +263,19 @@ export async function fetchUserServices(
 }
 
 /**
- * Search services by title or description
+ * Search services by title, tags, category or description, best match first.
+ * Returns the first page of results — use searchAndFilterServices to page.
  */
 export async function searchServices(
   query: string,
 ): Promise<ServiceWithDetails[]> {
   try {
-    const { data, error } = await supabase
-      .from("services")
-      .select(
-        `
-        *,
-        category:categories(*),
-        profile:profiles(*)
-      `,
-      )
-      .eq("status", "active")
-      .or(`title.ilike.%${query}%,description.ilike.%${query}%`)
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.error("Error searching services:", error);
-      throw error;
-    }
+    const { services } = await searchAndFilterServices({
+      searchQuery: query,
+      sortBy: "relevance",
+    });
 
-    return data || [];
+    return services;
   } catch (error) {
     console.error("Failed to search services:", error);
     throw error;
@@ -181,9 +304,38 @@ export async function fetchCategories() {
   }
 }
 
+/**
+ * Field each sort option orders by — the last row's value for this field
+ * (plus its id) becomes the keyset cursor for the next page.
+ * "relevance" orders by the search_rank returned alongside each row.
+ */
+const SORT_CURSOR_FIELDS: Record<
+  SortOption,
+  | "created_at"
+  | "price"
+  | "max_price"
+  | "rating"
+  | "search_rank"
+  | "distance_km"
+> = {
+  relevance: "search_rank",
+  newest: "created_at",
+  price_low: "price",
+  price_high: "max_price",
+  rating_high: "rating",
+  nearest: "distance_km",
+};
+
 /**
  * Advanced search and filter services
- * Supports search query, category, price range, rating, location, and sorting
+ * Runs the search_services RPC: ranked full-text search over title, tags,
+ * category name and description, plus category, price range, rating,
+ * location, distance-from-origin and map-viewport filters.
+ * The price range matches a service when any of its packages falls inside
+ * it; low-to-high sorts on the starting (cheapest) price and high-to-low
+ * on the dearest package, so both agree with the filter. Results are paged
+ * with a keyset cursor — pass the previous page's nextCursor to fetch the
+ * following page.
  */
 export async function searchAndFilterServices(params: {
   searchQuery?: string;
@@ -192,77 +344,81 @@ export async function searchAndFilterServices(params: {
   maxPrice?: number | null;
   minRating?: number | null;
   location?: string;
-  sortBy?: "newest" | "price_low" | "price_high" | "rating_high";
-}): Promise<ServiceWithDetails[]> {
+  origin?: Coordinates | null;
+  maxDistanceKm?: number | null;
+  bounds?: MapBounds | null;
+  sortBy?: SortOption;
+  cursor?: ServicesCursor | null;
+  limit?: number;
+}): Promise<ServicesPage> {
   try {
-    let query = supabase
-      .from("services")
-      .select(
-        `
-        *,
-        category:categories(*),
-        profile:profiles(*)
-      `,
-      )
-      .eq("status", "active");
-
-    // Apply search query (title, description, or tags)
-    if (params.searchQuery && params.searchQuery.trim()) {
-      query = query.or(
-        `title.ilike.%${params.searchQuery}%,description.ilike.%${params.searchQuery}%,tags.cs.{${params.searchQuery}}`,
-      );
-    }
-
-    // Filter by category
-    if (params.categoryId) {
-      query = query.eq("category_id", params.categoryId);
-    }
-
-    // Filter by minimum price
-    if (params.minPrice !== null && params.minPrice !== undefined) {
-      query = query.gte("price", params.minPrice);
-    }
-
-    // Filter by maximum price
-    if (params.maxPrice !== null && params.maxPrice !== undefined) {
-      query = query.lte("price", params.maxPrice);
-    }
-
-    // Filter by minimum rating
-    if (params.minRating !== null && params.minRating !== undefined) {
-      query = query.gte("rating", params.minRating);
-    }
-
-    // Filter by location (partial match)
-    if (params.location && params.location.trim()) {
-      query = query.ilike("location", `%${params.location}%`);
-    }
-
-    // Apply sorting
-    switch (params.sortBy) {
-      case "price_low":
-        query = query.order("price", { ascending: true, nullsFirst: false });
-        break;
-      case "price_high":
-        query = query.order("price", { ascending: false, nullsFirst: false });
-        break;
-      case "rating_high":
-        query = query.order("rating", { ascending: false });
-        break;
-      case "newest":
-      default:
-        query = query.order("created_at", { ascending: false });
-        break;
-    }
-
-    const { data, error } = await query;
+    const limit = params.limit ?? SERVICES_PER_PAGE;
+    const searchQuery = params.searchQuery?.trim() || null;
+
+    const origin = params.origin ?? null;
+
+    // Relevance needs a query and nearest needs an origin — the RPC falls
+    // back to newest otherwise, so the cursor must follow suit
+    const sortBy =
+      (params.sortBy === "relevance" && !searchQuery) ||
+      (params.sortBy === "nearest" && !origin)
+        ? "newest"
+        : (params.sortBy ?? "newest");
+
+    const cursorValue = params.cursor?.value;
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error } = await supabase.rpc("search_services", {
+      p_query: searchQuery,
+      p_category_id: params.categoryId ?? null,
+      p_min_price: params.minPrice ?? null,
+      p_max_price: params.maxPrice ?? null,
+      p_min_rating: params.minRating ?? null,
+      p_location: params.location?.trim() || null,
+      p_sort_by: sortBy,
+      p_cursor_value:
+        cursorValue === null || cursorValue === undefined
+          ? null
+          : String(cursorValue),
+      p_cursor_id: params.cursor?.id ?? null,
+      p_limit: limit + 1,
+      p_origin_lat: origin?.latitude ?? null,
+      p_origin_lng: origin?.longitude ?? null,
+      p_max_distance_km: params.maxDistanceKm ?? null,
+      p_min_lat: params.bounds?.minLat ?? null,
+      p_max_lat: params.bounds?.maxLat ?? null,
+      p_min_lng: params.bounds?.minLng ?? null,
+      p_max_lng: params.bounds?.maxLng ?? null,
+    });
 
     if (error) {
       console.error("Error searching and filtering services:", error);
       throw error;
     }
 
-    return data || [];
+    // search_rank is null when the query has no searchable words (e.g. only
+    // stopwords); the RPC then sorts by newest instead of relevance
+    const rows: {
+      service: ServiceWithDetails;
+      search_rank: number | null;
+    }[] = data || [];
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const field = SORT_CURSOR_FIELDS[sortBy];
+
+    return {
+      services: page.map((row) => row.service),
+      nextCursor:
+        rows.length > limit && last
+          ? {
+              value:
+                field !== "search_rank"
+                  ? (last.service[field] ?? null)
+                  : (last.search_rank ?? last.service.created_at),
+              id: last.service.id,
+            }
+          : null,
+    };
   } catch (error) {
     console.error("Failed to search and filter services:", error);
     throw error;
@@ -0,0 +1,465 @@
+// lib/components/AvailabilityEditor.tsx
+import { AntDesign, Ionicons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  addBlackoutDate,
+  deleteBlackoutDate,
+  fetchBlackoutDates,
+  fetchWorkingHours,
+  saveAvailability,
+} from "../api/availability.api";
+import { COLORS } from "../constants/theme";
+import {
+  BlackoutDate,
+  Profile,
+  WorkingHoursInput,
+} from "../types/database.types";
+import {
+  DEFAULT_TIMEZONE,
+  TIMEZONE_OPTIONS,
+  WEEKDAY_LABELS,
+  addDaysToKey,
+  formatDateKey,
+  formatTimeOfDay,
+  getDeviceTimeZone,
+  minutesToTime,
+  timeToMinutes,
+  toLocalDateKey,
+} from "../utils/availability";
+
+const STEP_MINUTES = 30;
+const DAY_MINUTES = 24 * 60;
+const BLACKOUT_DAYS_AHEAD = 60;
+
+// Editable hours of one weekday, in minutes since midnight
+type DayHours = { enabled: boolean; start: number; end: number };
+
+const DEFAULT_DAY: DayHours = { enabled: false, start: 9 * 60, end: 17 * 60 };
+
+type AvailabilityEditorProps = {
+  profile: Profile | null;
+  onSaved?: (timezone: string) => void;
+};
+
+/**
+ * Lets a provider set their timezone, weekly working hours and blackout
+ * dates. Hours are saved together with the timezone; blackout ranges are
+ * added and removed one at a time.
+ * Shown in Settings and from the provider's own service detail screen.
+ */
+export default function AvailabilityEditor({
+  profile,
+  onSaved,
+}: AvailabilityEditorProps) {
+  const [timezone, setTimezone] = useState(
+    profile?.timezone ?? DEFAULT_TIMEZONE,
+  );
+  const [week, setWeek] = useState<DayHours[]>(() =>
+    WEEKDAY_LABELS.map(() => DEFAULT_DAY),
+  );
+  const [blackouts, setBlackouts] = useState<BlackoutDate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // New blackout range being picked
+  const [rangeStart, setRangeStart] = useState<string | null>(null);
+  const [rangeEnd, setRangeEnd] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const today = toLocalDateKey(new Date(), timezone);
+
+  const load = useCallback(async () => {
+    if (!profile) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const [hours, ranges] = await Promise.all([
+        fetchWorkingHours(profile.id),
+        fetchBlackoutDates(toLocalDateKey(new Date(), profile.timezone)),
+      ]);
+      setWeek(
+        WEEKDAY_LABELS.map((_, weekday) => {
+          const h = hours.find((row) => row.weekday === weekday);
+          return h
+            ? {
+                enabled: true,
+                start: timeToMinutes(h.start_time),
+                end: timeToMinutes(h.end_time),
+              }
+            : DEFAULT_DAY;
+        }),
+      );
+      setBlackouts(ranges);
+    } catch {
+      Alert.alert("Error", "Could not load your availability.");
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const timezoneOptions = useMemo(
+    () =>
+      Array.from(new Set([...TIMEZONE_OPTIONS, getDeviceTimeZone(), timezone])),
+    [timezone],
+  );
+
+  const updateDay = (weekday: number, patch: Partial<DayHours>) => {
+    setWeek((prev) =>
+      prev.map((day, i) => (i === weekday ? { ...day, ...patch } : day)),
+    );
+  };
+
+  const handleSave = async () => {
+    const hours: WorkingHoursInput[] = week.flatMap((day, weekday) =>
+      day.enabled
+        ? [
+            {
+              weekday,
+              start_time: minutesToTime(day.start),
+              end_time: minutesToTime(day.end),
+            },
+          ]
+        : [],
+    );
+    try {
+      setSaving(true);
+      await saveAvailability(timezone, hours);
+      onSaved?.(timezone);
+      Alert.alert("Saved", "Your availability has been updated.");
+    } catch {
+      Alert.alert("Error", "Could not save availability. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // First tap picks the start day, a later day closes the range
+  const handlePickDay = (day: string) => {
+    if (!rangeStart || rangeEnd || day < rangeStart) {
+      setRangeStart(day);
+      setRangeEnd(null);
+    } else {
+      setRangeEnd(day);
+    }
+  };
+
+  const handleAddBlackout = async () => {
+    if (!rangeStart) return;
+    try {
+      setAdding(true);
+      const created = await addBlackoutDate({
+        starts_on: rangeStart,
+        ends_on: rangeEnd ?? rangeStart,
+        reason,
+      });
+      setBlackouts((prev) =>
+        [...prev, created].sort((a, b) =>
+          a.starts_on.localeCompare(b.starts_on),
+        ),
+      );
+      setRangeStart(null);
+      setRangeEnd(null);
+      setReason("");
+    } catch {
+      Alert.alert("Error", "Could not add blackout dates.");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleDeleteBlackout = (blackout: BlackoutDate) => {
+    Alert.alert("Remove blackout?", formatRange(blackout), [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteBlackoutDate(blackout.id);
+            setBlackouts((prev) => prev.filter((b) => b.id !== blackout.id));
+          } catch {
+            Alert.alert("Error", "Could not remove blackout dates.");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View className="py-10 items-center">
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  const pickerDays = Array.from({ length: BLACKOUT_DAYS_AHEAD }, (_, i) =>
+    addDaysToKey(today, i),
+  );
+
+  return (
+    <View>
+      {/* ── Timezone ── */}
+      <Text className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 px-1">
+        Timezone
+      </Text>
+      <View className="flex-row flex-wrap mb-5">
+        {timezoneOptions.map((zone) => {
+          const selected = zone === timezone;
+          return (
+            <TouchableOpacity
+              key={zone}
+              onPress={() => setTimezone(zone)}
+              className={`px-3 py-1.5 rounded-full mr-2 mb-2 border ${
+                selected
+                  ? "bg-[#1877F2] border-[#1877F2]"
+                  : "bg-white border-slate-300"
+              }`}
+            >
+              <Text
+                className={`text-xs font-medium ${
+                  selected ? "text-white" : "text-slate-600"
+                }`}
+              >
+                {zone.replace(/_/g, " ")}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* ── Weekly hours ── */}
+      <Text className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 px-1">
+        Working Hours
+      </Text>
+      <View className="bg-white border border-slate-100 rounded-2xl px-4 mb-3">
+        {week.map((day, weekday) => (
+          <View
+            key={weekday}
+            className="flex-row items-center py-3 border-b border-slate-50"
+          >
+            <TouchableOpacity
+              onPress={() => updateDay(weekday, { enabled: !day.enabled })}
+              className={`w-10 h-6 rounded-full justify-center mr-3 ${
+                day.enabled ? "bg-[#1877F2]" : "bg-slate-300"
+              }`}
+            >
+              <View
+                className={`w-4 h-4 rounded-full bg-white ${
+                  day.enabled ? "ml-auto mr-1" : "ml-1"
+                }`}
+              />
+            </TouchableOpacity>
+            <Text className="w-10 text-sm font-semibold text-slate-900">
+              {WEEKDAY_LABELS[weekday]}
+            </Text>
+            {day.enabled ? (
+              <View className="flex-1 flex-row items-center justify-end">
+                <TimeStepper
+                  minutes={day.start}
+                  min={0}
+                  max={day.end - STEP_MINUTES}
+                  onChange={(start) => updateDay(weekday, { start })}
+                />
+                <Text className="mx-1 text-slate-400">–</Text>
+                <TimeStepper
+                  minutes={day.end}
+                  min={day.start + STEP_MINUTES}
+                  max={DAY_MINUTES}
+                  onChange={(end) => updateDay(weekday, { end })}
+                />
+              </View>
+            ) : (
+              <Text className="flex-1 text-right text-sm text-slate-400">
+                Closed
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+      <Text className="text-xs text-slate-500 mb-3 px-1">
+        Buyers can only pick slots inside these hours. Leave every day off to
+        take requests at any time.
+      </Text>
+      <TouchableOpacity
+        onPress={handleSave}
+        disabled={saving}
+        className="bg-[#1877F2] py-3 rounded-2xl items-center mb-6"
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color="white" />
+        ) : (
+          <Text className="text-white font-bold">Save hours</Text>
+        )}
+      </TouchableOpacity>
+
+      {/* ── Blackout dates ── */}
+      <Text className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 px-1">
+        Blackout Dates
+      </Text>
+      {blackouts.length > 0 && (
+        <View className="bg-white border border-slate-100 rounded-2xl px-4 mb-3">
+          {blackouts.map((blackout) => (
+            <View
+              key={blackout.id}
+              className="flex-row items-center py-3 border-b border-slate-50"
+            >
+              <Ionicons
+                name="calendar-clear-outline"
+                size={16}
+                color={COLORS.slate500}
+              />
+              <View className="flex-1 ml-2">
+                <Text className="text-sm text-slate-900">
+                  {formatRange(blackout)}
+                </Text>
+                {blackout.reason ? (
+                  <Text className="text-xs text-slate-400">
+                    {blackout.reason}
+                  </Text>
+                ) : null}
+              </View>
+              <TouchableOpacity
+                onPress={() => handleDeleteBlackout(blackout)}
+                className="p-1"
+              >
+                <AntDesign name="delete" size={16} color={COLORS.danger} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Text className="text-xs text-slate-500 mb-2 px-1">
+        Tap a day, then a later day to block a range.
+      </Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        className="-mx-1 mb-2"
+      >
+        {pickerDays.map((day) => {
+          const inRange =
+            rangeStart !== null &&
+            day >= rangeStart &&
+            day <= (rangeEnd ?? rangeStart);
+          return (
+            <TouchableOpacity
+              key={day}
+              onPress={() => handlePickDay(day)}
+              className={`mx-1 px-3 py-2 rounded-xl border items-center ${
+                inRange
+                  ? "bg-red-500 border-red-500"
+                  : "bg-white border-slate-300"
+              }`}
+            >
+              <Text
+                className={`text-[11px] ${inRange ? "text-white" : "text-slate-500"}`}
+              >
+                {formatDateKey(day, { weekday: "short" })}
+              </Text>
+              <Text
+                className={`text-sm font-bold ${inRange ? "text-white" : "text-slate-900"}`}
+              >
+                {formatDateKey(day, { day: "numeric" })}
+              </Text>
+              <Text
+                className={`text-[10px] ${inRange ? "text-red-100" : "text-slate-400"}`}
+              >
+                {formatDateKey(day, { month: "short" })}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+      {rangeStart && (
+        <View>
+          <TextInput
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Reason (optional, only you see this)"
+            maxLength={200}
+            className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900 mb-3"
+            placeholderTextColor={COLORS.slate400}
+          />
+          <TouchableOpacity
+            onPress={handleAddBlackout}
+            disabled={adding}
+            className="bg-red-50 py-3 rounded-2xl items-center"
+          >
+            {adding ? (
+              <ActivityIndicator size="small" color={COLORS.danger} />
+            ) : (
+              <Text className="text-red-600 font-bold">
+                Block{" "}
+                {formatRange({
+                  starts_on: rangeStart,
+                  ends_on: rangeEnd ?? rangeStart,
+                })}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const formatRange = ({
+  starts_on,
+  ends_on,
+}: Pick<BlackoutDate, "starts_on" | "ends_on">) => {
+  const opts: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
+  return starts_on === ends_on
+    ? formatDateKey(starts_on, opts)
+    : `${formatDateKey(starts_on, opts)} – ${formatDateKey(ends_on, opts)}`;
+};
+
+const TimeStepper = ({
+  minutes,
+  min,
+  max,
+  onChange,
+}: {
+  minutes: number;
+  min: number;
+  max: number;
+  onChange: (minutes: number) => void;
+}) => (
+  <View className="flex-row items-center bg-slate-50 rounded-full">
+    <TouchableOpacity
+      disabled={minutes - STEP_MINUTES < min}
+      onPress={() => onChange(minutes - STEP_MINUTES)}
+      className={`px-1.5 py-1 ${minutes - STEP_MINUTES < min ? "opacity-30" : ""}`}
+    >
+      <AntDesign name="left" size={12} color={COLORS.slate700} />
+    </TouchableOpacity>
+    <Text className="text-xs font-medium text-slate-700 w-16 text-center">
+      {formatTimeOfDay(minutesToTime(minutes))}
+    </Text>
+    <TouchableOpacity
+      disabled={minutes + STEP_MINUTES > max}
+      onPress={() => onChange(minutes + STEP_MINUTES)}
+      className={`px-1.5 py-1 ${minutes + STEP_MINUTES > max ? "opacity-30" : ""}`}
+    >
+      <AntDesign name="right" size={12} color={COLORS.slate700} />
+    </TouchableOpacity>
+  </View>
+);
@@ -0,0 +1,107 @@
+// lib/components/BlockedUserList.tsx
+import { AntDesign } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { fetchBlockedUsers, unblockUser } from "../api/moderation.api";
+import { COLORS } from "../constants/theme";
+import { UserBlockWithProfile } from "../types/database.types";
+import { formatDistanceToNow } from "../utils/date";
+import { formatDisplayName } from "../utils/format";
+import { ProfileAvatar } from "./ui/ProfileAvatar";
+
+/**
+ * The users the current user blocked, shown in Settings, each with an
+ * Unblock button.
+ */
+export default function BlockedUserList() {
+  const [blocks, setBlocks] = useState<UserBlockWithProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchBlockedUsers()
+      .then(setBlocks)
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleUnblock = (block: UserBlockWithProfile) => {
+    const name = formatDisplayName(block.blocked_profile ?? null, "this user");
+    Alert.alert(
+      `Unblock ${name}?`,
+      "They will be able to message you and interact with your services again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Unblock",
+          onPress: async () => {
+            try {
+              await unblockUser(block.blocked_id);
+              setBlocks((prev) =>
+                prev.filter((b) => b.blocked_id !== block.blocked_id),
+              );
+            } catch {
+              Alert.alert("Error", "Could not unblock. Please try again.");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (loading) {
+    return (
+      <View className="py-10 items-center">
+        <ActivityIndicator color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (blocks.length === 0) {
+    return (
+      <View className="py-8 items-center px-6">
+        <AntDesign name="user-delete" size={28} color={COLORS.slate400} />
+        <Text className="text-sm text-slate-400 text-center mt-3">
+          You haven&apos;t blocked anyone.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {blocks.map((block) => (
+        <View
+          key={block.blocked_id}
+          className="flex-row items-center bg-white border border-slate-100 rounded-2xl p-3 mb-2"
+        >
+          <ProfileAvatar profile={block.blocked_profile} size={36} />
+          <View className="flex-1 ml-3">
+            <Text
+              className="text-sm font-semibold text-slate-900"
+              numberOfLines={1}
+            >
+              {formatDisplayName(block.blocked_profile ?? null, "Unknown")}
+            </Text>
+            <Text className="text-xs text-slate-400">
+              Blocked {formatDistanceToNow(block.created_at)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => handleUnblock(block)}
+            className="px-3 py-1.5 rounded-full border border-slate-300"
+          >
+            <Text className="text-xs font-semibold text-slate-700">
+              Unblock
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
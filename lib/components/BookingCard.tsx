@@ -0,0 +1,153 @@
+// lib/components/BookingCard.tsx
+import { AntDesign, Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import { Image, Text, TouchableOpacity, View } from "react-native";
+import { COLORS } from "../constants/theme";
+import { BookingWithDetails } from "../types/database.types";
+import { formatDuration } from "../utils/availability";
+import {
+  BOOKING_STATUS_META,
+  BookingAction,
+  getBookingActions,
+} from "../utils/bookings";
+import { formatDateTime, formatRelativeTime } from "../utils/date";
+import { formatDisplayName, formatPrice } from "../utils/format";
+
+type BookingCardProps = {
+  booking: BookingWithDetails;
+  currentUserId: string | null;
+  highlighted?: boolean;
+  busy?: boolean;
+  onAction: (booking: BookingWithDetails, action: BookingAction) => void;
+};
+
+/**
+ * One booking with its status, schedule and the actions available to the
+ * viewer. Shown in the booking inbox and in the profile booking history.
+ */
+export default function BookingCard({
+  booking,
+  currentUserId,
+  highlighted = false,
+  busy = false,
+  onAction,
+}: BookingCardProps) {
+  const isProvider = currentUserId === booking.provider_id;
+  const counterpart = isProvider ? booking.buyer : booking.provider;
+  const meta = BOOKING_STATUS_META[booking.status];
+  const actions = getBookingActions(booking, currentUserId);
+
+  return (
+    <View
+      className={`bg-white border rounded-2xl p-4 mb-3 ${
+        highlighted ? "border-[#1877F2]" : "border-slate-100"
+      }`}
+    >
+      <TouchableOpacity
+        activeOpacity={0.7}
+        onPress={() => router.push(`/service/${booking.service_id}`)}
+        className="flex-row items-center"
+      >
+        {booking.service?.image_url ? (
+          <Image
+            source={{ uri: booking.service.image_url }}
+            className="w-12 h-12 rounded-xl"
+          />
+        ) : (
+          <View className="w-12 h-12 rounded-xl bg-slate-100 items-center justify-center">
+            <AntDesign name="picture" size={18} color={COLORS.slate300} />
+          </View>
+        )}
+        <View className="flex-1 ml-3">
+          <Text className="text-sm font-bold text-slate-900" numberOfLines={1}>
+            {booking.service?.title ?? "Service"}
+          </Text>
+          <Text className="text-xs text-slate-500" numberOfLines={1}>
+            {isProvider ? "Requested by " : "Provider: "}
+            {formatDisplayName(counterpart ?? null)}
+          </Text>
+        </View>
+        <View className={`px-2.5 py-1 rounded-full ${meta.bg}`}>
+          <Text className={`text-[11px] font-bold ${meta.text}`}>
+            {meta.label}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      <View className="mt-3 bg-slate-50 rounded-xl px-3 py-2">
+        {(booking.package_name || booking.price !== null) && (
+          <Text className="text-xs text-slate-700">
+            {booking.package_name ? `${booking.package_name} · ` : ""}
+            {formatPrice(booking.price)}
+          </Text>
+        )}
+        <View className="flex-row items-center mt-1">
+          <Ionicons name="calendar-outline" size={12} color={COLORS.slate500} />
+          <Text className="ml-1 text-xs text-slate-600">
+            {booking.scheduled_at
+              ? `Scheduled ${formatDateTime(booking.scheduled_at)}`
+              : booking.requested_start
+                ? `Preferred ${formatDateTime(booking.requested_start)}`
+                : "No preferred time"}
+            {booking.slot_start
+              ? ` · ${formatDuration(booking.duration_minutes)}`
+              : ""}
+          </Text>
+        </View>
+        {booking.notes ? (
+          <Text className="text-xs text-slate-500 mt-1" numberOfLines={3}>
+            “{booking.notes}”
+          </Text>
+        ) : null}
+        {booking.status_reason ? (
+          <Text className="text-xs text-red-500 mt-1">
+            Reason: {booking.status_reason}
+          </Text>
+        ) : null}
+      </View>
+
+      <View className="flex-row items-center justify-between mt-3">
+        <Text className="text-[11px] text-slate-400">
+          {formatRelativeTime(booking.created_at)}
+        </Text>
+        <View className="flex-row">
+          {actions.map((action) => (
+            <TouchableOpacity
+              key={action.label}
+              disabled={busy}
+              onPress={() => onAction(booking, action)}
+              className={`ml-2 px-3 py-1.5 rounded-full ${
+                action.destructive ? "bg-red-50" : "bg-[#1877F2]"
+              } ${busy ? "opacity-50" : ""}`}
+            >
+              <Text
+                className={`text-xs font-bold ${
+                  action.destructive ? "text-red-600" : "text-white"
+                }`}
+              >
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {/* A completed booking unlocks a verified review */}
+          {!isProvider && booking.status === "completed" && (
+            <TouchableOpacity
+              onPress={() =>
+                router.push({
+                  pathname: `/service/${booking.service_id}`,
+                  params: { tab: "reviews" },
+                } as any)
+              }
+              className="ml-2 px-3 py-1.5 rounded-full bg-emerald-50"
+            >
+              <Text className="text-xs font-bold text-emerald-700">
+                Leave a review
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,237 @@
+// lib/components/BookingFormModal.tsx
+import { AntDesign } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
+import { createBooking } from "../api/bookings.api";
+import { COLORS } from "../constants/theme";
+import { ServiceWithDetails, WorkingHours } from "../types/database.types";
+import { DEFAULT_TIMEZONE, formatDuration } from "../utils/availability";
+import { formatDateTime } from "../utils/date";
+import { formatPackagePrice, formatPrice } from "../utils/format";
+import SlotPicker from "./SlotPicker";
+import { DateTimeChips } from "./ui/DateTimeChips";
+
+type BookingFormModalProps = {
+  visible: boolean;
+  service: ServiceWithDetails;
+  workingHours: WorkingHours[]; // Empty = provider takes any time
+  onClose: () => void;
+  onBooked: () => void;
+};
+
+/**
+ * Bottom sheet for requesting a booking from the service detail screen.
+ * The buyer picks a package (when the service has any), a preferred start
+ * and can leave a note for the provider. When the provider has set working
+ * hours, only their free slots are offered.
+ */
+export default function BookingFormModal({
+  visible,
+  service,
+  workingHours,
+  onClose,
+  onBooked,
+}: BookingFormModalProps) {
+  const packages = service.packages ?? [];
+  const timeZone = service.profile?.timezone ?? DEFAULT_TIMEZONE;
+  const usesSlots = workingHours.length > 0;
+  const [packageId, setPackageId] = useState<string | null>(null);
+  const [requestedStart, setRequestedStart] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [slotsReloadKey, setSlotsReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (visible) {
+      setPackageId(service.packages?.[0]?.id ?? null);
+      setRequestedStart(null);
+      setNotes("");
+    }
+  }, [visible, service.packages]);
+
+  const selectedPackage = packages.find((p) => p.id === packageId) ?? null;
+
+  const handleSubmit = async () => {
+    if (packages.length > 0 && !selectedPackage) {
+      Alert.alert("Choose a Package", "Please select a package to book.");
+      return;
+    }
+    try {
+      setSubmitting(true);
+      await createBooking({
+        service_id: service.id,
+        provider_id: service.user_id,
+        package_id: selectedPackage?.id ?? null,
+        requested_start: requestedStart,
+        notes,
+      });
+      onBooked();
+      Alert.alert(
+        "Request Sent",
+        "The provider will confirm or decline your booking soon.",
+      );
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to request booking");
+      // The slot may have been taken in the meantime
+      if (usesSlots) setSlotsReloadKey((key) => key + 1);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-end">
+        <TouchableOpacity
+          className="flex-1"
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <KeyboardAvoidingView behavior="padding">
+          <View className="bg-white rounded-t-[32px] pt-3 pb-8 max-h-[640px]">
+            <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+
+            <View className="flex-row items-center justify-between px-6 mb-3">
+              <View className="flex-1 mr-3">
+                <Text className="text-lg font-bold text-slate-900">
+                  Book this service
+                </Text>
+                <Text className="text-xs text-slate-500" numberOfLines={1}>
+                  {service.title}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={onClose}
+                className="p-2 bg-slate-100 rounded-full"
+              >
+                <AntDesign name="close" size={16} color={COLORS.slate500} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              className="px-6"
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              {packages.length > 0 && (
+                <View className="mb-4">
+                  <Text className="text-sm font-semibold text-slate-700 mb-2">
+                    Package
+                  </Text>
+                  {packages.map((pkg) => {
+                    const active = pkg.id === packageId;
+                    return (
+                      <TouchableOpacity
+                        key={pkg.id}
+                        onPress={() => setPackageId(pkg.id)}
+                        className={`flex-row items-center justify-between border rounded-2xl px-4 py-3 mb-2 ${
+                          active
+                            ? "border-[#1877F2] bg-blue-50"
+                            : "border-slate-200 bg-white"
+                        }`}
+                      >
+                        <Text className="text-sm font-semibold text-slate-900">
+                          {pkg.name}
+                        </Text>
+                        <Text className="text-sm font-bold text-[#1877F2]">
+                          {formatPackagePrice(pkg.price, pkg.unit)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+
+              <View className="mb-4">
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className="text-sm font-semibold text-slate-700">
+                    {usesSlots ? "Time slot" : "Preferred date & time"}
+                  </Text>
+                  <Text className="text-xs text-slate-400">
+                    {formatDuration(service.slot_duration_minutes)} · Optional
+                  </Text>
+                </View>
+                {usesSlots ? (
+                  <SlotPicker
+                    serviceId={service.id}
+                    timeZone={timeZone}
+                    value={requestedStart}
+                    onChange={setRequestedStart}
+                    reloadKey={slotsReloadKey}
+                  />
+                ) : (
+                  <DateTimeChips
+                    value={requestedStart}
+                    onChange={setRequestedStart}
+                  />
+                )}
+                {requestedStart && (
+                  <Text className="text-xs text-slate-500">
+                    {formatDateTime(
+                      requestedStart,
+                      usesSlots ? timeZone : undefined,
+                    )}
+                  </Text>
+                )}
+              </View>
+
+              <View className="mb-4">
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className="text-sm font-semibold text-slate-700">
+                    Notes for the provider
+                  </Text>
+                  <Text className="text-xs text-slate-400">Optional</Text>
+                </View>
+                <TextInput
+                  value={notes}
+                  onChangeText={setNotes}
+                  placeholder="Describe the job, address details, etc."
+                  multiline
+                  maxLength={1000}
+                  textAlignVertical="top"
+                  className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
+                  placeholderTextColor={COLORS.slate400}
+                  style={{ minHeight: 80 }}
+                />
+              </View>
+            </ScrollView>
+
+            <View className="px-6 pt-2">
+              <TouchableOpacity
+                onPress={handleSubmit}
+                disabled={submitting}
+                className="bg-[#1877F2] py-4 rounded-2xl items-center"
+              >
+                {submitting ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text className="text-white font-bold text-base">
+                    Request booking
+                    {selectedPackage
+                      ? ` · ${formatPrice(selectedPackage.price)}`
+                      : ""}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,151 @@
+// lib/components/BookingList.tsx
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { updateBookingStatus } from "../api/bookings.api";
+import { BookingWithDetails } from "../types/database.types";
+import { BookingAction } from "../utils/bookings";
+import { formatDateTime } from "../utils/date";
+import BookingCard from "./BookingCard";
+import { DateTimeChips } from "./ui/DateTimeChips";
+
+type BookingListProps = {
+  bookings: BookingWithDetails[];
+  currentUserId: string | null;
+  highlightBookingId?: string;
+  onBookingUpdated: (booking: BookingWithDetails) => void;
+};
+
+/**
+ * Renders booking cards and runs their actions: confirms destructive ones,
+ * asks the provider for a time when scheduling, and reports the updated
+ * booking back to the parent.
+ */
+export default function BookingList({
+  bookings,
+  currentUserId,
+  highlightBookingId,
+  onBookingUpdated,
+}: BookingListProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [scheduling, setScheduling] = useState<BookingWithDetails | null>(null);
+  const [scheduleAt, setScheduleAt] = useState<string | null>(null);
+
+  const runAction = async (
+    booking: BookingWithDetails,
+    action: BookingAction,
+    scheduledAt?: string,
+  ) => {
+    setBusyId(booking.id);
+    try {
+      const updated = await updateBookingStatus(booking, action.status, {
+        scheduledAt,
+      });
+      onBookingUpdated({ ...booking, ...updated });
+    } catch (error: any) {
+      Alert.alert(
+        "Error",
+        error.message || "Could not update the booking. Please try again.",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAction = (booking: BookingWithDetails, action: BookingAction) => {
+    if (action.status === "scheduled") {
+      setScheduleAt(booking.scheduled_at ?? booking.requested_start);
+      setScheduling(booking);
+      return;
+    }
+    if (action.destructive) {
+      Alert.alert(`${action.label} booking?`, "This can't be undone.", [
+        { text: "Keep", style: "cancel" },
+        {
+          text: action.label,
+          style: "destructive",
+          onPress: () => runAction(booking, action),
+        },
+      ]);
+      return;
+    }
+    runAction(booking, action);
+  };
+
+  const handleConfirmSchedule = () => {
+    if (!scheduling || !scheduleAt) return;
+    const booking = scheduling;
+    setScheduling(null);
+    runAction(booking, { status: "scheduled", label: "Schedule" }, scheduleAt);
+  };
+
+  return (
+    <>
+      {bookings.map((booking) => (
+        <BookingCard
+          key={booking.id}
+          booking={booking}
+          currentUserId={currentUserId}
+          highlighted={booking.id === highlightBookingId}
+          busy={busyId === booking.id}
+          onAction={handleAction}
+        />
+      ))}
+
+      <Modal
+        visible={scheduling !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setScheduling(null)}
+      >
+        <TouchableOpacity
+          className="flex-1 bg-black/40 justify-end"
+          activeOpacity={1}
+          onPress={() => setScheduling(null)}
+        >
+          <TouchableOpacity
+            activeOpacity={1}
+            onPress={(e) => e.stopPropagation()}
+            className="bg-white rounded-t-[32px] p-6 pb-10"
+          >
+            <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+            <Text className="text-lg font-bold text-slate-900 mb-1">
+              Schedule booking
+            </Text>
+            <Text className="text-xs text-slate-500 mb-4">
+              {scheduling?.requested_start
+                ? `Buyer prefers ${formatDateTime(scheduling.requested_start)}`
+                : "The buyer didn't give a preferred time"}
+            </Text>
+            <DateTimeChips value={scheduleAt} onChange={setScheduleAt} />
+            <TouchableOpacity
+              onPress={handleConfirmSchedule}
+              disabled={!scheduleAt || busyId !== null}
+              className={`mt-4 py-4 rounded-2xl items-center ${
+                scheduleAt ? "bg-[#1877F2]" : "bg-slate-200"
+              }`}
+            >
+              {busyId !== null ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text
+                  className={`font-bold ${scheduleAt ? "text-white" : "text-slate-400"}`}
+                >
+                  {scheduleAt
+                    ? `Confirm ${formatDateTime(scheduleAt)}`
+                    : "Pick a date and time"}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+}
@@ -3,8 +3,10 @@ import { AntDesign } from "@expo/vector-icons";
 import React, { useState } from "react";
 import { Alert, StyleSheet, Text, TouchableOpacity, View } from "react-native";
 import { deleteComment, toggleCommentLike } from "../api/comments.api";
+import { useModeration } from "../hooks/useModeration";
 import { CommentWithDetails } from "../types/database.types";
 import { formatDistanceToNow } from "../utils/date";
+import ReportSheet from "./ReportSheet";
 import { ProfileAvatar } from "./ui/ProfileAvatar";
 
 type CommentItemProps = {
@@ -43,6 +45,8 @@ export default function CommentItem({
 }: CommentItemProps) {
   const [liking, setLiking] = useState(false);
   const [showReplies, setShowReplies] = useState(initiallyExpandReplies);
+  // Blocking hides the author's comments, so reload the list
+  const { reportTarget, closeReport, showOptions } = useModeration(onUpdate);
 
   // Optimistic state for likes
   const [localLikeCount, setLocalLikeCount] = useState(comment.like_count);
@@ -167,6 +171,22 @@ export default function CommentItem({
               <AntDesign name="delete" size={14} color="#cbd5e1" />
             </TouchableOpacity>
           )}
+
+          {/* Report / block (others' comments) */}
+          {currentUserId && !isAuthor && (
+            <TouchableOpacity
+              onPress={() =>
+                showOptions(
+                  { entity_type: "comment", entity_id: comment.id },
+                  { id: comment.user_id, name: authorName },
+                )
+              }
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              className="ml-4"
+            >
+              <AntDesign name="ellipsis" size={14} color="#94a3b8" />
+            </TouchableOpacity>
+          )}
         </View>
       </TouchableOpacity>
 
@@ -303,6 +323,25 @@ export default function CommentItem({
                           <AntDesign name="delete" size={12} color="#cbd5e1" />
                         </TouchableOpacity>
                       )}
+
+                      {currentUserId && currentUserId !== reply.user_id && (
+                        <TouchableOpacity
+                          onPress={() =>
+                            showOptions(
+                              { entity_type: "comment", entity_id: reply.id },
+                              { id: reply.user_id, name: replyAuthorName },
+                            )
+                          }
+                          hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                          className="ml-4"
+                        >
+                          <AntDesign
+                            name="ellipsis"
+                            size={12}
+                            color="#94a3b8"
+                          />
+                        </TouchableOpacity>
+                      )}
                     </View>
                   </TouchableOpacity>
 
@@ -322,6 +361,8 @@ export default function CommentItem({
           </View>
         </View>
       )}
+
+      <ReportSheet target={reportTarget} onClose={closeReport} />
     </View>
   );
 }
@@ -0,0 +1,185 @@
+// lib/components/ConversationActionsSheet.tsx
+import { AntDesign, Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import { Alert, Modal, Text, TouchableOpacity, View } from "react-native";
+import {
+  deleteConversationForMe,
+  updateConversationState,
+} from "../api/messaging.api";
+import { COLORS } from "../constants/theme";
+import {
+  ConversationUserState,
+  ConversationWithDetails,
+} from "../types/database.types";
+
+type ConversationActionsSheetProps = {
+  visible: boolean;
+  conversation: ConversationWithDetails | null;
+  title?: string;
+  onClose: () => void;
+  // Called after pin, mute or archive changed
+  onChange: (state: ConversationUserState) => void;
+  // Called after the conversation was deleted for the current user
+  onDelete: (conversationId: string) => void;
+};
+
+/**
+ * Bottom sheet with the current user's own actions on a conversation:
+ * pin, mute, archive and delete. None of them affect the other person.
+ */
+export default function ConversationActionsSheet({
+  visible,
+  conversation,
+  title,
+  onClose,
+  onChange,
+  onDelete,
+}: ConversationActionsSheetProps) {
+  const [busy, setBusy] = useState(false);
+
+  if (!conversation) return null;
+
+  const pinned = !!conversation.pinned_at;
+  const muted = !!conversation.muted_at;
+  const archived = !!conversation.archived_at;
+
+  const handleUpdate = async (changes: {
+    pinned?: boolean;
+    muted?: boolean;
+    archived?: boolean;
+  }) => {
+    if (busy) return;
+    try {
+      setBusy(true);
+      const state = await updateConversationState(conversation.id, changes);
+      onChange(state);
+      onClose();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to update conversation");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      "Delete conversation?",
+      "It will be removed for you only. The other person keeps their copy.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setBusy(true);
+              await deleteConversationForMe(conversation.id);
+              onDelete(conversation.id);
+              onClose();
+            } catch (error: any) {
+              Alert.alert(
+                "Error",
+                error.message || "Failed to delete conversation",
+              );
+            } finally {
+              setBusy(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const actions: {
+    key: string;
+    label: string;
+    icon: keyof typeof Ionicons.glyphMap;
+    onPress: () => void;
+    destructive?: boolean;
+  }[] = [
+    {
+      key: "pin",
+      label: pinned ? "Unpin" : "Pin to top",
+      icon: pinned ? "pin" : "pin-outline",
+      onPress: () => handleUpdate({ pinned: !pinned }),
+    },
+    {
+      key: "mute",
+      label: muted ? "Unmute" : "Mute",
+      icon: muted ? "notifications-outline" : "notifications-off-outline",
+      onPress: () => handleUpdate({ muted: !muted }),
+    },
+    {
+      key: "archive",
+      label: archived ? "Move to inbox" : "Archive",
+      icon: archived ? "file-tray-outline" : "archive-outline",
+      onPress: () => handleUpdate({ archived: !archived }),
+    },
+    {
+      key: "delete",
+      label: "Delete conversation",
+      icon: "trash-outline",
+      onPress: confirmDelete,
+      destructive: true,
+    },
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-end">
+        <TouchableOpacity
+          className="flex-1"
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <View className="bg-white rounded-t-[32px] pt-3 pb-8">
+          <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+
+          <View className="flex-row items-center justify-between px-6 mb-3">
+            <Text
+              className="flex-1 mr-3 text-lg font-bold text-slate-900"
+              numberOfLines={1}
+            >
+              {title ?? "Conversation"}
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="p-2 bg-slate-100 rounded-full"
+            >
+              <AntDesign name="close" size={16} color={COLORS.slate500} />
+            </TouchableOpacity>
+          </View>
+
+          <View className="px-6">
+            {actions.map((action) => (
+              <TouchableOpacity
+                key={action.key}
+                onPress={action.onPress}
+                disabled={busy}
+                className="flex-row items-center py-3"
+              >
+                <Ionicons
+                  name={action.icon}
+                  size={20}
+                  color={action.destructive ? "#ef4444" : COLORS.slate500}
+                />
+                <Text
+                  className={`ml-4 text-base font-semibold ${
+                    action.destructive ? "text-red-500" : "text-slate-900"
+                  }`}
+                >
+                  {action.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
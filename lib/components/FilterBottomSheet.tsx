@@ -13,10 +13,13 @@ import {
 import { fetchCategories } from "../api/services.api";
 import { Category } from "../types/database.types";
 import {
+  DISTANCE_OPTIONS,
   FilterOptions,
   RATING_OPTIONS,
   SORT_OPTIONS,
+  SortOption,
 } from "../types/filter.types";
+import { getCurrentPosition } from "../utils/location";
 
 type FilterBottomSheetProps = {
   visible: boolean;
@@ -25,7 +28,13 @@ type FilterBottomSheetProps = {
   currentFilters: FilterOptions;
 };
 
-type AccordionKey = "category" | "price" | "rating" | "location" | "sort";
+type AccordionKey =
+  | "category"
+  | "price"
+  | "rating"
+  | "location"
+  | "distance"
+  | "sort";
 
 export default function FilterBottomSheet({
   visible,
@@ -71,20 +80,42 @@ export default function FilterBottomSheet({
   };
 
   const handleClearAll = () => {
-    const clearedFilters: FilterOptions = {
+    // The origin is the user's position, not a filter — keep it
+    setFilters((prev) => ({
       categoryId: null,
       priceRange: { min: null, max: null },
       minRating: null,
       location: "",
+      maxDistanceKm: null,
+      origin: prev.origin,
       sortBy: "newest",
-    };
-    setFilters(clearedFilters);
+    }));
   };
 
   const updateFilter = (key: keyof FilterOptions, value: any) => {
     setFilters((prev) => ({ ...prev, [key]: value }));
   };
 
+  // Distance filter and nearest sort both need the user's position.
+  // Returns false if it couldn't be read, leaving the filter unchanged.
+  const ensureOrigin = async (): Promise<boolean> => {
+    if (filters.origin) return true;
+    const origin = await getCurrentPosition();
+    if (!origin) return false;
+    setFilters((prev) => ({ ...prev, origin }));
+    return true;
+  };
+
+  const updateDistance = async (maxDistanceKm: number | null) => {
+    if (maxDistanceKm !== null && !(await ensureOrigin())) return;
+    updateFilter("maxDistanceKm", maxDistanceKm);
+  };
+
+  const updateSort = async (sortBy: SortOption) => {
+    if (sortBy === "nearest" && !(await ensureOrigin())) return;
+    updateFilter("sortBy", sortBy);
+  };
+
   const updatePriceRange = (type: "min" | "max", value: string) => {
     const numValue = value === "" ? null : parseFloat(value);
     setFilters((prev) => ({
@@ -104,6 +135,7 @@ export default function FilterBottomSheet({
       count++;
     if (filters.minRating !== null) count++;
     if (filters.location && filters.location.trim() !== "") count++;
+    if (filters.maxDistanceKm !== null) count++;
     if (filters.sortBy !== "newest") count++;
     return count;
   };
@@ -127,6 +159,10 @@ export default function FilterBottomSheet({
         return filters.location && filters.location.trim() !== ""
           ? filters.location
           : null;
+      case "distance":
+        return filters.maxDistanceKm !== null
+          ? `Within ${filters.maxDistanceKm} km`
+          : null;
       case "sort":
         return filters.sortBy !== "newest"
           ? (SORT_OPTIONS.find((s) => s.value === filters.sortBy)?.label ??
@@ -356,6 +392,38 @@ export default function FilterBottomSheet({
               )}
             </View>
 
+            {/* Distance */}
+            <View style={styles.accordionItem}>
+              {renderSectionHeader("distance", "Distance", "aim")}
+              {expandedSection === "distance" && (
+                <View style={styles.sectionBody}>
+                  <View style={styles.ratingRow}>
+                    {DISTANCE_OPTIONS.map((option) => (
+                      <TouchableOpacity
+                        key={option.label}
+                        onPress={() => updateDistance(option.value)}
+                        style={[
+                          styles.ratingChip,
+                          filters.maxDistanceKm === option.value &&
+                            styles.ratingChipActive,
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            filters.maxDistanceKm === option.value &&
+                              styles.chipTextActive,
+                          ]}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+            </View>
+
             {/* Sort By */}
             <View style={[styles.accordionItem, { marginBottom: 0 }]}>
               {renderSectionHeader("sort", "Sort By", "swap")}
@@ -364,7 +432,7 @@ export default function FilterBottomSheet({
                   {SORT_OPTIONS.map((option) => (
                     <TouchableOpacity
                       key={option.value}
-                      onPress={() => updateFilter("sortBy", option.value)}
+                      onPress={() => updateSort(option.value)}
                       style={styles.sortRow}
                     >
                       <Text
@@ -0,0 +1,242 @@
+// lib/components/MessageSearchResults.tsx
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  SectionList,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { searchMessages } from "../api/messaging.api";
+import { COLORS } from "../constants/theme";
+import {
+  ConversationWithDetails,
+  Message,
+  MessagesCursor,
+} from "../types/database.types";
+import { formatRelativeTime } from "../utils/date";
+import { formatDisplayName } from "../utils/format";
+import { EmptyState } from "./ui/EmptyState";
+
+// Letters and digits, as split by build_message_search_query
+const WORD_PATTERN = /([0-9A-Za-zÀ-ɏ]+)/;
+
+// How much text to keep before the first match in a long message
+const SNIPPET_LEAD = 30;
+
+type MessageSearchResultsProps = {
+  query: string;
+  conversations: ConversationWithDetails[];
+  currentUserId: string | null;
+};
+
+type ResultSection = {
+  conversation: ConversationWithDetails;
+  data: Message[];
+};
+
+function getQueryWords(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^0-9a-zÀ-ɏ]+/)
+    .filter(Boolean);
+}
+
+function isMatch(word: string, queryWords: string[]): boolean {
+  const lower = word.toLowerCase();
+  return queryWords.some((q) => lower.startsWith(q));
+}
+
+// Starts long messages shortly before the first match so it stays visible
+function getSnippet(text: string, queryWords: string[]): string {
+  const parts = text.split(WORD_PATTERN);
+  let offset = 0;
+  for (const part of parts) {
+    if (isMatch(part, queryWords)) break;
+    offset += part.length;
+  }
+  if (offset <= SNIPPET_LEAD || offset >= text.length) return text;
+  const start = text.lastIndexOf(" ", offset - SNIPPET_LEAD);
+  return `…${text.slice(start + 1)}`;
+}
+
+// Group results by conversation, keeping the order of their newest match
+function groupByConversation(
+  messages: Message[],
+  conversations: ConversationWithDetails[],
+): ResultSection[] {
+  const sections = new Map<string, ResultSection>();
+  messages.forEach((message) => {
+    const section = sections.get(message.conversation_id);
+    if (section) {
+      section.data.push(message);
+      return;
+    }
+    const conversation = conversations.find(
+      (c) => c.id === message.conversation_id,
+    );
+    if (conversation) {
+      sections.set(message.conversation_id, { conversation, data: [message] });
+    }
+  });
+  return [...sections.values()];
+}
+
+/**
+ * Results of searching the current user's messages, grouped by
+ * conversation. Tapping one opens the chat at that message.
+ */
+export default function MessageSearchResults({
+  query,
+  conversations,
+  currentUserId,
+}: MessageSearchResultsProps) {
+  const [results, setResults] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const nextCursorRef = useRef<MessagesCursor | null>(null);
+  // Ignores responses for a query the user has already changed
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const queryWords = getQueryWords(query);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      nextCursorRef.current = null;
+      return;
+    }
+    setLoading(true);
+    searchMessages(query)
+      .then((page) => {
+        if (queryRef.current !== query) return;
+        setResults(page.messages);
+        nextCursorRef.current = page.nextCursor;
+      })
+      .catch(() => {
+        if (queryRef.current === query) setResults([]);
+      })
+      .finally(() => {
+        if (queryRef.current === query) setLoading(false);
+      });
+  }, [query]);
+
+  const handleLoadMore = async () => {
+    const cursor = nextCursorRef.current;
+    if (!cursor || loadingMore || loading) return;
+    setLoadingMore(true);
+    try {
+      const page = await searchMessages(query, cursor);
+      if (queryRef.current !== query) return;
+      nextCursorRef.current = page.nextCursor;
+      setResults((prev) => [...prev, ...page.messages]);
+    } catch {
+      // Scrolling down again retries
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading && results.length === 0) {
+    return (
+      <View className="py-16 items-center">
+        <ActivityIndicator size="small" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  const sections = groupByConversation(results, conversations);
+
+  return (
+    <SectionList
+      sections={sections}
+      keyExtractor={(item) => item.id}
+      keyboardShouldPersistTaps="handled"
+      stickySectionHeadersEnabled={false}
+      onEndReached={handleLoadMore}
+      onEndReachedThreshold={0.5}
+      renderSectionHeader={({ section }) => {
+        const { conversation } = section;
+        const other =
+          currentUserId === conversation.buyer_id
+            ? conversation.seller_profile
+            : conversation.buyer_profile;
+        return (
+          <View className="flex-row items-center px-5 pt-4 pb-2 bg-slate-50">
+            <Text
+              className="text-sm font-bold text-slate-900"
+              numberOfLines={1}
+            >
+              {formatDisplayName(other ?? null, "Unknown User")}
+            </Text>
+            {conversation.service?.title ? (
+              <Text
+                className="flex-1 ml-2 text-xs text-slate-500"
+                numberOfLines={1}
+              >
+                · {conversation.service.title}
+              </Text>
+            ) : null}
+          </View>
+        );
+      }}
+      renderItem={({ item }) => (
+        <TouchableOpacity
+          activeOpacity={0.7}
+          onPress={() =>
+            router.push({
+              pathname: "/chat/[conversationId]",
+              params: {
+                conversationId: item.conversation_id,
+                messageId: item.id,
+              },
+            })
+          }
+          className="bg-white px-5 py-3 border-b border-slate-100"
+        >
+          <View className="flex-row items-start">
+            <Text className="flex-1 text-sm text-slate-600" numberOfLines={2}>
+              {item.sender_id === currentUserId && (
+                <Text className="text-slate-400">You: </Text>
+              )}
+              {getSnippet(item.content, queryWords)
+                .split(WORD_PATTERN)
+                .map((part, index) =>
+                  isMatch(part, queryWords) ? (
+                    <Text key={index} className="font-bold text-slate-900">
+                      {part}
+                    </Text>
+                  ) : (
+                    part
+                  ),
+                )}
+            </Text>
+            <Text className="ml-3 text-[11px] text-slate-400">
+              {formatRelativeTime(item.created_at)}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      )}
+      ListEmptyComponent={
+        <EmptyState
+          icon={
+            <Ionicons name="search-outline" size={28} color={COLORS.slate400} />
+          }
+          title="No messages found"
+          subtitle="Try a different word, or fewer words."
+        />
+      }
+      ListFooterComponent={
+        loadingMore ? (
+          <ActivityIndicator
+            size="small"
+            color={COLORS.primary}
+            style={{ paddingVertical: 16 }}
+          />
+        ) : null
+      }
+    />
+  );
+}
@@ -0,0 +1,309 @@
+// lib/components/QuickReplyManager.tsx
+import { AntDesign } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  createQuickReply,
+  deleteQuickReply,
+  fetchQuickReplies,
+  saveAwayMessage,
+  updateQuickReply,
+} from "../api/quickReplies.api";
+import { COLORS } from "../constants/theme";
+import { Profile, QuickReply } from "../types/database.types";
+import { TEMPLATE_VARIABLES } from "../utils/messageTemplates";
+
+type QuickReplyManagerProps = {
+  profile: Profile | null;
+  onAwaySaved?: (enabled: boolean, message: string | null) => void;
+};
+
+// Quick reply being written; id is null for a new one
+type Draft = { id: string | null; title: string; body: string };
+
+// Chips that append a template variable to a text field
+const VariableChips = ({ onInsert }: { onInsert: (token: string) => void }) => (
+  <View className="flex-row flex-wrap mt-2">
+    {TEMPLATE_VARIABLES.map((variable) => (
+      <TouchableOpacity
+        key={variable.token}
+        onPress={() => onInsert(variable.token)}
+        className="px-3 py-1.5 rounded-full mr-2 mb-1 border bg-white border-slate-300"
+      >
+        <Text className="text-xs font-medium text-slate-600">
+          + {variable.label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+/**
+ * Lets a provider manage their quick replies (saved answers inserted from
+ * the chat composer) and their away message, sent automatically to new
+ * conversations that start outside their working hours.
+ * Shown in Settings.
+ */
+export default function QuickReplyManager({
+  profile,
+  onAwaySaved,
+}: QuickReplyManagerProps) {
+  const [replies, setReplies] = useState<QuickReply[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [savingDraft, setSavingDraft] = useState(false);
+  const [awayEnabled, setAwayEnabled] = useState(
+    profile?.away_enabled ?? false,
+  );
+  const [awayMessage, setAwayMessage] = useState(profile?.away_message ?? "");
+  const [savingAway, setSavingAway] = useState(false);
+
+  useEffect(() => {
+    fetchQuickReplies()
+      .then(setReplies)
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  const awayChanged =
+    awayEnabled !== (profile?.away_enabled ?? false) ||
+    awayMessage.trim() !== (profile?.away_message ?? "");
+
+  const handleSaveAway = async () => {
+    if (awayEnabled && !awayMessage.trim()) {
+      Alert.alert("Away Message", "Write the message to send first.");
+      return;
+    }
+    try {
+      setSavingAway(true);
+      await saveAwayMessage(awayEnabled, awayMessage);
+      onAwaySaved?.(awayEnabled, awayMessage.trim() || null);
+    } catch {
+      Alert.alert("Error", "Could not save away message. Please try again.");
+    } finally {
+      setSavingAway(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (!draft.title.trim() || !draft.body.trim()) {
+      Alert.alert("Quick Reply", "Give it a title and some text.");
+      return;
+    }
+    try {
+      setSavingDraft(true);
+      const input = { title: draft.title, body: draft.body };
+      if (draft.id) {
+        const updated = await updateQuickReply(draft.id, input);
+        setReplies((prev) =>
+          prev.map((r) => (r.id === updated.id ? updated : r)),
+        );
+      } else {
+        const created = await createQuickReply(input);
+        setReplies((prev) => [...prev, created]);
+      }
+      setDraft(null);
+    } catch {
+      Alert.alert("Error", "Could not save quick reply. Please try again.");
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
+  const handleDelete = (reply: QuickReply) => {
+    Alert.alert("Delete Quick Reply", `Delete "${reply.title}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteQuickReply(reply.id);
+            setReplies((prev) => prev.filter((r) => r.id !== reply.id));
+          } catch {
+            Alert.alert("Error", "Could not delete quick reply.");
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      <Text className="text-sm font-bold text-slate-900 mb-1">
+        Away Message
+      </Text>
+      <Text className="text-xs text-slate-500 mb-3">
+        Sent for you when someone starts a conversation outside your working
+        hours or on a day off.
+      </Text>
+      <View className="bg-white border border-slate-100 rounded-2xl p-4 mb-6">
+        <View className="flex-row items-center justify-between mb-3">
+          <Text className="font-medium text-base text-slate-900">
+            Send away message
+          </Text>
+          <TouchableOpacity
+            onPress={() => setAwayEnabled(!awayEnabled)}
+            className={`w-12 h-7 rounded-full justify-center ${awayEnabled ? "bg-[#1877F2]" : "bg-slate-300"}`}
+          >
+            <View
+              className={`w-5 h-5 rounded-full bg-white shadow-sm ${awayEnabled ? "ml-auto mr-1" : "ml-1"}`}
+            />
+          </TouchableOpacity>
+        </View>
+        <TextInput
+          value={awayMessage}
+          onChangeText={setAwayMessage}
+          placeholder="Hi {buyer_first_name}! Thanks for your message. I'm away right now and will reply during working hours."
+          multiline
+          maxLength={1000}
+          textAlignVertical="top"
+          className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
+          placeholderTextColor={COLORS.slate400}
+          style={{ minHeight: 88 }}
+        />
+        <VariableChips
+          onInsert={(token) => setAwayMessage((text) => text + token)}
+        />
+        {awayChanged && (
+          <TouchableOpacity
+            onPress={handleSaveAway}
+            disabled={savingAway}
+            className="bg-[#1877F2] py-3 rounded-2xl items-center mt-3"
+          >
+            {savingAway ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text className="text-white font-bold text-sm">Save</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Text className="text-sm font-bold text-slate-900 mb-1">
+        Quick Replies
+      </Text>
+      <Text className="text-xs text-slate-500 mb-3">
+        Saved answers you can insert from any chat.
+      </Text>
+
+      {loading ? (
+        <View className="py-10 items-center">
+          <ActivityIndicator color={COLORS.primary} />
+        </View>
+      ) : (
+        replies.map((reply) =>
+          draft?.id === reply.id ? null : (
+            <View
+              key={reply.id}
+              className="bg-white border border-slate-100 rounded-2xl p-4 mb-3"
+            >
+              <View className="flex-row items-start">
+                <TouchableOpacity
+                  className="flex-1 pr-3"
+                  onPress={() =>
+                    setDraft({
+                      id: reply.id,
+                      title: reply.title,
+                      body: reply.body,
+                    })
+                  }
+                >
+                  <Text
+                    className="text-base font-semibold text-slate-900"
+                    numberOfLines={1}
+                  >
+                    {reply.title}
+                  </Text>
+                  <Text
+                    className="text-xs text-slate-500 mt-0.5"
+                    numberOfLines={3}
+                  >
+                    {reply.body}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleDelete(reply)}
+                  className="p-2 bg-slate-50 rounded-xl"
+                >
+                  <AntDesign name="delete" size={16} color={COLORS.danger} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ),
+        )
+      )}
+
+      {draft ? (
+        <View className="border border-slate-200 rounded-2xl p-3 mb-3 bg-slate-50">
+          <TextInput
+            value={draft.title}
+            onChangeText={(title) => setDraft({ ...draft, title })}
+            placeholder="Title, e.g. Rates"
+            maxLength={60}
+            className="border border-slate-300 rounded-xl px-3 py-2 text-slate-900 bg-white font-semibold mb-2"
+            placeholderTextColor={COLORS.slate400}
+          />
+          <TextInput
+            value={draft.body}
+            onChangeText={(body) => setDraft({ ...draft, body })}
+            placeholder="Hi {buyer_first_name}! Rates for {service_title} start at…"
+            multiline
+            maxLength={1000}
+            textAlignVertical="top"
+            className="border border-slate-300 rounded-xl px-3 py-2 text-slate-900 bg-white"
+            placeholderTextColor={COLORS.slate400}
+            style={{ minHeight: 88 }}
+          />
+          <VariableChips
+            onInsert={(token) =>
+              setDraft((prev) => prev && { ...prev, body: prev.body + token })
+            }
+          />
+          <View className="flex-row justify-end mt-2">
+            <TouchableOpacity
+              onPress={() => setDraft(null)}
+              disabled={savingDraft}
+              className="px-4 py-2 rounded-full bg-slate-100 mr-2"
+            >
+              <Text className="text-sm font-semibold text-slate-600">
+                Cancel
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleSaveDraft}
+              disabled={savingDraft}
+              className="px-4 py-2 rounded-full bg-[#1877F2]"
+            >
+              {savingDraft ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text className="text-sm font-bold text-white">Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        !loading && (
+          <TouchableOpacity
+            onPress={() => setDraft({ id: null, title: "", body: "" })}
+            className="border-2 border-dashed border-slate-300 rounded-2xl py-3 flex-row items-center justify-center"
+          >
+            <AntDesign name="plus" size={16} color={COLORS.primary} />
+            <Text className="ml-2 text-[#1877F2] font-semibold">
+              Add quick reply
+            </Text>
+          </TouchableOpacity>
+        )
+      )}
+    </View>
+  );
+}
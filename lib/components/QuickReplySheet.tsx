@@ -0,0 +1,124 @@
+// lib/components/QuickReplySheet.tsx
+import { AntDesign, Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { fetchQuickReplies } from "../api/quickReplies.api";
+import { COLORS } from "../constants/theme";
+import { QuickReply } from "../types/database.types";
+import { fillMessageTemplate, TemplateValues } from "../utils/messageTemplates";
+import { EmptyState } from "./ui/EmptyState";
+
+type QuickReplySheetProps = {
+  visible: boolean;
+  // Fill the template variables for this conversation
+  values: TemplateValues;
+  onClose: () => void;
+  onSelect: (text: string) => void;
+};
+
+/**
+ * Bottom sheet in the chat composer listing the provider's quick replies,
+ * previewed with this conversation's variables filled in. Picking one puts
+ * its text in the input to review before sending.
+ */
+export default function QuickReplySheet({
+  visible,
+  values,
+  onClose,
+  onSelect,
+}: QuickReplySheetProps) {
+  const [replies, setReplies] = useState<QuickReply[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    fetchQuickReplies()
+      .then(setReplies)
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-end">
+        <TouchableOpacity
+          className="flex-1"
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <View className="bg-white rounded-t-[32px] pt-3 pb-8 max-h-[560px]">
+          <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+
+          <View className="flex-row items-center justify-between px-6 mb-3">
+            <Text className="text-lg font-bold text-slate-900">
+              Quick replies
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="p-2 bg-slate-100 rounded-full"
+            >
+              <AntDesign name="close" size={16} color={COLORS.slate500} />
+            </TouchableOpacity>
+          </View>
+
+          {loading && replies.length === 0 ? (
+            <View className="py-10 items-center">
+              <ActivityIndicator color={COLORS.primary} />
+            </View>
+          ) : replies.length === 0 ? (
+            <EmptyState
+              icon={
+                <Ionicons
+                  name="flash-outline"
+                  size={28}
+                  color={COLORS.slate400}
+                />
+              }
+              title="No quick replies yet"
+              subtitle="Save answers you send often in Settings → Quick Replies."
+            />
+          ) : (
+            <ScrollView className="px-6" showsVerticalScrollIndicator={false}>
+              {replies.map((reply) => {
+                const text = fillMessageTemplate(reply.body, values);
+                return (
+                  <TouchableOpacity
+                    key={reply.id}
+                    onPress={() => onSelect(text)}
+                    className="bg-white border border-slate-100 rounded-2xl p-4 mb-3"
+                  >
+                    <Text
+                      className="text-sm font-semibold text-slate-900"
+                      numberOfLines={1}
+                    >
+                      {reply.title}
+                    </Text>
+                    <Text
+                      className="text-xs text-slate-500 mt-0.5"
+                      numberOfLines={3}
+                    >
+                      {text}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
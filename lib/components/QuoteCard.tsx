@@ -0,0 +1,122 @@
+// lib/components/QuoteCard.tsx
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { Text, TouchableOpacity, View } from "react-native";
+import { COLORS } from "../constants/theme";
+import { Quote } from "../types/database.types";
+import { formatDateTime } from "../utils/date";
+import { formatPrice } from "../utils/format";
+import {
+  canRespondToQuote,
+  getQuoteDisplayStatus,
+  QUOTE_STATUS_META,
+} from "../utils/quotes";
+
+type QuoteCardProps = {
+  quote: Quote;
+  currentUserId: string | null;
+  busy?: boolean;
+  onAccept: (quote: Quote) => void;
+  onDecline: (quote: Quote) => void;
+  onCounter: (quote: Quote) => void;
+};
+
+/**
+ * A quote as it appears in the chat: line items, total, validity and
+ * notes, with Accept / Decline / Counter for the participant who received
+ * it while it is still open.
+ */
+export default function QuoteCard({
+  quote,
+  currentUserId,
+  busy = false,
+  onAccept,
+  onDecline,
+  onCounter,
+}: QuoteCardProps) {
+  const status = getQuoteDisplayStatus(quote);
+  const meta = QUOTE_STATUS_META[status];
+  const canRespond = canRespondToQuote(quote, currentUserId);
+
+  return (
+    <View className="w-64 bg-white border border-slate-200 rounded-2xl p-4">
+      <View className="flex-row items-center">
+        <Ionicons name="pricetag-outline" size={16} color={COLORS.primary} />
+        <Text className="flex-1 ml-2 text-sm font-bold text-slate-900">
+          {quote.parent_quote_id ? "Counter offer" : "Quote"}
+        </Text>
+        <View className={`px-2.5 py-1 rounded-full ${meta.bg}`}>
+          <Text className={`text-[11px] font-bold ${meta.text}`}>
+            {meta.label}
+          </Text>
+        </View>
+      </View>
+
+      <View className="mt-3 bg-slate-50 rounded-xl px-3 py-2">
+        {quote.line_items.map((item, index) => (
+          <View key={index} className="flex-row justify-between py-0.5">
+            <Text className="flex-1 mr-2 text-xs text-slate-700">
+              {item.quantity !== 1 ? `${item.quantity} × ` : ""}
+              {item.description}
+            </Text>
+            <Text className="text-xs text-slate-700">
+              {formatPrice(item.quantity * item.unit_price)}
+            </Text>
+          </View>
+        ))}
+        <View className="flex-row justify-between border-t border-slate-200 mt-1 pt-1.5">
+          <Text className="text-sm font-bold text-slate-900">Total</Text>
+          <Text className="text-sm font-bold text-[#1877F2]">
+            {formatPrice(quote.total)}
+          </Text>
+        </View>
+      </View>
+
+      {quote.notes ? (
+        <Text className="text-xs text-slate-500 mt-2" numberOfLines={4}>
+          “{quote.notes}”
+        </Text>
+      ) : null}
+
+      <Text className="text-[11px] text-slate-400 mt-2">
+        {status === "pending" || status === "expired"
+          ? `Valid until ${formatDateTime(quote.valid_until)}`
+          : quote.responded_at
+            ? `${meta.label} ${formatDateTime(quote.responded_at)}`
+            : null}
+      </Text>
+
+      {canRespond && (
+        <View className="flex-row mt-3">
+          <TouchableOpacity
+            disabled={busy}
+            onPress={() => onAccept(quote)}
+            className={`flex-1 py-2 rounded-full bg-[#1877F2] items-center ${
+              busy ? "opacity-50" : ""
+            }`}
+          >
+            <Text className="text-xs font-bold text-white">Accept</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            disabled={busy}
+            onPress={() => onCounter(quote)}
+            className={`flex-1 ml-2 py-2 rounded-full bg-slate-100 items-center ${
+              busy ? "opacity-50" : ""
+            }`}
+          >
+            <Text className="text-xs font-bold text-slate-700">Counter</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            disabled={busy}
+            onPress={() => onDecline(quote)}
+            className={`flex-1 ml-2 py-2 rounded-full bg-red-50 items-center ${
+              busy ? "opacity-50" : ""
+            }`}
+          >
+            <Text className="text-xs font-bold text-red-600">Decline</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,323 @@
+// lib/components/QuoteFormModal.tsx
+import { AntDesign } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
+import { createQuote } from "../api/quotes.api";
+import { COLORS } from "../constants/theme";
+import { Quote, QuoteLineItem } from "../types/database.types";
+import { formatPrice } from "../utils/format";
+import { getQuoteTotal } from "../utils/quotes";
+
+const MAX_LINE_ITEMS = 20;
+
+// How long the other side has to answer
+const VALIDITY_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: "1 day" },
+  { days: 3, label: "3 days" },
+  { days: 7, label: "1 week" },
+  { days: 14, label: "2 weeks" },
+  { days: 30, label: "30 days" },
+];
+
+// A line item as typed; numbers stay strings until submitted
+type FormLineItem = {
+  key: string;
+  description: string;
+  quantity: string;
+  unit_price: string;
+};
+
+type QuoteFormModalProps = {
+  visible: boolean;
+  conversationId: string;
+  // Set when countering: its line items are the starting point
+  counterTo?: Quote | null;
+  onClose: () => void;
+  onSent: (quote: Quote) => void;
+};
+
+// NaN when blank or not a number
+function parseAmount(value: string): number {
+  const trimmed = value.replace(/,/g, "").trim();
+  return trimmed ? Number(trimmed) : NaN;
+}
+
+function toFormItem(index: number, item?: QuoteLineItem): FormLineItem {
+  return {
+    key: `item-${Date.now()}-${index}`,
+    description: item?.description ?? "",
+    quantity: item ? String(item.quantity) : "1",
+    unit_price: item ? String(item.unit_price) : "",
+  };
+}
+
+function toLineItem(item: FormLineItem): QuoteLineItem {
+  return {
+    description: item.description.trim(),
+    quantity: parseAmount(item.quantity),
+    unit_price: parseAmount(item.unit_price),
+  };
+}
+
+/**
+ * Bottom sheet for sending a price quote in a chat, or a counter offer to
+ * a quote the user received: line items, how long it is valid and notes.
+ */
+export default function QuoteFormModal({
+  visible,
+  conversationId,
+  counterTo,
+  onClose,
+  onSent,
+}: QuoteFormModalProps) {
+  const [items, setItems] = useState<FormLineItem[]>([]);
+  const [validDays, setValidDays] = useState(7);
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setItems(
+      counterTo
+        ? counterTo.line_items.map((item, index) => toFormItem(index, item))
+        : [toFormItem(0)],
+    );
+    setValidDays(7);
+    setNotes("");
+  }, [visible, counterTo]);
+
+  const updateItem = (key: string, patch: Partial<Omit<FormLineItem, "key">>) =>
+    setItems((prev) =>
+      prev.map((item) => (item.key === key ? { ...item, ...patch } : item)),
+    );
+
+  const removeItem = (key: string) =>
+    setItems((prev) => prev.filter((item) => item.key !== key));
+
+  const lineItems = items.map(toLineItem);
+  const valid =
+    lineItems.length > 0 &&
+    lineItems.every(
+      (item) => !!item.description && item.quantity > 0 && item.unit_price >= 0,
+    );
+  // Rows still being filled in count as zero
+  const total = getQuoteTotal(
+    lineItems.filter((item) => item.quantity > 0 && item.unit_price >= 0),
+  );
+
+  const handleSubmit = async () => {
+    if (!valid) {
+      Alert.alert(
+        "Incomplete Quote",
+        "Every line needs a description, a quantity and a price.",
+      );
+      return;
+    }
+    try {
+      setSubmitting(true);
+      const quote = await createQuote({
+        conversation_id: conversationId,
+        parent_quote_id: counterTo?.id ?? null,
+        line_items: lineItems,
+        valid_until: new Date(
+          Date.now() + validDays * 24 * 60 * 60 * 1000,
+        ).toISOString(),
+        notes,
+      });
+      onSent(quote);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to send quote");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-end">
+        <TouchableOpacity
+          className="flex-1"
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <KeyboardAvoidingView behavior="padding">
+          <View className="bg-white rounded-t-[32px] pt-3 pb-8 max-h-[680px]">
+            <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+
+            <View className="flex-row items-center justify-between px-6 mb-3">
+              <View className="flex-1 mr-3">
+                <Text className="text-lg font-bold text-slate-900">
+                  {counterTo ? "Counter offer" : "Send a quote"}
+                </Text>
+                {counterTo && (
+                  <Text className="text-xs text-slate-500">
+                    Their quote: {formatPrice(counterTo.total)}
+                  </Text>
+                )}
+              </View>
+              <TouchableOpacity
+                onPress={onClose}
+                className="p-2 bg-slate-100 rounded-full"
+              >
+                <AntDesign name="close" size={16} color={COLORS.slate500} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              className="px-6"
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <Text className="text-sm font-semibold text-slate-700 mb-2">
+                Line items
+              </Text>
+              {items.map((item) => (
+                <View
+                  key={item.key}
+                  className="border border-slate-200 rounded-2xl p-3 mb-3 bg-slate-50"
+                >
+                  <View className="flex-row items-center mb-2">
+                    <TextInput
+                      value={item.description}
+                      onChangeText={(description) =>
+                        updateItem(item.key, { description })
+                      }
+                      placeholder="Description"
+                      maxLength={200}
+                      className="flex-1 border border-slate-300 rounded-xl px-3 py-2 text-slate-900 bg-white"
+                      placeholderTextColor={COLORS.slate400}
+                    />
+                    {items.length > 1 && (
+                      <TouchableOpacity
+                        onPress={() => removeItem(item.key)}
+                        className="ml-2 p-2"
+                      >
+                        <AntDesign name="delete" size={18} color="#ef4444" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  <View className="flex-row">
+                    <TextInput
+                      value={item.quantity}
+                      onChangeText={(quantity) =>
+                        updateItem(item.key, { quantity })
+                      }
+                      placeholder="Qty"
+                      keyboardType="decimal-pad"
+                      className="w-20 border border-slate-300 rounded-xl px-3 py-2 text-slate-900 bg-white mr-2"
+                      placeholderTextColor={COLORS.slate400}
+                    />
+                    <TextInput
+                      value={item.unit_price}
+                      onChangeText={(unit_price) =>
+                        updateItem(item.key, { unit_price })
+                      }
+                      placeholder="Unit price (₱)"
+                      keyboardType="decimal-pad"
+                      className="flex-1 border border-slate-300 rounded-xl px-3 py-2 text-slate-900 bg-white"
+                      placeholderTextColor={COLORS.slate400}
+                    />
+                  </View>
+                </View>
+              ))}
+
+              {items.length < MAX_LINE_ITEMS && (
+                <TouchableOpacity
+                  onPress={() =>
+                    setItems((prev) => [...prev, toFormItem(prev.length)])
+                  }
+                  className="border-2 border-dashed border-slate-300 rounded-2xl py-3 mb-4 flex-row items-center justify-center"
+                >
+                  <AntDesign name="plus" size={16} color={COLORS.primary} />
+                  <Text className="ml-2 text-[#1877F2] font-semibold">
+                    Add line
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <Text className="text-sm font-semibold text-slate-700 mb-2">
+                Valid for
+              </Text>
+              <View className="flex-row flex-wrap mb-2">
+                {VALIDITY_OPTIONS.map((option) => {
+                  const selected = option.days === validDays;
+                  return (
+                    <TouchableOpacity
+                      key={option.days}
+                      onPress={() => setValidDays(option.days)}
+                      className={`px-3 py-1.5 rounded-full mr-2 mb-2 border ${
+                        selected
+                          ? "bg-[#1877F2] border-[#1877F2]"
+                          : "bg-white border-slate-300"
+                      }`}
+                    >
+                      <Text
+                        className={`text-xs font-medium ${
+                          selected ? "text-white" : "text-slate-600"
+                        }`}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <View className="mb-4">
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className="text-sm font-semibold text-slate-700">
+                    Notes
+                  </Text>
+                  <Text className="text-xs text-slate-400">Optional</Text>
+                </View>
+                <TextInput
+                  value={notes}
+                  onChangeText={setNotes}
+                  placeholder="Terms, what's not included, etc."
+                  multiline
+                  maxLength={1000}
+                  textAlignVertical="top"
+                  className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
+                  placeholderTextColor={COLORS.slate400}
+                  style={{ minHeight: 72 }}
+                />
+              </View>
+            </ScrollView>
+
+            <View className="px-6 pt-2">
+              <TouchableOpacity
+                onPress={handleSubmit}
+                disabled={submitting}
+                className="bg-[#1877F2] py-4 rounded-2xl items-center"
+              >
+                {submitting ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text className="text-white font-bold text-base">
+                    {counterTo ? "Send counter offer" : "Send quote"} ·{" "}
+                    {formatPrice(total)}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
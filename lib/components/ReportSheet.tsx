@@ -0,0 +1,175 @@
+// lib/components/ReportSheet.tsx
+import { AntDesign } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
+import { REPORT_REASONS, submitReport } from "../api/moderation.api";
+import { COLORS } from "../constants/theme";
+import { ReportEntityType, ReportReason } from "../types/database.types";
+
+export type ReportTarget = {
+  entity_type: ReportEntityType;
+  entity_id: string;
+};
+
+type ReportSheetProps = {
+  // null = hidden
+  target: ReportTarget | null;
+  onClose: () => void;
+};
+
+const TITLES: Record<ReportEntityType, string> = {
+  service: "Report listing",
+  message: "Report message",
+  review: "Report review",
+  comment: "Report comment",
+  profile: "Report user",
+};
+
+/**
+ * Bottom sheet for reporting something to the moderators: pick a reason,
+ * optionally describe the problem (required for "Something else").
+ */
+export default function ReportSheet({ target, onClose }: ReportSheetProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+    setReason(null);
+    setDetails("");
+  }, [target]);
+
+  const canSubmit =
+    !!reason && (reason !== "other" || !!details.trim()) && !submitting;
+
+  const handleSubmit = async () => {
+    if (!target || !reason || !canSubmit) return;
+    try {
+      setSubmitting(true);
+      await submitReport({ ...target, reason, details });
+      onClose();
+      Alert.alert(
+        "Thanks for letting us know",
+        "Our team will review your report.",
+      );
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to send report");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!target}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-end">
+        <TouchableOpacity
+          className="flex-1"
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <KeyboardAvoidingView behavior="padding">
+          <View className="bg-white rounded-t-[32px] pt-3 pb-8 max-h-[600px]">
+            <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+
+            <View className="flex-row items-center justify-between px-6 mb-3">
+              <Text className="flex-1 mr-3 text-lg font-bold text-slate-900">
+                {target ? TITLES[target.entity_type] : "Report"}
+              </Text>
+              <TouchableOpacity
+                onPress={onClose}
+                className="p-2 bg-slate-100 rounded-full"
+              >
+                <AntDesign name="close" size={16} color={COLORS.slate500} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              className="px-6"
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <Text className="text-sm text-slate-500 mb-3">
+                Why are you reporting this?
+              </Text>
+              {REPORT_REASONS.map((option) => {
+                const active = reason === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() => setReason(option.value)}
+                    disabled={submitting}
+                    className={`flex-row items-center justify-between border rounded-2xl px-4 py-3 mb-2 ${
+                      active
+                        ? "border-[#1877F2] bg-blue-50"
+                        : "border-slate-200 bg-white"
+                    }`}
+                  >
+                    <Text className="flex-1 text-sm font-semibold text-slate-900">
+                      {option.label}
+                    </Text>
+                    {active && (
+                      <AntDesign
+                        name="check"
+                        size={16}
+                        color={COLORS.primary}
+                      />
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+
+              <TextInput
+                value={details}
+                onChangeText={setDetails}
+                placeholder={
+                  reason === "other"
+                    ? "Describe the problem"
+                    : "Add details (optional)"
+                }
+                maxLength={1000}
+                multiline
+                className="border border-slate-300 rounded-xl px-4 py-3 mt-2 text-slate-900 min-h-[88px]"
+                placeholderTextColor={COLORS.slate400}
+                textAlignVertical="top"
+              />
+
+              <TouchableOpacity
+                onPress={handleSubmit}
+                disabled={!canSubmit}
+                className={`mt-4 py-4 rounded-2xl items-center ${
+                  canSubmit ? "bg-[#1877F2]" : "bg-slate-200"
+                }`}
+              >
+                {submitting ? (
+                  <ActivityIndicator size="small" color={COLORS.white} />
+                ) : (
+                  <Text
+                    className={`font-bold ${canSubmit ? "text-white" : "text-slate-400"}`}
+                  >
+                    Send report
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
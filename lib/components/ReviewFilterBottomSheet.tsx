@@ -33,13 +33,18 @@ const REPLY_OPTIONS = [
   { value: false, label: "No Reply" },
 ];
 
+const VERIFIED_OPTIONS = [
+  { value: false, label: "Everyone" },
+  { value: true, label: "Verified Hires Only" },
+];
+
 type SortOption = {
   value: ReviewFilterOptions["sortBy"];
   label: string;
   disabled?: boolean;
 };
 
-type AccordionKey = "rating" | "reply" | "sort";
+type AccordionKey = "rating" | "reply" | "verified" | "sort";
 
 export default function ReviewFilterBottomSheet({
   visible,
@@ -65,6 +70,7 @@ export default function ReviewFilterBottomSheet({
     const clearedFilters: ReviewFilterOptions = {
       rating: null,
       hasReply: null,
+      verifiedOnly: false,
       sortBy: "newest",
     };
     setFilters(clearedFilters);
@@ -105,6 +111,7 @@ export default function ReviewFilterBottomSheet({
     let count = 0;
     if (filters.rating !== null) count++;
     if (filters.hasReply !== null) count++;
+    if (filters.verifiedOnly) count++;
     if (filters.sortBy !== "newest") count++;
     return count;
   };
@@ -116,6 +123,8 @@ export default function ReviewFilterBottomSheet({
       case "reply":
         if (filters.hasReply === null) return null;
         return filters.hasReply ? "With Reply" : "No Reply";
+      case "verified":
+        return filters.verifiedOnly ? "Verified Hires Only" : null;
       case "sort":
         if (filters.sortBy === "newest") return null;
         return (
@@ -280,6 +289,42 @@ export default function ReviewFilterBottomSheet({
               )}
             </View>
 
+            {/* Reviewer */}
+            <View style={styles.accordionItem}>
+              {renderSectionHeader("verified", "Reviewer", "safety")}
+              {expandedSection === "verified" && (
+                <View style={styles.sectionBody}>
+                  <View style={styles.chipRow}>
+                    {VERIFIED_OPTIONS.map((option) => {
+                      const active =
+                        (filters.verifiedOnly ?? false) === option.value;
+                      return (
+                        <TouchableOpacity
+                          key={option.label}
+                          onPress={() =>
+                            updateFilter("verifiedOnly", option.value)
+                          }
+                          style={[styles.chip, active && styles.chipActive]}
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              active && styles.chipTextActive,
+                            ]}
+                          >
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <Text style={styles.sectionNote}>
+                    Verified hires reviewed after a completed booking or job
+                  </Text>
+                </View>
+              )}
+            </View>
+
             {/* Sort By */}
             <View style={[styles.accordionItem, { marginBottom: 0 }]}>
               {renderSectionHeader("sort", "Sort By", "swap")}
@@ -453,6 +498,11 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     backgroundColor: "#fff",
   },
+  sectionNote: {
+    fontSize: 11,
+    color: "#94a3b8",
+    marginTop: 8,
+  },
   chipRow: {
     flexDirection: "row",
     flexWrap: "wrap",
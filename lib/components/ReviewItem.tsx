@@ -17,8 +17,10 @@ import {
   toggleReviewReaction,
   updateReviewReply,
 } from "../api/reviews.api";
+import { useModeration } from "../hooks/useModeration";
 import { ReviewWithDetails } from "../types/database.types";
 import { formatDistanceToNow } from "../utils/date";
+import ReportSheet from "./ReportSheet";
 import { ProfileAvatar } from "./ui/ProfileAvatar";
 
 type ReviewItemProps = {
@@ -58,6 +60,8 @@ export default function ReviewItem({
   const [reacting, setReacting] = useState(false);
 
   const [showReplyInput, setShowReplyInput] = useState(false);
+  // Blocking hides the author's reviews, so reload the list
+  const { reportTarget, closeReport, showOptions } = useModeration(onUpdate);
   const [replyContent, setReplyContent] = useState(
     review.review_reply?.content || "",
   );
@@ -223,12 +227,38 @@ export default function ReviewItem({
       <View style={styles.header}>
         <ProfileAvatar profile={review.profile} size={40} />
         <View style={styles.headerMeta}>
-          <Text style={styles.authorName}>{authorName}</Text>
+          <View style={styles.authorRow}>
+            <Text style={styles.authorName}>{authorName}</Text>
+            {review.verified_hire && (
+              <View style={styles.verifiedBadge}>
+                <MaterialCommunityIcons
+                  name="check-decagram"
+                  size={11}
+                  color="#059669"
+                />
+                <Text style={styles.verifiedText}>Verified hire</Text>
+              </View>
+            )}
+          </View>
           <Text style={styles.timestamp}>
             {formatDistanceToNow(review.created_at)}
           </Text>
         </View>
         {renderStars(review.rating)}
+        {currentUserId && !isReviewAuthor && (
+          <TouchableOpacity
+            onPress={() =>
+              showOptions(
+                { entity_type: "review", entity_id: review.id },
+                { id: review.user_id, name: authorName },
+              )
+            }
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            style={styles.moreBtn}
+          >
+            <AntDesign name="ellipsis" size={16} color="#94a3b8" />
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Comment */}
@@ -377,6 +407,8 @@ export default function ReviewItem({
           </View>
         </View>
       )}
+
+      <ReportSheet target={reportTarget} onClose={closeReport} />
     </View>
   );
 }
@@ -395,9 +427,22 @@ const styles = StyleSheet.create({
     marginBottom: 8,
   },
   headerMeta: { flex: 1, marginLeft: 10 },
+  authorRow: { flexDirection: "row", alignItems: "center", flexWrap: "wrap" },
   authorName: { fontSize: 13, fontWeight: "700", color: "#0f172a" },
+  verifiedBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 3,
+    marginLeft: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 10,
+    backgroundColor: "#ecfdf5",
+  },
+  verifiedText: { fontSize: 10, fontWeight: "700", color: "#059669" },
   timestamp: { fontSize: 11, color: "#94a3b8", marginTop: 1 },
   starsRow: { flexDirection: "row", gap: 2 },
+  moreBtn: { marginLeft: 10 },
   commentText: {
     fontSize: 13,
     color: "#334155",
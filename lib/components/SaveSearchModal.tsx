@@ -0,0 +1,160 @@
+// lib/components/SaveSearchModal.tsx
+import { AntDesign } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
+import { createSavedSearch } from "../api/savedSearches.api";
+import { COLORS } from "../constants/theme";
+import {
+  ALERT_FREQUENCY_OPTIONS,
+  AlertFrequency,
+  FilterOptions,
+} from "../types/filter.types";
+
+type SaveSearchModalProps = {
+  visible: boolean;
+  searchQuery: string;
+  filters: FilterOptions;
+  onClose: () => void;
+};
+
+/**
+ * Bottom sheet for saving the current search and filters under a name,
+ * with how to be alerted about new matches.
+ */
+export default function SaveSearchModal({
+  visible,
+  searchQuery,
+  filters,
+  onClose,
+}: SaveSearchModalProps) {
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState<AlertFrequency>("daily");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setName(searchQuery.trim().slice(0, 60));
+      setFrequency("daily");
+    }
+  }, [visible, searchQuery]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Name Required", "Give this search a name.");
+      return;
+    }
+    try {
+      setSaving(true);
+      await createSavedSearch({
+        name,
+        searchQuery,
+        filters,
+        alertFrequency: frequency,
+      });
+      onClose();
+      Alert.alert(
+        "Search Saved",
+        "Manage your saved searches from Profile → Settings.",
+      );
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to save search");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-end">
+        <TouchableOpacity
+          className="flex-1"
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <KeyboardAvoidingView behavior="padding">
+          <View className="bg-white rounded-t-[32px] pt-3 pb-8 px-6">
+            <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+
+            <View className="flex-row items-center justify-between mb-4">
+              <Text className="text-lg font-bold text-slate-900">
+                Save this search
+              </Text>
+              <TouchableOpacity
+                onPress={onClose}
+                className="p-2 bg-slate-100 rounded-full"
+              >
+                <AntDesign name="close" size={16} color={COLORS.slate500} />
+              </TouchableOpacity>
+            </View>
+
+            <Text className="text-sm font-semibold text-slate-700 mb-2">
+              Name
+            </Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Aircon cleaning near me"
+              maxLength={60}
+              className="border border-slate-300 rounded-xl px-4 py-3 text-slate-900 mb-4"
+              placeholderTextColor={COLORS.slate400}
+            />
+
+            <Text className="text-sm font-semibold text-slate-700 mb-2">
+              Alert me about new matches
+            </Text>
+            <View className="flex-row flex-wrap mb-6">
+              {ALERT_FREQUENCY_OPTIONS.map((option) => {
+                const active = option.value === frequency;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() => setFrequency(option.value)}
+                    className={`px-4 py-2 rounded-full mr-2 mb-2 border ${
+                      active
+                        ? "bg-[#1877F2] border-[#1877F2]"
+                        : "bg-white border-slate-300"
+                    }`}
+                  >
+                    <Text
+                      className={`text-xs font-medium ${active ? "text-white" : "text-slate-700"}`}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={saving}
+              className="bg-[#1877F2] py-4 rounded-2xl items-center"
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text className="text-white font-bold text-base">
+                  Save search
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
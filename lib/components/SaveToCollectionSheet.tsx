@@ -0,0 +1,245 @@
+// lib/components/SaveToCollectionSheet.tsx
+import { AntDesign } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
+import {
+  createCollection,
+  fetchCollections,
+  fetchSavedCollectionId,
+  saveService,
+  unsaveService,
+} from "../api/saved.api";
+import { COLORS } from "../constants/theme";
+import { SavedCollection } from "../types/database.types";
+
+type SaveToCollectionSheetProps = {
+  visible: boolean;
+  serviceId: string | null;
+  serviceTitle?: string;
+  onClose: () => void;
+  // Called after the service was saved (with its collection) or removed
+  onChange: (saved: boolean, collectionId: string | null) => void;
+};
+
+/**
+ * Bottom sheet for choosing which collection a service is saved in.
+ * Picking a collection saves (or moves) the service there; a new
+ * collection can be created inline.
+ */
+export default function SaveToCollectionSheet({
+  visible,
+  serviceId,
+  serviceTitle,
+  onClose,
+  onChange,
+}: SaveToCollectionSheetProps) {
+  const [collections, setCollections] = useState<SavedCollection[]>([]);
+  // undefined = not saved, null = saved outside any collection
+  const [currentId, setCurrentId] = useState<string | null | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (!visible || !serviceId) return;
+    let cancelled = false;
+    setLoading(true);
+    setNewName("");
+    Promise.all([fetchCollections(), fetchSavedCollectionId(serviceId)])
+      .then(([list, collectionId]) => {
+        if (cancelled) return;
+        setCollections(list);
+        setCurrentId(collectionId);
+      })
+      .catch(() => {
+        if (!cancelled) setCollections([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, serviceId]);
+
+  const handlePick = async (collectionId: string | null) => {
+    if (!serviceId || busy) return;
+    try {
+      setBusy(true);
+      await saveService(serviceId, collectionId);
+      onChange(true, collectionId);
+      onClose();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to save service");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name || !serviceId || busy) return;
+    try {
+      setBusy(true);
+      const collection = await createCollection(name);
+      await saveService(serviceId, collection.id);
+      onChange(true, collection.id);
+      onClose();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to create collection");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!serviceId || busy) return;
+    try {
+      setBusy(true);
+      await unsaveService(serviceId);
+      onChange(false, null);
+      onClose();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to remove service");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const options: { id: string | null; name: string }[] = [
+    { id: null, name: "All saved" },
+    ...collections,
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-end">
+        <TouchableOpacity
+          className="flex-1"
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <KeyboardAvoidingView behavior="padding">
+          <View className="bg-white rounded-t-[32px] pt-3 pb-8 max-h-[560px]">
+            <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+
+            <View className="flex-row items-center justify-between px-6 mb-3">
+              <View className="flex-1 mr-3">
+                <Text className="text-lg font-bold text-slate-900">
+                  Save to collection
+                </Text>
+                {serviceTitle ? (
+                  <Text className="text-xs text-slate-500" numberOfLines={1}>
+                    {serviceTitle}
+                  </Text>
+                ) : null}
+              </View>
+              <TouchableOpacity
+                onPress={onClose}
+                className="p-2 bg-slate-100 rounded-full"
+              >
+                <AntDesign name="close" size={16} color={COLORS.slate500} />
+              </TouchableOpacity>
+            </View>
+
+            {loading ? (
+              <View className="py-10 items-center">
+                <ActivityIndicator size="small" color={COLORS.primary} />
+              </View>
+            ) : (
+              <ScrollView
+                className="px-6"
+                keyboardShouldPersistTaps="handled"
+                showsVerticalScrollIndicator={false}
+              >
+                {options.map((option) => {
+                  const active =
+                    currentId !== undefined && currentId === option.id;
+                  return (
+                    <TouchableOpacity
+                      key={option.id ?? "all"}
+                      onPress={() => handlePick(option.id)}
+                      disabled={busy}
+                      className={`flex-row items-center justify-between border rounded-2xl px-4 py-3 mb-2 ${
+                        active
+                          ? "border-[#1877F2] bg-blue-50"
+                          : "border-slate-200 bg-white"
+                      }`}
+                    >
+                      <Text
+                        className="flex-1 text-sm font-semibold text-slate-900"
+                        numberOfLines={1}
+                      >
+                        {option.name}
+                      </Text>
+                      {active && (
+                        <AntDesign
+                          name="check"
+                          size={16}
+                          color={COLORS.primary}
+                        />
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+
+                <View className="flex-row items-center mt-2">
+                  <TextInput
+                    value={newName}
+                    onChangeText={setNewName}
+                    placeholder="New collection"
+                    maxLength={60}
+                    onSubmitEditing={handleCreate}
+                    returnKeyType="done"
+                    className="flex-1 border border-slate-300 rounded-xl px-4 py-3 text-slate-900 mr-2"
+                    placeholderTextColor={COLORS.slate400}
+                  />
+                  <TouchableOpacity
+                    onPress={handleCreate}
+                    disabled={!newName.trim() || busy}
+                    className={`px-4 py-3 rounded-xl ${
+                      newName.trim() ? "bg-[#1877F2]" : "bg-slate-200"
+                    }`}
+                  >
+                    <Text
+                      className={`font-bold ${newName.trim() ? "text-white" : "text-slate-400"}`}
+                    >
+                      Create
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {currentId !== undefined && (
+                  <TouchableOpacity
+                    onPress={handleRemove}
+                    disabled={busy}
+                    className="mt-4 py-3 items-center"
+                  >
+                    <Text className="text-sm font-semibold text-red-500">
+                      Remove from saved
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </ScrollView>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
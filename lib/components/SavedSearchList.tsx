@@ -0,0 +1,199 @@
+// lib/components/SavedSearchList.tsx
+import { AntDesign } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  deleteSavedSearch,
+  fetchSavedSearches,
+  updateSavedSearchAlerts,
+} from "../api/savedSearches.api";
+import { fetchCategories } from "../api/services.api";
+import { COLORS } from "../constants/theme";
+import { Category } from "../types/database.types";
+import {
+  ALERT_FREQUENCY_OPTIONS,
+  AlertFrequency,
+  RATING_OPTIONS,
+  SavedSearch,
+} from "../types/filter.types";
+import { formatPrice } from "../utils/format";
+
+type SavedSearchListProps = {
+  onRun: (search: SavedSearch) => void;
+};
+
+/**
+ * One-line summary of a saved search's query and filters.
+ * e.g. "“plumber” · Home Repair · ₱500–₱2,000 · 4+ Stars"
+ */
+function describeSearch(search: SavedSearch, categories: Category[]): string {
+  const parts: string[] = [];
+  if (search.query) parts.push(`“${search.query}”`);
+  const category = categories.find((c) => c.id === search.category_id);
+  if (category) parts.push(category.name);
+  if (search.min_price !== null || search.max_price !== null) {
+    parts.push(
+      search.max_price === null
+        ? `${formatPrice(search.min_price)}+`
+        : `${search.min_price === null ? "₱0" : formatPrice(search.min_price)}–${formatPrice(search.max_price)}`,
+    );
+  }
+  if (search.min_rating !== null) {
+    const rating = RATING_OPTIONS.find((r) => r.value === search.min_rating);
+    parts.push(rating?.label ?? `${search.min_rating}+ Stars`);
+  }
+  if (search.location) parts.push(search.location);
+  if (search.max_distance_km !== null) {
+    parts.push(`Within ${search.max_distance_km} km`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : "All services";
+}
+
+/**
+ * The current user's saved searches, shown in Settings. Each can be run,
+ * have its alerts changed or be deleted.
+ */
+export default function SavedSearchList({ onRun }: SavedSearchListProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([fetchSavedSearches(), fetchCategories()])
+      .then(([list, cats]) => {
+        setSearches(list);
+        setCategories(cats);
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleFrequency = async (
+    search: SavedSearch,
+    frequency: AlertFrequency,
+  ) => {
+    if (search.alert_frequency === frequency) return;
+    try {
+      const updated = await updateSavedSearchAlerts(search.id, frequency);
+      setSearches((prev) =>
+        prev.map((s) => (s.id === updated.id ? updated : s)),
+      );
+    } catch {
+      Alert.alert("Error", "Could not update alerts. Please try again.");
+    }
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    Alert.alert("Delete Saved Search", `Delete "${search.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteSavedSearch(search.id);
+            setSearches((prev) => prev.filter((s) => s.id !== search.id));
+          } catch {
+            Alert.alert("Error", "Could not delete search. Please try again.");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View className="py-10 items-center">
+        <ActivityIndicator color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (searches.length === 0) {
+    return (
+      <View className="py-10 items-center px-6">
+        <AntDesign name="search" size={32} color={COLORS.slate400} />
+        <Text className="text-base font-bold text-slate-700 text-center mt-4">
+          No saved searches
+        </Text>
+        <Text className="text-sm text-slate-400 text-center mt-1">
+          Search or filter services, then tap “Save search” to get alerts about
+          new matches.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {searches.map((search) => (
+        <View
+          key={search.id}
+          className="bg-white border border-slate-100 rounded-2xl p-4 mb-3"
+        >
+          <View className="flex-row items-start">
+            <TouchableOpacity
+              className="flex-1 pr-3"
+              onPress={() => onRun(search)}
+            >
+              <Text
+                className="text-base font-semibold text-slate-900"
+                numberOfLines={1}
+              >
+                {search.name}
+              </Text>
+              <Text className="text-xs text-slate-500 mt-0.5" numberOfLines={2}>
+                {describeSearch(search, categories)}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleDelete(search)}
+              className="p-2 bg-slate-50 rounded-xl"
+            >
+              <AntDesign name="delete" size={16} color={COLORS.danger} />
+            </TouchableOpacity>
+          </View>
+
+          <View className="flex-row flex-wrap mt-3">
+            {ALERT_FREQUENCY_OPTIONS.map((option) => {
+              const active = option.value === search.alert_frequency;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => handleFrequency(search, option.value)}
+                  className={`px-3 py-1.5 rounded-full mr-2 mb-1 border ${
+                    active
+                      ? "bg-[#1877F2] border-[#1877F2]"
+                      : "bg-white border-slate-300"
+                  }`}
+                >
+                  <Text
+                    className={`text-xs font-medium ${active ? "text-white" : "text-slate-700"}`}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            onPress={() => onRun(search)}
+            className="flex-row items-center self-start mt-2"
+          >
+            <Text className="text-xs font-semibold text-[#1877F2] mr-1">
+              Show results
+            </Text>
+            <AntDesign name="right" size={10} color={COLORS.primary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
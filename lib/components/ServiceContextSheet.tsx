@@ -0,0 +1,168 @@
+// lib/components/ServiceContextSheet.tsx
+import { AntDesign, Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { fetchUserServices } from "../api/services.api";
+import { COLORS } from "../constants/theme";
+import { Service } from "../types/database.types";
+import { formatPrice } from "../utils/format";
+
+type ServiceContextSheetProps = {
+  visible: boolean;
+  providerId: string;
+  selectedServiceId: string | null;
+  onClose: () => void;
+  // null = not about a specific service
+  onSelect: (serviceId: string | null) => void;
+};
+
+/**
+ * Bottom sheet for choosing which of the provider's services a
+ * conversation is about, or none.
+ */
+export default function ServiceContextSheet({
+  visible,
+  providerId,
+  selectedServiceId,
+  onClose,
+  onSelect,
+}: ServiceContextSheetProps) {
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    fetchUserServices(providerId)
+      .then((data) =>
+        setServices(
+          data.filter(
+            (s) => s.status === "active" || s.id === selectedServiceId,
+          ),
+        ),
+      )
+      .catch(() => setServices([]))
+      .finally(() => setLoading(false));
+  }, [visible, providerId, selectedServiceId]);
+
+  const renderOption = (
+    key: string,
+    serviceId: string | null,
+    icon: React.ReactNode,
+    title: string,
+    subtitle: string | null,
+  ) => {
+    const selected = serviceId === selectedServiceId;
+    return (
+      <TouchableOpacity
+        key={key}
+        onPress={() => onSelect(serviceId)}
+        className={`flex-row items-center border rounded-2xl p-3 mb-3 ${
+          selected ? "bg-blue-50 border-[#1877F2]" : "bg-white border-slate-100"
+        }`}
+      >
+        {icon}
+        <View className="flex-1 ml-3">
+          <Text
+            className="text-sm font-semibold text-slate-900"
+            numberOfLines={1}
+          >
+            {title}
+          </Text>
+          {subtitle ? (
+            <Text className="text-xs text-slate-500 mt-0.5" numberOfLines={1}>
+              {subtitle}
+            </Text>
+          ) : null}
+        </View>
+        {selected && (
+          <Ionicons name="checkmark-circle" size={20} color={COLORS.primary} />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/40 justify-end">
+        <TouchableOpacity
+          className="flex-1"
+          activeOpacity={1}
+          onPress={onClose}
+        />
+        <View className="bg-white rounded-t-[32px] pt-3 pb-8 max-h-[560px]">
+          <View className="w-12 h-1 bg-slate-200 rounded-full self-center mb-4" />
+
+          <View className="flex-row items-center justify-between px-6 mb-3">
+            <Text className="text-lg font-bold text-slate-900">
+              What is this about?
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              className="p-2 bg-slate-100 rounded-full"
+            >
+              <AntDesign name="close" size={16} color={COLORS.slate500} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView className="px-6" showsVerticalScrollIndicator={false}>
+            {renderOption(
+              "none",
+              null,
+              <View className="w-12 h-12 rounded-xl bg-slate-100 items-center justify-center">
+                <Ionicons
+                  name="chatbubbles-outline"
+                  size={20}
+                  color={COLORS.slate500}
+                />
+              </View>,
+              "General enquiry",
+              "Not about a specific service",
+            )}
+            {loading ? (
+              <View className="py-6 items-center">
+                <ActivityIndicator color={COLORS.primary} />
+              </View>
+            ) : (
+              services.map((service) =>
+                renderOption(
+                  service.id,
+                  service.id,
+                  service.image_url ? (
+                    <Image
+                      source={{ uri: service.image_url }}
+                      className="w-12 h-12 rounded-xl bg-slate-100"
+                    />
+                  ) : (
+                    <View className="w-12 h-12 rounded-xl bg-slate-100 items-center justify-center">
+                      <Ionicons
+                        name="briefcase-outline"
+                        size={20}
+                        color={COLORS.slate500}
+                      />
+                    </View>
+                  ),
+                  service.title,
+                  formatPrice(service.price),
+                ),
+              )
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,277 @@
+import { AntDesign } from "@expo/vector-icons";
+import { useState } from "react";
+import {
+  Dimensions,
+  FlatList,
+  Image,
+  Modal,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Gesture,
+  GestureDetector,
+  GestureHandlerRootView,
+} from "react-native-gesture-handler";
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { COLORS } from "../constants/theme";
+
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+
+type ServiceImageGalleryProps = {
+  urls: string[];
+  height?: number;
+};
+
+const pageFromScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) =>
+  Math.round(e.nativeEvent.contentOffset.x / SCREEN_WIDTH);
+
+/**
+ * Swipeable image carousel for the service detail header.
+ * Tapping an image opens a full-screen viewer with pinch and double-tap zoom.
+ */
+export default function ServiceImageGallery({
+  urls,
+  height = 256,
+}: ServiceImageGalleryProps) {
+  const [page, setPage] = useState(0);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  if (urls.length === 0) {
+    return (
+      <View
+        style={{ height }}
+        className="w-full bg-slate-200 items-center justify-center"
+      >
+        <AntDesign name="picture" size={64} color={COLORS.slate400} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ height }}>
+      <FlatList
+        data={urls}
+        keyExtractor={(url, index) => `${index}:${url}`}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={(e) => setPage(pageFromScroll(e))}
+        renderItem={({ item, index }) => (
+          <TouchableOpacity
+            activeOpacity={0.9}
+            onPress={() => setViewerIndex(index)}
+          >
+            <Image
+              source={{ uri: item }}
+              style={{ width: SCREEN_WIDTH, height }}
+              resizeMode="cover"
+            />
+          </TouchableOpacity>
+        )}
+      />
+
+      {urls.length > 1 && (
+        <>
+          <View className="absolute bottom-3 self-center flex-row">
+            {urls.map((url, index) => (
+              <View
+                key={`${index}:${url}`}
+                className={`mx-0.5 h-1.5 rounded-full ${
+                  index === page ? "w-4 bg-white" : "w-1.5 bg-white/60"
+                }`}
+              />
+            ))}
+          </View>
+          <View className="absolute top-3 right-3 bg-black/50 px-2 py-0.5 rounded-full">
+            <Text className="text-white text-xs font-semibold">
+              {page + 1}/{urls.length}
+            </Text>
+          </View>
+        </>
+      )}
+
+      {viewerIndex !== null && (
+        <FullScreenViewer
+          urls={urls}
+          initialIndex={viewerIndex}
+          onClose={() => setViewerIndex(null)}
+        />
+      )}
+    </View>
+  );
+}
+
+// ── Full-screen viewer ────────────────────────────────────────────────────────
+
+const FullScreenViewer = ({
+  urls,
+  initialIndex,
+  onClose,
+}: {
+  urls: string[];
+  initialIndex: number;
+  onClose: () => void;
+}) => {
+  const [page, setPage] = useState(initialIndex);
+  // Paging is disabled while zoomed so panning moves the image, not the list
+  const [zoomed, setZoomed] = useState(false);
+
+  return (
+    <Modal visible animationType="fade" onRequestClose={onClose}>
+      <GestureHandlerRootView style={{ flex: 1 }}>
+        <View className="flex-1 bg-black">
+          <FlatList
+            data={urls}
+            keyExtractor={(url, index) => `${index}:${url}`}
+            horizontal
+            pagingEnabled
+            scrollEnabled={!zoomed}
+            initialScrollIndex={initialIndex}
+            getItemLayout={(_, index) => ({
+              length: SCREEN_WIDTH,
+              offset: SCREEN_WIDTH * index,
+              index,
+            })}
+            showsHorizontalScrollIndicator={false}
+            onMomentumScrollEnd={(e) => setPage(pageFromScroll(e))}
+            renderItem={({ item }) => (
+              <ZoomableImage
+                uri={item}
+                zoomed={zoomed}
+                onZoomChange={setZoomed}
+              />
+            )}
+          />
+
+          <TouchableOpacity
+            onPress={onClose}
+            className="absolute top-12 right-4 bg-black/50 rounded-full p-2"
+          >
+            <AntDesign name="close" size={22} color="white" />
+          </TouchableOpacity>
+          {urls.length > 1 && (
+            <View className="absolute top-14 self-center">
+              <Text className="text-white text-sm font-semibold">
+                {page + 1} / {urls.length}
+              </Text>
+            </View>
+          )}
+        </View>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+};
+
+const ZoomableImage = ({
+  uri,
+  zoomed,
+  onZoomChange,
+}: {
+  uri: string;
+  zoomed: boolean;
+  onZoomChange: (zoomed: boolean) => void;
+}) => {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const reset = () => {
+    "worklet";
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    runOnJS(onZoomChange)(false);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((e) => {
+      scale.value = Math.min(Math.max(savedScale.value * e.scale, 1), MAX_ZOOM);
+    })
+    .onEnd(() => {
+      if (scale.value <= 1.01) {
+        reset();
+        return;
+      }
+      savedScale.value = scale.value;
+      runOnJS(onZoomChange)(true);
+    });
+
+  // Only pan a zoomed image; otherwise let the pager handle swipes
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .averageTouches(true)
+    .onUpdate((e) => {
+      if (savedScale.value <= 1) return;
+      translateX.value = savedTranslateX.value + e.translationX;
+      translateY.value = savedTranslateY.value + e.translationY;
+    })
+    .onEnd(() => {
+      // Keep the image edge within the screen
+      const maxX = (SCREEN_WIDTH * (savedScale.value - 1)) / 2;
+      const maxY = (SCREEN_HEIGHT * (savedScale.value - 1)) / 2;
+      const x = Math.min(Math.max(translateX.value, -maxX), maxX);
+      const y = Math.min(Math.max(translateY.value, -maxY), maxY);
+      translateX.value = withTiming(x);
+      translateY.value = withTiming(y);
+      savedTranslateX.value = x;
+      savedTranslateY.value = y;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        reset();
+        return;
+      }
+      scale.value = withTiming(DOUBLE_TAP_ZOOM);
+      savedScale.value = DOUBLE_TAP_ZOOM;
+      runOnJS(onZoomChange)(true);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Simultaneous(pinch, pan, doubleTap)}>
+      <Animated.View
+        style={[
+          {
+            width: SCREEN_WIDTH,
+            height: "100%",
+            justifyContent: "center",
+          },
+          animatedStyle,
+        ]}
+      >
+        <Image
+          source={{ uri }}
+          style={{ width: SCREEN_WIDTH, height: "100%" }}
+          resizeMode="contain"
+        />
+      </Animated.View>
+    </GestureDetector>
+  );
+};
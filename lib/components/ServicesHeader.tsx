@@ -1,6 +1,7 @@
 import { AntDesign } from "@expo/vector-icons";
 import { useState } from "react";
 import { Text, TextInput, TouchableOpacity, View } from "react-native";
+import { ServicesViewMode } from "../types/custom.types";
 
 type ServicesHeaderProps = {
   searchQuery: string;
@@ -8,6 +9,8 @@ type ServicesHeaderProps = {
   onFilterPress: () => void;
   activeFilterCount?: number;
   hasActiveFilters?: boolean;
+  viewMode: ServicesViewMode;
+  onViewModeChange: (mode: ServicesViewMode) => void;
 };
 
 export default function ServicesHeader({
@@ -15,6 +18,8 @@ export default function ServicesHeader({
   onSearchChange,
   onFilterPress,
   hasActiveFilters = false,
+  viewMode,
+  onViewModeChange,
 }: ServicesHeaderProps) {
   const [isFocused, setIsFocused] = useState(false);
 
@@ -69,6 +74,19 @@ export default function ServicesHeader({
             </TouchableOpacity>
           </View>
         </View>
+
+        {/* Grid / map toggle */}
+        <TouchableOpacity
+          onPress={() => onViewModeChange(viewMode === "grid" ? "map" : "grid")}
+          className="ml-2 p-2 rounded-2xl bg-slate-100"
+          activeOpacity={0.6}
+        >
+          <AntDesign
+            name={viewMode === "grid" ? "environment" : "appstore"}
+            size={18}
+            color="#3b82f6"
+          />
+        </TouchableOpacity>
       </View>
     </View>
   );
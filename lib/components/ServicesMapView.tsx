@@ -0,0 +1,333 @@
+import { AntDesign } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import MapView, { Marker } from "react-native-maps";
+import { searchAndFilterServices } from "../api/services.api";
+import { COLORS } from "../constants/theme";
+import { useDebounce } from "../hooks/useDebounce";
+import { ServiceWithDetails } from "../types/database.types";
+import { FilterOptions } from "../types/filter.types";
+import { formatDistance, formatStartingPrice } from "../utils/format";
+import {
+  MapRegion,
+  canZoomIntoCluster,
+  clusterPoints,
+  regionForPoints,
+  regionToBounds,
+} from "../utils/mapClustering";
+
+// Upper bound on pins fetched per viewport
+const MAP_PIN_LIMIT = 200;
+
+// Metro Manila — used when the user's position is unknown
+const DEFAULT_REGION: MapRegion = {
+  latitude: 14.5995,
+  longitude: 120.9842,
+  latitudeDelta: 0.3,
+  longitudeDelta: 0.3,
+};
+
+type MappedService = ServiceWithDetails & {
+  id: string;
+  latitude: number;
+  longitude: number;
+};
+
+type ServicesMapViewProps = {
+  searchQuery: string;
+  filters: FilterOptions;
+};
+
+/**
+ * Map alternative to the services grid.
+ * Shows clustered pins for the current search/filter result inside the
+ * visible region and re-queries whenever the region settles.
+ */
+export default function ServicesMapView({
+  searchQuery,
+  filters,
+}: ServicesMapViewProps) {
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<MapRegion>(() =>
+    filters.origin
+      ? {
+          ...DEFAULT_REGION,
+          ...filters.origin,
+          latitudeDelta: 0.1,
+          longitudeDelta: 0.1,
+        }
+      : DEFAULT_REGION,
+  );
+  const [services, setServices] = useState<MappedService[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Members of a cluster that zooming can't split, listed instead
+  const [listedItems, setListedItems] = useState<MappedService[] | null>(null);
+
+  // Bumped per query so a slow response for an old region is discarded
+  const requestIdRef = useRef(0);
+  const debouncedRegion = useDebounce(region, 400);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+
+    searchAndFilterServices({
+      searchQuery,
+      categoryId: filters.categoryId,
+      minPrice: filters.priceRange.min,
+      maxPrice: filters.priceRange.max,
+      minRating: filters.minRating,
+      location: filters.location,
+      origin: filters.origin,
+      maxDistanceKm: filters.maxDistanceKm,
+      sortBy: filters.sortBy,
+      bounds: regionToBounds(debouncedRegion),
+      limit: MAP_PIN_LIMIT,
+    })
+      .then((page) => {
+        if (requestId !== requestIdRef.current) return;
+        setServices(
+          page.services.filter(
+            (s): s is MappedService =>
+              s.latitude !== null && s.longitude !== null,
+          ),
+        );
+      })
+      .catch(() => {
+        // Keep the previous pins; the next region change retries
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false);
+      });
+  }, [
+    debouncedRegion,
+    searchQuery,
+    filters.categoryId,
+    filters.priceRange.min,
+    filters.priceRange.max,
+    filters.minRating,
+    filters.location,
+    filters.origin,
+    filters.maxDistanceKm,
+    filters.sortBy,
+  ]);
+
+  const clusters = useMemo(
+    () => clusterPoints(services, region),
+    [services, region],
+  );
+
+  const selected = services.find((s) => s.id === selectedId) ?? null;
+
+  const handleClusterPress = (items: MappedService[]) => {
+    if (items.length === 1) {
+      setListedItems(null);
+      setSelectedId(items[0].id);
+      return;
+    }
+    setSelectedId(null);
+    if (!canZoomIntoCluster(items, region)) {
+      setListedItems(items);
+      return;
+    }
+    setListedItems(null);
+    mapRef.current?.animateToRegion(regionForPoints(items), 300);
+  };
+
+  return (
+    <View className="flex-1">
+      <MapView
+        ref={mapRef}
+        style={{ flex: 1 }}
+        initialRegion={region}
+        showsUserLocation={!!filters.origin}
+        onRegionChangeComplete={setRegion}
+        onPress={() => {
+          setSelectedId(null);
+          setListedItems(null);
+        }}
+      >
+        {clusters.map((cluster) => (
+          <Marker
+            key={cluster.id}
+            coordinate={{
+              latitude: cluster.latitude,
+              longitude: cluster.longitude,
+            }}
+            onPress={(e) => {
+              e.stopPropagation();
+              handleClusterPress(cluster.items);
+            }}
+          >
+            {cluster.items.length > 1 ? (
+              <View className="bg-[#1877F2] rounded-full w-10 h-10 items-center justify-center border-2 border-white">
+                <Text className="text-white font-bold text-sm">
+                  {cluster.items.length}
+                </Text>
+              </View>
+            ) : (
+              <View
+                className={`px-2 py-1 rounded-full border-2 border-white ${
+                  cluster.id === selectedId ? "bg-slate-900" : "bg-[#1877F2]"
+                }`}
+              >
+                <Text className="text-white font-bold text-[11px]">
+                  {cluster.items[0].price !== null
+                    ? formatStartingPrice(
+                        cluster.items[0].price,
+                        cluster.items[0].packages,
+                      )
+                    : "Contact"}
+                </Text>
+              </View>
+            )}
+          </Marker>
+        ))}
+      </MapView>
+
+      {loading && (
+        <View className="absolute top-3 self-center bg-white px-3 py-1.5 rounded-full flex-row items-center border border-[#E9ECEF]">
+          <ActivityIndicator size="small" color={COLORS.primary} />
+          <Text className="ml-2 text-xs text-slate-600">Searching area…</Text>
+        </View>
+      )}
+
+      {!loading && services.length === 0 && (
+        <View className="absolute top-3 self-center bg-white px-3 py-1.5 rounded-full border border-[#E9ECEF]">
+          <Text className="text-xs text-slate-600">
+            No services in this area
+          </Text>
+        </View>
+      )}
+
+      {selected && <MapServiceCard service={selected} />}
+
+      {listedItems && (
+        <MapClusterList
+          services={listedItems}
+          onClose={() => setListedItems(null)}
+        />
+      )}
+    </View>
+  );
+}
+
+// ── List of a cluster's services ──────────────────────────────────────────────
+
+const MapClusterList = ({
+  services,
+  onClose,
+}: {
+  services: ServiceWithDetails[];
+  onClose: () => void;
+}) => (
+  <View className="absolute bottom-4 left-4 right-4 bg-white rounded-3xl border border-[#E9ECEF] pt-3 max-h-[320px]">
+    <View className="flex-row items-center justify-between px-4 mb-2">
+      <Text className="text-[13px] font-bold text-[#212529]">
+        {services.length} services here
+      </Text>
+      <TouchableOpacity
+        onPress={onClose}
+        className="p-1.5 bg-slate-100 rounded-full"
+      >
+        <AntDesign name="close" size={14} color={COLORS.slate500} />
+      </TouchableOpacity>
+    </View>
+    <ScrollView showsVerticalScrollIndicator={false}>
+      {services.map((service) => (
+        <TouchableOpacity
+          key={service.id}
+          onPress={() => router.push(`/service/${service.id}`)}
+          className="flex-row items-center px-4 py-2 border-t border-[#F1F3F5]"
+        >
+          {service.image_url ? (
+            <Image
+              source={{ uri: service.image_url }}
+              className="w-12 h-12 rounded-xl bg-slate-100"
+            />
+          ) : (
+            <View className="w-12 h-12 rounded-xl bg-slate-100 items-center justify-center">
+              <AntDesign name="picture" size={18} color={COLORS.slate300} />
+            </View>
+          )}
+          <View className="flex-1 ml-3">
+            <Text
+              className="text-[13px] font-bold text-[#212529]"
+              numberOfLines={1}
+            >
+              {service.title}
+            </Text>
+            <Text className="text-[11px] text-[#868E96]" numberOfLines={1}>
+              {service.category?.name ?? "Uncategorized"}
+            </Text>
+          </View>
+          <Text className="text-[13px] font-black text-[#212529] ml-2">
+            {formatStartingPrice(service.price, service.packages)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  </View>
+);
+
+// ── Compact card for the selected pin ─────────────────────────────────────────
+
+const MapServiceCard = ({ service }: { service: ServiceWithDetails }) => (
+  <TouchableOpacity
+    onPress={() => router.push(`/service/${service.id}`)}
+    activeOpacity={0.85}
+    className="absolute bottom-4 left-4 right-4 bg-white rounded-3xl overflow-hidden border border-[#E9ECEF] flex-row"
+  >
+    {service.image_url ? (
+      <Image
+        source={{ uri: service.image_url }}
+        style={{ width: 96, height: 96 }}
+      />
+    ) : (
+      <View
+        style={{ width: 96, height: 96 }}
+        className="bg-slate-100 items-center justify-center"
+      >
+        <AntDesign name="picture" size={28} color={COLORS.slate300} />
+      </View>
+    )}
+    <View className="flex-1 p-3 justify-between">
+      <View>
+        <Text className="text-[#868E96] text-[11px]" numberOfLines={1}>
+          {service.category?.name ?? "Uncategorized"}
+        </Text>
+        <Text
+          className="text-[13px] font-bold text-[#212529]"
+          numberOfLines={2}
+        >
+          {service.title}
+        </Text>
+      </View>
+      <View className="flex-row items-center justify-between">
+        <Text className="text-[14px] font-black text-[#212529]">
+          {formatStartingPrice(service.price, service.packages)}
+        </Text>
+        <View className="flex-row items-center">
+          <AntDesign name="star" size={10} color="#FCC419" />
+          <Text className="text-[11px] font-bold text-slate-700 ml-1">
+            {service.rating.toFixed(1)}
+          </Text>
+          {service.distance_km != null && (
+            <Text className="text-[11px] text-slate-400 ml-2">
+              {formatDistance(service.distance_km)}
+            </Text>
+          )}
+        </View>
+      </View>
+    </View>
+  </TouchableOpacity>
+);
@@ -0,0 +1,179 @@
+// lib/components/SlotPicker.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { fetchAvailableSlots } from "../api/availability.api";
+import { COLORS } from "../constants/theme";
+import { AvailableSlot } from "../types/database.types";
+import {
+  addDaysToKey,
+  formatDateKey,
+  getDeviceTimeZone,
+  groupSlotsByDay,
+  toLocalDateKey,
+} from "../utils/availability";
+
+type SlotPickerProps = {
+  serviceId: string;
+  timeZone: string; // Provider's timezone; days and times are shown in it
+  value: string | null; // ISO slot start
+  onChange: (value: string | null) => void;
+  days?: number; // How many days ahead to offer, starting today
+  reloadKey?: number; // Bump to refetch, e.g. after a slot was taken
+};
+
+/**
+ * Day + time picker that only offers the provider's free slots for a
+ * service, as returned by get_available_slots.
+ */
+export default function SlotPicker({
+  serviceId,
+  timeZone,
+  value,
+  onChange,
+  days = 14,
+  reloadKey = 0,
+}: SlotPickerProps) {
+  const [slots, setSlots] = useState<AvailableSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const today = toLocalDateKey(new Date(), timeZone);
+    setLoading(true);
+    fetchAvailableSlots(serviceId, today, addDaysToKey(today, days - 1))
+      .then((data) => {
+        if (cancelled) return;
+        setSlots(data);
+        // Keep the open day if it still has free slots
+        const freeDays = groupSlotsByDay(data, timeZone).map((g) => g.day);
+        setSelectedDay((current) =>
+          current && freeDays.includes(current)
+            ? current
+            : (freeDays[0] ?? null),
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setSlots([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [serviceId, timeZone, days, reloadKey]);
+
+  const groups = useMemo(
+    () => groupSlotsByDay(slots, timeZone),
+    [slots, timeZone],
+  );
+
+  // Drop a selection that is no longer free after a reload
+  useEffect(() => {
+    if (!loading && value && !slots.some((s) => s.slot_start === value)) {
+      onChange(null);
+    }
+  }, [loading, slots, value, onChange]);
+
+  if (loading) {
+    return (
+      <View className="py-6 items-center">
+        <ActivityIndicator size="small" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <View className="bg-slate-50 rounded-xl px-4 py-3">
+        <Text className="text-xs text-slate-500">
+          No free slots in the next {days} days. Send a request without a time
+          and the provider will suggest one.
+        </Text>
+      </View>
+    );
+  }
+
+  const daySlots = groups.find((g) => g.day === selectedDay)?.slots ?? [];
+
+  return (
+    <View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        className="-mx-1 mb-2"
+      >
+        {groups.map(({ day, slots: free }) => {
+          const active = day === selectedDay;
+          return (
+            <TouchableOpacity
+              key={day}
+              onPress={() => setSelectedDay(day)}
+              className={`mx-1 px-3 py-2 rounded-xl border items-center ${
+                active
+                  ? "bg-[#1877F2] border-[#1877F2]"
+                  : "bg-white border-slate-300"
+              }`}
+            >
+              <Text
+                className={`text-[11px] ${active ? "text-white" : "text-slate-500"}`}
+              >
+                {formatDateKey(day, { weekday: "short" })}
+              </Text>
+              <Text
+                className={`text-sm font-bold ${active ? "text-white" : "text-slate-900"}`}
+              >
+                {formatDateKey(day, { day: "numeric" })}
+              </Text>
+              <Text
+                className={`text-[10px] ${active ? "text-blue-100" : "text-slate-400"}`}
+              >
+                {free.length} free
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <View className="flex-row flex-wrap">
+        {daySlots.map((slot) => {
+          const active = slot.slot_start === value;
+          return (
+            <TouchableOpacity
+              key={slot.slot_start}
+              onPress={() => onChange(active ? null : slot.slot_start)}
+              className={`px-3 py-1.5 rounded-full mr-2 mb-2 border ${
+                active
+                  ? "bg-[#1877F2] border-[#1877F2]"
+                  : "bg-white border-slate-300"
+              }`}
+            >
+              <Text
+                className={`text-xs font-medium ${active ? "text-white" : "text-slate-700"}`}
+              >
+                {new Date(slot.slot_start).toLocaleTimeString("en-PH", {
+                  hour: "numeric",
+                  minute: "2-digit",
+                  timeZone,
+                })}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {timeZone !== getDeviceTimeZone() && (
+        <Text className="text-[11px] text-slate-400">
+          Times are in the provider&apos;s timezone ({timeZone})
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -1,19 +1,43 @@
 // lib/components/service-tabs/OverviewTab.tsx
 import { AntDesign, Ionicons, MaterialIcons } from "@expo/vector-icons";
 import React from "react";
-import { ScrollView, Text, View } from "react-native";
-import { ServiceWithDetails } from "../../types/database.types";
+import { ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { COLORS } from "../../constants/theme";
+import {
+  ServicePackage,
+  ServiceWithDetails,
+  WorkingHours,
+} from "../../types/database.types";
+import {
+  DEFAULT_TIMEZONE,
+  WEEKDAY_LABELS,
+  formatDuration,
+  formatTimeOfDay,
+} from "../../utils/availability";
+import { formatPackagePrice, formatStartingPrice } from "../../utils/format";
 import { ProfileAvatar } from "../ui/ProfileAvatar";
 
+const LABEL_COLUMN_WIDTH = 132;
+const PACKAGE_COLUMN_WIDTH = 112;
+
 type OverviewTabProps = {
   service: ServiceWithDetails;
+  workingHours?: WorkingHours[];
+  onManageAvailability?: () => void; // Only passed for the owner
+  onMessageProvider?: () => void; // Not about this service; not for the owner
 };
 
-export default function OverviewTab({ service }: OverviewTabProps) {
+export default function OverviewTab({
+  service,
+  workingHours = [],
+  onManageAvailability,
+  onMessageProvider,
+}: OverviewTabProps) {
   const authorName = service.profile?.first_name
     ? `${service.profile.first_name} ${service.profile.last_name || ""}`.trim()
     : "Unknown";
   const categoryName = service.category?.name;
+  const packages = service.packages ?? [];
 
   return (
     <ScrollView
@@ -47,7 +71,11 @@ export default function OverviewTab({ service }: OverviewTabProps) {
           <Text className="text-xs font-semibold text-slate-400 uppercase tracking-widest">
             Price
           </Text>
-          {service.price !== null ? (
+          {packages.length > 0 ? (
+            <Text className="text-2xl font-black text-slate-900">
+              {formatStartingPrice(service.price, packages)}
+            </Text>
+          ) : service.price !== null ? (
             <Text className="text-2xl font-black text-slate-900">
               ₱{service.price.toLocaleString()}
             </Text>
@@ -65,6 +93,9 @@ export default function OverviewTab({ service }: OverviewTabProps) {
           )}
         </View>
 
+        {/* ── Packages ── */}
+        {packages.length > 0 && <PackageComparison packages={packages} />}
+
         {/* ── Description ── */}
         <View className="bg-white border border-slate-100 rounded-2xl px-4 pt-3 pb-4 mb-4">
           <Text className="text-xs font-semibold text-slate-400 uppercase tracking-widest mb-2">
@@ -79,12 +110,24 @@ export default function OverviewTab({ service }: OverviewTabProps) {
         {service.location ? (
           <View className="bg-white border border-slate-100 rounded-2xl px-4 py-3 mb-4 flex-row items-center">
             <Ionicons name="location-outline" size={16} color="#1877F2" />
-            <Text className="ml-2 text-sm text-slate-700 flex-1">
-              {service.location}
-            </Text>
+            <View className="ml-2 flex-1">
+              <Text className="text-sm text-slate-700">{service.location}</Text>
+              {service.service_radius_km != null && (
+                <Text className="text-xs text-slate-400 mt-0.5">
+                  Serves clients within {service.service_radius_km} km
+                </Text>
+              )}
+            </View>
           </View>
         ) : null}
 
+        {/* ── Availability ── */}
+        <AvailabilityCard
+          service={service}
+          workingHours={workingHours}
+          onManage={onManageAvailability}
+        />
+
         {/* ── Tags ── */}
         {service.tags && service.tags.length > 0 && (
           <View className="mb-4">
@@ -130,9 +173,160 @@ export default function OverviewTab({ service }: OverviewTabProps) {
                 </Text>
               )}
             </View>
+            {onMessageProvider && (
+              <TouchableOpacity
+                onPress={onMessageProvider}
+                className="flex-row items-center bg-slate-100 px-3 py-2 rounded-full"
+              >
+                <Ionicons
+                  name="chatbubble-outline"
+                  size={14}
+                  color={COLORS.slate700}
+                />
+                <Text className="ml-1.5 text-xs font-semibold text-slate-700">
+                  Message
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </View>
     </ScrollView>
   );
 }
+
+// ── Package comparison table ──────────────────────────────────────────────────
+
+const PackageComparison = ({ packages }: { packages: ServicePackage[] }) => {
+  // Union of every package's deliverables, in first-seen order
+  const deliverables = Array.from(
+    new Set(packages.flatMap((pkg) => pkg.deliverables)),
+  );
+
+  return (
+    <View className="bg-white border border-slate-100 rounded-2xl pt-3 pb-1 mb-4">
+      <Text className="text-xs font-semibold text-slate-400 uppercase tracking-widest mb-2 px-4">
+        Packages
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View className="px-4">
+          {/* Header: package names + prices */}
+          <View className="flex-row border-b border-slate-100 pb-2">
+            <View style={{ width: LABEL_COLUMN_WIDTH }} />
+            {packages.map((pkg) => (
+              <View
+                key={pkg.id}
+                style={{ width: PACKAGE_COLUMN_WIDTH }}
+                className="px-1 items-center"
+              >
+                <Text
+                  className="text-sm font-bold text-slate-900 text-center"
+                  numberOfLines={2}
+                >
+                  {pkg.name}
+                </Text>
+                <Text className="text-xs font-semibold text-[#1877F2] text-center mt-0.5">
+                  {formatPackagePrice(pkg.price, pkg.unit)}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {/* One row per deliverable */}
+          {deliverables.map((item) => (
+            <View
+              key={item}
+              className="flex-row items-center border-b border-slate-50 py-2"
+            >
+              <Text
+                style={{ width: LABEL_COLUMN_WIDTH }}
+                className="text-xs text-slate-700 pr-2"
+              >
+                {item}
+              </Text>
+              {packages.map((pkg) => (
+                <View
+                  key={pkg.id}
+                  style={{ width: PACKAGE_COLUMN_WIDTH }}
+                  className="items-center"
+                >
+                  {pkg.deliverables.includes(item) ? (
+                    <AntDesign name="check" size={14} color="#10b981" />
+                  ) : (
+                    <Text className="text-slate-300">—</Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+// ── Weekly availability ───────────────────────────────────────────────────────
+
+const AvailabilityCard = ({
+  service,
+  workingHours,
+  onManage,
+}: {
+  service: ServiceWithDetails;
+  workingHours: WorkingHours[];
+  onManage?: () => void;
+}) => {
+  const timeZone = service.profile?.timezone ?? DEFAULT_TIMEZONE;
+
+  return (
+    <View className="bg-white border border-slate-100 rounded-2xl px-4 py-3 mb-4">
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-xs font-semibold text-slate-400 uppercase tracking-widest">
+          Availability
+        </Text>
+        <Text className="text-xs text-slate-500">
+          {formatDuration(service.slot_duration_minutes)} slots
+        </Text>
+      </View>
+
+      {workingHours.length > 0 ? (
+        <>
+          {WEEKDAY_LABELS.map((label, weekday) => {
+            const hours = workingHours.find((h) => h.weekday === weekday);
+            return (
+              <View key={label} className="flex-row justify-between py-0.5">
+                <Text className="text-sm text-slate-700">{label}</Text>
+                <Text
+                  className={`text-sm ${hours ? "text-slate-900" : "text-slate-400"}`}
+                >
+                  {hours
+                    ? `${formatTimeOfDay(hours.start_time)} – ${formatTimeOfDay(hours.end_time)}`
+                    : "Closed"}
+                </Text>
+              </View>
+            );
+          })}
+          <Text className="text-[11px] text-slate-400 mt-1">
+            Times in {timeZone}
+          </Text>
+        </>
+      ) : (
+        <Text className="text-sm text-slate-500">
+          No set hours — request a time and the provider will confirm it.
+        </Text>
+      )}
+
+      {onManage && (
+        <TouchableOpacity
+          onPress={onManage}
+          className="flex-row items-center justify-center mt-3 py-2 rounded-xl bg-blue-50"
+        >
+          <Ionicons name="time-outline" size={16} color={COLORS.primary} />
+          <Text className="ml-1.5 text-sm font-semibold text-[#1877F2]">
+            Manage availability
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
@@ -57,6 +57,7 @@ export default function ReviewsTab({
   const [filters, setFilters] = useState<ReviewFilterOptions>({
     rating: null,
     hasReply: null,
+    verifiedOnly: false,
     sortBy: "newest",
   });
 
@@ -106,13 +107,13 @@ export default function ReviewsTab({
       return;
     }
 
-    const eligible = await canUserReviewService(service.id);
+    const [eligible, existing] = await Promise.all([
+      canUserReviewService(service.id),
+      getUserReviewForService(service.id),
+    ]);
     setCanReview(eligible);
-
-    if (eligible) {
-      const existing = await getUserReviewForService(service.id);
-      setUserReview(existing);
-    }
+    // Reviews from before verification stay editable by their author
+    setUserReview(existing);
   }, [currentUserId, isOwnService, service.id]);
 
   // Load only once on first mount (cache behavior)
@@ -223,6 +224,7 @@ export default function ReviewsTab({
     if (filters.hasReply !== null) {
       parts.push(filters.hasReply ? "With Reply" : "No Reply");
     }
+    if (filters.verifiedOnly) parts.push("Verified");
     const sortLabels: Record<string, string> = {
       newest: "Most Recent",
       oldest: "Oldest",
@@ -239,6 +241,7 @@ export default function ReviewsTab({
   const hasActiveFilters =
     filters.rating !== null ||
     filters.hasReply !== null ||
+    !!filters.verifiedOnly ||
     filters.sortBy !== "newest";
 
   const renderHeader = () => (
@@ -290,6 +293,17 @@ export default function ReviewsTab({
         </View>
       )}
 
+      {/* Not eligible yet */}
+      {!canReview && !userReview && currentUserId && !isOwnService && (
+        <View className="px-4 py-3 bg-white border-b border-slate-200 flex-row items-center">
+          <AntDesign name="info-circle" size={14} color="#94a3b8" />
+          <Text className="ml-2 flex-1 text-xs text-slate-500">
+            You can review this service after a completed booking, or once the
+            provider marks your job as done in chat.
+          </Text>
+        </View>
+      )}
+
       {/* Your Review Card */}
       {userReview && (
         <View style={styles.yourReviewCard}>
@@ -0,0 +1,134 @@
+import { useMemo } from "react";
+import { ScrollView, Text, TouchableOpacity, View } from "react-native";
+
+interface DateTimeChipsProps {
+  value: string | null; // ISO timestamp
+  onChange: (value: string | null) => void;
+  days?: number; // How many days ahead to offer, starting today
+  startHour?: number;
+  endHour?: number; // Last bookable start hour
+}
+
+const sameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Day + hour picker built from chips, for choosing an appointment start.
+ * Used by the booking request form and when a provider schedules a booking.
+ */
+export function DateTimeChips({
+  value,
+  onChange,
+  days = 14,
+  startHour = 8,
+  endHour = 19,
+}: DateTimeChipsProps) {
+  const selected = value ? new Date(value) : null;
+
+  const dayOptions = useMemo(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return Array.from({ length: days }, (_, i) => {
+      const d = new Date(today);
+      d.setDate(today.getDate() + i);
+      return d;
+    });
+  }, [days]);
+
+  const hourOptions = Array.from(
+    { length: endHour - startHour + 1 },
+    (_, i) => startHour + i,
+  );
+
+  const now = new Date();
+  const slotAt = (day: Date, hour: number) => {
+    const d = new Date(day);
+    d.setHours(hour, 0, 0, 0);
+    return d;
+  };
+
+  const select = (day: Date, hour: number) => {
+    onChange(slotAt(day, hour).toISOString());
+  };
+
+  // Keep the chosen hour when switching days, unless it has already passed
+  const selectDay = (day: Date) => {
+    const preferred = selected?.getHours() ?? startHour;
+    const hour = [preferred, ...hourOptions].find((h) => slotAt(day, h) > now);
+    if (hour !== undefined) select(day, hour);
+  };
+
+  const selectedDay =
+    dayOptions.find((d) => selected && sameDay(d, selected)) ?? null;
+
+  return (
+    <View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        className="-mx-1 mb-2"
+      >
+        {dayOptions.map((day) => {
+          const active = selectedDay !== null && sameDay(day, selectedDay);
+          const closed = slotAt(day, endHour) <= now;
+          return (
+            <TouchableOpacity
+              key={day.toISOString()}
+              disabled={closed}
+              onPress={() => (active ? onChange(null) : selectDay(day))}
+              className={`mx-1 px-3 py-2 rounded-xl border items-center ${
+                active
+                  ? "bg-[#1877F2] border-[#1877F2]"
+                  : "bg-white border-slate-300"
+              } ${closed ? "opacity-40" : ""}`}
+            >
+              <Text
+                className={`text-[11px] ${active ? "text-white" : "text-slate-500"}`}
+              >
+                {day.toLocaleDateString("en-PH", { weekday: "short" })}
+              </Text>
+              <Text
+                className={`text-sm font-bold ${active ? "text-white" : "text-slate-900"}`}
+              >
+                {day.getDate()}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {selectedDay && (
+        <View className="flex-row flex-wrap">
+          {hourOptions.map((hour) => {
+            const slot = slotAt(selectedDay, hour);
+            const past = slot <= now;
+            const active = selected?.getHours() === hour;
+            return (
+              <TouchableOpacity
+                key={hour}
+                disabled={past}
+                onPress={() => select(selectedDay, hour)}
+                className={`px-3 py-1.5 rounded-full mr-2 mb-2 border ${
+                  active
+                    ? "bg-[#1877F2] border-[#1877F2]"
+                    : "bg-white border-slate-300"
+                } ${past ? "opacity-40" : ""}`}
+              >
+                <Text
+                  className={`text-xs font-medium ${active ? "text-white" : "text-slate-700"}`}
+                >
+                  {slot.toLocaleTimeString("en-PH", {
+                    hour: "numeric",
+                    minute: "2-digit",
+                  })}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,48 @@
+import { Text, TouchableOpacity, View } from "react-native";
+import {
+  SLOT_DURATION_OPTIONS,
+  formatDuration,
+} from "../../utils/availability";
+
+interface DurationChipsProps {
+  value: number; // Minutes
+  onChange: (minutes: number) => void;
+}
+
+/**
+ * Chip row for choosing a service's booking slot length.
+ * Shared by CreateService and EditServiceModal.
+ */
+export function DurationChips({ value, onChange }: DurationChipsProps) {
+  // Keep a non-standard saved duration selectable
+  const options = SLOT_DURATION_OPTIONS.includes(value)
+    ? SLOT_DURATION_OPTIONS
+    : [...SLOT_DURATION_OPTIONS, value].sort((a, b) => a - b);
+
+  return (
+    <View className="flex-row flex-wrap">
+      {options.map((minutes) => {
+        const selected = minutes === value;
+        return (
+          <TouchableOpacity
+            key={minutes}
+            onPress={() => onChange(minutes)}
+            className={`px-3 py-1.5 rounded-full mr-2 mb-2 border ${
+              selected
+                ? "bg-[#1877F2] border-[#1877F2]"
+                : "bg-white border-slate-300"
+            }`}
+          >
+            <Text
+              className={`text-xs font-medium ${
+                selected ? "text-white" : "text-slate-600"
+              }`}
+            >
+              {formatDuration(minutes)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
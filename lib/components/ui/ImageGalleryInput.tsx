@@ -0,0 +1,131 @@
+import { AntDesign } from "@expo/vector-icons";
+import { Image, ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { FormImage } from "../../hooks/useServiceForm";
+import { COLORS } from "../../constants/theme";
+
+interface ImageGalleryInputProps {
+  images: FormImage[];
+  uploadProgress: Record<string, number>;
+  maxImages: number;
+  onAdd: () => void;
+  onRemove: (uri: string) => void;
+  onMove: (uri: string, direction: -1 | 1) => void;
+  onSetCover: (uri: string) => void;
+}
+
+const TILE_SIZE = 112;
+
+/**
+ * Ordered image gallery editor for service listings.
+ * The first image is the cover; each tile can be moved left/right,
+ * promoted to cover or removed. Shared by CreateService and EditServiceModal.
+ */
+export function ImageGalleryInput({
+  images,
+  uploadProgress,
+  maxImages,
+  onAdd,
+  onRemove,
+  onMove,
+  onSetCover,
+}: ImageGalleryInputProps) {
+  return (
+    <View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        className="-mx-1"
+      >
+        {images.map((img, index) => {
+          const progress = uploadProgress[img.uri];
+          return (
+            <View
+              key={img.uri}
+              className="mx-1 rounded-2xl overflow-hidden bg-slate-100"
+              style={{ width: TILE_SIZE, height: TILE_SIZE }}
+            >
+              <Image
+                source={{ uri: img.uri }}
+                className="w-full h-full"
+                resizeMode="cover"
+              />
+
+              {index === 0 ? (
+                <View className="absolute top-1.5 left-1.5 bg-[#1877F2] px-2 py-0.5 rounded-full">
+                  <Text className="text-white text-[10px] font-bold">
+                    Cover
+                  </Text>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  onPress={() => onSetCover(img.uri)}
+                  className="absolute top-1.5 left-1.5 bg-black/50 px-2 py-0.5 rounded-full"
+                >
+                  <Text className="text-white text-[10px] font-bold">
+                    Set cover
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                onPress={() => onRemove(img.uri)}
+                className="absolute top-1.5 right-1.5 bg-black/50 rounded-full p-1"
+              >
+                <AntDesign name="close" size={12} color="white" />
+              </TouchableOpacity>
+
+              <View className="absolute bottom-1.5 left-1.5 right-1.5 flex-row justify-between">
+                <TouchableOpacity
+                  onPress={() => onMove(img.uri, -1)}
+                  disabled={index === 0}
+                  className={`bg-black/50 rounded-full p-1 ${
+                    index === 0 ? "opacity-0" : ""
+                  }`}
+                >
+                  <AntDesign name="left" size={12} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => onMove(img.uri, 1)}
+                  disabled={index === images.length - 1}
+                  className={`bg-black/50 rounded-full p-1 ${
+                    index === images.length - 1 ? "opacity-0" : ""
+                  }`}
+                >
+                  <AntDesign name="right" size={12} color="white" />
+                </TouchableOpacity>
+              </View>
+
+              {progress !== undefined && (
+                <View className="absolute inset-0 bg-black/40 justify-end">
+                  <Text className="text-white text-xs font-bold text-center mb-8">
+                    {Math.round(progress * 100)}%
+                  </Text>
+                  <View className="h-1 bg-white/30">
+                    <View
+                      className="h-1 bg-white"
+                      style={{ width: `${progress * 100}%` }}
+                    />
+                  </View>
+                </View>
+              )}
+            </View>
+          );
+        })}
+
+        {images.length < maxImages && (
+          <TouchableOpacity
+            onPress={onAdd}
+            className="mx-1 border-2 border-dashed border-slate-300 rounded-2xl items-center justify-center"
+            style={{ width: TILE_SIZE, height: TILE_SIZE }}
+          >
+            <AntDesign name="camera" size={28} color={COLORS.slate400} />
+            <Text className="mt-1 text-xs text-slate-500">Add photos</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+      <Text className="text-xs text-slate-500 mt-1">
+        {images.length}/{maxImages} · The first photo is your cover
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,62 @@
+import { AntDesign } from "@expo/vector-icons";
+import {
+  ActivityIndicator,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Coordinates } from "../../types/filter.types";
+
+interface LocationInputProps {
+  location: string;
+  coordinates: Coordinates | null;
+  locating: boolean;
+  onChangeLocation: (value: string) => void;
+  onUseCurrentLocation: () => void;
+  placeholder?: string;
+}
+
+/**
+ * Address input with a "use my location" button.
+ * Shared by CreateService and EditServiceModal; shows whether the
+ * address has been pinned to coordinates for distance search.
+ */
+export function LocationInput({
+  location,
+  coordinates,
+  locating,
+  onChangeLocation,
+  onUseCurrentLocation,
+  placeholder,
+}: LocationInputProps) {
+  return (
+    <View>
+      <View className="flex-row items-center">
+        <TextInput
+          value={location}
+          onChangeText={onChangeLocation}
+          placeholder={placeholder}
+          className="flex-1 border border-slate-300 rounded-xl px-4 py-3 text-slate-900"
+          placeholderTextColor="#94a3b8"
+        />
+        <TouchableOpacity
+          onPress={onUseCurrentLocation}
+          disabled={locating}
+          className="ml-2 bg-slate-100 rounded-xl px-3 py-3"
+        >
+          {locating ? (
+            <ActivityIndicator size="small" color="#1877F2" />
+          ) : (
+            <AntDesign name="aim" size={20} color="#1877F2" />
+          )}
+        </TouchableOpacity>
+      </View>
+      <Text className="text-xs text-slate-500 mt-1">
+        {coordinates
+          ? "📍 Pinned — buyers nearby can find you by distance"
+          : "Tap the target to use your current location"}
+      </Text>
+    </View>
+  );
+}
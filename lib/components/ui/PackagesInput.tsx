@@ -0,0 +1,116 @@
+import { AntDesign } from "@expo/vector-icons";
+import { Text, TextInput, TouchableOpacity, View } from "react-native";
+import { FormPackage } from "../../hooks/useServiceForm";
+import { PriceUnit } from "../../types/database.types";
+
+const PRICE_UNITS: { value: PriceUnit; label: string }[] = [
+  { value: "fixed", label: "Fixed" },
+  { value: "hour", label: "Per hour" },
+  { value: "session", label: "Per session" },
+  { value: "sqm", label: "Per sqm" },
+];
+
+interface PackagesInputProps {
+  packages: FormPackage[];
+  maxPackages: number;
+  onAdd: () => void;
+  onUpdate: (key: string, patch: Partial<Omit<FormPackage, "key">>) => void;
+  onRemove: (key: string) => void;
+}
+
+/**
+ * Editor for a service's pricing packages (name, price, unit, deliverables).
+ * Shared by CreateService and EditServiceModal.
+ */
+export function PackagesInput({
+  packages,
+  maxPackages,
+  onAdd,
+  onUpdate,
+  onRemove,
+}: PackagesInputProps) {
+  return (
+    <View>
+      {packages.map((pkg) => (
+        <View
+          key={pkg.key}
+          className="border border-slate-200 rounded-2xl p-3 mb-3 bg-slate-50"
+        >
+          <View className="flex-row items-center mb-2">
+            <TextInput
+              value={pkg.name}
+              onChangeText={(name) => onUpdate(pkg.key, { name })}
+              placeholder="Package name"
+              maxLength={60}
+              className="flex-1 border border-slate-300 rounded-xl px-3 py-2 text-slate-900 bg-white font-semibold"
+              placeholderTextColor="#94a3b8"
+            />
+            <TouchableOpacity
+              onPress={() => onRemove(pkg.key)}
+              className="ml-2 p-2"
+            >
+              <AntDesign name="delete" size={18} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+
+          <TextInput
+            value={pkg.price}
+            onChangeText={(price) => onUpdate(pkg.key, { price })}
+            placeholder="Price (₱)"
+            keyboardType="decimal-pad"
+            className="border border-slate-300 rounded-xl px-3 py-2 text-slate-900 bg-white mb-2"
+            placeholderTextColor="#94a3b8"
+          />
+
+          <View className="flex-row flex-wrap mb-2">
+            {PRICE_UNITS.map((unit) => {
+              const selected = pkg.unit === unit.value;
+              return (
+                <TouchableOpacity
+                  key={unit.value}
+                  onPress={() => onUpdate(pkg.key, { unit: unit.value })}
+                  className={`px-3 py-1.5 rounded-full mr-2 mb-1 border ${
+                    selected
+                      ? "bg-[#1877F2] border-[#1877F2]"
+                      : "bg-white border-slate-300"
+                  }`}
+                >
+                  <Text
+                    className={`text-xs font-medium ${
+                      selected ? "text-white" : "text-slate-600"
+                    }`}
+                  >
+                    {unit.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TextInput
+            value={pkg.deliverables}
+            onChangeText={(deliverables) => onUpdate(pkg.key, { deliverables })}
+            placeholder={"What's included (one per line)"}
+            multiline
+            textAlignVertical="top"
+            className="border border-slate-300 rounded-xl px-3 py-2 text-slate-900 bg-white"
+            placeholderTextColor="#94a3b8"
+            style={{ minHeight: 72 }}
+          />
+        </View>
+      ))}
+
+      {packages.length < maxPackages && (
+        <TouchableOpacity
+          onPress={onAdd}
+          className="border-2 border-dashed border-slate-300 rounded-2xl py-3 flex-row items-center justify-center"
+        >
+          <AntDesign name="plus" size={16} color="#1877F2" />
+          <Text className="ml-2 text-[#1877F2] font-semibold">
+            {packages.length === 0 ? "Offer packages" : "Add package"}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { AppState } from "react-native";
+import { flushOutbox } from "../api/outbox.api";
+import { supabase } from "../api/supabase";
+
+/**
+ * Sends messages left in the outbox by an earlier session, and resumes
+ * whenever the connection comes back (the realtime channel below rejoins)
+ * or the app returns to the foreground. Mount once, in the main app shell.
+ */
+export function useMessageOutbox(): void {
+  useEffect(() => {
+    flushOutbox();
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") flushOutbox();
+    });
+
+    // Only listened to for its status: it reports SUBSCRIBED again each
+    // time the socket reconnects and the channel rejoins
+    let joined = false;
+    const channel = supabase.channel("outbox").subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        // The first join happens with the flush on mount
+        if (joined) flushOutbox();
+        joined = true;
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      supabase.removeChannel(channel);
+    };
+  }, []);
+}
@@ -0,0 +1,71 @@
+import { useRef, useState } from "react";
+import { Alert } from "react-native";
+import { blockUser } from "../api/moderation.api";
+import { ReportTarget } from "../components/ReportSheet";
+
+/**
+ * Report and block actions for content by another user.
+ *
+ * - showOptions opens a Report / Block menu for a piece of content
+ * - confirmBlock asks before blocking, then calls onBlocked
+ * - reportTarget / closeReport drive a <ReportSheet /> rendered by the caller
+ */
+export function useModeration(onBlocked?: (userId: string) => void): {
+  reportTarget: ReportTarget | null;
+  report: (target: ReportTarget) => void;
+  closeReport: () => void;
+  confirmBlock: (userId: string, name: string) => void;
+  showOptions: (
+    target: ReportTarget,
+    author: { id: string; name: string },
+  ) => void;
+} {
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const onBlockedRef = useRef(onBlocked);
+  onBlockedRef.current = onBlocked;
+
+  const confirmBlock = (userId: string, name: string) => {
+    Alert.alert(
+      `Block ${name}?`,
+      "They won't be able to message you, comment on your services or react to your reviews, and you won't see their reviews, comments or conversations. They won't be told.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Block",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await blockUser(userId);
+              onBlockedRef.current?.(userId);
+            } catch (error: any) {
+              Alert.alert("Error", error.message || "Failed to block user");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const showOptions = (
+    target: ReportTarget,
+    author: { id: string; name: string },
+  ) => {
+    Alert.alert(author.name, undefined, [
+      { text: "Report", onPress: () => setReportTarget(target) },
+      {
+        text: "Block",
+        style: "destructive",
+        onPress: () => confirmBlock(author.id, author.name),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  return {
+    reportTarget,
+    report: setReportTarget,
+    closeReport: () => setReportTarget(null),
+    confirmBlock,
+    showOptions,
+  };
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { AppState } from "react-native";
+import {
+  joinOnlinePresence,
+  setPresenceVisible,
+  subscribeToOnlineUsers,
+  touchLastSeen,
+} from "../api/presence.api";
+import { supabase } from "../api/supabase";
+
+/**
+ * Keeps the current user in their presence channel while the app is
+ * in the foreground, and records their last seen when it goes to the
+ * background. Mount once, in the main app shell.
+ */
+export function usePresenceTracking(): void {
+  useEffect(() => {
+    let leave: (() => void) | null = null;
+    let userId: string | null = null;
+
+    const join = () => {
+      if (!userId || leave) return;
+      leave = joinOnlinePresence(userId);
+      touchLastSeen();
+    };
+
+    const goAway = () => {
+      if (!leave) return;
+      leave();
+      leave = null;
+      touchLastSeen();
+    };
+
+    async function init() {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      userId = user.id;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("show_last_seen")
+        .eq("id", user.id)
+        .single();
+      await setPresenceVisible(profile?.show_last_seen ?? true);
+
+      if (AppState.currentState === "active") join();
+    }
+
+    init();
+
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") join();
+      else goAway();
+    });
+
+    return () => {
+      subscription.remove();
+      goAway();
+    };
+  }, []);
+}
+
+/**
+ * Which of the given users are online (excluding those who hide it). Only
+ * the current user's conversation partners can be seen.
+ */
+export function useOnlineUsers(userIds: string[]): Set<string> {
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  // Stable across renders that pass the same users
+  const key = Array.from(new Set(userIds)).sort().join(",");
+
+  useEffect(() => {
+    if (!key) return;
+    return subscribeToOnlineUsers(key.split(","), setOnlineUserIds);
+  }, [key]);
+
+  return onlineUserIds;
+}
@@ -0,0 +1,78 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useRef, useState } from "react";
+import { Alert } from "react-native";
+import {
+  fetchSavedServiceIds,
+  saveService,
+  unsaveService,
+} from "../api/saved.api";
+
+/**
+ * Tracks which services the current user has saved, for heart buttons.
+ *
+ * - Loads the saved IDs on focus, so hearts stay in sync after saving or
+ *   unsaving on another screen
+ * - toggleSaved updates optimistically and reverts if the request fails
+ * - markSaved lets the collection sheet report its changes
+ */
+export function useSavedServices(): {
+  isSaved: (serviceId: string) => boolean;
+  toggleSaved: (serviceId: string) => Promise<void>;
+  markSaved: (serviceId: string, saved: boolean) => void;
+} {
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  // Services with a save/unsave in flight, to ignore double taps
+  const pendingRef = useRef(new Set<string>());
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      fetchSavedServiceIds()
+        .then((ids) => {
+          if (!cancelled) setSavedIds(ids);
+        })
+        .catch(() => {});
+      return () => {
+        cancelled = true;
+      };
+    }, []),
+  );
+
+  const markSaved = useCallback((serviceId: string, saved: boolean) => {
+    setSavedIds((prev) => {
+      const next = new Set(prev);
+      if (saved) next.add(serviceId);
+      else next.delete(serviceId);
+      return next;
+    });
+  }, []);
+
+  const isSaved = useCallback(
+    (serviceId: string) => savedIds.has(serviceId),
+    [savedIds],
+  );
+
+  const toggleSaved = useCallback(
+    async (serviceId: string) => {
+      if (pendingRef.current.has(serviceId)) return;
+      pendingRef.current.add(serviceId);
+      const wasSaved = savedIds.has(serviceId);
+      markSaved(serviceId, !wasSaved);
+      try {
+        if (wasSaved) await unsaveService(serviceId);
+        else await saveService(serviceId);
+      } catch (error: any) {
+        markSaved(serviceId, wasSaved);
+        Alert.alert(
+          "Error",
+          error.message || "Failed to update saved services",
+        );
+      } finally {
+        pendingRef.current.delete(serviceId);
+      }
+    },
+    [savedIds, markSaved],
+  );
+
+  return { isSaved, toggleSaved, markSaved };
+}
@@ -1,18 +1,72 @@
 import { useEffect, useState } from "react";
 import { Alert } from "react-native";
-import { fetchCategories } from "../api/services.api";
-import { Category, Service } from "../types/database.types";
-import { pickImage } from "../utils/imageUtils";
+import {
+  fetchCategories,
+  fetchServiceImages,
+  fetchServicePackages,
+} from "../api/services.api";
+import {
+  Category,
+  PriceUnit,
+  ServicePackage,
+  ServicePackageInput,
+  ServiceWithDetails,
+} from "../types/database.types";
+import { Coordinates } from "../types/filter.types";
+import { pickImages, uploadImage } from "../utils/imageUtils";
+import {
+  geocodeAddress,
+  getCurrentPosition,
+  reverseGeocode,
+} from "../utils/location";
+
+export const MAX_SERVICE_IMAGES = 8;
+
+// A gallery entry: an already-uploaded public URL, or a freshly picked
+// local file that uploadGallery() still has to upload.
+export type FormImage = {
+  uri: string;
+  uploaded: boolean;
+};
+
+export const MAX_SERVICE_PACKAGES = 4;
+
+// Suggested names for packages as they are added, in order
+const DEFAULT_PACKAGE_NAMES = ["Basic", "Standard", "Premium", "Custom"];
+
+// An editable pricing package. Price and deliverables are kept as raw input
+// until submit; deliverables are entered one per line.
+export type FormPackage = {
+  key: string;
+  name: string;
+  price: string;
+  unit: PriceUnit;
+  deliverables: string;
+};
+
+const toFormPackage = (pkg: ServicePackage): FormPackage => ({
+  key: pkg.id,
+  name: pkg.name,
+  price: String(pkg.price),
+  unit: pkg.unit,
+  deliverables: pkg.deliverables.join("\n"),
+});
 
 export interface ServiceFormState {
   title: string;
   description: string;
   price: string;
   location: string;
+  coordinates: Coordinates | null;
+  serviceRadius: string;
+  locating: boolean;
   phoneNumber: string;
   tags: string[];
   currentTag: string;
-  selectedImage: string | null;
+  images: FormImage[]; // Ordered; the first image is the cover
+  uploadProgress: Record<string, number>; // Local uri → 0–1 while uploading
+  packages: FormPackage[]; // Empty = single base price
+  slotDuration: number; // Minutes per bookable slot
   selectedCategory: string | null;
 }
 
@@ -21,12 +75,28 @@ export interface ServiceFormActions {
   setDescription: (v: string) => void;
   setPrice: (v: string) => void;
   setLocation: (v: string) => void;
+  setServiceRadius: (v: string) => void;
   setPhoneNumber: (v: string) => void;
+  setSlotDuration: (v: number) => void;
   setCurrentTag: (v: string) => void;
   setSelectedCategory: (v: string | null) => void;
   handleAddTag: () => void;
   handleRemoveTag: (tag: string) => void;
-  handlePickImage: () => Promise<void>;
+  handlePickImages: () => Promise<void>;
+  handleRemoveImage: (uri: string) => void;
+  handleMoveImage: (uri: string, direction: -1 | 1) => void;
+  handleSetCoverImage: (uri: string) => void;
+  uploadGallery: () => Promise<string[]>;
+  handleAddPackage: () => void;
+  handleUpdatePackage: (
+    key: string,
+    patch: Partial<Omit<FormPackage, "key">>,
+  ) => void;
+  handleRemovePackage: (key: string) => void;
+  packageInputs: () => ServicePackageInput[];
+  resolvePrice: () => number | null;
+  handleUseCurrentLocation: () => Promise<void>;
+  resolveCoordinates: () => Promise<Coordinates | null>;
   categories: Category[];
   loadingCategories: boolean;
 }
@@ -39,7 +109,7 @@ export interface ServiceFormActions {
  * copy-pasted across both components.
  */
 export function useServiceForm(
-  initialService?: Service | null,
+  initialService?: ServiceWithDetails | null,
 ): ServiceFormState & ServiceFormActions {
   const [title, setTitle] = useState(initialService?.title ?? "");
   const [description, setDescription] = useState(
@@ -48,13 +118,46 @@ export function useServiceForm(
   const [price, setPrice] = useState(
     initialService?.price != null ? String(initialService.price) : "",
   );
-  const [location, setLocation] = useState(initialService?.location ?? "");
+  const [location, setLocationText] = useState(initialService?.location ?? "");
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(
+    initialService?.latitude != null && initialService?.longitude != null
+      ? {
+          latitude: initialService.latitude,
+          longitude: initialService.longitude,
+        }
+      : null,
+  );
+  const [serviceRadius, setServiceRadius] = useState(
+    initialService?.service_radius_km != null
+      ? String(initialService.service_radius_km)
+      : "",
+  );
+  const [locating, setLocating] = useState(false);
   const [phoneNumber, setPhoneNumber] = useState(
     initialService?.phone_number ?? "",
   );
+  const [slotDuration, setSlotDuration] = useState(
+    initialService?.slot_duration_minutes ?? 60,
+  );
   const [tags, setTags] = useState<string[]>(initialService?.tags ?? []);
   const [currentTag, setCurrentTag] = useState("");
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [images, setImages] = useState<FormImage[]>(() => {
+    if (initialService?.images?.length) {
+      return initialService.images.map((img) => ({
+        uri: img.url,
+        uploaded: true,
+      }));
+    }
+    return initialService?.image_url
+      ? [{ uri: initialService.image_url, uploaded: true }]
+      : [];
+  });
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>(
+    {},
+  );
+  const [packages, setPackages] = useState<FormPackage[]>(
+    () => initialService?.packages?.map(toFormPackage) ?? [],
+  );
   const [selectedCategory, setSelectedCategory] = useState<string | null>(
     initialService?.category_id ?? null,
   );
@@ -68,6 +171,32 @@ export function useServiceForm(
       .finally(() => setLoadingCategories(false));
   }, []);
 
+  // Load the full gallery when editing a service that came without it
+  const initialServiceId = initialService?.id;
+  const hasInitialImages = !!initialService?.images;
+  useEffect(() => {
+    if (!initialServiceId || hasInitialImages) return;
+    fetchServiceImages(initialServiceId)
+      .then((rows) => {
+        if (rows.length === 0) return;
+        setImages(rows.map((img) => ({ uri: img.url, uploaded: true })));
+      })
+      .catch(() => {
+        // Keep the cover-only fallback from image_url
+      });
+  }, [initialServiceId, hasInitialImages]);
+
+  // Same for packages
+  const hasInitialPackages = !!initialService?.packages;
+  useEffect(() => {
+    if (!initialServiceId || hasInitialPackages) return;
+    fetchServicePackages(initialServiceId)
+      .then((rows) => setPackages(rows.map(toFormPackage)))
+      .catch(() => {
+        // Editing falls back to the single base price
+      });
+  }, [initialServiceId, hasInitialPackages]);
+
   const handleAddTag = () => {
     const trimmed = currentTag.trim().toLowerCase();
     if (!trimmed) return;
@@ -87,8 +216,156 @@ export function useServiceForm(
     setTags(tags.filter((t) => t !== tag));
   };
 
-  const handlePickImage = async () => {
-    await pickImage(setSelectedImage);
+  const handlePickImages = async () => {
+    const remaining = MAX_SERVICE_IMAGES - images.length;
+    if (remaining <= 0) {
+      Alert.alert(
+        "Limit Reached",
+        `You can only add up to ${MAX_SERVICE_IMAGES} images`,
+      );
+      return;
+    }
+    await pickImages((uris) => {
+      setImages((prev) => {
+        const fresh = uris
+          .filter((uri) => !prev.some((img) => img.uri === uri))
+          .map((uri) => ({ uri, uploaded: false }));
+        return [...prev, ...fresh].slice(0, MAX_SERVICE_IMAGES);
+      });
+    }, remaining);
+  };
+
+  const handleRemoveImage = (uri: string) => {
+    setImages((prev) => prev.filter((img) => img.uri !== uri));
+  };
+
+  const handleMoveImage = (uri: string, direction: -1 | 1) => {
+    setImages((prev) => {
+      const from = prev.findIndex((img) => img.uri === uri);
+      const to = from + direction;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  const handleSetCoverImage = (uri: string) => {
+    setImages((prev) => {
+      const cover = prev.find((img) => img.uri === uri);
+      if (!cover) return prev;
+      return [cover, ...prev.filter((img) => img.uri !== uri)];
+    });
+  };
+
+  /**
+   * Uploads every local image in parallel (reporting progress per image)
+   * and returns the gallery as public URLs in display order.
+   * Images that finish uploading are kept as uploaded, so retrying after a
+   * partial failure only re-sends the ones that failed.
+   */
+  const uploadGallery = async (): Promise<string[]> => {
+    try {
+      return await Promise.all(
+        images.map(async (img) => {
+          if (img.uploaded) return img.uri;
+          const url = await uploadImage(img.uri, "service-images", (f) =>
+            setUploadProgress((prev) => ({ ...prev, [img.uri]: f })),
+          );
+          setImages((prev) =>
+            prev.map((p) =>
+              p.uri === img.uri ? { uri: url, uploaded: true } : p,
+            ),
+          );
+          return url;
+        }),
+      );
+    } finally {
+      setUploadProgress({});
+    }
+  };
+
+  const handleAddPackage = () => {
+    setPackages((prev) => {
+      if (prev.length >= MAX_SERVICE_PACKAGES) return prev;
+      return [
+        ...prev,
+        {
+          key: `new-${Date.now()}-${prev.length}`,
+          name: DEFAULT_PACKAGE_NAMES[prev.length] ?? "",
+          // The first package starts from the existing base price
+          price: prev.length === 0 ? price : "",
+          unit: "fixed",
+          deliverables: "",
+        },
+      ];
+    });
+  };
+
+  const handleUpdatePackage = (
+    key: string,
+    patch: Partial<Omit<FormPackage, "key">>,
+  ) => {
+    setPackages((prev) =>
+      prev.map((pkg) => (pkg.key === key ? { ...pkg, ...patch } : pkg)),
+    );
+  };
+
+  const handleRemovePackage = (key: string) => {
+    setPackages((prev) => prev.filter((pkg) => pkg.key !== key));
+  };
+
+  /** Packages in the shape set_service_packages expects. */
+  const packageInputs = (): ServicePackageInput[] =>
+    packages.map((pkg) => ({
+      name: pkg.name.trim(),
+      price: parseFloat(pkg.price),
+      unit: pkg.unit,
+      deliverables: pkg.deliverables
+        .split("\n")
+        .map((d) => d.trim())
+        .filter(Boolean),
+    }));
+
+  /**
+   * Price to store on the service row: the cheapest package when there are
+   * packages, otherwise the base price (null = contact for price).
+   */
+  const resolvePrice = (): number | null => {
+    if (packages.length > 0) {
+      return Math.min(...packages.map((pkg) => parseFloat(pkg.price)));
+    }
+    return price.trim() ? parseFloat(price) : null;
+  };
+
+  // Typing a new address invalidates previously captured coordinates
+  const setLocation = (v: string) => {
+    setLocationText(v);
+    setCoordinates(null);
+  };
+
+  const handleUseCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      const coords = await getCurrentPosition();
+      if (!coords) return;
+      const address = await reverseGeocode(coords);
+      if (address) setLocationText(address);
+      setCoordinates(coords);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  /**
+   * Coordinates to save with the service: the captured position, or the
+   * typed address geocoded on submit. Null if neither is available.
+   */
+  const resolveCoordinates = async (): Promise<Coordinates | null> => {
+    if (coordinates) return coordinates;
+    const geocoded = await geocodeAddress(location);
+    if (geocoded) setCoordinates(geocoded);
+    return geocoded;
   };
 
   return {
@@ -96,21 +373,40 @@ export function useServiceForm(
     description,
     price,
     location,
+    coordinates,
+    serviceRadius,
+    locating,
     phoneNumber,
     tags,
     currentTag,
-    selectedImage,
+    images,
+    uploadProgress,
+    packages,
+    slotDuration,
     selectedCategory,
     setTitle,
     setDescription,
     setPrice,
     setLocation,
+    setServiceRadius,
     setPhoneNumber,
+    setSlotDuration,
     setCurrentTag,
     setSelectedCategory,
     handleAddTag,
     handleRemoveTag,
-    handlePickImage,
+    handlePickImages,
+    handleRemoveImage,
+    handleMoveImage,
+    handleSetCoverImage,
+    uploadGallery,
+    handleAddPackage,
+    handleUpdatePackage,
+    handleRemovePackage,
+    packageInputs,
+    resolvePrice,
+    handleUseCurrentLocation,
+    resolveCoordinates,
     categories,
     loadingCategories,
   };
@@ -126,6 +422,8 @@ export function validateServiceForm(fields: {
   location: string;
   selectedCategory: string | null;
   price: string;
+  serviceRadius?: string;
+  packages?: FormPackage[];
 }): boolean {
   if (!fields.title.trim()) {
     Alert.alert("Required Field", "Please enter a service title");
@@ -147,5 +445,25 @@ export function validateServiceForm(fields: {
     Alert.alert("Invalid Price", "Please enter a valid number for price");
     return false;
   }
+  for (const pkg of fields.packages ?? []) {
+    if (!pkg.name.trim()) {
+      Alert.alert("Required Field", "Please name every package");
+      return false;
+    }
+    if (!pkg.price.trim() || !(Number(pkg.price) >= 0)) {
+      Alert.alert(
+        "Invalid Price",
+        `Please enter a valid price for the "${pkg.name.trim()}" package`,
+      );
+      return false;
+    }
+  }
+  if (fields.serviceRadius?.trim() && !(Number(fields.serviceRadius) > 0)) {
+    Alert.alert(
+      "Invalid Service Area",
+      "Please enter a service radius in kilometres greater than 0",
+    );
+    return false;
+  }
   return true;
 }
@@ -1,7 +1,8 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import { subscribeToInbox } from "../api/inbox.api";
 import {
-  fetchConversations,
-  subscribeToConversations,
+  getUnreadMessageCount,
+  markMessagesDelivered,
 } from "../api/messaging.api";
 import {
   getUnreadNotificationCount,
@@ -18,7 +19,10 @@ interface UnreadCounts {
  * Encapsulates all badge-count logic that was inlined in ServellApp.
  *
  * - Fetches initial unread counts on mount IMMEDIATELY
- * - Subscribes to realtime updates for both messages and notifications
+ * - Marks received messages as delivered while the app is open
+ * - Subscribes to realtime updates for both messages and notifications;
+ *   the message badge counts up on each received message and down as
+ *   messages are read (on any device), from the user's inbox channel
  * - Exposes a resetNotifications callback for the NotificationScreen
  * - Exposes a refreshMessages callback for when the Message tab is focused
  */
@@ -35,8 +39,7 @@ export function useUnreadCounts(): {
   const initialLoadDone = useRef(false);
 
   const refreshMessages = useCallback(async () => {
-    const convos = await fetchConversations();
-    const total = convos.reduce((sum, c) => sum + (c.unread_count || 0), 0);
+    const total = await getUnreadMessageCount();
     setCounts((prev) => ({ ...prev, messages: total }));
   }, []);
 
@@ -46,7 +49,6 @@ export function useUnreadCounts(): {
 
   useEffect(() => {
     let unsubNotifs: (() => void) | null = null;
-    let unsubConvos: (() => void) | null = null;
     let unsubMessages: (() => void) | null = null;
 
     async function init() {
@@ -58,16 +60,11 @@ export function useUnreadCounts(): {
 
       // Initial counts - FETCH IMMEDIATELY before setting up subscriptions
       try {
-        const [convos, totalNotifs] = await Promise.all([
-          fetchConversations(),
+        const [totalMessages, totalNotifs] = await Promise.all([
+          getUnreadMessageCount(),
           getUnreadNotificationCount(),
         ]);
 
-        const totalMessages = convos.reduce(
-          (sum, c) => sum + (c.unread_count || 0),
-          0,
-        );
-
         // Set counts immediately so badges appear right away
         setCounts({ messages: totalMessages, notifications: totalNotifs });
         initialLoadDone.current = true;
@@ -75,44 +72,32 @@ export function useUnreadCounts(): {
         console.error("Error loading initial badge counts:", error);
       }
 
-      // Realtime subscriptions for future updates
-      unsubConvos = subscribeToConversations(user.id, async () => {
-        const updated = await fetchConversations();
-        const total = updated.reduce(
-          (sum, c) => sum + (c.unread_count || 0),
-          0,
-        );
-        setCounts((prev) => ({ ...prev, messages: total }));
+      markMessagesDelivered().catch(() => {});
+
+      // Realtime updates from the user's own inbox channel
+      unsubMessages = subscribeToInbox(user.id, {
+        onMessage: (message, muted) => {
+          // Only count if this message is not from the current user
+          if (message.sender_id !== user.id) {
+            markMessagesDelivered([message.id]).catch(() => {});
+            // Muted conversations don't count towards the badge
+            if (muted) return;
+            setCounts((prev) => ({ ...prev, messages: prev.messages + 1 }));
+          }
+        },
+        onMessagesUpdated: ({ read_count, muted }) => {
+          if (read_count === 0 || muted) return;
+          setCounts((prev) => ({
+            ...prev,
+            messages: Math.max(0, prev.messages - read_count),
+          }));
+        },
+        // Muting or unmuting changes what the badge counts
+        onConversationUpdated: () => {
+          refreshMessages().catch(() => {});
+        },
       });
 
-      // Subscribe to messages table to catch new unread messages
-      const messagesChannel = supabase
-        .channel(`messages:user:${user.id}`)
-        .on(
-          "postgres_changes",
-          {
-            event: "INSERT",
-            schema: "public",
-            table: "messages",
-          },
-          async (payload: any) => {
-            // Only count if this message is not from the current user
-            if (payload.new.sender_id !== user.id) {
-              const updated = await fetchConversations();
-              const total = updated.reduce(
-                (sum, c) => sum + (c.unread_count || 0),
-                0,
-              );
-              setCounts((prev) => ({ ...prev, messages: total }));
-            }
-          },
-        )
-        .subscribe();
-
-      unsubMessages = () => {
-        supabase.removeChannel(messagesChannel);
-      };
-
       unsubNotifs = subscribeToNotifications(user.id, () => {
         setCounts((prev) => ({
           ...prev,
@@ -125,10 +110,9 @@ export function useUnreadCounts(): {
 
     return () => {
       unsubNotifs?.();
-      unsubConvos?.();
       unsubMessages?.();
     };
-  }, []);
+  }, [refreshMessages]);
 
   return { counts, resetNotifications, refreshMessages };
 }
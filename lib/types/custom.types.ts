@@ -1,3 +1,5 @@
+import { ServicePackage } from "./database.types";
+
 export type PageName =
   | "Services"
   | "Notification"
@@ -5,6 +7,8 @@ export type PageName =
   | "Post"
   | "Profile";
 
+export type ServicesViewMode = "grid" | "map";
+
 export type ItemProps = {
   title: string;
   category: string;
@@ -13,6 +17,8 @@ export type ItemProps = {
   author: string;
   image: string | null;
   reviewCount: number;
+  distanceKm?: number | null;
+  packages?: ServicePackage[];
 };
 
 export type CreateServiceProps = {
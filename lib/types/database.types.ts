@@ -6,6 +6,10 @@ export type Profile = {
   last_name: string | null;
   profile_image_url: string | null;
   physis_verified: boolean;
+  timezone: string; // IANA zone working hours are read in, e.g. "Asia/Manila"
+  show_last_seen: boolean; // false = hidden from presence and last seen
+  away_enabled: boolean; // Send away_message outside working hours
+  away_message: string | null; // May contain template variables
   created_at: string;
   updated_at: string;
 };
@@ -28,7 +32,11 @@ export type Service = {
   category_id: string | null;
   tags: string[] | null;
   location: string;
+  latitude: number | null;
+  longitude: number | null;
+  service_radius_km: number | null; // How far the provider travels; null = unspecified
   phone_number: string | null;
+  slot_duration_minutes: number; // Length of one bookable slot
   rating: number;
   review_count: number;
   status: "active" | "inactive" | "deleted";
@@ -36,10 +44,44 @@ export type Service = {
   updated_at: string;
 };
 
+// Gallery image of a service; position 0 is the cover (mirrored in image_url)
+export type ServiceImage = {
+  id: string;
+  service_id: string;
+  url: string;
+  position: number;
+  created_at: string;
+};
+
+export type PriceUnit = "fixed" | "hour" | "session" | "sqm";
+
+// Named pricing tier of a service (e.g. Basic / Standard / Premium).
+// When a service has packages, its price is the cheapest package price.
+export type ServicePackage = {
+  id: string;
+  service_id: string;
+  name: string;
+  price: number;
+  unit: PriceUnit;
+  deliverables: string[];
+  position: number;
+  created_at: string;
+};
+
+// Input type for set_service_packages; order is display order
+export type ServicePackageInput = Pick<
+  ServicePackage,
+  "name" | "price" | "unit" | "deliverables"
+>;
+
 // Service with joined data from other tables
 export type ServiceWithDetails = Service & {
   category?: Category;
   profile?: Profile;
+  images?: ServiceImage[];
+  packages?: ServicePackage[];
+  distance_km?: number | null; // Only on search results with a searcher origin
+  max_price?: number | null; // Only on search results: dearest package, or price without packages
 };
 
 export type Review = {
@@ -50,6 +92,7 @@ export type Review = {
   comment: string | null;
   helpful_count: number;
   unhelpful_count: number;
+  verified_hire: boolean; // Written after a completed booking or job
   created_at: string;
   updated_at: string;
 };
@@ -63,7 +106,11 @@ export type CreateServiceInput = {
   category_id: string;
   tags?: string[];
   location: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  service_radius_km?: number | null;
   phone_number?: string;
+  slot_duration_minutes?: number;
 };
 
 // Input type for updating a service
@@ -77,46 +124,177 @@ export type UpdateServiceInput = Partial<CreateServiceInput> & {
 
 export type Conversation = {
   id: string;
-  service_id: string;
+  service_id: string | null; // Service the thread concerns; null = the provider in general
   buyer_id: string;
   seller_id: string;
+  job_completed_at: string | null; // Set when the seller marks the job done
+  accepted_quote_id: string | null; // Latest quote the buyer or seller accepted
   last_message_at: string;
   created_at: string;
 };
 
+export type AttachmentKind = "image" | "video" | "file";
+
+// File sent with a message; stored in messages.attachments
+export type MessageAttachment = {
+  kind: AttachmentKind;
+  url: string;
+  mime: string | null; // e.g. "image/jpeg"
+  size: number | null; // Bytes
+  width: number | null; // Pixels, images and videos only
+  height: number | null;
+  thumbnail_url: string | null;
+  name: string | null; // Original file name, shown for files
+};
+
 export type Message = {
   id: string;
   conversation_id: string;
   sender_id: string;
-  content: string;
-  is_read: boolean;
+  content: string; // Text, or the caption of attachments (may be empty)
+  attachments: MessageAttachment[];
+  is_read: boolean; // Mirrors read_at !== null
+  delivered_at: string | null; // Reached the recipient's device
+  read_at: string | null; // Seen on the recipient's screen
+  edited_at: string | null; // Text changed after sending
+  deleted_at: string | null; // Unsent; content and attachments are cleared
+  client_id: string | null; // Generated by the sending device, for dedupe
+  quote_id: string | null; // Set on the message that carries a quote
+  auto_reply: boolean; // Away message sent by the server for the provider
   created_at: string;
 };
 
-// Conversation with additional details
+// The current user's own settings for a conversation; no row = defaults
+export type ConversationUserState = {
+  conversation_id: string;
+  user_id: string;
+  pinned_at: string | null; // Listed above unpinned conversations
+  muted_at: string | null; // No badge or notifications for new messages
+  archived_at: string | null; // Listed under Archived instead of the inbox
+  deleted_at: string | null; // Messages up to here are hidden from the user
+  updated_at: string;
+};
+
+// Conversation with additional details.
+// From fetchConversations, also the current user's pin / mute / archive.
 export type ConversationWithDetails = Conversation & {
   service?: Service;
   buyer_profile?: Profile;
   seller_profile?: Profile;
   last_message?: Message;
   unread_count?: number;
+  pinned_at?: string | null;
+  muted_at?: string | null;
+  archived_at?: string | null;
 };
 
-// Message with sender details
+// Message with sender details.
+// From fetchMessages, also the quote the message carries.
 export type MessageWithSender = Message & {
   sender_profile?: Profile;
+  quote?: Quote | null;
+};
+
+// Keyset cursor for paging back through a conversation: the created_at
+// and id of the oldest message on the previous page
+export type MessagesCursor = {
+  created_at: string;
+  id: string;
+};
+
+// One page of fetchMessages results, newest first.
+// nextCursor is null once the first message has been reached.
+export type MessagesPage = {
+  messages: MessageWithSender[];
+  nextCursor: MessagesCursor | null;
+};
+
+// Messages around a given one (e.g. a search result), newest first.
+// nextCursor pages back as in MessagesPage; newerCursor pages forward and
+// is null once the latest message is included.
+export type MessagesWindow = MessagesPage & {
+  newerCursor: MessagesCursor | null;
 };
 
 // Input type for creating a conversation
 export type CreateConversationInput = {
-  service_id: string;
   seller_id: string;
+  service_id?: string | null; // Omit for a conversation with the provider in general
+  new_thread?: boolean; // Start a fresh thread even if an open one exists
 };
 
 // Input type for sending a message
 export type SendMessageInput = {
   conversation_id: string;
   content: string;
+  attachments?: MessageAttachment[];
+  client_id?: string;
+};
+
+// A message waiting in the on-device outbox to be sent.
+// Attachments point at local files until they are uploaded.
+export type OutboxEntry = {
+  client_id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  attachments: MessageAttachment[];
+  created_at: string;
+  status: "pending" | "failed"; // failed = rejected, or out of attempts
+  attempts: number;
+  error: string | null;
+};
+
+// A provider's saved answer, inserted from the chat composer.
+// The body may contain template variables, e.g. {buyer_first_name}.
+export type QuickReply = {
+  id: string;
+  provider_id: string;
+  title: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type QuickReplyInput = Pick<QuickReply, "title" | "body">;
+
+// ============================================
+// QUOTE TYPES
+// ============================================
+
+export type QuoteLineItem = {
+  description: string;
+  quantity: number;
+  unit_price: number;
+};
+
+// countered = answered with a counter quote (parent_quote_id of the new one)
+export type QuoteStatus = "pending" | "accepted" | "declined" | "countered";
+
+// A price offer sent in a conversation
+export type Quote = {
+  id: string;
+  conversation_id: string;
+  service_id: string | null;
+  provider_id: string;
+  buyer_id: string;
+  created_by: string; // Provider, or either side for a counter
+  parent_quote_id: string | null; // The quote this one counters
+  line_items: QuoteLineItem[];
+  total: number; // Sum of quantity × unit_price, computed by the server
+  valid_until: string; // Can't be answered after this
+  notes: string | null;
+  status: QuoteStatus;
+  responded_at: string | null;
+  created_at: string;
+};
+
+export type CreateQuoteInput = {
+  conversation_id: string;
+  line_items: QuoteLineItem[];
+  valid_until: string;
+  notes?: string | null;
+  parent_quote_id?: string | null; // Set when countering
 };
 
 // ============================================
@@ -220,6 +398,7 @@ export type UpdateCommentInput = {
 export type ReviewFilterOptions = {
   rating?: number | null; // Filter by specific rating (1-5)
   hasReply?: boolean | null; // true = with reply, false = no reply, null = all
+  verifiedOnly?: boolean; // Only reviews from completed engagements
   sortBy:
     | "newest"
     | "oldest"
@@ -249,7 +428,19 @@ export type NotificationType =
   | "account_verified"
   | "new_comment"
   | "comment_reply"
-  | "comment_like";
+  | "comment_like"
+  | "job_completed"
+  | "saved_search_match"
+  | "booking_requested"
+  | "booking_accepted"
+  | "booking_declined"
+  | "booking_scheduled"
+  | "booking_completed"
+  | "booking_cancelled"
+  | "quote_received"
+  | "quote_accepted"
+  | "quote_declined"
+  | "quote_countered";
 
 export type Notification = {
   id: string;
@@ -262,6 +453,126 @@ export type Notification = {
   created_at: string;
 };
 
+// ============================================================
+// BOOKING TYPES
+// ============================================================
+
+export type BookingStatus =
+  | "requested"
+  | "accepted"
+  | "declined"
+  | "scheduled"
+  | "completed"
+  | "cancelled";
+
+// Which side of a booking the current user is on
+export type BookingRole = "buyer" | "provider";
+
+export type Booking = {
+  id: string;
+  service_id: string;
+  buyer_id: string;
+  provider_id: string;
+  package_id: string | null;
+  package_name: string | null; // Snapshot at request time
+  price: number | null; // Snapshot at request time; null = to be quoted
+  requested_start: string | null; // Buyer's preferred start
+  scheduled_at: string | null; // Set by the provider when scheduling
+  notes: string | null;
+  duration_minutes: number; // Service slot length at request time
+  slot_start: string | null; // scheduled_at, else requested_start
+  slot_end: string | null;
+  status: BookingStatus;
+  status_reason: string | null; // Optional decline / cancel reason
+  cancelled_by: string | null;
+  status_changed_at: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type BookingWithDetails = Booking & {
+  service?: Pick<Service, "id" | "title" | "image_url">;
+  buyer?: Profile;
+  provider?: Profile;
+};
+
+export type CreateBookingInput = {
+  service_id: string;
+  provider_id: string;
+  package_id?: string | null; // Name and price are copied server-side
+  requested_start?: string | null;
+  notes?: string | null;
+};
+
+// ============================================================
+// AVAILABILITY TYPES
+// ============================================================
+
+// Weekly opening hours of a provider, as wall-clock "HH:MM:SS" times in
+// their profile timezone. 0 = Sunday … 6 = Saturday.
+export type WorkingHours = {
+  id: string;
+  provider_id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  created_at: string;
+};
+
+// Input type for set_provider_availability
+export type WorkingHoursInput = Pick<
+  WorkingHours,
+  "weekday" | "start_time" | "end_time"
+>;
+
+// Whole local days (inclusive, "YYYY-MM-DD") a provider takes no bookings
+export type BlackoutDate = {
+  id: string;
+  provider_id: string;
+  starts_on: string;
+  ends_on: string;
+  reason: string | null;
+  created_at: string;
+};
+
+export type CreateBlackoutDateInput = Pick<
+  BlackoutDate,
+  "starts_on" | "ends_on"
+> & { reason?: string | null };
+
+// A free slot from get_available_slots
+export type AvailableSlot = {
+  slot_start: string;
+  slot_end: string;
+};
+
+// ============================================================
+// SAVED SERVICE TYPES
+// ============================================================
+
+export type SavedCollection = {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+};
+
+// A saved service from get_saved_services, with the service's current
+// details. Services the provider deactivated or deleted stay listed.
+export type SavedService = {
+  id: string;
+  service_id: string;
+  collection_id: string | null; // null = not in any collection
+  saved_price: number | null; // Price when it was saved
+  created_at: string;
+  title: string;
+  image_url: string | null;
+  price: number | null;
+  rating: number;
+  review_count: number;
+  status: Service["status"];
+};
+
 // ============================================================
 // SUBSCRIPTION TYPES
 // ============================================================
@@ -278,6 +589,51 @@ export type ServiceSubscriptionWithProfile = ServiceSubscription & {
   subscriber_profile?: Profile;
 };
 
+// ============================================================
+// MODERATION TYPES
+// ============================================================
+
+export type UserBlock = {
+  blocker_id: string;
+  blocked_id: string;
+  created_at: string;
+};
+
+export type UserBlockWithProfile = UserBlock & {
+  blocked_profile?: Profile;
+};
+
+export type ReportEntityType =
+  "service" | "message" | "review" | "comment" | "profile";
+
+export type ReportReason =
+  "spam" | "scam" | "harassment" | "inappropriate" | "impersonation" | "other";
+
+export type ReportStatus = "open" | "reviewing" | "actioned" | "dismissed";
+
+// A report in the moderation queue
+export type Report = {
+  id: string;
+  reporter_id: string;
+  entity_type: ReportEntityType;
+  entity_id: string;
+  reported_user_id: string | null; // Author / owner of the entity
+  reason: ReportReason;
+  details: string | null;
+  entity_snapshot: Record<string, unknown> | null; // Entity when reported
+  status: ReportStatus;
+  moderator_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+};
+
+export type CreateReportInput = {
+  entity_type: ReportEntityType;
+  entity_id: string;
+  reason: ReportReason;
+  details?: string | null; // Required when reason is "other"
+};
+
 // Input type for creating a notification (used by admin/system calls)
 export type CreateNotificationInput = {
   user_id: string;
@@ -1,25 +1,96 @@
 // Filter-related type definitions
 
-export type SortOption = "newest" | "price_low" | "price_high" | "rating_high";
+import { ServiceWithDetails } from "./database.types";
+
+export type SortOption =
+  | "relevance"
+  | "newest"
+  | "price_low"
+  | "price_high"
+  | "rating_high"
+  | "nearest";
 
 export type PriceRange = {
   min: number | null;
   max: number | null;
 };
 
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+// Visible map viewport. minLng > maxLng means it crosses the antimeridian.
+export type MapBounds = {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+};
+
 export type FilterOptions = {
   categoryId: string | null;
   priceRange: PriceRange;
   minRating: number | null;
   location: string;
+  maxDistanceKm: number | null; // null = any distance
+  origin: Coordinates | null; // searcher's position, required for distance filter / nearest sort
   sortBy: SortOption;
 };
 
+// Keyset cursor for paging through searchAndFilterServices.
+// Holds the sort-column value and id of the last row on the previous page.
+export type ServicesCursor = {
+  value: string | number | null;
+  id: string;
+};
+
+// One page of searchAndFilterServices results.
+// nextCursor is null once the last page has been reached.
+export type ServicesPage = {
+  services: ServiceWithDetails[];
+  nextCursor: ServicesCursor | null;
+};
+
+// When new matches of a saved search are announced
+export type AlertFrequency = "off" | "immediate" | "daily";
+
+// A search query and its filters saved under a name; the columns mirror
+// the search_services parameters
+export type SavedSearch = {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string | null;
+  category_id: string | null;
+  min_price: number | null;
+  max_price: number | null;
+  min_rating: number | null;
+  location: string | null;
+  origin_lat: number | null;
+  origin_lng: number | null;
+  max_distance_km: number | null;
+  sort_by: SortOption;
+  alert_frequency: AlertFrequency;
+  last_alerted_at: string;
+  created_at: string;
+};
+
 export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: "relevance", label: "Best Match" },
   { value: "newest", label: "Newest First" },
   { value: "price_low", label: "Price: Low to High" },
   { value: "price_high", label: "Price: High to Low" },
   { value: "rating_high", label: "Highest Rated" },
+  { value: "nearest", label: "Nearest First" },
+];
+
+export const DISTANCE_OPTIONS = [
+  { value: null, label: "Any Distance" },
+  { value: 1, label: "Within 1 km" },
+  { value: 5, label: "Within 5 km" },
+  { value: 10, label: "Within 10 km" },
+  { value: 25, label: "Within 25 km" },
 ];
 
 export const RATING_OPTIONS = [
@@ -28,3 +99,12 @@ export const RATING_OPTIONS = [
   { value: 4, label: "4+ Stars" },
   { value: 4.5, label: "4.5+ Stars" },
 ];
+
+export const ALERT_FREQUENCY_OPTIONS: {
+  value: AlertFrequency;
+  label: string;
+}[] = [
+  { value: "immediate", label: "Instantly" },
+  { value: "daily", label: "Daily digest" },
+  { value: "off", label: "Off" },
+];
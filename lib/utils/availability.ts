@@ -0,0 +1,120 @@
+/**
+ * Availability helpers: timezones, weekday labels and local-date keys.
+ * Working hours and blackout dates are read in the provider's timezone,
+ * so day boundaries are computed there rather than on the device.
+ */
+import { AvailableSlot } from "../types/database.types";
+
+export const DEFAULT_TIMEZONE = "Asia/Manila";
+
+// Zones offered in the availability editor; the device zone is added
+// when it isn't one of these
+export const TIMEZONE_OPTIONS = [
+  "Asia/Manila",
+  "Asia/Singapore",
+  "Asia/Hong_Kong",
+  "Asia/Tokyo",
+  "Asia/Dubai",
+  "Australia/Sydney",
+  "Europe/London",
+  "America/Los_Angeles",
+  "America/New_York",
+];
+
+// Indexed by weekday, 0 = Sunday as in Date.getDay()
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const SLOT_DURATION_OPTIONS = [30, 60, 90, 120, 180, 240];
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Formats a slot length.
+ * e.g. 30 → "30 min", 60 → "1 hr", 90 → "1 hr 30 min", 120 → "2 hrs"
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins} min`;
+  const h = `${hours} ${hours === 1 ? "hr" : "hrs"}`;
+  return mins ? `${h} ${mins} min` : h;
+}
+
+/**
+ * Formats a wall-clock "HH:MM[:SS]" time.
+ * e.g. "09:00:00" → "9:00 AM", "13:30" → "1:30 PM"
+ */
+export function formatTimeOfDay(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const suffix = h >= 12 && h < 24 ? "PM" : "AM";
+  const hour12 = h % 12 === 0 ? 12 : h % 12;
+  return `${hour12}:${String(m).padStart(2, "0")} ${suffix}`;
+}
+
+/**
+ * Converts minutes since midnight to a "HH:MM:SS" time string, and back.
+ */
+export function minutesToTime(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:00`;
+}
+
+export function timeToMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Returns the "YYYY-MM-DD" calendar date of an instant in a timezone.
+ */
+export function toLocalDateKey(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return date.toLocaleDateString("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+}
+
+/**
+ * Adds whole days to a "YYYY-MM-DD" key.
+ */
+export function addDaysToKey(key: string, days: number): string {
+  const d = new Date(`${key}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Formats a "YYYY-MM-DD" key without shifting it through the device zone.
+ */
+export function formatDateKey(
+  key: string,
+  options: Intl.DateTimeFormatOptions,
+): string {
+  return new Date(`${key}T00:00:00Z`).toLocaleDateString("en-PH", {
+    ...options,
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Groups slots by their local day in the given timezone, keeping order.
+ */
+export function groupSlotsByDay(
+  slots: AvailableSlot[],
+  timeZone: string,
+): { day: string; slots: AvailableSlot[] }[] {
+  const groups: { day: string; slots: AvailableSlot[] }[] = [];
+  for (const slot of slots) {
+    const day = toLocalDateKey(new Date(slot.slot_start), timeZone);
+    const last = groups[groups.length - 1];
+    if (last?.day === day) last.slots.push(slot);
+    else groups.push({ day, slots: [slot] });
+  }
+  return groups;
+}
@@ -0,0 +1,82 @@
+/**
+ * Booking status helpers shared by the booking inbox and profile history.
+ * The transition rules mirror the validate_booking_update trigger.
+ */
+import { Booking, BookingStatus } from "../types/database.types";
+
+export const BOOKING_STATUS_META: Record<
+  BookingStatus,
+  { label: string; bg: string; text: string }
+> = {
+  requested: { label: "Requested", bg: "bg-amber-50", text: "text-amber-700" },
+  accepted: { label: "Accepted", bg: "bg-blue-50", text: "text-blue-700" },
+  declined: { label: "Declined", bg: "bg-slate-100", text: "text-slate-500" },
+  scheduled: {
+    label: "Scheduled",
+    bg: "bg-violet-50",
+    text: "text-violet-700",
+  },
+  completed: {
+    label: "Completed",
+    bg: "bg-emerald-50",
+    text: "text-emerald-700",
+  },
+  cancelled: { label: "Cancelled", bg: "bg-red-50", text: "text-red-600" },
+};
+
+// States a booking can still move out of
+export const OPEN_BOOKING_STATUSES: BookingStatus[] = [
+  "requested",
+  "accepted",
+  "scheduled",
+];
+
+export type BookingAction = {
+  status: Exclude<BookingStatus, "requested">;
+  label: string;
+  destructive?: boolean;
+};
+
+/**
+ * Actions the given user may take on a booking right now.
+ * Providers accept/decline, schedule and complete; either party can cancel
+ * an open booking.
+ */
+export function getBookingActions(
+  booking: Booking,
+  userId: string | null,
+): BookingAction[] {
+  const isProvider = userId === booking.provider_id;
+  const isBuyer = userId === booking.buyer_id;
+  const actions: BookingAction[] = [];
+
+  if (isProvider) {
+    switch (booking.status) {
+      case "requested":
+        actions.push(
+          { status: "accepted", label: "Accept" },
+          { status: "declined", label: "Decline", destructive: true },
+        );
+        break;
+      case "accepted":
+        actions.push({ status: "scheduled", label: "Schedule" });
+        break;
+      case "scheduled":
+        actions.push(
+          { status: "completed", label: "Mark done" },
+          { status: "scheduled", label: "Reschedule" },
+        );
+        break;
+    }
+  }
+
+  // Declining already covers the provider's "no" to a fresh request
+  const canCancel =
+    OPEN_BOOKING_STATUSES.includes(booking.status) &&
+    (isBuyer || (isProvider && booking.status !== "requested"));
+  if (canCancel) {
+    actions.push({ status: "cancelled", label: "Cancel", destructive: true });
+  }
+
+  return actions;
+}
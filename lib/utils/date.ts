@@ -61,6 +61,27 @@ export function formatTime(dateString: string): string {
   });
 }
 
+/**
+ * Returns when someone was last active.
+ * e.g. "Last seen just now", "Last seen 5m ago", "Last seen today at 3:42 PM",
+ * "Last seen Oct 12"
+ *
+ * Used by: ChatScreen header
+ */
+export function formatLastSeen(dateString: string): string {
+  const mins = Math.floor(
+    (Date.now() - new Date(dateString).getTime()) / 60_000,
+  );
+  if (mins < 1) return "Last seen just now";
+  if (mins < 60) return `Last seen ${mins}m ago`;
+  if (isToday(dateString))
+    return `Last seen today at ${formatTime(dateString)}`;
+  return `Last seen ${new Date(dateString).toLocaleDateString("en-PH", {
+    month: "short",
+    day: "numeric",
+  })}`;
+}
+
 /**
  * Returns true if the given date string falls on today's date.
  */
@@ -73,3 +94,26 @@ export function isToday(dateString: string): boolean {
     d.getDate() === now.getDate()
   );
 }
+
+/**
+ * Returns a short date + time string for appointments.
+ * e.g. "Sat, Oct 18 · 3:00 PM"
+ * Pass timeZone to show it in the provider's zone instead of the device's.
+ *
+ * Used by: BookingCard, BookingFormModal
+ */
+export function formatDateTime(dateString: string, timeZone?: string): string {
+  const d = new Date(dateString);
+  const date = d.toLocaleDateString("en-PH", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone,
+  });
+  const time = d.toLocaleTimeString("en-PH", {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+  return `${date} · ${time}`;
+}
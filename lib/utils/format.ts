@@ -1,4 +1,4 @@
-import { Profile } from "../types/database.types";
+import { PriceUnit, Profile, ServicePackage } from "../types/database.types";
 
 /**
  * Caps a badge number at 99, returning "" for zero / negative counts.
@@ -38,3 +38,42 @@ export function formatPrice(price: number | null): string {
   if (price === null) return "Contact for price";
   return `₱${price.toLocaleString()}`;
 }
+
+/**
+ * Formats a distance in kilometres for display on service cards.
+ * e.g. 0.35 → "350 m", 3.24 → "3.2 km", 12.7 → "13 km"
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.max(Math.round(km * 1000), 10)} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+}
+
+const PRICE_UNIT_SUFFIXES: Record<PriceUnit, string> = {
+  fixed: "",
+  hour: " / hour",
+  session: " / session",
+  sqm: " / sqm",
+};
+
+/**
+ * Formats a package price with its unit.
+ * e.g. (500, "hour") → "₱500 / hour", (1500, "fixed") → "₱1,500"
+ */
+export function formatPackagePrice(price: number, unit: PriceUnit): string {
+  return `${formatPrice(price)}${PRICE_UNIT_SUFFIXES[unit]}`;
+}
+
+/**
+ * Formats the headline price of a service for cards.
+ * Services with several packages show their cheapest one as "From ₱N".
+ */
+export function formatStartingPrice(
+  price: number | null,
+  packages?: Pick<ServicePackage, "price" | "unit">[],
+): string {
+  if (!packages || packages.length === 0) return formatPrice(price);
+  const cheapest = packages.reduce((min, p) => (p.price < min.price ? p : min));
+  const label = formatPackagePrice(cheapest.price, cheapest.unit);
+  return packages.length > 1 ? `From ${label}` : label;
+}
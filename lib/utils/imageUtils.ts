@@ -7,7 +7,7 @@
  */
 import * as ImagePicker from "expo-image-picker";
 import { Alert } from "react-native";
-import { supabase } from "../api/supabase";
+import { supabase, supabaseAnonKey, supabaseUrl } from "../api/supabase";
 
 /** Opens the system image picker and sets the selected URI. */
 export async function pickImage(
@@ -37,30 +37,122 @@ export async function pickImage(
   }
 }
 
-/** Uploads a local image URI to a Supabase Storage bucket and returns its public URL. */
+/**
+ * Opens the system image picker in multi-select mode and passes the
+ * selected URIs (in selection order) to the callback.
+ */
+export async function pickImages(
+  onPicked: (uris: string[]) => void,
+  selectionLimit: number,
+): Promise<void> {
+  try {
+    const { status } =
+      await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== "granted") {
+      Alert.alert(
+        "Permission Needed",
+        "We need camera roll permissions to upload images.",
+      );
+      return;
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsMultipleSelection: true,
+      orderedSelection: true,
+      selectionLimit,
+      quality: 0.8,
+    });
+    if (!result.canceled) {
+      onPicked(result.assets.map((asset) => asset.uri));
+    }
+  } catch {
+    Alert.alert("Error", "Failed to pick images");
+  }
+}
+
+/**
+ * Uploads to Storage over XMLHttpRequest so upload progress can be observed —
+ * supabase-js does not expose progress events.
+ */
+async function uploadWithProgress(
+  bucket: string,
+  path: string,
+  body: ArrayBuffer,
+  contentType: string,
+  onProgress: (fraction: number) => void,
+): Promise<void> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${supabaseUrl}/storage/v1/object/${bucket}/${path}`);
+    xhr.setRequestHeader(
+      "Authorization",
+      `Bearer ${session?.access_token ?? supabaseAnonKey}`,
+    );
+    xhr.setRequestHeader("apikey", supabaseAnonKey);
+    xhr.setRequestHeader("Content-Type", contentType);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve();
+      else reject(new Error(`Upload failed (${xhr.status}): ${xhr.responseText}`));
+    };
+    xhr.onerror = () => reject(new Error("Network error during upload"));
+    xhr.send(body);
+  });
+
+  onProgress(1);
+}
+
+/**
+ * Uploads a local image URI to a Supabase Storage bucket and returns its public URL.
+ * Pass onProgress to receive upload progress as a 0–1 fraction.
+ */
 export async function uploadImage(
   imageUri: string,
   bucket: string,
+  onProgress?: (fraction: number) => void,
 ): Promise<string> {
   const {
     data: { user },
+    error: authError,
   } = await supabase.auth.getUser();
-  if (!user) throw new Error("User not authenticated");
+  // Offline, getUser fails too; pass that on so callers can tell
+  if (!user) throw authError ?? new Error("User not authenticated");
 
   const fileExt = imageUri.split(".").pop();
-  const fileName = `${user.id}/${Date.now()}.${fileExt}`;
+  // Random suffix keeps parallel uploads started in the same millisecond apart
+  const fileName = `${user.id}/${Date.now()}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}.${fileExt}`;
+  const contentType = `image/${fileExt}`;
 
   const response = await fetch(imageUri);
   const arrayBuffer = await response.arrayBuffer();
 
-  const { error } = await supabase.storage
-    .from(bucket)
-    .upload(fileName, arrayBuffer, {
-      contentType: `image/${fileExt}`,
-      upsert: false,
-    });
+  if (onProgress) {
+    await uploadWithProgress(
+      bucket,
+      fileName,
+      arrayBuffer,
+      contentType,
+      onProgress,
+    );
+  } else {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(fileName, arrayBuffer, {
+        contentType,
+        upsert: false,
+      });
 
-  if (error) throw error;
+    if (error) throw error;
+  }
 
   const {
     data: { publicUrl },
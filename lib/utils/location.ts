@@ -0,0 +1,102 @@
+/**
+ * Device location and geocoding helpers.
+ *
+ * Every call goes through the active LocationProvider, which defaults to
+ * expo-location. Tests (or a simulator without GPS) can swap it out with
+ * setLocationProvider() instead of mocking the native module.
+ */
+import * as Location from "expo-location";
+import { Alert } from "react-native";
+import { Coordinates } from "../types/filter.types";
+
+export interface LocationProvider {
+  /** Current device position, or null if permission is denied / unavailable. */
+  getCurrentPosition: () => Promise<Coordinates | null>;
+  /** Best-match coordinates for a free-text address, or null if not found. */
+  geocodeAddress: (address: string) => Promise<Coordinates | null>;
+  /** Short human-readable address for a position, or null if not found. */
+  reverseGeocode: (coords: Coordinates) => Promise<string | null>;
+}
+
+const expoLocationProvider: LocationProvider = {
+  async getCurrentPosition() {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== "granted") return null;
+
+    const position = await Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.Balanced,
+    });
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    };
+  },
+
+  async geocodeAddress(address) {
+    const [match] = await Location.geocodeAsync(address);
+    return match
+      ? { latitude: match.latitude, longitude: match.longitude }
+      : null;
+  },
+
+  async reverseGeocode(coords) {
+    const [place] = await Location.reverseGeocodeAsync(coords);
+    if (!place) return null;
+    const parts = [
+      place.district ?? place.street,
+      place.city ?? place.subregion,
+      place.region,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(", ") : null;
+  },
+};
+
+let activeProvider: LocationProvider = expoLocationProvider;
+
+/** Replaces the location provider. Pass null to restore expo-location. */
+export function setLocationProvider(provider: LocationProvider | null): void {
+  activeProvider = provider ?? expoLocationProvider;
+}
+
+/**
+ * Returns the device position, alerting the user when it can't be read.
+ * Used by: FilterBottomSheet (distance filter), useServiceForm
+ */
+export async function getCurrentPosition(): Promise<Coordinates | null> {
+  try {
+    const coords = await activeProvider.getCurrentPosition();
+    if (!coords) {
+      Alert.alert(
+        "Location Needed",
+        "Allow location access to find services near you.",
+      );
+    }
+    return coords;
+  } catch {
+    Alert.alert("Error", "Could not get your current location");
+    return null;
+  }
+}
+
+/** Geocodes an address, returning null (never throwing) on failure. */
+export async function geocodeAddress(
+  address: string,
+): Promise<Coordinates | null> {
+  if (!address.trim()) return null;
+  try {
+    return await activeProvider.geocodeAddress(address.trim());
+  } catch {
+    return null;
+  }
+}
+
+/** Reverse-geocodes a position, returning null (never throwing) on failure. */
+export async function reverseGeocode(
+  coords: Coordinates,
+): Promise<string | null> {
+  try {
+    return await activeProvider.reverseGeocode(coords);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Map pin clustering helpers.
+ *
+ * Grid-based clustering: the visible region is split into a fixed grid and
+ * every point in the same cell collapses into one cluster pin placed at the
+ * cell's centroid. Cheap enough to recompute on every region change for the
+ * few hundred pins the services map shows at once.
+ */
+import { Coordinates, MapBounds } from "../types/filter.types";
+
+export type MapRegion = Coordinates & {
+  latitudeDelta: number;
+  longitudeDelta: number;
+};
+
+export type MapCluster<T> = Coordinates & {
+  id: string;
+  items: T[];
+};
+
+/** Converts a map region into the viewport bounds used by search_services. */
+export function regionToBounds(region: MapRegion): MapBounds {
+  const halfLat = region.latitudeDelta / 2;
+  const halfLng = region.longitudeDelta / 2;
+
+  let minLng = region.longitude - halfLng;
+  let maxLng = region.longitude + halfLng;
+  // Wrap into [-180, 180]; a wrapped viewport ends up with minLng > maxLng
+  if (minLng < -180) minLng += 360;
+  if (maxLng > 180) maxLng -= 360;
+
+  return {
+    minLat: Math.max(region.latitude - halfLat, -90),
+    maxLat: Math.min(region.latitude + halfLat, 90),
+    minLng,
+    maxLng,
+  };
+}
+
+/**
+ * Groups points into clusters for the given region.
+ *
+ * @param points   - Items with coordinates
+ * @param region   - The visible map region
+ * @param gridSize - Number of cells along each axis (default: 6)
+ */
+export function clusterPoints<T extends Coordinates & { id: string }>(
+  points: T[],
+  region: MapRegion,
+  gridSize: number = 6,
+): MapCluster<T>[] {
+  const cellLat = region.latitudeDelta / gridSize;
+  const cellLng = region.longitudeDelta / gridSize;
+  const cells = new Map<string, T[]>();
+
+  for (const point of points) {
+    const key = `${Math.floor(point.latitude / cellLat)}:${Math.floor(
+      point.longitude / cellLng,
+    )}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  }
+
+  return Array.from(cells.values()).map((items) => ({
+    // Single pins keep the item's id so selection survives re-clustering
+    id: items.length === 1 ? items[0].id : `cluster:${items[0].id}`,
+    latitude: items.reduce((sum, p) => sum + p.latitude, 0) / items.length,
+    longitude: items.reduce((sum, p) => sum + p.longitude, 0) / items.length,
+    items,
+  }));
+}
+
+/**
+ * Whether zooming in would split a cluster apart. It can't when every
+ * member sits on the same coordinate (e.g. several services at one
+ * address), or when the map is already as close as regionForPoints goes.
+ */
+export function canZoomIntoCluster(
+  points: Coordinates[],
+  region: MapRegion,
+): boolean {
+  const first = points[0];
+  const stacked = points.every(
+    (p) => p.latitude === first.latitude && p.longitude === first.longitude,
+  );
+  if (stacked) return false;
+
+  const target = regionForPoints(points);
+  return (
+    target.latitudeDelta < region.latitudeDelta ||
+    target.longitudeDelta < region.longitudeDelta
+  );
+}
+
+/** Region that fits all given points, with some padding around them. */
+export function regionForPoints(points: Coordinates[]): MapRegion {
+  const lats = points.map((p) => p.latitude);
+  const lngs = points.map((p) => p.longitude);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.5, 0.005),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.5, 0.005),
+  };
+}
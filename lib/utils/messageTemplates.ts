@@ -0,0 +1,29 @@
+/**
+ * Template variables for quick replies and the away message.
+ * Mirrors fill_message_template, which fills in the away message.
+ */
+
+export const TEMPLATE_VARIABLES: { token: string; label: string }[] = [
+  { token: "{buyer_first_name}", label: "Buyer's first name" },
+  { token: "{service_title}", label: "Service title" },
+];
+
+export type TemplateValues = {
+  buyerFirstName?: string | null;
+  serviceTitle?: string | null;
+};
+
+/**
+ * Fills in a template for a conversation.
+ * e.g. "Hi {buyer_first_name}!" → "Hi Ana!"
+ */
+export function fillMessageTemplate(
+  template: string,
+  values: TemplateValues,
+): string {
+  return template
+    .split("{buyer_first_name}")
+    .join(values.buyerFirstName?.trim() || "there")
+    .split("{service_title}")
+    .join(values.serviceTitle || "this service");
+}
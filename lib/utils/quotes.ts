@@ -0,0 +1,61 @@
+/**
+ * Quote helpers shared by the quote card and the quote form.
+ * The rules mirror the prepare_quote and validate_quote_update triggers.
+ */
+import { Quote, QuoteLineItem, QuoteStatus } from "../types/database.types";
+
+// A pending quote past its valid_until shows as "expired"
+export type QuoteDisplayStatus = QuoteStatus | "expired";
+
+export const QUOTE_STATUS_META: Record<
+  QuoteDisplayStatus,
+  { label: string; bg: string; text: string }
+> = {
+  pending: { label: "Pending", bg: "bg-amber-50", text: "text-amber-700" },
+  accepted: {
+    label: "Accepted",
+    bg: "bg-emerald-50",
+    text: "text-emerald-700",
+  },
+  declined: { label: "Declined", bg: "bg-slate-100", text: "text-slate-500" },
+  countered: {
+    label: "Countered",
+    bg: "bg-violet-50",
+    text: "text-violet-700",
+  },
+  expired: { label: "Expired", bg: "bg-slate-100", text: "text-slate-500" },
+};
+
+/**
+ * Sum of quantity × unit price, rounded to cents like the stored total.
+ */
+export function getQuoteTotal(lineItems: QuoteLineItem[]): number {
+  const total = lineItems.reduce(
+    (sum, item) => sum + item.quantity * item.unit_price,
+    0,
+  );
+  return Math.round(total * 100) / 100;
+}
+
+export function getQuoteDisplayStatus(quote: Quote): QuoteDisplayStatus {
+  return quote.status === "pending" &&
+    new Date(quote.valid_until).getTime() < Date.now()
+    ? "expired"
+    : quote.status;
+}
+
+/**
+ * Whether the given user can accept, decline or counter a quote: they
+ * received it, and it is still pending and valid.
+ */
+export function canRespondToQuote(
+  quote: Quote,
+  userId: string | null,
+): boolean {
+  return (
+    !!userId &&
+    userId !== quote.created_by &&
+    (userId === quote.buyer_id || userId === quote.provider_id) &&
+    getQuoteDisplayStatus(quote) === "pending"
+  );
+}
@@ -0,0 +1,23 @@
+-- Keyset pagination for the services feed.
+--
+-- searchAndFilterServices() orders by one sort column followed by id, and
+-- pages with a (value, id) cursor. These composite partial indexes let each
+-- sort option seek straight to the cursor instead of scanning active rows.
+
+create index if not exists idx_services_active_created_at_id
+  on public.services (created_at desc, id desc)
+  where status = 'active';
+
+create index if not exists idx_services_active_price_id
+  on public.services (price asc nulls last, id asc)
+  where status = 'active';
+
+create index if not exists idx_services_active_rating_id
+  on public.services (rating desc nulls last, id desc)
+  where status = 'active';
+
+-- price_high is DESC NULLS LAST, which a backward scan of the index above
+-- cannot serve (it would yield NULLs first)
+create index if not exists idx_services_active_price_desc_id
+  on public.services (price desc nulls last, id desc)
+  where status = 'active';
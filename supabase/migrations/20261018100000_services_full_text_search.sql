@@ -0,0 +1,234 @@
+-- Ranked full-text search for services.
+--
+-- Replaces the client-side `title.ilike.%q%` / `tags.cs.{q}` filters with a
+-- weighted tsvector (title > tags, category > description) and a single RPC,
+-- search_services(), that applies every FilterOptions field, ranks matches
+-- and pages with the same (value, id) keyset cursor as the services feed.
+
+-- ============================================================
+-- search_vector column
+-- ============================================================
+
+alter table public.services
+  add column if not exists search_vector tsvector;
+
+create or replace function public.build_service_search_vector(
+  p_title text,
+  p_description text,
+  p_tags text[],
+  p_category_id uuid
+)
+returns tsvector
+language sql
+stable
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(p_tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(
+      (select c.name from public.categories c where c.id = p_category_id), ''
+    )), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_description, '')), 'C');
+$$;
+
+create or replace function public.update_service_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := public.build_service_search_vector(
+    new.title, new.description, new.tags, new.category_id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists trigger_update_service_search_vector on public.services;
+create trigger trigger_update_service_search_vector
+  before insert or update of title, description, tags, category_id
+  on public.services
+  for each row execute function public.update_service_search_vector();
+
+-- Category names are part of the vector, so renaming one re-indexes its services
+create or replace function public.refresh_category_service_search_vectors()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.name is distinct from old.name then
+    update public.services
+       set search_vector = public.build_service_search_vector(
+         title, description, tags, category_id
+       )
+     where category_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trigger_refresh_category_search_vectors on public.categories;
+create trigger trigger_refresh_category_search_vectors
+  after update of name on public.categories
+  for each row execute function public.refresh_category_service_search_vectors();
+
+-- Backfill existing rows
+update public.services
+   set search_vector = public.build_service_search_vector(
+     title, description, tags, category_id
+   );
+
+create index if not exists idx_services_search_vector
+  on public.services using gin (search_vector);
+
+-- The feed's per-sort keyset indexes served the client's .order() queries.
+-- search_services orders by a CASE on the sort option, which the planner
+-- can't match to them, so they would only slow down writes.
+drop index if exists public.idx_services_active_created_at_id;
+drop index if exists public.idx_services_active_price_id;
+drop index if exists public.idx_services_active_rating_id;
+drop index if exists public.idx_services_active_price_desc_id;
+
+-- ============================================================
+-- Query parsing
+-- ============================================================
+
+-- Turns free user input into a prefix-matching AND query, e.g.
+-- "house (deep) clean," → 'hous':* & 'deep':* & 'clean':*
+-- Every word is split on non-alphanumerics and quoted, so commas,
+-- parentheses and tsquery operators in the input can never break the query.
+-- Returns NULL when the input contains no searchable words, stopwords
+-- such as "the" included.
+create or replace function public.build_service_search_query(p_query text)
+returns tsquery
+language sql
+immutable
+as $$
+  select case when numnode(q) > 0 then q end
+  from (
+    select to_tsquery(
+      'english',
+      string_agg(quote_literal(word) || ':*', ' & ')
+    ) as q
+    from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') as word
+    where word <> ''
+  ) parsed;
+$$;
+
+-- ============================================================
+-- search_services RPC
+-- ============================================================
+
+-- Returns one page of active services matching the filters, each with its
+-- category and provider profile embedded, in the order of p_sort_by:
+--   relevance   → ts_rank DESC (falls back to newest when p_query has no
+--                 searchable words; search_rank is then null)
+--   newest      → created_at DESC
+--   price_low   → price ASC NULLS LAST
+--   price_high  → price DESC NULLS LAST
+--   rating_high → rating DESC
+-- Ties are broken on id. Pass the last row's sort value and id as
+-- p_cursor_value / p_cursor_id to fetch the next page.
+create or replace function public.search_services(
+  p_query text default null,
+  p_category_id uuid default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_min_rating numeric default null,
+  p_location text default null,
+  p_sort_by text default 'newest',
+  p_cursor_value text default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 20
+)
+returns table (service jsonb, search_rank real)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_query tsquery := public.build_service_search_query(p_query);
+  v_sort text := coalesce(p_sort_by, 'newest');
+  v_location text := nullif(trim(coalesce(p_location, '')), '');
+begin
+  if v_sort not in ('relevance', 'newest', 'price_low', 'price_high', 'rating_high')
+     or (v_sort = 'relevance' and v_query is null) then
+    v_sort := 'newest';
+  end if;
+
+  -- Escape LIKE wildcards so the location is matched literally
+  if v_location is not null then
+    v_location := replace(replace(replace(v_location, '\', '\\'), '%', '\%'), '_', '\_');
+  end if;
+
+  return query
+  with matches as (
+    select
+      s.*,
+      case
+        when v_query is null then null::real
+        else ts_rank(s.search_vector, v_query)
+      end as rank
+    from public.services s
+    where s.status = 'active'
+      and (v_query is null or s.search_vector @@ v_query)
+      and (p_category_id is null or s.category_id = p_category_id)
+      and (p_min_price is null or s.price >= p_min_price)
+      and (p_max_price is null or s.price <= p_max_price)
+      and (p_min_rating is null or s.rating >= p_min_rating)
+      and (v_location is null or s.location ilike '%' || v_location || '%')
+  )
+  select
+    to_jsonb(m) - 'rank' - 'search_vector'
+      || jsonb_build_object(
+        'category', to_jsonb(c),
+        'profile', to_jsonb(p)
+      ),
+    m.rank
+  from matches m
+  left join public.categories c on c.id = m.category_id
+  left join public.profiles p on p.id = m.user_id
+  where p_cursor_id is null
+     or case v_sort
+          when 'relevance' then
+            (m.rank, m.id) < (p_cursor_value::real, p_cursor_id)
+          when 'price_low' then
+            case
+              when p_cursor_value is null then
+                m.price is null and m.id > p_cursor_id
+              else
+                m.price > p_cursor_value::numeric
+                or (m.price = p_cursor_value::numeric and m.id > p_cursor_id)
+                or m.price is null
+            end
+          when 'price_high' then
+            case
+              when p_cursor_value is null then
+                m.price is null and m.id < p_cursor_id
+              else
+                m.price < p_cursor_value::numeric
+                or (m.price = p_cursor_value::numeric and m.id < p_cursor_id)
+                or m.price is null
+            end
+          when 'rating_high' then
+            (m.rating, m.id) < (p_cursor_value::numeric, p_cursor_id)
+          else
+            (m.created_at, m.id) < (p_cursor_value::timestamptz, p_cursor_id)
+        end
+  order by
+    case when v_sort = 'relevance' then m.rank end desc,
+    case when v_sort = 'price_low' then m.price end asc nulls last,
+    case when v_sort = 'price_high' then m.price end desc nulls last,
+    case when v_sort = 'rating_high' then m.rating end desc,
+    case when v_sort = 'newest' then m.created_at end desc,
+    case when v_sort = 'price_low' then m.id end asc,
+    case when v_sort <> 'price_low' then m.id end desc
+  limit greatest(p_limit, 1);
+end;
+$$;
+
+grant execute on function public.search_services(
+  text, uuid, numeric, numeric, numeric, text, text, text, uuid, integer
+) to anon, authenticated;
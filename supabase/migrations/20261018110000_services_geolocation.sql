@@ -0,0 +1,207 @@
+-- Geocoded service locations and distance-based search.
+--
+-- services.location stays the human-readable address; latitude/longitude are
+-- captured alongside it by the create/edit form, and service_radius_km is how
+-- far the provider is willing to travel. search_services() gains a searcher
+-- origin, a max-distance filter, a "nearest" sort and returns distance_km.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+alter table public.services
+  add column if not exists latitude double precision
+    check (latitude between -90 and 90),
+  add column if not exists longitude double precision
+    check (longitude between -180 and 180),
+  add column if not exists service_radius_km numeric(6,2)
+    check (service_radius_km > 0);
+
+-- Coordinates are captured together or not at all
+alter table public.services
+  drop constraint if exists services_coordinates_pair;
+alter table public.services
+  add constraint services_coordinates_pair
+    check ((latitude is null) = (longitude is null));
+
+create index if not exists idx_services_active_coordinates
+  on public.services (latitude, longitude)
+  where status = 'active' and latitude is not null;
+
+-- ============================================================
+-- Great-circle distance
+-- ============================================================
+
+-- Haversine distance in kilometres. Returns NULL if either point is unknown.
+create or replace function public.distance_km(
+  p_lat1 double precision,
+  p_lng1 double precision,
+  p_lat2 double precision,
+  p_lng2 double precision
+)
+returns double precision
+language sql
+immutable
+as $$
+  select 2 * 6371 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) *
+    power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+-- ============================================================
+-- search_services RPC (adds origin, distance filter, nearest sort)
+-- ============================================================
+
+drop function if exists public.search_services(
+  text, uuid, numeric, numeric, numeric, text, text, text, uuid, integer
+);
+
+-- Returns one page of active services matching the filters, each with its
+-- category and provider profile embedded, in the order of p_sort_by:
+--   relevance   → ts_rank DESC (falls back to newest when p_query has no
+--                 searchable words; search_rank is then null)
+--   newest      → created_at DESC
+--   price_low   → price ASC NULLS LAST
+--   price_high  → price DESC NULLS LAST
+--   rating_high → rating DESC
+--   nearest     → distance_km ASC NULLS LAST (falls back to newest without
+--                 an origin)
+-- Ties are broken on id. Pass the last row's sort value and id as
+-- p_cursor_value / p_cursor_id to fetch the next page.
+--
+-- When p_max_distance_km is set, a service matches only if it is within
+-- that distance of the origin; the provider's travel radius doesn't widen it.
+-- Services without coordinates never match a distance filter.
+create or replace function public.search_services(
+  p_query text default null,
+  p_category_id uuid default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_min_rating numeric default null,
+  p_location text default null,
+  p_sort_by text default 'newest',
+  p_cursor_value text default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 20,
+  p_origin_lat double precision default null,
+  p_origin_lng double precision default null,
+  p_max_distance_km numeric default null
+)
+returns table (service jsonb, search_rank real, distance_km double precision)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_query tsquery := public.build_service_search_query(p_query);
+  v_sort text := coalesce(p_sort_by, 'newest');
+  v_location text := nullif(trim(coalesce(p_location, '')), '');
+  v_has_origin boolean := p_origin_lat is not null and p_origin_lng is not null;
+begin
+  if v_sort not in ('relevance', 'newest', 'price_low', 'price_high', 'rating_high', 'nearest')
+     or (v_sort = 'relevance' and v_query is null)
+     or (v_sort = 'nearest' and not v_has_origin) then
+    v_sort := 'newest';
+  end if;
+
+  -- Escape LIKE wildcards so the location is matched literally
+  if v_location is not null then
+    v_location := replace(replace(replace(v_location, '\', '\\'), '%', '\%'), '_', '\_');
+  end if;
+
+  return query
+  with matches as (
+    select
+      s.*,
+      case
+        when v_query is null then null::real
+        else ts_rank(s.search_vector, v_query)
+      end as rank,
+      case
+        when v_has_origin then
+          public.distance_km(p_origin_lat, p_origin_lng, s.latitude, s.longitude)
+      end as distance
+    from public.services s
+    where s.status = 'active'
+      and (v_query is null or s.search_vector @@ v_query)
+      and (p_category_id is null or s.category_id = p_category_id)
+      and (p_min_price is null or s.price >= p_min_price)
+      and (p_max_price is null or s.price <= p_max_price)
+      and (p_min_rating is null or s.rating >= p_min_rating)
+      and (v_location is null or s.location ilike '%' || v_location || '%')
+  )
+  select
+    to_jsonb(m) - 'rank' - 'distance' - 'search_vector'
+      || jsonb_build_object(
+        'category', to_jsonb(c),
+        'profile', to_jsonb(p),
+        'distance_km', m.distance
+      ),
+    m.rank,
+    m.distance
+  from matches m
+  left join public.categories c on c.id = m.category_id
+  left join public.profiles p on p.id = m.user_id
+  where (
+      p_max_distance_km is null
+      or not v_has_origin
+      or m.distance <= p_max_distance_km
+    )
+    and (
+      p_cursor_id is null
+      or case v_sort
+           when 'relevance' then
+             (m.rank, m.id) < (p_cursor_value::real, p_cursor_id)
+           when 'price_low' then
+             case
+               when p_cursor_value is null then
+                 m.price is null and m.id > p_cursor_id
+               else
+                 m.price > p_cursor_value::numeric
+                 or (m.price = p_cursor_value::numeric and m.id > p_cursor_id)
+                 or m.price is null
+             end
+           when 'price_high' then
+             case
+               when p_cursor_value is null then
+                 m.price is null and m.id < p_cursor_id
+               else
+                 m.price < p_cursor_value::numeric
+                 or (m.price = p_cursor_value::numeric and m.id < p_cursor_id)
+                 or m.price is null
+             end
+           when 'nearest' then
+             case
+               when p_cursor_value is null then
+                 m.distance is null and m.id > p_cursor_id
+               else
+                 m.distance > p_cursor_value::double precision
+                 or (m.distance = p_cursor_value::double precision and m.id > p_cursor_id)
+                 or m.distance is null
+             end
+           when 'rating_high' then
+             (m.rating, m.id) < (p_cursor_value::numeric, p_cursor_id)
+           else
+             (m.created_at, m.id) < (p_cursor_value::timestamptz, p_cursor_id)
+         end
+    )
+  order by
+    case when v_sort = 'relevance' then m.rank end desc,
+    case when v_sort = 'price_low' then m.price end asc nulls last,
+    case when v_sort = 'price_high' then m.price end desc nulls last,
+    case when v_sort = 'nearest' then m.distance end asc nulls last,
+    case when v_sort = 'rating_high' then m.rating end desc,
+    case when v_sort = 'newest' then m.created_at end desc,
+    case when v_sort in ('price_low', 'nearest') then m.id end asc,
+    case when v_sort not in ('price_low', 'nearest') then m.id end desc
+  limit greatest(p_limit, 1);
+end;
+$$;
+
+grant execute on function public.search_services(
+  text, uuid, numeric, numeric, numeric, text, text, text, uuid, integer,
+  double precision, double precision, numeric
+) to anon, authenticated;
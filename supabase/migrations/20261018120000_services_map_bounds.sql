@@ -0,0 +1,181 @@
+-- Map viewport filter for search_services().
+--
+-- The services map shows pins for the current search/filter result inside
+-- the visible region and re-queries as the user pans or zooms, so the RPC
+-- gains optional latitude/longitude bounds. Everything else is unchanged.
+
+drop function if exists public.search_services(
+  text, uuid, numeric, numeric, numeric, text, text, text, uuid, integer,
+  double precision, double precision, numeric
+);
+
+-- Returns one page of active services matching the filters, each with its
+-- category and provider profile embedded, in the order of p_sort_by:
+--   relevance   → ts_rank DESC (falls back to newest when p_query has no
+--                 searchable words; search_rank is then null)
+--   newest      → created_at DESC
+--   price_low   → price ASC NULLS LAST
+--   price_high  → price DESC NULLS LAST
+--   rating_high → rating DESC
+--   nearest     → distance_km ASC NULLS LAST (falls back to newest without
+--                 an origin)
+-- Ties are broken on id. Pass the last row's sort value and id as
+-- p_cursor_value / p_cursor_id to fetch the next page.
+--
+-- When p_max_distance_km is set, a service matches only if it is within
+-- that distance of the origin; the provider's travel radius doesn't widen it.
+-- Services without coordinates never match a distance filter.
+--
+-- p_min_lat / p_max_lat / p_min_lng / p_max_lng restrict results to a map
+-- viewport (services without coordinates are excluded). A viewport that
+-- crosses the antimeridian is passed with p_min_lng > p_max_lng.
+create or replace function public.search_services(
+  p_query text default null,
+  p_category_id uuid default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_min_rating numeric default null,
+  p_location text default null,
+  p_sort_by text default 'newest',
+  p_cursor_value text default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 20,
+  p_origin_lat double precision default null,
+  p_origin_lng double precision default null,
+  p_max_distance_km numeric default null,
+  p_min_lat double precision default null,
+  p_max_lat double precision default null,
+  p_min_lng double precision default null,
+  p_max_lng double precision default null
+)
+returns table (service jsonb, search_rank real, distance_km double precision)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_query tsquery := public.build_service_search_query(p_query);
+  v_sort text := coalesce(p_sort_by, 'newest');
+  v_location text := nullif(trim(coalesce(p_location, '')), '');
+  v_has_origin boolean := p_origin_lat is not null and p_origin_lng is not null;
+  v_has_bounds boolean := p_min_lat is not null and p_max_lat is not null
+    and p_min_lng is not null and p_max_lng is not null;
+begin
+  if v_sort not in ('relevance', 'newest', 'price_low', 'price_high', 'rating_high', 'nearest')
+     or (v_sort = 'relevance' and v_query is null)
+     or (v_sort = 'nearest' and not v_has_origin) then
+    v_sort := 'newest';
+  end if;
+
+  -- Escape LIKE wildcards so the location is matched literally
+  if v_location is not null then
+    v_location := replace(replace(replace(v_location, '\', '\\'), '%', '\%'), '_', '\_');
+  end if;
+
+  return query
+  with matches as (
+    select
+      s.*,
+      case
+        when v_query is null then null::real
+        else ts_rank(s.search_vector, v_query)
+      end as rank,
+      case
+        when v_has_origin then
+          public.distance_km(p_origin_lat, p_origin_lng, s.latitude, s.longitude)
+      end as distance
+    from public.services s
+    where s.status = 'active'
+      and (v_query is null or s.search_vector @@ v_query)
+      and (p_category_id is null or s.category_id = p_category_id)
+      and (p_min_price is null or s.price >= p_min_price)
+      and (p_max_price is null or s.price <= p_max_price)
+      and (p_min_rating is null or s.rating >= p_min_rating)
+      and (v_location is null or s.location ilike '%' || v_location || '%')
+      and (
+        not v_has_bounds
+        or (
+          s.latitude between p_min_lat and p_max_lat
+          and case
+                when p_min_lng <= p_max_lng then
+                  s.longitude between p_min_lng and p_max_lng
+                else
+                  s.longitude >= p_min_lng or s.longitude <= p_max_lng
+              end
+        )
+      )
+  )
+  select
+    to_jsonb(m) - 'rank' - 'distance' - 'search_vector'
+      || jsonb_build_object(
+        'category', to_jsonb(c),
+        'profile', to_jsonb(p),
+        'distance_km', m.distance
+      ),
+    m.rank,
+    m.distance
+  from matches m
+  left join public.categories c on c.id = m.category_id
+  left join public.profiles p on p.id = m.user_id
+  where (
+      p_max_distance_km is null
+      or not v_has_origin
+      or m.distance <= p_max_distance_km
+    )
+    and (
+      p_cursor_id is null
+      or case v_sort
+           when 'relevance' then
+             (m.rank, m.id) < (p_cursor_value::real, p_cursor_id)
+           when 'price_low' then
+             case
+               when p_cursor_value is null then
+                 m.price is null and m.id > p_cursor_id
+               else
+                 m.price > p_cursor_value::numeric
+                 or (m.price = p_cursor_value::numeric and m.id > p_cursor_id)
+                 or m.price is null
+             end
+           when 'price_high' then
+             case
+               when p_cursor_value is null then
+                 m.price is null and m.id < p_cursor_id
+               else
+                 m.price < p_cursor_value::numeric
+                 or (m.price = p_cursor_value::numeric and m.id < p_cursor_id)
+                 or m.price is null
+             end
+           when 'nearest' then
+             case
+               when p_cursor_value is null then
+                 m.distance is null and m.id > p_cursor_id
+               else
+                 m.distance > p_cursor_value::double precision
+                 or (m.distance = p_cursor_value::double precision and m.id > p_cursor_id)
+                 or m.distance is null
+             end
+           when 'rating_high' then
+             (m.rating, m.id) < (p_cursor_value::numeric, p_cursor_id)
+           else
+             (m.created_at, m.id) < (p_cursor_value::timestamptz, p_cursor_id)
+         end
+    )
+  order by
+    case when v_sort = 'relevance' then m.rank end desc,
+    case when v_sort = 'price_low' then m.price end asc nulls last,
+    case when v_sort = 'price_high' then m.price end desc nulls last,
+    case when v_sort = 'nearest' then m.distance end asc nulls last,
+    case when v_sort = 'rating_high' then m.rating end desc,
+    case when v_sort = 'newest' then m.created_at end desc,
+    case when v_sort in ('price_low', 'nearest') then m.id end asc,
+    case when v_sort not in ('price_low', 'nearest') then m.id end desc
+  limit greatest(p_limit, 1);
+end;
+$$;
+
+grant execute on function public.search_services(
+  text, uuid, numeric, numeric, numeric, text, text, text, uuid, integer,
+  double precision, double precision, numeric,
+  double precision, double precision, double precision, double precision
+) to anon, authenticated;
@@ -0,0 +1,127 @@
+-- Multi-image galleries for service listings.
+--
+-- service_images holds an ordered gallery per service; position 0 is the
+-- cover. services.image_url is kept as a denormalised copy of the cover so
+-- cards, search results, conversations and the map keep working unchanged.
+
+-- ============================================================
+-- Table
+-- ============================================================
+
+create table if not exists public.service_images (
+  id uuid primary key default gen_random_uuid(),
+  service_id uuid not null references public.services(id) on delete cascade,
+  url text not null check (length(trim(url)) > 0),
+  position integer not null check (position >= 0),
+  created_at timestamptz default now(),
+  unique (service_id, position) deferrable initially immediate
+);
+
+create index if not exists idx_service_images_service
+  on public.service_images (service_id, position);
+
+-- ============================================================
+-- RLS — readable with the service, writable by its owner
+-- ============================================================
+
+alter table public.service_images enable row level security;
+
+drop policy if exists "Service images are viewable with their service" on public.service_images;
+create policy "Service images are viewable with their service"
+  on public.service_images for select
+  using (
+    exists (
+      select 1 from public.services s
+      where s.id = service_images.service_id
+        and (s.status = 'active' or s.user_id = auth.uid())
+    )
+  );
+
+drop policy if exists "Owners can add service images" on public.service_images;
+create policy "Owners can add service images"
+  on public.service_images for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.services s
+      where s.id = service_images.service_id and s.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Owners can update service images" on public.service_images;
+create policy "Owners can update service images"
+  on public.service_images for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.services s
+      where s.id = service_images.service_id and s.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Owners can delete service images" on public.service_images;
+create policy "Owners can delete service images"
+  on public.service_images for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from public.services s
+      where s.id = service_images.service_id and s.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================
+-- Migrate existing single images
+-- ============================================================
+
+insert into public.service_images (service_id, url, position)
+select s.id, s.image_url, 0
+from public.services s
+where s.image_url is not null
+  and trim(s.image_url) <> ''
+  and not exists (
+    select 1 from public.service_images i where i.service_id = s.id
+  );
+
+-- ============================================================
+-- set_service_images RPC
+-- ============================================================
+
+-- Replaces a service's gallery with p_urls in order (first = cover) and
+-- syncs services.image_url, atomically. Only the service owner may call it.
+create or replace function public.set_service_images(
+  p_service_id uuid,
+  p_urls text[]
+)
+returns setof public.service_images
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.services
+    where id = p_service_id and user_id = auth.uid()
+  ) then
+    raise exception 'Service not found or not owned by current user'
+      using errcode = '42501';
+  end if;
+
+  delete from public.service_images where service_id = p_service_id;
+
+  insert into public.service_images (service_id, url, position)
+  select p_service_id, u.url, u.ord - 1
+  from unnest(coalesce(p_urls, '{}')) with ordinality as u(url, ord);
+
+  update public.services
+     set image_url = p_urls[1]
+   where id = p_service_id;
+
+  return query
+    select * from public.service_images
+    where service_id = p_service_id
+    order by position;
+end;
+$$;
+
+grant execute on function public.set_service_images(uuid, text[]) to authenticated;
@@ -0,0 +1,362 @@
+-- Service packages and pricing tiers.
+--
+-- A service can offer several named packages (e.g. Basic / Standard /
+-- Premium), each with its own price, unit and list of deliverables.
+-- services.price is kept as the service's starting price — the cheapest
+-- package when it has any — so cards, "Price: Low to High" and keyset
+-- cursors keep working on a single column. "Price: High to Low" sorts on
+-- the dearest package instead, so that it agrees with the price filter.
+
+-- ============================================================
+-- Table
+-- ============================================================
+
+create table if not exists public.service_packages (
+  id uuid primary key default gen_random_uuid(),
+  service_id uuid not null references public.services(id) on delete cascade,
+  name text not null check (length(trim(name)) between 1 and 60),
+  price numeric(10,2) not null check (price >= 0),
+  unit text not null default 'fixed'
+    check (unit in ('fixed', 'hour', 'session', 'sqm')),
+  deliverables text[] not null default '{}',
+  position integer not null check (position >= 0),
+  created_at timestamptz default now(),
+  unique (service_id, position) deferrable initially immediate
+);
+
+create index if not exists idx_service_packages_service
+  on public.service_packages (service_id, position);
+
+create index if not exists idx_service_packages_price
+  on public.service_packages (service_id, price);
+
+-- ============================================================
+-- RLS — readable with the service, writable by its owner
+-- ============================================================
+
+alter table public.service_packages enable row level security;
+
+drop policy if exists "Service packages are viewable with their service" on public.service_packages;
+create policy "Service packages are viewable with their service"
+  on public.service_packages for select
+  using (
+    exists (
+      select 1 from public.services s
+      where s.id = service_packages.service_id
+        and (s.status = 'active' or s.user_id = auth.uid())
+    )
+  );
+
+drop policy if exists "Owners can add service packages" on public.service_packages;
+create policy "Owners can add service packages"
+  on public.service_packages for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.services s
+      where s.id = service_packages.service_id and s.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Owners can update service packages" on public.service_packages;
+create policy "Owners can update service packages"
+  on public.service_packages for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.services s
+      where s.id = service_packages.service_id and s.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Owners can delete service packages" on public.service_packages;
+create policy "Owners can delete service packages"
+  on public.service_packages for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from public.services s
+      where s.id = service_packages.service_id and s.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================
+-- set_service_packages RPC
+-- ============================================================
+
+-- Replaces a service's packages with p_packages in order, atomically.
+-- p_packages is a JSON array of {name, price, unit, deliverables}. When at
+-- least one package is given, services.price is set to the cheapest one;
+-- with none the service keeps its single base price. Owner only.
+create or replace function public.set_service_packages(
+  p_service_id uuid,
+  p_packages jsonb
+)
+returns setof public.service_packages
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.services
+    where id = p_service_id and user_id = auth.uid()
+  ) then
+    raise exception 'Service not found or not owned by current user'
+      using errcode = '42501';
+  end if;
+
+  delete from public.service_packages where service_id = p_service_id;
+
+  insert into public.service_packages (
+    service_id, name, price, unit, deliverables, position
+  )
+  select
+    p_service_id,
+    trim(e.pkg->>'name'),
+    (e.pkg->>'price')::numeric,
+    coalesce(e.pkg->>'unit', 'fixed'),
+    array(
+      select trim(d)
+      from jsonb_array_elements_text(coalesce(e.pkg->'deliverables', '[]'::jsonb)) as d
+      where trim(d) <> ''
+    ),
+    e.ord - 1
+  from jsonb_array_elements(coalesce(p_packages, '[]'::jsonb)) with ordinality as e(pkg, ord);
+
+  update public.services s
+     set price = pk.min_price
+    from (
+      select min(sp.price) as min_price
+      from public.service_packages sp
+      where sp.service_id = p_service_id
+    ) pk
+   where s.id = p_service_id
+     and pk.min_price is not null;
+
+  return query
+    select * from public.service_packages
+    where service_id = p_service_id
+    order by position;
+end;
+$$;
+
+grant execute on function public.set_service_packages(uuid, jsonb) to authenticated;
+
+-- ============================================================
+-- search_services — package-aware price filter
+-- ============================================================
+
+-- Same signature as before; the price filter and price_high sort change and
+-- each result now embeds its packages and max_price.
+
+drop function if exists public.search_services(
+  text, uuid, numeric, numeric, numeric, text, text, text, uuid, integer,
+  double precision, double precision, numeric,
+  double precision, double precision, double precision, double precision
+);
+
+-- Returns one page of active services matching the filters, each with its
+-- category, provider profile and packages embedded, in the order of p_sort_by:
+--   relevance   → ts_rank DESC (falls back to newest when p_query has no
+--                 searchable words; search_rank is then null)
+--   newest      → created_at DESC
+--   price_low   → price ASC NULLS LAST
+--   price_high  → max_price DESC NULLS LAST
+--   rating_high → rating DESC
+--   nearest     → distance_km ASC NULLS LAST (falls back to newest without
+--                 an origin)
+-- Ties are broken on id. Pass the last row's sort value and id as
+-- p_cursor_value / p_cursor_id to fetch the next page.
+--
+-- When p_max_distance_km is set, a service matches only if it is within
+-- that distance of the origin; the provider's travel radius doesn't widen it.
+-- Services without coordinates never match a distance filter.
+--
+-- p_min_price / p_max_price match a service when any of its packages is
+-- priced within the range; services without packages use their base price.
+-- Each result carries max_price, its dearest package price (the base price
+-- without packages), which price_high sorts and pages on.
+--
+-- p_min_lat / p_max_lat / p_min_lng / p_max_lng restrict results to a map
+-- viewport (services without coordinates are excluded). A viewport that
+-- crosses the antimeridian is passed with p_min_lng > p_max_lng.
+create or replace function public.search_services(
+  p_query text default null,
+  p_category_id uuid default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_min_rating numeric default null,
+  p_location text default null,
+  p_sort_by text default 'newest',
+  p_cursor_value text default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 20,
+  p_origin_lat double precision default null,
+  p_origin_lng double precision default null,
+  p_max_distance_km numeric default null,
+  p_min_lat double precision default null,
+  p_max_lat double precision default null,
+  p_min_lng double precision default null,
+  p_max_lng double precision default null
+)
+returns table (service jsonb, search_rank real, distance_km double precision)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_query tsquery := public.build_service_search_query(p_query);
+  v_sort text := coalesce(p_sort_by, 'newest');
+  v_location text := nullif(trim(coalesce(p_location, '')), '');
+  v_has_origin boolean := p_origin_lat is not null and p_origin_lng is not null;
+  v_has_bounds boolean := p_min_lat is not null and p_max_lat is not null
+    and p_min_lng is not null and p_max_lng is not null;
+begin
+  if v_sort not in ('relevance', 'newest', 'price_low', 'price_high', 'rating_high', 'nearest')
+     or (v_sort = 'relevance' and v_query is null)
+     or (v_sort = 'nearest' and not v_has_origin) then
+    v_sort := 'newest';
+  end if;
+
+  -- Escape LIKE wildcards so the location is matched literally
+  if v_location is not null then
+    v_location := replace(replace(replace(v_location, '\', '\\'), '%', '\%'), '_', '\_');
+  end if;
+
+  return query
+  with matches as (
+    select
+      s.*,
+      case
+        when v_query is null then null::real
+        else ts_rank(s.search_vector, v_query)
+      end as rank,
+      case
+        when v_has_origin then
+          public.distance_km(p_origin_lat, p_origin_lng, s.latitude, s.longitude)
+      end as distance,
+      coalesce(
+        (
+          select max(sp.price) from public.service_packages sp
+          where sp.service_id = s.id
+        ),
+        s.price
+      ) as max_price
+    from public.services s
+    where s.status = 'active'
+      and (v_query is null or s.search_vector @@ v_query)
+      and (p_category_id is null or s.category_id = p_category_id)
+      and (
+        (p_min_price is null and p_max_price is null)
+        or exists (
+          select 1 from public.service_packages sp
+          where sp.service_id = s.id
+            and sp.price >= coalesce(p_min_price, sp.price)
+            and sp.price <= coalesce(p_max_price, sp.price)
+        )
+        or (
+          not exists (
+            select 1 from public.service_packages sp where sp.service_id = s.id
+          )
+          and s.price >= coalesce(p_min_price, s.price)
+          and s.price <= coalesce(p_max_price, s.price)
+        )
+      )
+      and (p_min_rating is null or s.rating >= p_min_rating)
+      and (v_location is null or s.location ilike '%' || v_location || '%')
+      and (
+        not v_has_bounds
+        or (
+          s.latitude between p_min_lat and p_max_lat
+          and case
+                when p_min_lng <= p_max_lng then
+                  s.longitude between p_min_lng and p_max_lng
+                else
+                  s.longitude >= p_min_lng or s.longitude <= p_max_lng
+              end
+        )
+      )
+  )
+  select
+    to_jsonb(m) - 'rank' - 'distance' - 'search_vector'
+      || jsonb_build_object(
+        'category', to_jsonb(c),
+        'profile', to_jsonb(p),
+        'distance_km', m.distance,
+        'packages', coalesce(
+          (
+            select jsonb_agg(to_jsonb(sp) order by sp.position)
+            from public.service_packages sp
+            where sp.service_id = m.id
+          ),
+          '[]'::jsonb
+        )
+      ),
+    m.rank,
+    m.distance
+  from matches m
+  left join public.categories c on c.id = m.category_id
+  left join public.profiles p on p.id = m.user_id
+  where (
+      p_max_distance_km is null
+      or not v_has_origin
+      or m.distance <= p_max_distance_km
+    )
+    and (
+      p_cursor_id is null
+      or case v_sort
+           when 'relevance' then
+             (m.rank, m.id) < (p_cursor_value::real, p_cursor_id)
+           when 'price_low' then
+             case
+               when p_cursor_value is null then
+                 m.price is null and m.id > p_cursor_id
+               else
+                 m.price > p_cursor_value::numeric
+                 or (m.price = p_cursor_value::numeric and m.id > p_cursor_id)
+                 or m.price is null
+             end
+           when 'price_high' then
+             case
+               when p_cursor_value is null then
+                 m.max_price is null and m.id < p_cursor_id
+               else
+                 m.max_price < p_cursor_value::numeric
+                 or (m.max_price = p_cursor_value::numeric and m.id < p_cursor_id)
+                 or m.max_price is null
+             end
+           when 'nearest' then
+             case
+               when p_cursor_value is null then
+                 m.distance is null and m.id > p_cursor_id
+               else
+                 m.distance > p_cursor_value::double precision
+                 or (m.distance = p_cursor_value::double precision and m.id > p_cursor_id)
+                 or m.distance is null
+             end
+           when 'rating_high' then
+             (m.rating, m.id) < (p_cursor_value::numeric, p_cursor_id)
+           else
+             (m.created_at, m.id) < (p_cursor_value::timestamptz, p_cursor_id)
+         end
+    )
+  order by
+    case when v_sort = 'relevance' then m.rank end desc,
+    case when v_sort = 'price_low' then m.price end asc nulls last,
+    case when v_sort = 'price_high' then m.max_price end desc nulls last,
+    case when v_sort = 'nearest' then m.distance end asc nulls last,
+    case when v_sort = 'rating_high' then m.rating end desc,
+    case when v_sort = 'newest' then m.created_at end desc,
+    case when v_sort in ('price_low', 'nearest') then m.id end asc,
+    case when v_sort not in ('price_low', 'nearest') then m.id end desc
+  limit greatest(p_limit, 1);
+end;
+$$;
+
+grant execute on function public.search_services(
+  text, uuid, numeric, numeric, numeric, text, text, text, uuid, integer,
+  double precision, double precision, numeric,
+  double precision, double precision, double precision, double precision
+) to anon, authenticated;
@@ -0,0 +1,204 @@
+-- Bookings: a buyer requests a service, the provider accepts or declines,
+-- schedules it and finally marks it completed. Either side can cancel while
+-- the booking is still open.
+--
+--   requested → accepted | declined | cancelled
+--   accepted  → scheduled | cancelled
+--   scheduled → scheduled (reschedule) | completed | cancelled
+--
+-- Transitions are enforced by a trigger, so clients update bookings with a
+-- plain UPDATE and cannot skip states or act for the other party.
+
+-- ============================================================
+-- Table
+-- ============================================================
+
+create table if not exists public.bookings (
+  id uuid primary key default gen_random_uuid(),
+  service_id uuid not null references public.services(id) on delete cascade,
+  buyer_id uuid not null references public.profiles(id) on delete cascade,
+  provider_id uuid not null references public.profiles(id) on delete cascade,
+  -- Snapshot of the chosen package, so later price edits don't rewrite history
+  package_id uuid references public.service_packages(id) on delete set null,
+  package_name text,
+  price numeric(10,2) check (price is null or price >= 0),
+  requested_start timestamptz,
+  scheduled_at timestamptz,
+  notes text check (notes is null or length(notes) <= 1000),
+  status text not null default 'requested'
+    check (status in ('requested', 'accepted', 'declined', 'scheduled', 'completed', 'cancelled')),
+  status_reason text check (status_reason is null or length(status_reason) <= 500),
+  cancelled_by uuid references public.profiles(id) on delete set null,
+  status_changed_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (buyer_id <> provider_id),
+  check (status <> 'scheduled' or scheduled_at is not null)
+);
+
+create index if not exists idx_bookings_buyer
+  on public.bookings (buyer_id, created_at desc);
+
+create index if not exists idx_bookings_provider
+  on public.bookings (provider_id, status, created_at desc);
+
+create index if not exists idx_bookings_service
+  on public.bookings (service_id);
+
+-- ============================================================
+-- Price snapshot
+-- ============================================================
+
+-- The package name and price are copied from the chosen package (or the
+-- service's own price when there is none); whatever the client sent is
+-- ignored.
+create or replace function public.set_booking_price()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.package_id is not null then
+    select sp.name, sp.price into new.package_name, new.price
+    from public.service_packages sp
+    where sp.id = new.package_id
+      and sp.service_id = new.service_id;
+
+    if not found then
+      raise exception 'Package does not belong to this service'
+        using errcode = '22023';
+    end if;
+  else
+    new.package_name := null;
+    select s.price into new.price
+    from public.services s
+    where s.id = new.service_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists set_booking_price on public.bookings;
+create trigger set_booking_price
+  before insert on public.bookings
+  for each row execute function public.set_booking_price();
+
+-- ============================================================
+-- Transition rules
+-- ============================================================
+
+create or replace function public.validate_booking_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_is_provider boolean := v_actor = old.provider_id;
+  v_is_buyer boolean := v_actor = old.buyer_id;
+begin
+  if new.service_id is distinct from old.service_id
+     or new.buyer_id is distinct from old.buyer_id
+     or new.provider_id is distinct from old.provider_id
+     or new.package_id is distinct from old.package_id
+     or new.package_name is distinct from old.package_name
+     or new.price is distinct from old.price
+     or new.requested_start is distinct from old.requested_start
+     or new.notes is distinct from old.notes
+     or new.created_at is distinct from old.created_at then
+    raise exception 'Only the status and schedule of a booking can change'
+      using errcode = '42501';
+  end if;
+
+  if new.status = old.status and new.status <> 'scheduled' then
+    if new.scheduled_at is distinct from old.scheduled_at then
+      raise exception 'Booking must be scheduled to set a time'
+        using errcode = '22023';
+    end if;
+    if new.status_reason is distinct from old.status_reason
+       or new.cancelled_by is distinct from old.cancelled_by
+       or new.status_changed_at is distinct from old.status_changed_at then
+      raise exception 'The status details of a booking only change with its status'
+        using errcode = '42501';
+    end if;
+    new.updated_at := now();
+    return new;
+  end if;
+
+  if not (
+    -- Provider decisions
+    (v_is_provider and old.status = 'requested' and new.status in ('accepted', 'declined'))
+    or (v_is_provider and old.status in ('accepted', 'scheduled') and new.status = 'scheduled')
+    or (v_is_provider and old.status = 'scheduled' and new.status = 'completed')
+    -- Either party can call off an open booking
+    or ((v_is_provider or v_is_buyer)
+        and old.status in ('requested', 'accepted', 'scheduled')
+        and new.status = 'cancelled')
+  ) then
+    raise exception 'Invalid booking transition from % to %', old.status, new.status
+      using errcode = '42501';
+  end if;
+
+  if new.status = 'scheduled' and new.scheduled_at is null then
+    raise exception 'A scheduled booking needs a time'
+      using errcode = '22023';
+  end if;
+
+  -- Never taken from the client
+  new.cancelled_by := case when new.status = 'cancelled' then v_actor end;
+
+  new.status_changed_at := now();
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists validate_booking_update on public.bookings;
+create trigger validate_booking_update
+  before update on public.bookings
+  for each row execute function public.validate_booking_update();
+
+-- ============================================================
+-- RLS — visible to and updatable by the two parties only
+-- ============================================================
+
+alter table public.bookings enable row level security;
+
+drop policy if exists "Booking parties can view bookings" on public.bookings;
+create policy "Booking parties can view bookings"
+  on public.bookings for select
+  to authenticated
+  using (auth.uid() in (buyer_id, provider_id));
+
+-- New bookings must come from the buyer, for an active service of someone
+-- else, addressed to that service's owner, and start as 'requested'.
+drop policy if exists "Buyers can request bookings" on public.bookings;
+create policy "Buyers can request bookings"
+  on public.bookings for insert
+  to authenticated
+  with check (
+    buyer_id = auth.uid()
+    and status = 'requested'
+    and scheduled_at is null
+    and exists (
+      select 1 from public.services s
+      where s.id = bookings.service_id
+        and s.user_id = bookings.provider_id
+        and s.status = 'active'
+    )
+    and (
+      package_id is null
+      or exists (
+        select 1 from public.service_packages sp
+        where sp.id = bookings.package_id
+          and sp.service_id = bookings.service_id
+      )
+    )
+  );
+
+drop policy if exists "Booking parties can update bookings" on public.bookings;
+create policy "Booking parties can update bookings"
+  on public.bookings for update
+  to authenticated
+  using (auth.uid() in (buyer_id, provider_id));
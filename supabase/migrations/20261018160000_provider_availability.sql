@@ -0,0 +1,417 @@
+-- Provider availability: weekly working hours, blackout dates and a slot
+-- length per service. Buyers book from the free slots returned by
+-- get_available_slots, and an exclusion constraint keeps two open bookings
+-- of the same provider from overlapping.
+--
+-- Working hours are wall-clock times in the provider's own timezone
+-- (profiles.timezone, default Asia/Manila); slots and bookings are stored
+-- as timestamptz.
+
+create extension if not exists btree_gist;
+
+-- ============================================================
+-- Provider timezone
+-- ============================================================
+
+create or replace function public.is_valid_timezone(p_timezone text)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (select 1 from pg_timezone_names where name = p_timezone);
+$$;
+
+alter table public.profiles
+  add column if not exists timezone text not null default 'Asia/Manila';
+
+alter table public.profiles
+  drop constraint if exists profiles_timezone_valid;
+alter table public.profiles
+  add constraint profiles_timezone_valid check (public.is_valid_timezone(timezone));
+
+-- ============================================================
+-- Weekly working hours — one range per weekday
+-- ============================================================
+
+create table if not exists public.provider_working_hours (
+  id uuid primary key default gen_random_uuid(),
+  provider_id uuid not null references public.profiles(id) on delete cascade,
+  -- 0 = Sunday … 6 = Saturday, as in extract(dow) and Date.getDay()
+  weekday smallint not null check (weekday between 0 and 6),
+  start_time time not null,
+  end_time time not null,
+  created_at timestamptz default now(),
+  check (end_time > start_time),
+  unique (provider_id, weekday)
+);
+
+-- ============================================================
+-- Blackout dates — whole local days the provider is unavailable
+-- ============================================================
+
+create table if not exists public.provider_blackout_dates (
+  id uuid primary key default gen_random_uuid(),
+  provider_id uuid not null references public.profiles(id) on delete cascade,
+  starts_on date not null,
+  ends_on date not null,
+  reason text check (reason is null or length(reason) <= 200),
+  created_at timestamptz default now(),
+  check (ends_on >= starts_on)
+);
+
+create index if not exists idx_provider_blackout_dates_provider
+  on public.provider_blackout_dates (provider_id, ends_on);
+
+-- ============================================================
+-- Slot duration per service
+-- ============================================================
+
+alter table public.services
+  add column if not exists slot_duration_minutes integer not null default 60
+    check (slot_duration_minutes between 15 and 720);
+
+-- ============================================================
+-- Booking slots and overlap protection
+-- ============================================================
+
+-- duration_minutes is copied from the service when the booking is made;
+-- slot_start/slot_end are derived from the scheduled time, or the buyer's
+-- requested start until the provider schedules it.
+alter table public.bookings
+  add column if not exists duration_minutes integer not null default 60
+    check (duration_minutes between 15 and 720),
+  add column if not exists slot_start timestamptz,
+  add column if not exists slot_end timestamptz;
+
+-- Backfill existing bookings without running them through the transition
+-- rules meant for client updates.
+alter table public.bookings disable trigger validate_booking_update;
+
+update public.bookings b
+set duration_minutes = s.slot_duration_minutes,
+    slot_start = coalesce(b.scheduled_at, b.requested_start),
+    slot_end = coalesce(b.scheduled_at, b.requested_start)
+      + make_interval(mins => s.slot_duration_minutes)
+from public.services s
+where s.id = b.service_id;
+
+alter table public.bookings enable trigger validate_booking_update;
+
+-- An open booking holds its slot. Declined, cancelled and completed ones
+-- free it up again.
+alter table public.bookings
+  drop constraint if exists bookings_no_overlap;
+alter table public.bookings
+  add constraint bookings_no_overlap
+  exclude using gist (
+    provider_id with =,
+    tstzrange(slot_start, slot_end) with &&
+  )
+  where (slot_start is not null and status in ('requested', 'accepted', 'scheduled'));
+
+create index if not exists idx_bookings_provider_slot
+  on public.bookings (provider_id, slot_start)
+  where slot_start is not null;
+
+-- True when [p_start, p_end) falls on an open, non-blacked-out day inside
+-- the provider's working hours. Providers who haven't set any hours accept
+-- any time outside their blackout dates.
+create or replace function public.fits_provider_availability(
+  p_provider_id uuid,
+  p_start timestamptz,
+  p_end timestamptz
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with local_slot as (
+    select
+      p_start at time zone p.timezone as starts_at,
+      p_end at time zone p.timezone as ends_at
+    from public.profiles p
+    where p.id = p_provider_id
+  )
+  select
+    not exists (
+      select 1
+      from public.provider_blackout_dates b, local_slot ls
+      where b.provider_id = p_provider_id
+        and ls.starts_at::date between b.starts_on and b.ends_on
+    )
+    and (
+      not exists (
+        select 1 from public.provider_working_hours
+        where provider_id = p_provider_id
+      )
+      or exists (
+        select 1
+        from public.provider_working_hours wh, local_slot ls
+        where wh.provider_id = p_provider_id
+          and wh.weekday = extract(dow from ls.starts_at)
+          and ls.starts_at >= ls.starts_at::date + wh.start_time
+          and ls.ends_at <= ls.starts_at::date + wh.end_time
+      )
+    );
+$$;
+
+create or replace function public.set_booking_slot()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    select slot_duration_minutes into new.duration_minutes
+    from public.services
+    where id = new.service_id;
+
+    -- Buyers can only ask for a future time the provider is open
+    if new.requested_start is not null then
+      if new.requested_start <= now() then
+        raise exception 'Requested start must be in the future'
+          using errcode = '22023';
+      end if;
+      if not public.fits_provider_availability(
+        new.provider_id,
+        new.requested_start,
+        new.requested_start + make_interval(mins => new.duration_minutes)
+      ) then
+        raise exception 'The provider is not available at the requested time'
+          using errcode = '22023';
+      end if;
+    end if;
+  end if;
+
+  new.slot_start := coalesce(new.scheduled_at, new.requested_start);
+  new.slot_end := new.slot_start + make_interval(mins => new.duration_minutes);
+  return new;
+end;
+$$;
+
+-- Fires before validate_booking_update (triggers run in name order), which
+-- rejects any client change to duration_minutes.
+drop trigger if exists set_booking_slot on public.bookings;
+create trigger set_booking_slot
+  before insert or update on public.bookings
+  for each row execute function public.set_booking_slot();
+
+create or replace function public.validate_booking_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_is_provider boolean := v_actor = old.provider_id;
+  v_is_buyer boolean := v_actor = old.buyer_id;
+begin
+  if new.service_id is distinct from old.service_id
+     or new.buyer_id is distinct from old.buyer_id
+     or new.provider_id is distinct from old.provider_id
+     or new.package_id is distinct from old.package_id
+     or new.package_name is distinct from old.package_name
+     or new.price is distinct from old.price
+     or new.requested_start is distinct from old.requested_start
+     or new.duration_minutes is distinct from old.duration_minutes
+     or new.notes is distinct from old.notes
+     or new.created_at is distinct from old.created_at then
+    raise exception 'Only the status and schedule of a booking can change'
+      using errcode = '42501';
+  end if;
+
+  if new.status = old.status and new.status <> 'scheduled' then
+    if new.scheduled_at is distinct from old.scheduled_at then
+      raise exception 'Booking must be scheduled to set a time'
+        using errcode = '22023';
+    end if;
+    if new.status_reason is distinct from old.status_reason
+       or new.cancelled_by is distinct from old.cancelled_by
+       or new.status_changed_at is distinct from old.status_changed_at then
+      raise exception 'The status details of a booking only change with its status'
+        using errcode = '42501';
+    end if;
+    new.updated_at := now();
+    return new;
+  end if;
+
+  if not (
+    -- Provider decisions
+    (v_is_provider and old.status = 'requested' and new.status in ('accepted', 'declined'))
+    or (v_is_provider and old.status in ('accepted', 'scheduled') and new.status = 'scheduled')
+    or (v_is_provider and old.status = 'scheduled' and new.status = 'completed')
+    -- Either party can call off an open booking
+    or ((v_is_provider or v_is_buyer)
+        and old.status in ('requested', 'accepted', 'scheduled')
+        and new.status = 'cancelled')
+  ) then
+    raise exception 'Invalid booking transition from % to %', old.status, new.status
+      using errcode = '42501';
+  end if;
+
+  if new.status = 'scheduled' and new.scheduled_at is null then
+    raise exception 'A scheduled booking needs a time'
+      using errcode = '22023';
+  end if;
+
+  -- Never taken from the client
+  new.cancelled_by := case when new.status = 'cancelled' then v_actor end;
+
+  new.status_changed_at := now();
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+-- ============================================================
+-- RLS — working hours are public, blackouts private to the provider
+-- ============================================================
+
+alter table public.provider_working_hours enable row level security;
+
+drop policy if exists "Working hours are viewable by everyone" on public.provider_working_hours;
+create policy "Working hours are viewable by everyone"
+  on public.provider_working_hours for select
+  using (true);
+
+drop policy if exists "Providers can manage their working hours" on public.provider_working_hours;
+create policy "Providers can manage their working hours"
+  on public.provider_working_hours for all
+  to authenticated
+  using (provider_id = auth.uid())
+  with check (provider_id = auth.uid());
+
+alter table public.provider_blackout_dates enable row level security;
+
+drop policy if exists "Providers can manage their blackout dates" on public.provider_blackout_dates;
+create policy "Providers can manage their blackout dates"
+  on public.provider_blackout_dates for all
+  to authenticated
+  using (provider_id = auth.uid())
+  with check (provider_id = auth.uid());
+
+-- ============================================================
+-- set_provider_availability RPC
+-- ============================================================
+
+-- Sets the current user's timezone and replaces their weekly hours with
+-- p_hours, a JSON array of {weekday, start_time, end_time}. Pass an empty
+-- array to stop offering fixed hours.
+create or replace function public.set_provider_availability(
+  p_timezone text,
+  p_hours jsonb
+)
+returns setof public.provider_working_hours
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if not public.is_valid_timezone(p_timezone) then
+    raise exception 'Unknown timezone %', p_timezone using errcode = '22023';
+  end if;
+
+  update public.profiles set timezone = p_timezone where id = v_user;
+
+  delete from public.provider_working_hours where provider_id = v_user;
+
+  insert into public.provider_working_hours (provider_id, weekday, start_time, end_time)
+  select
+    v_user,
+    (h->>'weekday')::smallint,
+    (h->>'start_time')::time,
+    (h->>'end_time')::time
+  from jsonb_array_elements(coalesce(p_hours, '[]'::jsonb)) as h;
+
+  return query
+    select * from public.provider_working_hours
+    where provider_id = v_user
+    order by weekday;
+end;
+$$;
+
+-- ============================================================
+-- get_available_slots RPC
+-- ============================================================
+
+-- Free slots of a service between two dates (inclusive), read as local
+-- dates in the provider's timezone. Slots start at the beginning of each
+-- day's working hours and step by the service's slot duration; blackout
+-- days, past times and slots overlapping an open booking are left out.
+-- Security definer so buyers can see which times are taken without seeing
+-- other people's bookings.
+create or replace function public.get_available_slots(
+  p_service_id uuid,
+  p_from date,
+  p_to date
+)
+returns table (slot_start timestamptz, slot_end timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_provider uuid;
+  v_duration interval;
+  v_timezone text;
+begin
+  if p_to < p_from or p_to - p_from > 62 then
+    raise exception 'Slot range must cover at most 62 days'
+      using errcode = '22023';
+  end if;
+
+  select s.user_id, make_interval(mins => s.slot_duration_minutes), p.timezone
+    into v_provider, v_duration, v_timezone
+  from public.services s
+  join public.profiles p on p.id = s.user_id
+  where s.id = p_service_id and s.status = 'active';
+
+  if not found then
+    return;
+  end if;
+
+  return query
+  with days as (
+    select d::date as day
+    from generate_series(p_from::timestamp, p_to::timestamp, interval '1 day') as d
+  ),
+  candidates as (
+    select (local_start at time zone v_timezone) as starts_at
+    from days
+    join public.provider_working_hours wh
+      on wh.provider_id = v_provider
+     and wh.weekday = extract(dow from days.day)
+    cross join lateral generate_series(
+      days.day + wh.start_time,
+      days.day + wh.end_time - v_duration,
+      v_duration
+    ) as local_start
+    where not exists (
+      select 1 from public.provider_blackout_dates b
+      where b.provider_id = v_provider
+        and days.day between b.starts_on and b.ends_on
+    )
+  )
+  select c.starts_at, c.starts_at + v_duration
+  from candidates c
+  where c.starts_at > now()
+    and not exists (
+      select 1 from public.bookings bk
+      where bk.provider_id = v_provider
+        and bk.slot_start is not null
+        and bk.status in ('requested', 'accepted', 'scheduled')
+        and tstzrange(bk.slot_start, bk.slot_end) && tstzrange(c.starts_at, c.starts_at + v_duration)
+    )
+  order by c.starts_at;
+end;
+$$;
@@ -0,0 +1,123 @@
+-- Review eligibility based on completed engagements.
+--
+-- Sending a single chat message used to be enough to leave a rating. A
+-- buyer can now review a service only once they have a completed
+-- engagement with it: a booking the provider marked completed, or a
+-- conversation the provider marked "job done". Reviews written this way
+-- carry verified_hire, shown as a "Verified hire" badge.
+
+-- ============================================================
+-- "Job done" on conversations
+-- ============================================================
+
+alter table public.conversations
+  add column if not exists job_completed_at timestamptz;
+
+-- Marks the job discussed in a conversation as done. Seller only, and only
+-- for a conversation about a service (reviews are per service); calling it
+-- again keeps the original time.
+create or replace function public.mark_conversation_job_done(
+  p_conversation_id uuid
+)
+returns public.conversations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation public.conversations;
+begin
+  select * into v_conversation
+  from public.conversations
+  where id = p_conversation_id
+    and seller_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Conversation not found or not sold by current user'
+      using errcode = '42501';
+  end if;
+
+  if v_conversation.service_id is null then
+    raise exception 'Conversation is not about a service'
+      using errcode = '22023';
+  end if;
+
+  update public.conversations
+  set job_completed_at = coalesce(job_completed_at, now())
+  where id = p_conversation_id
+  returning * into v_conversation;
+
+  return v_conversation;
+end;
+$$;
+
+-- ============================================================
+-- Eligibility
+-- ============================================================
+
+create or replace function public.can_user_review_service(
+  p_user_id uuid,
+  p_service_id uuid
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+      select 1 from public.bookings
+      where buyer_id = p_user_id
+        and service_id = p_service_id
+        and status = 'completed'
+    )
+    or exists (
+      select 1 from public.conversations
+      where buyer_id = p_user_id
+        and service_id = p_service_id
+        and job_completed_at is not null
+    );
+$$;
+
+-- ============================================================
+-- Verified hire flag
+-- ============================================================
+
+alter table public.reviews
+  add column if not exists verified_hire boolean not null default false;
+
+-- Reviews written before this change stay, unverified unless the author
+-- already has a completed engagement.
+update public.reviews r
+set verified_hire = public.can_user_review_service(r.user_id, r.service_id)
+where not r.verified_hire;
+
+create index if not exists idx_reviews_service_verified
+  on public.reviews (service_id, verified_hire, created_at desc);
+
+-- New reviews need a completed engagement and are always verified; the
+-- flag can't be changed afterwards.
+create or replace function public.enforce_review_eligibility()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if not public.can_user_review_service(new.user_id, new.service_id) then
+      raise exception 'Reviews require a completed engagement with this service'
+        using errcode = '42501';
+    end if;
+    new.verified_hire := true;
+  else
+    new.verified_hire := old.verified_hire;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_review_eligibility on public.reviews;
+create trigger enforce_review_eligibility
+  before insert or update on public.reviews
+  for each row execute function public.enforce_review_eligibility();
@@ -0,0 +1,200 @@
+-- Saved services with named collections.
+--
+-- Buyers can save services from the grid or the detail screen and group
+-- them into collections. A saved service that its provider deactivates or
+-- deletes stays in the list and is shown as unavailable, so reads go
+-- through get_saved_services (services RLS hides non-active rows). When a
+-- saved service gets cheaper, everyone who saved it gets a price_drop
+-- notification.
+
+-- ============================================================
+-- Tables
+-- ============================================================
+
+create table if not exists public.saved_collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 60),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists saved_collections_user_name_key
+  on public.saved_collections (user_id, lower(btrim(name)));
+
+create table if not exists public.saved_services (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  service_id uuid not null references public.services (id) on delete cascade,
+  collection_id uuid references public.saved_collections (id) on delete set null,
+  saved_price numeric, -- Service price when it was saved
+  created_at timestamptz not null default now(),
+  unique (user_id, service_id)
+);
+
+create index if not exists idx_saved_services_user_created
+  on public.saved_services (user_id, created_at desc);
+
+create index if not exists idx_saved_services_service
+  on public.saved_services (service_id);
+
+-- ============================================================
+-- Row level security
+-- ============================================================
+
+alter table public.saved_collections enable row level security;
+alter table public.saved_services enable row level security;
+
+drop policy if exists "Users manage their own collections" on public.saved_collections;
+create policy "Users manage their own collections"
+  on public.saved_collections for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users read their own saved services" on public.saved_services;
+create policy "Users read their own saved services"
+  on public.saved_services for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users save services into their own collections" on public.saved_services;
+create policy "Users save services into their own collections"
+  on public.saved_services for insert
+  with check (
+    user_id = auth.uid()
+    and (
+      collection_id is null
+      or exists (
+        select 1 from public.saved_collections c
+        where c.id = collection_id and c.user_id = auth.uid()
+      )
+    )
+  );
+
+drop policy if exists "Users move saved services between their own collections" on public.saved_services;
+create policy "Users move saved services between their own collections"
+  on public.saved_services for update
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and (
+      collection_id is null
+      or exists (
+        select 1 from public.saved_collections c
+        where c.id = collection_id and c.user_id = auth.uid()
+      )
+    )
+  );
+
+drop policy if exists "Users remove their own saved services" on public.saved_services;
+create policy "Users remove their own saved services"
+  on public.saved_services for delete
+  using (user_id = auth.uid());
+
+-- Records the price at save time; the service must be active to be saved.
+create or replace function public.set_saved_service_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select s.price into new.saved_price
+  from public.services s
+  where s.id = new.service_id and s.status = 'active';
+
+  if not found then
+    raise exception 'Service not found or no longer available'
+      using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists set_saved_service_price on public.saved_services;
+create trigger set_saved_service_price
+  before insert on public.saved_services
+  for each row execute function public.set_saved_service_price();
+
+-- ============================================================
+-- Reading saved services
+-- ============================================================
+
+-- The current user's saved services, newest first, with the service's
+-- current details whatever its status.
+create or replace function public.get_saved_services()
+returns table (
+  id uuid,
+  service_id uuid,
+  collection_id uuid,
+  saved_price numeric,
+  created_at timestamptz,
+  title text,
+  image_url text,
+  price numeric,
+  rating numeric,
+  review_count integer,
+  status text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    ss.id,
+    ss.service_id,
+    ss.collection_id,
+    ss.saved_price,
+    ss.created_at,
+    s.title,
+    s.image_url,
+    s.price::numeric,
+    s.rating::numeric,
+    s.review_count::integer,
+    s.status::text
+  from public.saved_services ss
+  join public.services s on s.id = ss.service_id
+  where ss.user_id = auth.uid()
+  order by ss.created_at desc;
+$$;
+
+-- ============================================================
+-- Price drop alerts
+-- ============================================================
+
+create or replace function public.notify_saved_service_price_drop()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status <> 'active'
+    or old.price is null
+    or new.price is null
+    or new.price >= old.price then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, type, title, body, data)
+  select
+    ss.user_id,
+    'price_drop',
+    'Price drop on a saved service',
+    format('%s is now ₱%s (was ₱%s)',
+      new.title,
+      rtrim(to_char(new.price, 'FM999,999,990.##'), '.'),
+      rtrim(to_char(old.price, 'FM999,999,990.##'), '.')),
+    jsonb_build_object('service_id', new.id)
+  from public.saved_services ss
+  where ss.service_id = new.id
+    and ss.user_id <> new.user_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists notify_saved_service_price_drop on public.services;
+create trigger notify_saved_service_price_drop
+  after update of price on public.services
+  for each row execute function public.notify_saved_service_price_drop();
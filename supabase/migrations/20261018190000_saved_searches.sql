@@ -0,0 +1,235 @@
+-- Saved searches with new-match alerts.
+--
+-- Users can save a search query plus its filters under a name and be
+-- alerted about newly published services that match it, either right away
+-- or as one daily digest. Matching runs search_services with the saved
+-- parameters, so an alert lists exactly what the search screen would show.
+
+-- ============================================================
+-- Table
+-- ============================================================
+
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 60),
+  query text,
+  category_id uuid references public.categories (id) on delete set null,
+  min_price numeric,
+  max_price numeric,
+  min_rating numeric,
+  location text,
+  origin_lat double precision,
+  origin_lng double precision,
+  max_distance_km numeric,
+  sort_by text not null default 'newest'
+    check (sort_by in ('relevance', 'newest', 'price_low', 'price_high', 'rating_high', 'nearest')),
+  alert_frequency text not null default 'daily'
+    check (alert_frequency in ('off', 'immediate', 'daily')),
+  -- Services published after this have not been alerted yet
+  last_alerted_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_saved_searches_user
+  on public.saved_searches (user_id, created_at desc);
+
+create index if not exists idx_saved_searches_alerts
+  on public.saved_searches (alert_frequency, last_alerted_at)
+  where alert_frequency <> 'off';
+
+alter table public.saved_searches enable row level security;
+
+drop policy if exists "Users manage their own saved searches" on public.saved_searches;
+create policy "Users manage their own saved searches"
+  on public.saved_searches for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Turning alerts back on starts from now rather than replaying everything
+-- published while they were off.
+create or replace function public.reset_saved_search_alerts()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if old.alert_frequency = 'off' and new.alert_frequency <> 'off' then
+    new.last_alerted_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists reset_saved_search_alerts on public.saved_searches;
+create trigger reset_saved_search_alerts
+  before update of alert_frequency on public.saved_searches
+  for each row execute function public.reset_saved_search_alerts();
+
+-- ============================================================
+-- Matching
+-- ============================================================
+
+-- Services matching a saved search that were published after p_since,
+-- newest first, leaving out the searcher's own services. At most p_limit
+-- of the newest matches are considered.
+create or replace function public.saved_search_matches(
+  p_search public.saved_searches,
+  p_since timestamptz,
+  p_limit integer default 20
+)
+returns table (service_id uuid, title text, created_at timestamptz)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    (r.service->>'id')::uuid,
+    r.service->>'title',
+    (r.service->>'created_at')::timestamptz
+  from public.search_services(
+    p_query => p_search.query,
+    p_category_id => p_search.category_id,
+    p_min_price => p_search.min_price,
+    p_max_price => p_search.max_price,
+    p_min_rating => p_search.min_rating,
+    p_location => p_search.location,
+    p_sort_by => 'newest',
+    p_limit => p_limit,
+    p_origin_lat => p_search.origin_lat,
+    p_origin_lng => p_search.origin_lng,
+    p_max_distance_km => p_search.max_distance_km
+  ) r
+  where (r.service->>'created_at')::timestamptz > p_since
+    and (r.service->>'user_id')::uuid <> p_search.user_id;
+$$;
+
+-- ============================================================
+-- Immediate alerts
+-- ============================================================
+
+-- Notifies "immediate" saved searches when a matching service is published,
+-- either created active or switched back to active from inactive.
+create or replace function public.notify_saved_search_matches()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_search public.saved_searches;
+begin
+  if new.status <> 'active'
+     or (tg_op = 'UPDATE' and old.status = 'active') then
+    return new;
+  end if;
+
+  for v_search in
+    select * from public.saved_searches ss
+    where ss.alert_frequency = 'immediate'
+      and ss.user_id <> new.user_id
+      and (ss.category_id is null or ss.category_id = new.category_id)
+  loop
+    if exists (
+      select 1
+      from public.saved_search_matches(v_search, new.created_at - interval '1 second') m
+      where m.service_id = new.id
+    ) then
+      insert into public.notifications (user_id, type, title, body, data)
+      values (
+        v_search.user_id,
+        'saved_search_match',
+        format('New match for "%s"', v_search.name),
+        new.title,
+        jsonb_build_object(
+          'service_id', new.id,
+          'saved_search_id', v_search.id
+        )
+      );
+
+      update public.saved_searches
+      set last_alerted_at = now()
+      where id = v_search.id;
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists notify_saved_search_matches on public.services;
+create trigger notify_saved_search_matches
+  after insert or update of status on public.services
+  for each row execute function public.notify_saved_search_matches();
+
+-- ============================================================
+-- Daily digest
+-- ============================================================
+
+-- Sends one notification per "daily" saved search that has new matches
+-- since its last alert. Meant to run once a day; returns the number of
+-- digests sent.
+create or replace function public.send_saved_search_digests()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_search public.saved_searches;
+  v_count integer;
+  v_latest text;
+  v_sent integer := 0;
+begin
+  for v_search in
+    select * from public.saved_searches
+    where alert_frequency = 'daily'
+      and last_alerted_at <= now() - interval '23 hours'
+  loop
+    select count(*), (array_agg(m.title order by m.created_at desc))[1]
+    into v_count, v_latest
+    from public.saved_search_matches(v_search, v_search.last_alerted_at) m;
+
+    if v_count > 0 then
+      insert into public.notifications (user_id, type, title, body, data)
+      values (
+        v_search.user_id,
+        'saved_search_match',
+        format('%s new %s for "%s"',
+          case when v_count >= 20 then '20+' else v_count::text end,
+          case when v_count = 1 then 'match' else 'matches' end,
+          v_search.name),
+        case
+          when v_count = 1 then v_latest
+          else format('%s and more', v_latest)
+        end,
+        jsonb_build_object('saved_search_id', v_search.id)
+      );
+      v_sent := v_sent + 1;
+    end if;
+
+    update public.saved_searches
+    set last_alerted_at = now()
+    where id = v_search.id;
+  end loop;
+
+  return v_sent;
+end;
+$$;
+
+revoke execute on function public.send_saved_search_digests() from public, anon, authenticated;
+
+-- Schedule the digest when pg_cron is available; otherwise call
+-- send_saved_search_digests() from an external daily job.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'saved-search-digests',
+      '0 0 * * *',
+      'select public.send_saved_search_digests()'
+    );
+  end if;
+end;
+$$;
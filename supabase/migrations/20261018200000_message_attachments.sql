@@ -0,0 +1,103 @@
+-- Structured message attachments.
+--
+-- Images used to be sent as a message whose content was "[image]:<url>",
+-- which allowed no caption, a single image per message, no other file
+-- types, and let anyone fake an image by typing the prefix. Messages now
+-- carry a typed attachments array and content is an optional caption.
+--
+-- Each attachment is a JSON object:
+--   kind           'image' | 'video' | 'file'
+--   url            public http(s) URL of the uploaded file
+--   mime           MIME type, e.g. 'image/jpeg' (nullable)
+--   size           size in bytes (nullable)
+--   width, height  pixel dimensions of images and videos (nullable)
+--   thumbnail_url  smaller preview image (nullable)
+--   name           original file name, shown for files (nullable)
+
+-- ============================================================
+-- Column
+-- ============================================================
+
+alter table public.messages
+  add column if not exists attachments jsonb not null default '[]'::jsonb;
+
+-- Content used to be required; a message with attachments may now have
+-- none. validate_message_attachments checks the rest.
+alter table public.messages
+  drop constraint if exists messages_content_check;
+alter table public.messages
+  add constraint messages_content_check
+  check (length(trim(content)) > 0 or jsonb_array_length(attachments) > 0);
+
+-- ============================================================
+-- Migrate "[image]:" messages
+-- ============================================================
+
+-- Only prefixed messages pointing at the chat-images bucket were real
+-- uploads; anything else stays as the text the user typed.
+update public.messages
+set attachments = jsonb_build_array(
+      jsonb_build_object(
+        'kind', 'image',
+        'url', substr(content, length('[image]:') + 1),
+        'mime', null,
+        'size', null,
+        'width', null,
+        'height', null,
+        'thumbnail_url', null,
+        'name', null
+      )
+    ),
+    content = ''
+where content ~ '^\[image\]:https?://\S+/storage/v1/object/public/chat-images/\S+$'
+  and attachments = '[]'::jsonb;
+
+-- ============================================================
+-- Validation
+-- ============================================================
+
+-- A message needs text or at least one attachment; attachments must be
+-- well-formed, stored in the chat-images bucket and at most 10 per message.
+create or replace function public.validate_message_attachments()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if jsonb_typeof(new.attachments) is distinct from 'array' then
+    raise exception 'Attachments must be an array' using errcode = '22023';
+  end if;
+
+  if jsonb_array_length(new.attachments) > 10 then
+    raise exception 'A message can have at most 10 attachments'
+      using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(new.attachments) a
+    where jsonb_typeof(a) <> 'object'
+      or coalesce(a->>'kind', '') not in ('image', 'video', 'file')
+      or coalesce(a->>'url', '') !~ '^https?://\S+/storage/v1/object/public/chat-images/\S+$'
+      or (a ? 'thumbnail_url' and a->>'thumbnail_url' is not null
+          and a->>'thumbnail_url' !~ '^https?://\S+/storage/v1/object/public/chat-images/\S+$')
+      or (a->>'size' is not null and jsonb_typeof(a->'size') <> 'number')
+      or (a->>'width' is not null and jsonb_typeof(a->'width') <> 'number')
+      or (a->>'height' is not null and jsonb_typeof(a->'height') <> 'number')
+  ) then
+    raise exception 'Invalid message attachment' using errcode = '22023';
+  end if;
+
+  if btrim(coalesce(new.content, '')) = ''
+    and jsonb_array_length(new.attachments) = 0 then
+    raise exception 'Message is empty' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists validate_message_attachments on public.messages;
+create trigger validate_message_attachments
+  before insert or update of content, attachments on public.messages
+  for each row execute function public.validate_message_attachments();
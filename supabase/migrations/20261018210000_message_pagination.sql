@@ -0,0 +1,8 @@
+-- Cursor pagination of messages.
+--
+-- Chats load newest first, a page at a time, keyed on (created_at, id) of
+-- the oldest message already shown. This index serves both the first page
+-- and every older page without sorting the whole conversation.
+
+create index if not exists messages_conversation_created_at_idx
+  on public.messages (conversation_id, created_at desc, id desc);
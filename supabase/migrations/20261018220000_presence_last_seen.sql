@@ -0,0 +1,168 @@
+-- Last-seen times for chat presence.
+--
+-- Who is online right now comes from Realtime presence: each user tracks
+-- themselves on their own private channel, "presence:<user id>", which
+-- only their conversation partners can join. This stores when each user
+-- was last active so the chat header can show "Last seen …" once they
+-- leave. Users can hide both with profiles.show_last_seen. Times live in
+-- their own table, readable only through get_last_seen, because profiles
+-- are public.
+--
+-- Typing indicators go over a private broadcast channel per conversation,
+-- "typing:<conversation id>", which only its two participants can join.
+
+-- ============================================================
+-- Privacy setting
+-- ============================================================
+
+alter table public.profiles
+  add column if not exists show_last_seen boolean not null default true;
+
+-- ============================================================
+-- Last seen
+-- ============================================================
+
+create table if not exists public.user_last_seen (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  last_seen_at timestamptz not null default now()
+);
+
+alter table public.user_last_seen enable row level security;
+
+drop policy if exists "Users can read their own last seen" on public.user_last_seen;
+create policy "Users can read their own last seen"
+  on public.user_last_seen for select
+  using (user_id = auth.uid());
+
+-- Records that the current user is active now
+create or replace function public.touch_last_seen()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.user_last_seen (user_id, last_seen_at)
+  values (auth.uid(), now())
+  on conflict (user_id) do update set last_seen_at = excluded.last_seen_at;
+$$;
+
+-- Last-seen times of the given users, limited to people the current user
+-- has a conversation with. last_seen_at is null for users who hide it.
+create or replace function public.get_last_seen(p_user_ids uuid[])
+returns table (
+  user_id uuid,
+  last_seen_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.id,
+    case when p.show_last_seen then ls.last_seen_at end
+  from public.profiles p
+  left join public.user_last_seen ls on ls.user_id = p.id
+  where p.id = any (p_user_ids)
+    and exists (
+      select 1
+      from public.conversations c
+      where (c.buyer_id = auth.uid() and c.seller_id = p.id)
+         or (c.seller_id = auth.uid() and c.buyer_id = p.id)
+    );
+$$;
+
+-- ============================================================
+-- Online presence channels
+-- ============================================================
+
+-- Whether the current user may see if the user with this ID (as text, from
+-- a channel topic) is online: themselves, or someone they have a
+-- conversation with who doesn't hide it
+create or replace function public.can_see_presence(p_user_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_user_id = auth.uid()::text
+    or exists (
+      select 1
+      from public.profiles p
+      join public.conversations c
+        on (c.buyer_id = auth.uid() and c.seller_id = p.id)
+        or (c.seller_id = auth.uid() and c.buyer_id = p.id)
+      where p.id::text = p_user_id
+        and p.show_last_seen
+    );
+$$;
+
+drop policy if exists "Users can see their partners' presence"
+  on realtime.messages;
+create policy "Users can see their partners' presence"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'presence'
+    and realtime.topic() like 'presence:%'
+    and public.can_see_presence(substr(realtime.topic(), length('presence:') + 1))
+  );
+
+-- Users only track themselves, on their own channel
+drop policy if exists "Users can track their own presence"
+  on realtime.messages;
+create policy "Users can track their own presence"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'presence'
+    and realtime.topic() = 'presence:' || auth.uid()::text
+  );
+
+-- ============================================================
+-- Typing channels
+-- ============================================================
+
+-- Whether the current user takes part in the conversation with this ID (as
+-- text, from a channel topic)
+create or replace function public.can_join_typing(p_conversation_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.conversations c
+    where c.id::text = p_conversation_id
+      and auth.uid() in (c.buyer_id, c.seller_id)
+  );
+$$;
+
+drop policy if exists "Participants can receive typing broadcasts"
+  on realtime.messages;
+create policy "Participants can receive typing broadcasts"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'broadcast'
+    and realtime.topic() like 'typing:%'
+    and public.can_join_typing(substr(realtime.topic(), length('typing:') + 1))
+  );
+
+drop policy if exists "Participants can send typing broadcasts"
+  on realtime.messages;
+create policy "Participants can send typing broadcasts"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'broadcast'
+    and realtime.topic() like 'typing:%'
+    and public.can_join_typing(substr(realtime.topic(), length('typing:') + 1))
+  );
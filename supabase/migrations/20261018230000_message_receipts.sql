@@ -0,0 +1,82 @@
+-- Per-message delivery and read receipts.
+--
+-- messages.is_read was a single flag flipped for a whole conversation at
+-- once. Each message now records when it reached the recipient's device
+-- (delivered_at) and when they actually saw it on screen (read_at).
+-- is_read is kept in step with read_at so unread counts keep working.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+alter table public.messages
+  add column if not exists delivered_at timestamptz,
+  add column if not exists read_at timestamptz;
+
+-- The real times of past reads are unknown; the send time is the closest
+-- honest value
+update public.messages
+set read_at = created_at,
+    delivered_at = created_at
+where is_read
+  and read_at is null;
+
+create or replace function public.sync_message_is_read()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.is_read := new.read_at is not null;
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_message_is_read on public.messages;
+create trigger sync_message_is_read
+  before insert or update of read_at on public.messages
+  for each row execute function public.sync_message_is_read();
+
+-- ============================================================
+-- Receipts
+-- ============================================================
+
+-- Marks messages sent to the current user as delivered. Without ids, marks
+-- everything they have received so far (e.g. when the app opens).
+create or replace function public.mark_messages_delivered(
+  p_message_ids uuid[] default null
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.messages m
+  set delivered_at = now()
+  from public.conversations c
+  where c.id = m.conversation_id
+    and auth.uid() in (c.buyer_id, c.seller_id)
+    and m.sender_id <> auth.uid()
+    and m.delivered_at is null
+    and (p_message_ids is null or m.id = any (p_message_ids));
+$$;
+
+-- Marks messages the current user has seen on screen as read. Only
+-- messages from the other participant are affected; the first read time
+-- is kept.
+create or replace function public.mark_messages_read(p_message_ids uuid[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.messages m
+  set read_at = now(),
+      delivered_at = coalesce(m.delivered_at, now())
+  from public.conversations c
+  where c.id = m.conversation_id
+    and auth.uid() in (c.buyer_id, c.seller_id)
+    and m.sender_id <> auth.uid()
+    and m.read_at is null
+    and m.id = any (p_message_ids);
+$$;
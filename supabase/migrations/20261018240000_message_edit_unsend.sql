@@ -0,0 +1,160 @@
+-- Editing and unsending messages.
+--
+-- Senders can fix the text of a message for 15 minutes after sending it
+-- (edited_at marks it as edited), and can unsend a message at any time,
+-- which clears its text and attachments and leaves a "message removed"
+-- tombstone (deleted_at). Both are plain updates of the row, checked by
+-- validate_message_update, so they reach the other participant through
+-- the UPDATE realtime event.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+alter table public.messages
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+-- ============================================================
+-- Content check — tombstones are empty on purpose
+-- ============================================================
+
+alter table public.messages
+  drop constraint if exists messages_content_check;
+alter table public.messages
+  add constraint messages_content_check
+  check (
+    length(trim(content)) > 0
+    or jsonb_array_length(attachments) > 0
+    or deleted_at is not null
+  );
+
+-- ============================================================
+-- Attachment validation — tombstones are empty on purpose
+-- ============================================================
+
+create or replace function public.validate_message_attachments()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if jsonb_typeof(new.attachments) is distinct from 'array' then
+    raise exception 'Attachments must be an array' using errcode = '22023';
+  end if;
+
+  if jsonb_array_length(new.attachments) > 10 then
+    raise exception 'A message can have at most 10 attachments'
+      using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(new.attachments) a
+    where jsonb_typeof(a) <> 'object'
+      or coalesce(a->>'kind', '') not in ('image', 'video', 'file')
+      or coalesce(a->>'url', '') !~ '^https?://\S+/storage/v1/object/public/chat-images/\S+$'
+      or (a ? 'thumbnail_url' and a->>'thumbnail_url' is not null
+          and a->>'thumbnail_url' !~ '^https?://\S+/storage/v1/object/public/chat-images/\S+$')
+      or (a->>'size' is not null and jsonb_typeof(a->'size') <> 'number')
+      or (a->>'width' is not null and jsonb_typeof(a->'width') <> 'number')
+      or (a->>'height' is not null and jsonb_typeof(a->'height') <> 'number')
+  ) then
+    raise exception 'Invalid message attachment' using errcode = '22023';
+  end if;
+
+  if new.deleted_at is null
+    and btrim(coalesce(new.content, '')) = ''
+    and jsonb_array_length(new.attachments) = 0 then
+    raise exception 'Message is empty' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- ============================================================
+-- Update rules
+-- ============================================================
+
+-- Only the sender may edit or unsend, and only the recipient may set
+-- receipts; neither may change any other column. Fires before
+-- validate_message_attachments (triggers run in name order: "guard" <
+-- "validate"), so an unsend is already emptied when the attachments are
+-- checked.
+create or replace function public.guard_message_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_allowed text[];
+begin
+  if new.conversation_id is distinct from old.conversation_id
+     or new.sender_id is distinct from old.sender_id
+     or new.created_at is distinct from old.created_at then
+    raise exception 'A message cannot be moved or re-attributed'
+      using errcode = '42501';
+  end if;
+
+  -- Server-side maintenance (no signed-in user) is not restricted
+  if v_actor is null then
+    return new;
+  end if;
+
+  -- is_read follows read_at (sync_message_is_read)
+  if v_actor = old.sender_id then
+    v_allowed := array['content', 'attachments', 'edited_at', 'deleted_at'];
+  else
+    v_allowed := array['delivered_at', 'read_at', 'is_read'];
+  end if;
+
+  if (to_jsonb(new) - v_allowed) is distinct from (to_jsonb(old) - v_allowed) then
+    if v_actor = old.sender_id then
+      raise exception 'The sender can only edit or unsend a message'
+        using errcode = '42501';
+    end if;
+    raise exception 'The recipient can only acknowledge a message'
+      using errcode = '42501';
+  end if;
+
+  if new.content is not distinct from old.content
+     and new.attachments is not distinct from old.attachments
+     and new.deleted_at is not distinct from old.deleted_at then
+    new.edited_at := old.edited_at;
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'This message was removed' using errcode = '22023';
+  end if;
+
+  -- Unsend: keep the row as a tombstone
+  if new.deleted_at is not null then
+    new.content := '';
+    new.attachments := '[]'::jsonb;
+    new.deleted_at := now();
+    new.edited_at := old.edited_at;
+    return new;
+  end if;
+
+  -- Edit: text only, within the window
+  if new.attachments is distinct from old.attachments then
+    raise exception 'Attachments cannot be edited' using errcode = '22023';
+  end if;
+
+  if now() > old.created_at + interval '15 minutes' then
+    raise exception 'Messages can only be edited within 15 minutes'
+      using errcode = '22023';
+  end if;
+
+  new.edited_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_message_update on public.messages;
+create trigger guard_message_update
+  before update on public.messages
+  for each row execute function public.guard_message_update();
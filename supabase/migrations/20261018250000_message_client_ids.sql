@@ -0,0 +1,14 @@
+-- Client-generated message IDs.
+--
+-- The app queues outgoing messages in an on-device outbox and resends them
+-- after a lost connection or a restart. Each queued message carries a
+-- client_id generated on the device; the unique index makes a resend of a
+-- message that did reach the server fail with 23505 instead of creating a
+-- duplicate, and the app then uses the stored row. Realtime inserts carry
+-- client_id too, so the sender's queued copy is matched exactly.
+
+alter table public.messages
+  add column if not exists client_id uuid;
+
+create unique index if not exists messages_sender_client_id_key
+  on public.messages (sender_id, client_id);
@@ -0,0 +1,102 @@
+-- Conversation list and unread badge in one query each.
+--
+-- fetchConversations used to run two extra queries per conversation (last
+-- message and unread count), and the badge refetched the whole list on
+-- every incoming message. get_conversations returns each conversation
+-- with its service, both profiles, last message and unread count;
+-- get_unread_message_count returns just the badge total.
+
+create index if not exists idx_messages_unread
+  on public.messages (conversation_id, sender_id)
+  where read_at is null;
+
+-- ============================================================
+-- Conversation list
+-- ============================================================
+
+-- The current user's conversations, most recently active first, shaped
+-- like ConversationWithDetails. Runs with the caller's rights, so RLS
+-- applies to every joined table.
+create or replace function public.get_conversations()
+returns setof jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select
+    to_jsonb(c)
+    || jsonb_build_object(
+      'service', to_jsonb(s),
+      'buyer_profile', to_jsonb(bp),
+      'seller_profile', to_jsonb(sp),
+      'last_message', to_jsonb(lm),
+      'unread_count', coalesce(u.unread_count, 0)
+    )
+  from public.conversations c
+  left join public.services s on s.id = c.service_id
+  left join public.profiles bp on bp.id = c.buyer_id
+  left join public.profiles sp on sp.id = c.seller_id
+  left join lateral (
+    select m.*
+    from public.messages m
+    where m.conversation_id = c.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) lm on true
+  left join lateral (
+    select count(*)::integer as unread_count
+    from public.messages m
+    where m.conversation_id = c.id
+      and m.read_at is null
+      and m.sender_id <> auth.uid()
+  ) u on true
+  where auth.uid() in (c.buyer_id, c.seller_id)
+  order by c.last_message_at desc;
+$$;
+
+-- ============================================================
+-- Badge
+-- ============================================================
+
+create or replace function public.get_unread_message_count()
+returns integer
+language sql
+stable
+set search_path = public
+as $$
+  select count(*)::integer
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  where auth.uid() in (c.buyer_id, c.seller_id)
+    and m.sender_id <> auth.uid()
+    and m.read_at is null;
+$$;
+
+-- ============================================================
+-- Read receipts report how many messages they marked
+-- ============================================================
+
+drop function if exists public.mark_messages_read(uuid[]);
+
+-- Marks messages the current user has seen on screen as read and returns
+-- how many were unread, so the badge can count down without refetching.
+create or replace function public.mark_messages_read(p_message_ids uuid[])
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with marked as (
+    update public.messages m
+    set read_at = now(),
+        delivered_at = coalesce(m.delivered_at, now())
+    from public.conversations c
+    where c.id = m.conversation_id
+      and auth.uid() in (c.buyer_id, c.seller_id)
+      and m.sender_id <> auth.uid()
+      and m.read_at is null
+      and m.id = any (p_message_ids)
+    returning 1
+  )
+  select count(*)::integer from marked;
+$$;
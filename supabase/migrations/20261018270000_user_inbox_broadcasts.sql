@@ -0,0 +1,171 @@
+-- Per-user realtime inbox.
+--
+-- The unread badge used to subscribe to every INSERT on messages and
+-- filter by sender on the client, so every client asked for everyone's
+-- messages. Triggers now broadcast message and conversation changes to a
+-- private channel per participant, "user:<user id>", which only that user
+-- can join.
+--
+-- Events (payload):
+--   message_created       the new message row
+--   messages_updated      { conversation_id, read_count, last_message }
+--                         once per statement and conversation; read_count
+--                         is how many of the recipient's messages became
+--                         read
+--   conversation_updated  { conversation_id } for new conversations and
+--                         changes other than last_message_at
+
+-- ============================================================
+-- Channel access
+-- ============================================================
+
+drop policy if exists "Users can receive their inbox broadcasts"
+  on realtime.messages;
+create policy "Users can receive their inbox broadcasts"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'broadcast'
+    and realtime.topic() = 'user:' || auth.uid()::text
+  );
+
+-- No insert policy: only the database sends on these channels
+
+create or replace function public.broadcast_to_user(
+  p_user_id uuid,
+  p_event text,
+  p_payload jsonb
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  select realtime.send(p_payload, p_event, 'user:' || p_user_id::text, true);
+$$;
+
+revoke execute on function public.broadcast_to_user(uuid, text, jsonb)
+  from public, anon, authenticated;
+
+-- ============================================================
+-- Messages
+-- ============================================================
+
+create or replace function public.broadcast_message_created()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation public.conversations%rowtype;
+begin
+  select * into v_conversation
+  from public.conversations
+  where id = new.conversation_id;
+
+  perform public.broadcast_to_user(
+    v_conversation.buyer_id, 'message_created', to_jsonb(new)
+  );
+  perform public.broadcast_to_user(
+    v_conversation.seller_id, 'message_created', to_jsonb(new)
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists broadcast_message_created on public.messages;
+create trigger broadcast_message_created
+  after insert on public.messages
+  for each row execute function public.broadcast_message_created();
+
+-- Receipts, edits and unsends. Marking a screenful of messages read is one
+-- statement, so it is one event per participant rather than one per row.
+create or replace function public.broadcast_messages_updated()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  for r in
+    select
+      c.id as conversation_id,
+      p.user_id,
+      count(*) filter (
+        where o.read_at is null
+          and n.read_at is not null
+          and n.sender_id <> p.user_id
+      )::integer as read_count
+    from new_rows n
+    join old_rows o on o.id = n.id
+    join public.conversations c on c.id = n.conversation_id
+    cross join lateral (values (c.buyer_id), (c.seller_id)) p (user_id)
+    group by c.id, p.user_id
+  loop
+    perform public.broadcast_to_user(
+      r.user_id,
+      'messages_updated',
+      jsonb_build_object(
+        'conversation_id', r.conversation_id,
+        'read_count', r.read_count,
+        'last_message', (
+          select to_jsonb(m)
+          from public.messages m
+          where m.conversation_id = r.conversation_id
+          order by m.created_at desc, m.id desc
+          limit 1
+        )
+      )
+    );
+  end loop;
+  return null;
+end;
+$$;
+
+drop trigger if exists broadcast_messages_updated on public.messages;
+create trigger broadcast_messages_updated
+  after update on public.messages
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.broadcast_messages_updated();
+
+-- ============================================================
+-- Conversations
+-- ============================================================
+
+create or replace function public.broadcast_conversation_updated()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- last_message_at moves with every message, which message_created
+  -- already reports
+  if tg_op = 'UPDATE'
+    and to_jsonb(new) - 'last_message_at' = to_jsonb(old) - 'last_message_at'
+  then
+    return null;
+  end if;
+
+  perform public.broadcast_to_user(
+    new.buyer_id,
+    'conversation_updated',
+    jsonb_build_object('conversation_id', new.id)
+  );
+  perform public.broadcast_to_user(
+    new.seller_id,
+    'conversation_updated',
+    jsonb_build_object('conversation_id', new.id)
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists broadcast_conversation_updated on public.conversations;
+create trigger broadcast_conversation_updated
+  after insert or update on public.conversations
+  for each row execute function public.broadcast_conversation_updated();
@@ -0,0 +1,372 @@
+-- Pin, mute, archive and delete conversations, per user.
+--
+-- Each participant manages their own copy of a conversation; nothing here
+-- is visible to the other person. A missing row means the defaults
+-- (unpinned, unmuted, in the inbox).
+--
+--   pinned_at    listed above unpinned conversations
+--   muted_at     no badge increment and no message notifications
+--   archived_at  listed in the Archived view instead of the inbox
+--   deleted_at   "delete for me": earlier messages are hidden; the
+--                conversation reappears if a new message arrives
+
+-- ============================================================
+-- Table
+-- ============================================================
+
+create table if not exists public.conversation_user_states (
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  pinned_at timestamptz,
+  muted_at timestamptz,
+  archived_at timestamptz,
+  deleted_at timestamptz,
+  updated_at timestamptz not null default now(),
+  primary key (conversation_id, user_id)
+);
+
+create index if not exists idx_conversation_user_states_user
+  on public.conversation_user_states (user_id);
+
+alter table public.conversation_user_states enable row level security;
+
+drop policy if exists "Users can view their own conversation states"
+  on public.conversation_user_states;
+create policy "Users can view their own conversation states"
+  on public.conversation_user_states
+  for select
+  using (auth.uid() = user_id);
+
+-- Changes go through update_conversation_state / delete_conversation_for_me
+
+-- ============================================================
+-- Changing state
+-- ============================================================
+
+-- Pin, mute or archive a conversation for the current user. Null leaves a
+-- setting as it is.
+create or replace function public.update_conversation_state(
+  p_conversation_id uuid,
+  p_pinned boolean default null,
+  p_muted boolean default null,
+  p_archived boolean default null
+)
+returns public.conversation_user_states
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_state public.conversation_user_states;
+begin
+  if not exists (
+    select 1 from public.conversations c
+    where c.id = p_conversation_id
+      and auth.uid() in (c.buyer_id, c.seller_id)
+  ) then
+    raise exception 'Not a participant of this conversation'
+      using errcode = '42501';
+  end if;
+
+  insert into public.conversation_user_states (conversation_id, user_id)
+  values (p_conversation_id, auth.uid())
+  on conflict (conversation_id, user_id) do nothing;
+
+  update public.conversation_user_states s
+  set pinned_at = case
+        when p_pinned is null then s.pinned_at
+        when p_pinned then coalesce(s.pinned_at, now())
+      end,
+      muted_at = case
+        when p_muted is null then s.muted_at
+        when p_muted then coalesce(s.muted_at, now())
+      end,
+      archived_at = case
+        when p_archived is null then s.archived_at
+        when p_archived then coalesce(s.archived_at, now())
+      end,
+      updated_at = now()
+  where s.conversation_id = p_conversation_id
+    and s.user_id = auth.uid()
+  returning * into v_state;
+
+  return v_state;
+end;
+$$;
+
+-- Delete a conversation for the current user only: its messages so far
+-- are hidden from them, and it leaves their inbox until someone writes
+-- again. Pin and archive are cleared; mute is kept.
+create or replace function public.delete_conversation_for_me(
+  p_conversation_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.conversations c
+    where c.id = p_conversation_id
+      and auth.uid() in (c.buyer_id, c.seller_id)
+  ) then
+    raise exception 'Not a participant of this conversation'
+      using errcode = '42501';
+  end if;
+
+  insert into public.conversation_user_states
+    (conversation_id, user_id, deleted_at)
+  values (p_conversation_id, auth.uid(), now())
+  on conflict (conversation_id, user_id) do update
+  set deleted_at = now(),
+      pinned_at = null,
+      archived_at = null,
+      updated_at = now();
+end;
+$$;
+
+-- ============================================================
+-- Hiding deleted messages
+-- ============================================================
+
+drop policy if exists "Users cannot see messages they deleted"
+  on public.messages;
+create policy "Users cannot see messages they deleted"
+  on public.messages
+  as restrictive
+  for select
+  to authenticated
+  using (
+    not exists (
+      select 1 from public.conversation_user_states s
+      where s.conversation_id = messages.conversation_id
+        and s.user_id = auth.uid()
+        and s.deleted_at >= messages.created_at
+    )
+  );
+
+-- ============================================================
+-- Conversation list and badge
+-- ============================================================
+
+-- Adds the current user's pinned_at, muted_at and archived_at; pinned
+-- conversations come first. Deleted conversations are left out until they
+-- have a newer message (the messages policy hides older ones).
+create or replace function public.get_conversations()
+returns setof jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select
+    to_jsonb(c)
+    || jsonb_build_object(
+      'service', to_jsonb(s),
+      'buyer_profile', to_jsonb(bp),
+      'seller_profile', to_jsonb(sp),
+      'last_message', to_jsonb(lm),
+      'unread_count', coalesce(u.unread_count, 0),
+      'pinned_at', st.pinned_at,
+      'muted_at', st.muted_at,
+      'archived_at', st.archived_at
+    )
+  from public.conversations c
+  left join public.conversation_user_states st
+    on st.conversation_id = c.id and st.user_id = auth.uid()
+  left join public.services s on s.id = c.service_id
+  left join public.profiles bp on bp.id = c.buyer_id
+  left join public.profiles sp on sp.id = c.seller_id
+  left join lateral (
+    select m.*
+    from public.messages m
+    where m.conversation_id = c.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) lm on true
+  left join lateral (
+    select count(*)::integer as unread_count
+    from public.messages m
+    where m.conversation_id = c.id
+      and m.read_at is null
+      and m.sender_id <> auth.uid()
+  ) u on true
+  where auth.uid() in (c.buyer_id, c.seller_id)
+    and (st.deleted_at is null or lm.id is not null)
+  order by st.pinned_at desc nulls last, c.last_message_at desc;
+$$;
+
+-- Muted conversations don't count towards the badge
+create or replace function public.get_unread_message_count()
+returns integer
+language sql
+stable
+set search_path = public
+as $$
+  select count(*)::integer
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  left join public.conversation_user_states st
+    on st.conversation_id = c.id and st.user_id = auth.uid()
+  where auth.uid() in (c.buyer_id, c.seller_id)
+    and m.sender_id <> auth.uid()
+    and m.read_at is null
+    and st.muted_at is null;
+$$;
+
+-- ============================================================
+-- Inbox broadcasts carry the recipient's mute
+-- ============================================================
+
+create or replace function public.is_conversation_muted(
+  p_conversation_id uuid,
+  p_user_id uuid
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.conversation_user_states
+    where conversation_id = p_conversation_id
+      and user_id = p_user_id
+      and muted_at is not null
+  );
+$$;
+
+-- message_created payload is now { message, muted }
+create or replace function public.broadcast_message_created()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation public.conversations%rowtype;
+begin
+  select * into v_conversation
+  from public.conversations
+  where id = new.conversation_id;
+
+  perform public.broadcast_to_user(
+    v_conversation.buyer_id,
+    'message_created',
+    jsonb_build_object(
+      'message', to_jsonb(new),
+      'muted', public.is_conversation_muted(
+        new.conversation_id, v_conversation.buyer_id
+      )
+    )
+  );
+  perform public.broadcast_to_user(
+    v_conversation.seller_id,
+    'message_created',
+    jsonb_build_object(
+      'message', to_jsonb(new),
+      'muted', public.is_conversation_muted(
+        new.conversation_id, v_conversation.seller_id
+      )
+    )
+  );
+  return null;
+end;
+$$;
+
+-- messages_updated payload gains muted
+create or replace function public.broadcast_messages_updated()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  for r in
+    select
+      c.id as conversation_id,
+      p.user_id,
+      count(*) filter (
+        where o.read_at is null
+          and n.read_at is not null
+          and n.sender_id <> p.user_id
+      )::integer as read_count
+    from new_rows n
+    join old_rows o on o.id = n.id
+    join public.conversations c on c.id = n.conversation_id
+    cross join lateral (values (c.buyer_id), (c.seller_id)) p (user_id)
+    group by c.id, p.user_id
+  loop
+    perform public.broadcast_to_user(
+      r.user_id,
+      'messages_updated',
+      jsonb_build_object(
+        'conversation_id', r.conversation_id,
+        'read_count', r.read_count,
+        'muted', public.is_conversation_muted(r.conversation_id, r.user_id),
+        'last_message', (
+          select to_jsonb(m)
+          from public.messages m
+          where m.conversation_id = r.conversation_id
+          order by m.created_at desc, m.id desc
+          limit 1
+        )
+      )
+    );
+  end loop;
+  return null;
+end;
+$$;
+
+-- Lets the owner's other devices pick up pin / mute / archive / delete
+create or replace function public.broadcast_conversation_state()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.broadcast_to_user(
+    new.user_id,
+    'conversation_updated',
+    jsonb_build_object('conversation_id', new.conversation_id)
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists broadcast_conversation_state
+  on public.conversation_user_states;
+create trigger broadcast_conversation_state
+  after insert or update on public.conversation_user_states
+  for each row execute function public.broadcast_conversation_state();
+
+-- ============================================================
+-- No message notifications for muted conversations
+-- ============================================================
+
+create or replace function public.skip_muted_message_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.type = 'new_message'
+    and new.data ? 'conversation_id'
+    and public.is_conversation_muted(
+      (new.data->>'conversation_id')::uuid, new.user_id
+    )
+  then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists skip_muted_message_notification on public.notifications;
+create trigger skip_muted_message_notification
+  before insert on public.notifications
+  for each row execute function public.skip_muted_message_notification();
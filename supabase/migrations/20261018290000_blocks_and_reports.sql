@@ -0,0 +1,386 @@
+-- Blocking and reporting.
+--
+-- A user can block another user. The blocked user can no longer start a
+-- conversation with them, message them, comment on their services or
+-- react to their reviews; the blocker stops seeing the blocked user's
+-- reviews, comments and conversations. Neither side is told about the
+-- block beyond the refused action.
+--
+-- Anyone signed in can report a service, message, review, comment or
+-- profile. Reports land in public.reports, which is the moderation queue:
+-- moderators work it with the service role (e.g. from the dashboard);
+-- reporters only see their own reports.
+
+-- ============================================================
+-- Blocks
+-- ============================================================
+
+create table if not exists public.user_blocks (
+  blocker_id uuid not null references public.profiles (id) on delete cascade,
+  blocked_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (blocker_id, blocked_id),
+  constraint user_blocks_not_self check (blocker_id <> blocked_id)
+);
+
+create index if not exists idx_user_blocks_blocked
+  on public.user_blocks (blocked_id);
+
+alter table public.user_blocks enable row level security;
+
+drop policy if exists "Users can view who they blocked" on public.user_blocks;
+create policy "Users can view who they blocked"
+  on public.user_blocks
+  for select
+  using (auth.uid() = blocker_id);
+
+drop policy if exists "Users can block others" on public.user_blocks;
+create policy "Users can block others"
+  on public.user_blocks
+  for insert
+  with check (auth.uid() = blocker_id);
+
+drop policy if exists "Users can unblock others" on public.user_blocks;
+create policy "Users can unblock others"
+  on public.user_blocks
+  for delete
+  using (auth.uid() = blocker_id);
+
+-- Whether p_blocker has blocked p_blocked. Runs with definer rights so
+-- checks made on behalf of the blocked user can see the block.
+create or replace function public.has_blocked(
+  p_blocker uuid,
+  p_blocked uuid
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_blocks
+    where blocker_id = p_blocker
+      and blocked_id = p_blocked
+  );
+$$;
+
+-- Internal: would let anyone probe who has blocked whom
+revoke execute on function public.has_blocked(uuid, uuid) from public, anon, authenticated;
+
+-- ============================================================
+-- What a block prevents
+-- ============================================================
+
+-- Conversations and messages are refused in both directions: the blocker
+-- has to unblock before writing again.
+create or replace function public.prevent_blocked_conversation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.has_blocked(new.buyer_id, new.seller_id)
+    or public.has_blocked(new.seller_id, new.buyer_id)
+  then
+    raise exception 'You can''t message this user' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists prevent_blocked_conversation on public.conversations;
+create trigger prevent_blocked_conversation
+  before insert on public.conversations
+  for each row execute function public.prevent_blocked_conversation();
+
+create or replace function public.prevent_blocked_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_recipient uuid;
+begin
+  select case when c.buyer_id = new.sender_id then c.seller_id else c.buyer_id end
+  into v_recipient
+  from public.conversations c
+  where c.id = new.conversation_id;
+
+  if public.has_blocked(v_recipient, new.sender_id)
+    or public.has_blocked(new.sender_id, v_recipient)
+  then
+    raise exception 'You can''t message this user' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists prevent_blocked_message on public.messages;
+create trigger prevent_blocked_message
+  before insert on public.messages
+  for each row execute function public.prevent_blocked_message();
+
+create or replace function public.prevent_blocked_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.has_blocked(
+    (select s.user_id from public.services s where s.id = new.service_id),
+    new.user_id
+  ) then
+    raise exception 'You can''t comment on this service'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists prevent_blocked_comment on public.service_comments;
+create trigger prevent_blocked_comment
+  before insert on public.service_comments
+  for each row execute function public.prevent_blocked_comment();
+
+create or replace function public.prevent_blocked_review_reaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.has_blocked(
+    (select r.user_id from public.reviews r where r.id = new.review_id),
+    new.user_id
+  ) then
+    raise exception 'You can''t react to this review' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists prevent_blocked_review_reaction on public.review_reactions;
+create trigger prevent_blocked_review_reaction
+  before insert on public.review_reactions
+  for each row execute function public.prevent_blocked_review_reaction();
+
+-- ============================================================
+-- Hiding blocked users' content from the blocker
+-- ============================================================
+
+drop policy if exists "Users don't see reviews by people they blocked"
+  on public.reviews;
+create policy "Users don't see reviews by people they blocked"
+  on public.reviews
+  as restrictive
+  for select
+  using (
+    not exists (
+      select 1 from public.user_blocks b
+      where b.blocker_id = auth.uid()
+        and b.blocked_id = reviews.user_id
+    )
+  );
+
+drop policy if exists "Users don't see comments by people they blocked"
+  on public.service_comments;
+create policy "Users don't see comments by people they blocked"
+  on public.service_comments
+  as restrictive
+  for select
+  using (
+    not exists (
+      select 1 from public.user_blocks b
+      where b.blocker_id = auth.uid()
+        and b.blocked_id = service_comments.user_id
+    )
+  );
+
+-- Same as before, leaving out conversations with people the current user
+-- blocked
+create or replace function public.get_conversations()
+returns setof jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select
+    to_jsonb(c)
+    || jsonb_build_object(
+      'service', to_jsonb(s),
+      'buyer_profile', to_jsonb(bp),
+      'seller_profile', to_jsonb(sp),
+      'last_message', to_jsonb(lm),
+      'unread_count', coalesce(u.unread_count, 0),
+      'pinned_at', st.pinned_at,
+      'muted_at', st.muted_at,
+      'archived_at', st.archived_at
+    )
+  from public.conversations c
+  left join public.conversation_user_states st
+    on st.conversation_id = c.id and st.user_id = auth.uid()
+  left join public.services s on s.id = c.service_id
+  left join public.profiles bp on bp.id = c.buyer_id
+  left join public.profiles sp on sp.id = c.seller_id
+  left join lateral (
+    select m.*
+    from public.messages m
+    where m.conversation_id = c.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) lm on true
+  left join lateral (
+    select count(*)::integer as unread_count
+    from public.messages m
+    where m.conversation_id = c.id
+      and m.read_at is null
+      and m.sender_id <> auth.uid()
+  ) u on true
+  where auth.uid() in (c.buyer_id, c.seller_id)
+    and (st.deleted_at is null or lm.id is not null)
+    and not exists (
+      select 1 from public.user_blocks b
+      where b.blocker_id = auth.uid()
+        and b.blocked_id in (c.buyer_id, c.seller_id)
+    )
+  order by st.pinned_at desc nulls last, c.last_message_at desc;
+$$;
+
+create or replace function public.get_unread_message_count()
+returns integer
+language sql
+stable
+set search_path = public
+as $$
+  select count(*)::integer
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  left join public.conversation_user_states st
+    on st.conversation_id = c.id and st.user_id = auth.uid()
+  where auth.uid() in (c.buyer_id, c.seller_id)
+    and m.sender_id <> auth.uid()
+    and m.read_at is null
+    and st.muted_at is null
+    and not exists (
+      select 1 from public.user_blocks b
+      where b.blocker_id = auth.uid()
+        and b.blocked_id = m.sender_id
+    );
+$$;
+
+-- ============================================================
+-- Reports (moderation queue)
+-- ============================================================
+
+create table if not exists public.reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid not null default auth.uid()
+    references public.profiles (id) on delete cascade,
+  entity_type text not null
+    check (entity_type in ('service', 'message', 'review', 'comment', 'profile')),
+  entity_id uuid not null,
+  -- Author or owner of the reported entity, filled in on insert
+  reported_user_id uuid references public.profiles (id) on delete set null,
+  reason text not null
+    check (reason in ('spam', 'scam', 'harassment', 'inappropriate', 'impersonation', 'other')),
+  details text check (char_length(details) <= 1000),
+  -- The entity as it was when reported, in case it is edited or deleted
+  entity_snapshot jsonb,
+  status text not null default 'open'
+    check (status in ('open', 'reviewing', 'actioned', 'dismissed')),
+  moderator_note text,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint reports_once_per_entity unique (reporter_id, entity_type, entity_id)
+);
+
+create index if not exists idx_reports_queue
+  on public.reports (status, created_at);
+create index if not exists idx_reports_reported_user
+  on public.reports (reported_user_id);
+
+alter table public.reports enable row level security;
+
+drop policy if exists "Users can view their own reports" on public.reports;
+create policy "Users can view their own reports"
+  on public.reports
+  for select
+  using (auth.uid() = reporter_id);
+
+drop policy if exists "Users can submit reports" on public.reports;
+create policy "Users can submit reports"
+  on public.reports
+  for insert
+  with check (auth.uid() = reporter_id);
+
+-- Fills in who is reported and a snapshot of the entity. The reporter must
+-- be able to see what they report (messages: only their own
+-- conversations) and cannot report themselves.
+create or replace function public.prepare_report()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner uuid;
+  v_snapshot jsonb;
+begin
+  new.reporter_id := auth.uid();
+  new.status := 'open';
+  new.moderator_note := null;
+  new.resolved_at := null;
+  new.details := nullif(btrim(coalesce(new.details, '')), '');
+
+  if new.reason = 'other' and new.details is null then
+    raise exception 'Please describe the problem' using errcode = '22023';
+  end if;
+
+  case new.entity_type
+    when 'service' then
+      select s.user_id, to_jsonb(s) into v_owner, v_snapshot
+      from public.services s
+      where s.id = new.entity_id;
+    when 'message' then
+      select m.sender_id, to_jsonb(m) into v_owner, v_snapshot
+      from public.messages m
+      join public.conversations c on c.id = m.conversation_id
+      where m.id = new.entity_id
+        and auth.uid() in (c.buyer_id, c.seller_id);
+    when 'review' then
+      select r.user_id, to_jsonb(r) into v_owner, v_snapshot
+      from public.reviews r
+      where r.id = new.entity_id;
+    when 'comment' then
+      select sc.user_id, to_jsonb(sc) into v_owner, v_snapshot
+      from public.service_comments sc
+      where sc.id = new.entity_id;
+    when 'profile' then
+      select p.id, to_jsonb(p) into v_owner, v_snapshot
+      from public.profiles p
+      where p.id = new.entity_id;
+    else
+      raise exception 'Unknown report type' using errcode = '22023';
+  end case;
+
+  if v_owner is null then
+    raise exception 'Reported content not found' using errcode = '22023';
+  end if;
+  if v_owner = auth.uid() then
+    raise exception 'You can''t report yourself' using errcode = '22023';
+  end if;
+
+  new.reported_user_id := v_owner;
+  new.entity_snapshot := v_snapshot;
+  return new;
+end;
+$$;
+
+drop trigger if exists prepare_report on public.reports;
+create trigger prepare_report
+  before insert on public.reports
+  for each row execute function public.prepare_report();
@@ -0,0 +1,402 @@
+-- Price quotes in chat.
+--
+-- A provider sends a quote in a conversation: line items, a total, how
+-- long it is valid and optional notes. The other participant can accept
+-- it, decline it or counter with a quote of their own, which the provider
+-- can in turn accept, decline or counter.
+--
+--   pending → accepted | declined | countered
+--
+-- Sending a quote posts a message carrying it (messages.quote_id), so it
+-- shows in the conversation. An accepted quote is recorded on the
+-- conversation (accepted_quote_id). Transitions are enforced by triggers,
+-- so clients insert and update quotes directly. Every change is broadcast
+-- to both participants' inbox channels as "quote_updated".
+--
+-- Each line item is a JSON object:
+--   description  text
+--   quantity     number > 0
+--   unit_price   number >= 0
+
+-- ============================================================
+-- Tables
+-- ============================================================
+
+create table if not exists public.quotes (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  service_id uuid references public.services (id) on delete set null,
+  provider_id uuid not null references public.profiles (id) on delete cascade,
+  buyer_id uuid not null references public.profiles (id) on delete cascade,
+  -- Provider for a first quote; either side for a counter
+  created_by uuid not null references public.profiles (id) on delete cascade,
+  -- The quote this one counters
+  parent_quote_id uuid references public.quotes (id) on delete set null,
+  line_items jsonb not null,
+  total numeric(12,2) not null check (total >= 0),
+  valid_until timestamptz not null,
+  notes text check (notes is null or length(notes) <= 1000),
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'countered')),
+  responded_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_quotes_conversation
+  on public.quotes (conversation_id, created_at desc);
+
+-- The message exists only to show the quote, so it goes with it
+alter table public.messages
+  add column if not exists quote_id uuid references public.quotes (id) on delete cascade;
+
+-- A quote message has no text of its own
+alter table public.messages
+  drop constraint if exists messages_content_check;
+alter table public.messages
+  add constraint messages_content_check
+  check (
+    length(trim(content)) > 0
+    or jsonb_array_length(attachments) > 0
+    or deleted_at is not null
+    or quote_id is not null
+  );
+
+alter table public.conversations
+  add column if not exists accepted_quote_id uuid references public.quotes (id) on delete set null;
+
+-- ============================================================
+-- New quotes
+-- ============================================================
+
+-- Fills in the parties and total from the conversation and line items;
+-- checks who may quote. Counters must answer a pending, unexpired quote
+-- sent by the other participant.
+create or replace function public.prepare_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation public.conversations%rowtype;
+  v_parent public.quotes%rowtype;
+begin
+  select * into v_conversation
+  from public.conversations
+  where id = new.conversation_id;
+
+  if v_conversation.id is null
+    or auth.uid() not in (v_conversation.buyer_id, v_conversation.seller_id)
+  then
+    raise exception 'Not a participant of this conversation'
+      using errcode = '42501';
+  end if;
+
+  new.created_by := auth.uid();
+  new.service_id := v_conversation.service_id;
+  new.provider_id := v_conversation.seller_id;
+  new.buyer_id := v_conversation.buyer_id;
+  new.status := 'pending';
+  new.responded_at := null;
+  new.created_at := now();
+  new.notes := nullif(btrim(coalesce(new.notes, '')), '');
+
+  if new.parent_quote_id is null then
+    if auth.uid() <> v_conversation.seller_id then
+      raise exception 'Only the provider can send a quote'
+        using errcode = '42501';
+    end if;
+  else
+    select * into v_parent
+    from public.quotes
+    where id = new.parent_quote_id;
+
+    if v_parent.id is null
+      or v_parent.conversation_id <> new.conversation_id
+      or v_parent.created_by = auth.uid()
+    then
+      raise exception 'You can only counter a quote you received'
+        using errcode = '42501';
+    end if;
+    if v_parent.status <> 'pending' or v_parent.valid_until < now() then
+      raise exception 'This quote can no longer be countered'
+        using errcode = '22023';
+    end if;
+  end if;
+
+  if jsonb_typeof(new.line_items) is distinct from 'array'
+    or jsonb_array_length(new.line_items) = 0
+    or jsonb_array_length(new.line_items) > 50
+  then
+    raise exception 'A quote needs between 1 and 50 line items'
+      using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(new.line_items) li
+    where jsonb_typeof(li) <> 'object'
+      or btrim(coalesce(li->>'description', '')) = ''
+      or length(li->>'description') > 200
+      or jsonb_typeof(li->'quantity') <> 'number'
+      or (li->>'quantity')::numeric <= 0
+      or jsonb_typeof(li->'unit_price') <> 'number'
+      or (li->>'unit_price')::numeric < 0
+  ) then
+    raise exception 'Invalid quote line item' using errcode = '22023';
+  end if;
+
+  if new.valid_until <= now() then
+    raise exception 'A quote must be valid for some time'
+      using errcode = '22023';
+  end if;
+
+  select round(sum((li->>'quantity')::numeric * (li->>'unit_price')::numeric), 2)
+  into new.total
+  from jsonb_array_elements(new.line_items) li;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists prepare_quote on public.quotes;
+create trigger prepare_quote
+  before insert on public.quotes
+  for each row execute function public.prepare_quote();
+
+-- Posts the quote in the conversation and marks the quote it counters
+create or replace function public.post_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.parent_quote_id is not null then
+    update public.quotes
+    set status = 'countered'
+    where id = new.parent_quote_id;
+  end if;
+
+  insert into public.messages (conversation_id, sender_id, content, quote_id)
+  values (new.conversation_id, new.created_by, '', new.id);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists post_quote on public.quotes;
+create trigger post_quote
+  after insert on public.quotes
+  for each row execute function public.post_quote();
+
+-- ============================================================
+-- Responses
+-- ============================================================
+
+create or replace function public.validate_quote_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+begin
+  if new.conversation_id is distinct from old.conversation_id
+     or new.service_id is distinct from old.service_id
+     or new.provider_id is distinct from old.provider_id
+     or new.buyer_id is distinct from old.buyer_id
+     or new.created_by is distinct from old.created_by
+     or new.parent_quote_id is distinct from old.parent_quote_id
+     or new.line_items is distinct from old.line_items
+     or new.total is distinct from old.total
+     or new.valid_until is distinct from old.valid_until
+     or new.notes is distinct from old.notes
+     or new.created_at is distinct from old.created_at then
+    raise exception 'A sent quote cannot be changed; send a counter instead'
+      using errcode = '42501';
+  end if;
+
+  if new.status = old.status then
+    new.responded_at := old.responded_at;
+    return new;
+  end if;
+
+  if old.status <> 'pending' then
+    raise exception 'This quote was already answered' using errcode = '22023';
+  end if;
+
+  -- Countering happens by inserting the counter (post_quote)
+  if new.status = 'countered' then
+    if not exists (
+      select 1 from public.quotes q where q.parent_quote_id = old.id
+    ) then
+      raise exception 'Send a counter quote to counter' using errcode = '22023';
+    end if;
+  elsif v_actor is null
+    or v_actor = old.created_by
+    or v_actor not in (old.buyer_id, old.provider_id)
+  then
+    raise exception 'Only the recipient can answer a quote'
+      using errcode = '42501';
+  elsif old.valid_until < now() then
+    raise exception 'This quote has expired' using errcode = '22023';
+  end if;
+
+  new.responded_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists validate_quote_update on public.quotes;
+create trigger validate_quote_update
+  before update on public.quotes
+  for each row execute function public.validate_quote_update();
+
+create or replace function public.record_accepted_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.conversations
+  set accepted_quote_id = new.id
+  where id = new.conversation_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists record_accepted_quote on public.quotes;
+create trigger record_accepted_quote
+  after update of status on public.quotes
+  for each row
+  when (new.status = 'accepted' and old.status <> 'accepted')
+  execute function public.record_accepted_quote();
+
+-- ============================================================
+-- Realtime
+-- ============================================================
+
+create or replace function public.broadcast_quote_updated()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.broadcast_to_user(new.provider_id, 'quote_updated', to_jsonb(new));
+  perform public.broadcast_to_user(new.buyer_id, 'quote_updated', to_jsonb(new));
+  return null;
+end;
+$$;
+
+drop trigger if exists broadcast_quote_updated on public.quotes;
+create trigger broadcast_quote_updated
+  after insert or update on public.quotes
+  for each row execute function public.broadcast_quote_updated();
+
+-- ============================================================
+-- Quote messages
+-- ============================================================
+
+-- A quote message has no text of its own
+create or replace function public.validate_message_attachments()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if jsonb_typeof(new.attachments) is distinct from 'array' then
+    raise exception 'Attachments must be an array' using errcode = '22023';
+  end if;
+
+  if jsonb_array_length(new.attachments) > 10 then
+    raise exception 'A message can have at most 10 attachments'
+      using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(new.attachments) a
+    where jsonb_typeof(a) <> 'object'
+      or coalesce(a->>'kind', '') not in ('image', 'video', 'file')
+      or coalesce(a->>'url', '') !~ '^https?://\S+/storage/v1/object/public/chat-images/\S+$'
+      or (a ? 'thumbnail_url' and a->>'thumbnail_url' is not null
+          and a->>'thumbnail_url' !~ '^https?://\S+/storage/v1/object/public/chat-images/\S+$')
+      or (a->>'size' is not null and jsonb_typeof(a->'size') <> 'number')
+      or (a->>'width' is not null and jsonb_typeof(a->'width') <> 'number')
+      or (a->>'height' is not null and jsonb_typeof(a->'height') <> 'number')
+  ) then
+    raise exception 'Invalid message attachment' using errcode = '22023';
+  end if;
+
+  if new.deleted_at is null
+    and new.quote_id is null
+    and btrim(coalesce(new.content, '')) = ''
+    and jsonb_array_length(new.attachments) = 0 then
+    raise exception 'Message is empty' using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Only post_quote attaches quotes, and quote messages can't be edited or
+-- unsent (the quote would stay live without its message)
+create or replace function public.guard_quote_message()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.quote_id is not null and not exists (
+      select 1 from public.quotes q
+      where q.id = new.quote_id
+        and q.conversation_id = new.conversation_id
+        and q.created_by = new.sender_id
+        and not exists (
+          select 1 from public.messages m where m.quote_id = q.id
+        )
+    ) then
+      raise exception 'Invalid quote message' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if new.quote_id is distinct from old.quote_id
+     or (old.quote_id is not null
+         and (new.content is distinct from old.content
+              or new.deleted_at is distinct from old.deleted_at)) then
+    raise exception 'Quote messages cannot be changed' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_quote_message on public.messages;
+create trigger guard_quote_message
+  before insert or update on public.messages
+  for each row execute function public.guard_quote_message();
+
+alter table public.quotes enable row level security;
+
+drop policy if exists "Quote parties can view quotes" on public.quotes;
+create policy "Quote parties can view quotes"
+  on public.quotes for select
+  to authenticated
+  using (auth.uid() in (buyer_id, provider_id));
+
+drop policy if exists "Conversation participants can send quotes"
+  on public.quotes;
+create policy "Conversation participants can send quotes"
+  on public.quotes for insert
+  to authenticated
+  with check (created_by = auth.uid());
+
+drop policy if exists "Quote parties can answer quotes" on public.quotes;
+create policy "Quote parties can answer quotes"
+  on public.quotes for update
+  to authenticated
+  using (auth.uid() in (buyer_id, provider_id));
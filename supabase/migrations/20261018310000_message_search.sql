@@ -0,0 +1,98 @@
+-- Full-text search of the current user's messages.
+--
+-- Messages get a search_vector kept up to date by a trigger (edits and
+-- unsends re-index them) and a GIN index. search_messages() runs with the
+-- caller's rights, so the messages RLS policies decide what can be found:
+-- only conversations the user takes part in, without messages they deleted
+-- for themselves. Conversations with people they blocked and unsent
+-- messages are left out as well.
+--
+-- The 'simple' configuration is used instead of 'english': messages are
+-- full of names, addresses and Filipino words that stemming would mangle.
+
+-- ============================================================
+-- search_vector column
+-- ============================================================
+
+alter table public.messages
+  add column if not exists search_vector tsvector;
+
+create or replace function public.update_message_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := to_tsvector('simple', coalesce(new.content, ''));
+  return new;
+end;
+$$;
+
+drop trigger if exists trigger_update_message_search_vector on public.messages;
+create trigger trigger_update_message_search_vector
+  before insert or update of content on public.messages
+  for each row execute function public.update_message_search_vector();
+
+-- Backfill existing rows
+update public.messages
+   set search_vector = to_tsvector('simple', coalesce(content, ''))
+ where search_vector is null;
+
+create index if not exists idx_messages_search_vector
+  on public.messages using gin (search_vector);
+
+-- ============================================================
+-- Query parsing
+-- ============================================================
+
+-- Same as build_service_search_query, with the 'simple' configuration:
+-- "Rizal st." → 'rizal':* & 'st':*
+create or replace function public.build_message_search_query(p_query text)
+returns tsquery
+language sql
+immutable
+as $$
+  select to_tsquery(
+    'simple',
+    string_agg(quote_literal(word) || ':*', ' & ')
+  )
+  from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') as word
+  where word <> '';
+$$;
+
+-- ============================================================
+-- search_messages RPC
+-- ============================================================
+
+-- Messages matching p_query in the current user's conversations, newest
+-- first. Pass the last row's created_at and id as p_cursor_created_at /
+-- p_cursor_id to fetch the next page. Returns nothing when the query has
+-- no searchable words.
+create or replace function public.search_messages(
+  p_query text,
+  p_limit integer default 30,
+  p_cursor_created_at timestamptz default null,
+  p_cursor_id uuid default null
+)
+returns setof public.messages
+language sql
+stable
+set search_path = public
+as $$
+  select m.*
+  from public.messages m
+  join public.conversations c on c.id = m.conversation_id
+  where m.search_vector @@ public.build_message_search_query(p_query)
+    and m.deleted_at is null
+    and auth.uid() in (c.buyer_id, c.seller_id)
+    and not exists (
+      select 1 from public.user_blocks b
+      where b.blocker_id = auth.uid()
+        and b.blocked_id in (c.buyer_id, c.seller_id)
+    )
+    and (
+      p_cursor_created_at is null
+      or (m.created_at, m.id) < (p_cursor_created_at, p_cursor_id)
+    )
+  order by m.created_at desc, m.id desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+$$;
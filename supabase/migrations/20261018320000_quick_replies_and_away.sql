@@ -0,0 +1,209 @@
+-- Quick replies and away messages for providers.
+--
+-- Quick replies are a provider's saved answers, inserted from the chat
+-- composer. Both they and the away message may contain variables, filled
+-- in for the conversation at hand:
+--
+--   {buyer_first_name}  the buyer's first name ("there" when unknown)
+--   {service_title}     the title of the service the chat is about
+--
+-- The away message is sent automatically, as the provider, in reply to
+-- the first message of a new conversation that arrives outside their
+-- working hours or on a blackout day. Providers without working hours
+-- only get it on blackout days. Auto-replies are flagged
+-- (messages.auto_reply) so chats can label them; clients can't send them.
+
+-- ============================================================
+-- Quick replies
+-- ============================================================
+
+create table if not exists public.quick_replies (
+  id uuid primary key default gen_random_uuid(),
+  provider_id uuid not null default auth.uid()
+    references public.profiles (id) on delete cascade,
+  title text not null check (length(btrim(title)) between 1 and 60),
+  body text not null check (length(btrim(body)) between 1 and 1000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_quick_replies_provider
+  on public.quick_replies (provider_id, created_at);
+
+alter table public.quick_replies enable row level security;
+
+drop policy if exists "Providers can manage their quick replies"
+  on public.quick_replies;
+create policy "Providers can manage their quick replies"
+  on public.quick_replies for all
+  to authenticated
+  using (provider_id = auth.uid())
+  with check (provider_id = auth.uid());
+
+-- ============================================================
+-- Away message
+-- ============================================================
+
+alter table public.profiles
+  add column if not exists away_enabled boolean not null default false,
+  add column if not exists away_message text
+    check (away_message is null or length(away_message) <= 1000);
+
+alter table public.messages
+  add column if not exists auto_reply boolean not null default false;
+
+-- Fills in the template variables for a buyer and service
+create or replace function public.fill_message_template(
+  p_template text,
+  p_buyer_id uuid,
+  p_service_id uuid
+)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select replace(
+    replace(
+      p_template,
+      '{buyer_first_name}',
+      coalesce(
+        nullif(btrim((select first_name from public.profiles where id = p_buyer_id)), ''),
+        'there'
+      )
+    ),
+    '{service_title}',
+    coalesce(
+      (select title from public.services where id = p_service_id),
+      'this service'
+    )
+  );
+$$;
+
+-- True when p_at falls inside the provider's working hours on a day that
+-- isn't blacked out. Providers without working hours are open every day
+-- they haven't blacked out.
+create or replace function public.is_provider_open(
+  p_provider_id uuid,
+  p_at timestamptz
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with local_now as (
+    select p_at at time zone p.timezone as at
+    from public.profiles p
+    where p.id = p_provider_id
+  )
+  select
+    not exists (
+      select 1
+      from public.provider_blackout_dates b, local_now ln
+      where b.provider_id = p_provider_id
+        and ln.at::date between b.starts_on and b.ends_on
+    )
+    and (
+      not exists (
+        select 1 from public.provider_working_hours
+        where provider_id = p_provider_id
+      )
+      or exists (
+        select 1
+        from public.provider_working_hours wh, local_now ln
+        where wh.provider_id = p_provider_id
+          and wh.weekday = extract(dow from ln.at)
+          and ln.at::time >= wh.start_time
+          and ln.at::time < wh.end_time
+      )
+    );
+$$;
+
+create or replace function public.send_away_reply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation public.conversations%rowtype;
+  v_message text;
+begin
+  select * into v_conversation
+  from public.conversations
+  where id = new.conversation_id;
+
+  -- Only the buyer's opening message
+  if new.sender_id <> v_conversation.buyer_id
+    or exists (
+      select 1 from public.messages m
+      where m.conversation_id = new.conversation_id
+        and m.id <> new.id
+    )
+  then
+    return null;
+  end if;
+
+  select btrim(away_message) into v_message
+  from public.profiles
+  where id = v_conversation.seller_id
+    and away_enabled;
+
+  if coalesce(v_message, '') = ''
+    or public.is_provider_open(v_conversation.seller_id, now())
+  then
+    return null;
+  end if;
+
+  -- clock_timestamp() keeps the reply after the message it answers
+  insert into public.messages (
+    conversation_id, sender_id, content, auto_reply, created_at
+  )
+  values (
+    new.conversation_id,
+    v_conversation.seller_id,
+    public.fill_message_template(
+      v_message, v_conversation.buyer_id, v_conversation.service_id
+    ),
+    true,
+    clock_timestamp()
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists send_away_reply on public.messages;
+create trigger send_away_reply
+  after insert on public.messages
+  for each row
+  when (not new.auto_reply)
+  execute function public.send_away_reply();
+
+-- Auto-replies come from send_away_reply only
+create or replace function public.guard_auto_reply()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.auto_reply and new.sender_id = auth.uid() then
+      raise exception 'Auto-replies are sent by the server'
+        using errcode = '42501';
+    end if;
+  elsif new.auto_reply is distinct from old.auto_reply then
+    raise exception 'A message cannot change into an auto-reply'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_auto_reply on public.messages;
+create trigger guard_auto_reply
+  before insert or update on public.messages
+  for each row execute function public.guard_auto_reply();
@@ -0,0 +1,106 @@
+-- Provider-level conversations and switchable service context.
+--
+-- A conversation used to belong to exactly one service, and the client
+-- reused the buyer's thread for that service forever: a returning buyer
+-- booking a second job landed in the old thread, and there was no way to
+-- contact a provider without picking one of their services.
+--
+-- service_id is now optional (null = a general conversation with the
+-- provider) and a buyer can have several threads with the same provider.
+-- Either participant can switch the service a thread concerns until its
+-- job is marked done; after that the thread stays tied to the service it
+-- made reviewable, and a new job starts a new thread.
+
+-- ============================================================
+-- Columns and constraints
+-- ============================================================
+
+alter table public.conversations
+  alter column service_id drop not null;
+
+-- One thread per buyer and service is no longer the rule
+alter table public.conversations
+  drop constraint if exists conversations_service_id_buyer_id_key;
+alter table public.conversations
+  drop constraint if exists conversations_buyer_id_service_id_key;
+
+-- Finding a buyer's open thread with a provider
+create index if not exists conversations_buyer_seller_idx
+  on public.conversations (buyer_id, seller_id, last_message_at desc);
+
+-- ============================================================
+-- Validation
+-- ============================================================
+
+-- The service must be one of the provider's, and a thread whose job is
+-- done keeps its service (review eligibility is based on it)
+create or replace function public.validate_conversation_service()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    if new.service_id is not distinct from old.service_id then
+      return new;
+    end if;
+    if old.job_completed_at is not null then
+      raise exception 'This job is done; start a new conversation for another one'
+        using errcode = '22023';
+    end if;
+  end if;
+
+  if new.service_id is not null and not exists (
+    select 1 from public.services
+    where id = new.service_id
+      and user_id = new.seller_id
+      and status <> 'deleted'
+  ) then
+    raise exception 'Service is not offered by this provider'
+      using errcode = '22023';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists validate_conversation_service on public.conversations;
+create trigger validate_conversation_service
+  before insert or update of service_id on public.conversations
+  for each row execute function public.validate_conversation_service();
+
+-- ============================================================
+-- Switching context
+-- ============================================================
+
+-- Sets the service a conversation concerns, or null for none. Either
+-- participant; both are told through conversation_updated.
+create or replace function public.set_conversation_service(
+  p_conversation_id uuid,
+  p_service_id uuid
+)
+returns public.conversations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation public.conversations;
+begin
+  update public.conversations
+  set service_id = p_service_id
+  where id = p_conversation_id
+    and auth.uid() in (buyer_id, seller_id)
+  returning * into v_conversation;
+
+  if not found then
+    raise exception 'Conversation not found or current user is not a participant'
+      using errcode = '42501';
+  end if;
+
+  return v_conversation;
+end;
+$$;
+
+grant execute on function public.set_conversation_service(uuid, uuid) to authenticated;